@@ -7,6 +7,8 @@
  */
 export {
 	REGEX_PATTERNS,
+	REGEX_PATTERN_NAMES,
+	NATIONAL_ID_PATTERNS,
 	HUMAN_PATTERNS,
 	PATTERN_KEYWORDS,
 	COMMON_PASSWORDS,
@@ -20,3 +22,9 @@ export {
 	VALIDATION_KEYWORDS,
 	LENGTH_PATTERNS,
 } from './src/constants/validation.js';
+
+export { PHONE_METADATA } from './src/constants/phone.js';
+export { POSTAL_CODE_FORMATS } from './src/constants/postal.js';
+export { PASSWORD_POLICY_PRESETS } from './src/constants/passwordPolicies.js';
+export { PASSPHRASE_WORDS } from './src/constants/passphraseWords.js';
+export { PASSWORD_MESSAGES } from './src/constants/passwordMessages.js';
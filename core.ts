@@ -5,8 +5,10 @@
  * @group RGex Builder
  * @author duongnguyen321 - https://duonguyen.site
  */
-export type { RegexBuilderOptions } from './types/index.js';
+export type { RegexBuilderOptions, RegexNode } from './types/index.js';
 export { RGex } from './src/core/RGex.js';
+export { serializeNode } from './src/core/ast.js';
+export { parseRegex } from './src/core/parser.js';
 export { RGEX_CONFIG } from './src/config/index.js';
 
 // Import for local use
@@ -20,4 +22,14 @@ export function rgex(pattern?: string, options?: RegexBuilderOptions): RGex {
 	return new RGex(pattern, options);
 }
 
+/**
+ * Factory function to create an immutable `RGex` instance (`RGex.immutable()`).
+ */
+rgex.frozen = function frozen(
+	pattern?: string,
+	options?: RegexBuilderOptions
+): RGex {
+	return RGex.immutable(pattern, options);
+};
+
 export default RGex;
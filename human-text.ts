@@ -8,7 +8,13 @@
 export type {
 	HumanTextPattern,
 	TextExtractionResult,
+	TextToRegexOptions,
+	SampleResult,
+	RegexCandidate,
 	ValidationExtractionResult,
+	TextParserFunction,
+	TextParserDefinition,
+	RegisteredParser,
 } from './types/index.js';
 export {
 	parseHumanTextToRegex,
@@ -26,3 +32,8 @@ export {
 	t2r,
 	t2v,
 } from './src/utils/humanText.js';
+export {
+	registerParser,
+	unregisterParser,
+	getRegisteredParsers,
+} from './src/utils/parserRegistry.js';
@@ -8,12 +8,39 @@
 export type {
 	PasswordValidationOptions,
 	PasswordValidationResult,
+	BreachSource,
+	PasswordContext,
+	PasswordPolicyPreset,
+	PasswordPolicyRules,
+	PassphraseOptions,
+	GeneratedPassphrase,
+	PasswordFeedbackCode,
+	PasswordFeedbackParams,
+	PasswordFeedbackItem,
+	PasswordFeedback,
+	PasswordMessageKey,
+	PasswordMessage,
+	PasswordMessageCatalog,
 } from './types/index.js';
 export {
 	validatePassword,
+	validatePasswordAsync,
 	hasSequentialChars,
 	hasRepeatingChars,
 	hasCommonWords,
+	findKeyboardPattern,
 	getPasswordSuggestions,
-	generateStrongPassword,
 } from './src/utils/password.js';
+export {
+	generateStrongPassword,
+	generatePassphrase,
+} from './src/utils/passwordGenerator.js';
+export { isBreached, setBreachSource } from './src/utils/breach.js';
+export { PasswordPolicy } from './src/utils/passwordPolicy.js';
+export {
+	registerPasswordMessages,
+	formatPasswordMessage,
+} from './src/utils/passwordMessages.js';
+export { PASSWORD_POLICY_PRESETS } from './src/constants/passwordPolicies.js';
+export { PASSPHRASE_WORDS } from './src/constants/passphraseWords.js';
+export { PASSWORD_MESSAGES } from './src/constants/passwordMessages.js';
@@ -26,7 +26,9 @@ export const RGEX_CONFIG = {
 			noSequential: false,
 			noRepeating: false,
 			noCommonWords: false,
+			noBreached: false,
 			customPattern: undefined,
+			locale: 'en',
 		},
 
 		humanTextConfidence: {
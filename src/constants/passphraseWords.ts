@@ -0,0 +1,1039 @@
+/**
+ * @fileoverview RGex Passphrase Words - Word list for diceware-style passphrases
+ * @module Constants
+ * @category Constants
+ * @group Password Validation
+ * @author duongnguyen321 - https://duonguyen.site
+ */
+
+/**
+ * 1024 short, common English words for `generatePassphrase`, so each word adds exactly
+ * 10 bits of entropy. No word is a prefix of another, which keeps passphrases
+ * unambiguous even without a separator.
+ */
+export const PASSPHRASE_WORDS: string[] = [
+	'able',
+	'acid',
+	'acorn',
+	'actor',
+	'adapt',
+	'add',
+	'adopt',
+	'adult',
+	'affix',
+	'agent',
+	'agile',
+	'agree',
+	'ahead',
+	'aid',
+	'air',
+	'aisle',
+	'alarm',
+	'alert',
+	'algae',
+	'alibi',
+	'alien',
+	'align',
+	'alive',
+	'alley',
+	'allow',
+	'almond',
+	'aloft',
+	'alone',
+	'aloud',
+	'alpha',
+	'amber',
+	'amend',
+	'amid',
+	'amuse',
+	'angel',
+	'anger',
+	'ankle',
+	'annex',
+	'apart',
+	'apex',
+	'apple',
+	'apron',
+	'arch',
+	'arena',
+	'arise',
+	'armor',
+	'aroma',
+	'array',
+	'arrow',
+	'ash',
+	'aside',
+	'ask',
+	'asset',
+	'atlas',
+	'atom',
+	'audio',
+	'audit',
+	'autumn',
+	'avid',
+	'avoid',
+	'award',
+	'aware',
+	'awful',
+	'bacon',
+	'badge',
+	'baker',
+	'balmy',
+	'bamboo',
+	'barn',
+	'baron',
+	'basil',
+	'basket',
+	'batch',
+	'baton',
+	'beach',
+	'beacon',
+	'bean',
+	'beard',
+	'beast',
+	'bed',
+	'beef',
+	'beet',
+	'being',
+	'bell',
+	'bench',
+	'berry',
+	'bike',
+	'birth',
+	'bison',
+	'blade',
+	'blast',
+	'blaze',
+	'bless',
+	'blimp',
+	'blink',
+	'block',
+	'bloom',
+	'blue',
+	'blur',
+	'board',
+	'boat',
+	'body',
+	'bolt',
+	'bone',
+	'bonus',
+	'book',
+	'boot',
+	'border',
+	'boss',
+	'bottle',
+	'bounce',
+	'box',
+	'brain',
+	'brake',
+	'brass',
+	'brave',
+	'bread',
+	'breeze',
+	'brick',
+	'brief',
+	'bright',
+	'brink',
+	'broad',
+	'broom',
+	'brown',
+	'bubble',
+	'bucket',
+	'budget',
+	'buffet',
+	'bugle',
+	'bulb',
+	'bunch',
+	'bundle',
+	'burger',
+	'burst',
+	'bush',
+	'button',
+	'buzz',
+	'cable',
+	'cactus',
+	'cadet',
+	'cake',
+	'calf',
+	'calm',
+	'camera',
+	'camp',
+	'candle',
+	'candy',
+	'canoe',
+	'canyon',
+	'cape',
+	'card',
+	'carpet',
+	'carrot',
+	'carry',
+	'carve',
+	'case',
+	'castle',
+	'catch',
+	'cause',
+	'cedar',
+	'cello',
+	'cereal',
+	'chair',
+	'chalk',
+	'change',
+	'chant',
+	'chapel',
+	'chart',
+	'chase',
+	'cheek',
+	'cheese',
+	'chef',
+	'chess',
+	'chest',
+	'chew',
+	'chief',
+	'child',
+	'chili',
+	'chin',
+	'chip',
+	'choir',
+	'chorus',
+	'chunk',
+	'cinema',
+	'circle',
+	'citrus',
+	'civic',
+	'claim',
+	'clam',
+	'class',
+	'clay',
+	'clear',
+	'clerk',
+	'click',
+	'climb',
+	'clinic',
+	'clip',
+	'clock',
+	'close',
+	'cloud',
+	'clover',
+	'clown',
+	'clue',
+	'coach',
+	'coast',
+	'cobra',
+	'cocoa',
+	'code',
+	'coin',
+	'cold',
+	'colony',
+	'color',
+	'comet',
+	'coral',
+	'cord',
+	'core',
+	'corn',
+	'cotton',
+	'cough',
+	'count',
+	'court',
+	'cover',
+	'cozy',
+	'crab',
+	'crane',
+	'crate',
+	'cream',
+	'credit',
+	'creek',
+	'crew',
+	'crisp',
+	'crop',
+	'crowd',
+	'crown',
+	'crumb',
+	'crust',
+	'cube',
+	'cup',
+	'curb',
+	'cure',
+	'curve',
+	'cycle',
+	'daily',
+	'daisy',
+	'dance',
+	'dare',
+	'dash',
+	'data',
+	'dawn',
+	'deal',
+	'debut',
+	'decor',
+	'deer',
+	'denim',
+	'dense',
+	'depot',
+	'derby',
+	'desert',
+	'desk',
+	'dial',
+	'diary',
+	'dice',
+	'digit',
+	'dime',
+	'dingo',
+	'dinner',
+	'dish',
+	'diver',
+	'dizzy',
+	'dock',
+	'dodge',
+	'dog',
+	'dome',
+	'donut',
+	'door',
+	'dough',
+	'dove',
+	'draft',
+	'drama',
+	'drape',
+	'dream',
+	'dress',
+	'drift',
+	'drink',
+	'drive',
+	'drum',
+	'duet',
+	'dune',
+	'dusk',
+	'duty',
+	'dwarf',
+	'eagle',
+	'early',
+	'earth',
+	'east',
+	'easy',
+	'echo',
+	'edit',
+	'eel',
+	'egg',
+	'eight',
+	'elbow',
+	'elect',
+	'elf',
+	'elk',
+	'emerge',
+	'empty',
+	'enamel',
+	'energy',
+	'engine',
+	'enter',
+	'entry',
+	'envoy',
+	'equal',
+	'erase',
+	'errand',
+	'ethic',
+	'event',
+	'exam',
+	'exile',
+	'exit',
+	'extra',
+	'fable',
+	'fabric',
+	'fact',
+	'fade',
+	'faith',
+	'falcon',
+	'fame',
+	'fancy',
+	'fang',
+	'farm',
+	'fault',
+	'fawn',
+	'feast',
+	'fern',
+	'ferry',
+	'fiber',
+	'fiddle',
+	'field',
+	'film',
+	'final',
+	'finch',
+	'fine',
+	'finger',
+	'firm',
+	'first',
+	'fish',
+	'five',
+	'fjord',
+	'flag',
+	'flame',
+	'flash',
+	'fleet',
+	'flint',
+	'flip',
+	'flock',
+	'flood',
+	'floor',
+	'flower',
+	'fluid',
+	'flute',
+	'focus',
+	'fog',
+	'folk',
+	'font',
+	'food',
+	'forge',
+	'fork',
+	'form',
+	'forum',
+	'fossil',
+	'frame',
+	'fresh',
+	'friend',
+	'frost',
+	'fruit',
+	'fudge',
+	'fungi',
+	'funny',
+	'future',
+	'gadget',
+	'galaxy',
+	'game',
+	'garage',
+	'garden',
+	'gate',
+	'gauge',
+	'gear',
+	'gem',
+	'genius',
+	'geyser',
+	'ghost',
+	'giant',
+	'ginger',
+	'glad',
+	'glass',
+	'globe',
+	'glove',
+	'glue',
+	'goal',
+	'goat',
+	'golf',
+	'good',
+	'goose',
+	'gown',
+	'grace',
+	'grape',
+	'graph',
+	'grass',
+	'gravy',
+	'great',
+	'green',
+	'grill',
+	'grin',
+	'grip',
+	'growl',
+	'guard',
+	'guess',
+	'guest',
+	'guide',
+	'gulf',
+	'gull',
+	'gum',
+	'gust',
+	'habit',
+	'half',
+	'hall',
+	'halo',
+	'hand',
+	'happy',
+	'harbor',
+	'harp',
+	'hatch',
+	'hawk',
+	'hazel',
+	'head',
+	'heart',
+	'heat',
+	'hedge',
+	'height',
+	'helmet',
+	'help',
+	'herb',
+	'heron',
+	'hinge',
+	'hippo',
+	'hobby',
+	'holly',
+	'home',
+	'honey',
+	'hoop',
+	'hope',
+	'horse',
+	'host',
+	'hotel',
+	'house',
+	'hub',
+	'hug',
+	'humble',
+	'humor',
+	'hunt',
+	'hut',
+	'hymn',
+	'icon',
+	'idea',
+	'igloo',
+	'inch',
+	'index',
+	'indigo',
+	'inlet',
+	'input',
+	'iris',
+	'iron',
+	'island',
+	'ivory',
+	'ivy',
+	'jacket',
+	'jaguar',
+	'jam',
+	'jazz',
+	'jeans',
+	'jelly',
+	'jewel',
+	'jig',
+	'job',
+	'jog',
+	'join',
+	'joke',
+	'joy',
+	'judge',
+	'jumbo',
+	'jump',
+	'jungle',
+	'jury',
+	'kale',
+	'kayak',
+	'kettle',
+	'key',
+	'kidney',
+	'king',
+	'kiosk',
+	'kitten',
+	'kiwi',
+	'knee',
+	'knight',
+	'knit',
+	'knot',
+	'koala',
+	'label',
+	'ladder',
+	'lady',
+	'lagoon',
+	'lamb',
+	'lamp',
+	'lane',
+	'large',
+	'laser',
+	'laugh',
+	'lava',
+	'lawn',
+	'leaf',
+	'learn',
+	'lease',
+	'lemon',
+	'lens',
+	'letter',
+	'level',
+	'lever',
+	'light',
+	'lilac',
+	'lily',
+	'lime',
+	'linen',
+	'lip',
+	'liquid',
+	'list',
+	'little',
+	'lizard',
+	'llama',
+	'loaf',
+	'lobby',
+	'local',
+	'lodge',
+	'loft',
+	'long',
+	'loop',
+	'lotus',
+	'lounge',
+	'love',
+	'loyal',
+	'lumber',
+	'lunar',
+	'lyric',
+	'macaw',
+	'magic',
+	'maid',
+	'mail',
+	'major',
+	'manor',
+	'maple',
+	'march',
+	'margin',
+	'market',
+	'mason',
+	'match',
+	'meadow',
+	'medal',
+	'melody',
+	'melon',
+	'memo',
+	'mentor',
+	'merit',
+	'mesa',
+	'metal',
+	'method',
+	'metro',
+	'mild',
+	'mimic',
+	'mind',
+	'minute',
+	'mirror',
+	'mist',
+	'mix',
+	'moat',
+	'model',
+	'mole',
+	'moment',
+	'monk',
+	'moon',
+	'moose',
+	'mosaic',
+	'moss',
+	'moth',
+	'mound',
+	'mount',
+	'mouse',
+	'movie',
+	'muffin',
+	'mule',
+	'mural',
+	'museum',
+	'mussel',
+	'myth',
+	'nail',
+	'napkin',
+	'narrow',
+	'nature',
+	'navy',
+	'near',
+	'nectar',
+	'needle',
+	'neon',
+	'nerve',
+	'nest',
+	'net',
+	'new',
+	'next',
+	'night',
+	'nimble',
+	'noble',
+	'noise',
+	'noodle',
+	'north',
+	'note',
+	'novel',
+	'nurse',
+	'nutmeg',
+	'nylon',
+	'oasis',
+	'oat',
+	'ocean',
+	'odd',
+	'offer',
+	'oil',
+	'olive',
+	'omega',
+	'open',
+	'opera',
+	'optic',
+	'orbit',
+	'orchid',
+	'order',
+	'otter',
+	'ounce',
+	'oval',
+	'oven',
+	'owl',
+	'oxygen',
+	'oyster',
+	'ozone',
+	'paddle',
+	'page',
+	'paint',
+	'palace',
+	'palm',
+	'panel',
+	'panic',
+	'pantry',
+	'parade',
+	'parcel',
+	'parrot',
+	'party',
+	'pasta',
+	'patch',
+	'path',
+	'patio',
+	'peach',
+	'peak',
+	'peanut',
+	'pebble',
+	'pecan',
+	'pencil',
+	'penny',
+	'pepper',
+	'permit',
+	'petal',
+	'phone',
+	'piano',
+	'pickle',
+	'pier',
+	'pigeon',
+	'pillow',
+	'pine',
+	'pink',
+	'pipe',
+	'pitch',
+	'pivot',
+	'pizza',
+	'place',
+	'plain',
+	'plank',
+	'plant',
+	'plate',
+	'plaza',
+	'plenty',
+	'plot',
+	'plume',
+	'plus',
+	'poem',
+	'poet',
+	'point',
+	'pole',
+	'polka',
+	'pond',
+	'pool',
+	'poppy',
+	'port',
+	'pose',
+	'potato',
+	'powder',
+	'power',
+	'press',
+	'prime',
+	'prince',
+	'prism',
+	'prize',
+	'probe',
+	'proud',
+	'prune',
+	'pulse',
+	'pump',
+	'punch',
+	'pupil',
+	'purple',
+	'purse',
+	'quail',
+	'quake',
+	'query',
+	'quick',
+	'quiet',
+	'quill',
+	'quiz',
+	'quote',
+	'race',
+	'radar',
+	'radio',
+	'rail',
+	'rain',
+	'raisin',
+	'rally',
+	'ramp',
+	'ranch',
+	'rapid',
+	'raven',
+	'reach',
+	'ready',
+	'realm',
+	'record',
+	'reef',
+	'reflex',
+	'relic',
+	'remedy',
+	'reply',
+	'rescue',
+	'reset',
+	'rhyme',
+	'ribbon',
+	'rice',
+	'riddle',
+	'ride',
+	'rifle',
+	'ring',
+	'rinse',
+	'river',
+	'road',
+	'roast',
+	'robot',
+	'rocket',
+	'rodeo',
+	'room',
+	'root',
+	'rose',
+	'rotor',
+	'round',
+	'rover',
+	'royal',
+	'ruby',
+	'rug',
+	'ruler',
+	'runway',
+	'rural',
+	'rust',
+	'safari',
+	'safe',
+	'saga',
+	'salad',
+	'salmon',
+	'salsa',
+	'salt',
+	'salute',
+	'sandal',
+	'satin',
+	'sauce',
+	'scale',
+	'scarf',
+	'scene',
+	'school',
+	'scone',
+	'scout',
+	'scrap',
+	'screen',
+	'scroll',
+	'seal',
+	'season',
+	'second',
+	'secret',
+	'select',
+	'sense',
+	'serum',
+	'shadow',
+	'shake',
+	'shape',
+	'shark',
+	'sheep',
+	'shell',
+	'shield',
+	'shift',
+	'ship',
+	'shirt',
+	'shoe',
+	'short',
+	'shovel',
+	'show',
+	'shrub',
+	'siesta',
+	'silk',
+	'silver',
+	'simple',
+	'sister',
+	'sitar',
+	'size',
+	'sketch',
+	'skill',
+	'sky',
+	'slate',
+	'sled',
+	'sleeve',
+	'slice',
+	'slide',
+	'smile',
+	'smoke',
+	'snail',
+	'snake',
+	'snow',
+	'soccer',
+	'sock',
+	'sofa',
+	'solar',
+	'solid',
+	'sonic',
+	'south',
+	'space',
+	'spice',
+	'spider',
+	'spike',
+	'spoon',
+	'sport',
+	'spray',
+	'sprout',
+	'spruce',
+	'square',
+	'squid',
+	'stable',
+	'staff',
+	'stage',
+	'stair',
+	'start',
+	'statue',
+	'steel',
+	'stem',
+	'step',
+	'stick',
+	'still',
+	'stone',
+	'storm',
+	'story',
+	'stove',
+	'stream',
+	'street',
+	'studio',
+	'sugar',
+	'suit',
+	'summit',
+	'sunny',
+	'supper',
+	'swamp',
+	'swan',
+	'swift',
+	'swim',
+	'swing',
+	'syrup',
+	'system',
+	'tablet',
+	'tail',
+	'talent',
+	'tally',
+	'tank',
+	'tape',
+	'task',
+	'taxi',
+	'team',
+	'temple',
+	'tempo',
+	'tennis',
+	'term',
+	'thorn',
+	'throne',
+	'thumb',
+	'ticket',
+	'tiger',
+	'tile',
+	'timber',
+	'tiny',
+	'toast',
+	'toe',
+	'token',
+	'tomato',
+	'tongue',
+	'tool',
+	'tooth',
+	'torch',
+	'total',
+	'totem',
+	'tower',
+	'town',
+	'track',
+	'trade',
+	'trail',
+	'tram',
+	'travel',
+	'tray',
+	'tree',
+	'trend',
+	'tribe',
+	'trick',
+	'trio',
+	'truck',
+	'trunk',
+	'trust',
+	'tulip',
+	'tuna',
+	'turkey',
+	'turtle',
+	'tutor',
+	'twig',
+	'twin',
+	'ultra',
+	'under',
+	'union',
+	'unit',
+	'urban',
+	'usage',
+	'utmost',
+	'vacuum',
+	'valley',
+	'valve',
+	'vapor',
+	'vase',
+	'velvet',
+	'vendor',
+	'verb',
+	'verse',
+	'vessel',
+	'video',
+	'view',
+	'villa',
+	'vinyl',
+	'violet',
+	'visit',
+	'visor',
+	'vital',
+	'vocal',
+	'voice',
+	'volume',
+	'waffle',
+	'wagon',
+	'waist',
+	'walrus',
+	'wand',
+	'wash',
+	'wasp',
+	'watch',
+	'wave',
+	'wax',
+	'wealth',
+	'wedge',
+	'week',
+	'wheat',
+	'wheel',
+	'whisk',
+	'widget',
+	'width',
+	'wild',
+	'window',
+	'wing',
+	'wire',
+	'wisdom',
+	'wise',
+	'wizard',
+	'wolf',
+	'wonder',
+	'wool',
+	'word',
+	'work',
+	'worm',
+	'wrap',
+	'wrist',
+	'yacht',
+	'yak',
+	'yarn',
+	'year',
+	'yellow',
+	'yodel',
+	'yogurt',
+	'young',
+	'youth',
+	'yoyo',
+	'zero',
+	'zest',
+	'zigzag',
+	'zipper',
+	'zone',
+];
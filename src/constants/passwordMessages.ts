@@ -0,0 +1,157 @@
+/**
+ * @fileoverview RGex Password Messages - Translations of password requirements and feedback
+ * @module Constants
+ * @category Constants
+ * @group Password Validation
+ * @author duongnguyen321 - https://duonguyen.site
+ */
+
+import type {
+	PasswordMessageCatalog,
+	PasswordMessageKey,
+	PasswordMessage,
+} from '../../types/index.js';
+
+/**
+ * The bundled translations of password messages, by locale. English is complete and is
+ * the last fallback; add or override locales with `registerPasswordMessages`.
+ */
+export const PASSWORD_MESSAGES: {
+	en: Record<PasswordMessageKey, PasswordMessage>;
+	vi: PasswordMessageCatalog;
+	ja: PasswordMessageCatalog;
+} = {
+	en: {
+		REQUIREMENTS_NOT_MET: 'Password does not meet requirements',
+		TOO_SHORT: 'Password must be at least {min} characters',
+		TOO_LONG: 'Password must be at most {max} characters',
+		LENGTH_RANGE: 'Password must be between {min} and {max} characters',
+		NO_NUMBER: {
+			one: 'Password must contain at least one number',
+			other: 'Password must contain at least {count} numbers',
+		},
+		NO_SPECIAL: {
+			one: 'Password must contain at least one special character',
+			other: 'Password must contain at least {count} special characters',
+		},
+		NO_UPPERCASE: {
+			one: 'Password must contain at least one uppercase letter',
+			other: 'Password must contain at least {count} uppercase letters',
+		},
+		NO_LOWERCASE: {
+			one: 'Password must contain at least one lowercase letter',
+			other: 'Password must contain at least {count} lowercase letters',
+		},
+		NO_LETTER: {
+			one: 'Password must contain at least one letter',
+			other: 'Password must contain at least {count} letters',
+		},
+		NO_SYMBOL: 'Password must contain at least one symbol',
+		NO_UNICODE: 'Password must contain at least one unicode character',
+		SEQUENTIAL:
+			'Password must not contain sequential characters (e.g., 123, abc)',
+		REPEATED: 'Password must not contain repeating characters (e.g., aaa, 111)',
+		REPEATED_LIMIT:
+			'Password must not contain more than {max} identical characters in a row',
+		COMMON_WORD: 'Password must not contain common words or patterns',
+		KEYBOARD_PATTERN: 'Keyboard patterns such as "{pattern}" are easy to guess',
+		BREACHED: 'Password has appeared in a data breach',
+		BREACH_UNCHECKED: 'Password was not checked against data breaches',
+		CUSTOM_PATTERN: 'Password must match the custom pattern',
+		INVALID_PATTERN: 'Invalid custom pattern provided',
+		FORBIDDEN_WORD: 'Password must not contain forbidden words',
+		PERSONAL_INFO: 'Password must not contain or resemble your {detail}',
+		PREVIOUS_PASSWORD: 'Password must not be one you have used before',
+		USE_LONGER: 'Consider using a longer password ({length}+ characters)',
+		MIX_CASE: 'Mix uppercase and lowercase letters',
+		ADD_NUMBERS_AND_SPECIAL: 'Include numbers and special characters',
+		AVOID_PATTERNS: 'Avoid common words and patterns',
+		ADD_VARIETY: 'Add more character variety for better security',
+		ADD_LENGTH: 'Consider increasing the length further',
+		DETAIL_USERNAME: 'username',
+		DETAIL_EMAIL: 'email address',
+		DETAIL_FULL_NAME: 'name',
+		DETAIL_COMPANY_NAME: 'company name',
+		DETAIL_BIRTH_DATE: 'birth date',
+		DETAIL_ANY: 'personal details',
+	},
+	vi: {
+		REQUIREMENTS_NOT_MET: 'Mật khẩu không đáp ứng các yêu cầu',
+		TOO_SHORT: 'Mật khẩu phải có ít nhất {min} ký tự',
+		TOO_LONG: 'Mật khẩu chỉ được có tối đa {max} ký tự',
+		LENGTH_RANGE: 'Mật khẩu phải có từ {min} đến {max} ký tự',
+		NO_NUMBER: 'Mật khẩu phải chứa ít nhất {count} chữ số',
+		NO_SPECIAL: 'Mật khẩu phải chứa ít nhất {count} ký tự đặc biệt',
+		NO_UPPERCASE: 'Mật khẩu phải chứa ít nhất {count} chữ cái viết hoa',
+		NO_LOWERCASE: 'Mật khẩu phải chứa ít nhất {count} chữ cái viết thường',
+		NO_LETTER: 'Mật khẩu phải chứa ít nhất {count} chữ cái',
+		NO_SYMBOL: 'Mật khẩu phải chứa ít nhất một ký hiệu',
+		NO_UNICODE: 'Mật khẩu phải chứa ít nhất một ký tự Unicode',
+		SEQUENTIAL:
+			'Mật khẩu không được chứa các ký tự liên tiếp (ví dụ: 123, abc)',
+		REPEATED: 'Mật khẩu không được chứa ký tự lặp lại (ví dụ: aaa, 111)',
+		REPEATED_LIMIT:
+			'Mật khẩu không được có quá {max} ký tự giống nhau liên tiếp',
+		COMMON_WORD: 'Mật khẩu không được chứa từ hoặc mẫu phổ biến',
+		KEYBOARD_PATTERN: 'Các mẫu bàn phím như "{pattern}" rất dễ đoán',
+		BREACHED: 'Mật khẩu này đã xuất hiện trong một vụ rò rỉ dữ liệu',
+		BREACH_UNCHECKED: 'Mật khẩu chưa được đối chiếu với các vụ rò rỉ dữ liệu',
+		CUSTOM_PATTERN: 'Mật khẩu phải khớp với mẫu tùy chỉnh',
+		INVALID_PATTERN: 'Mẫu tùy chỉnh không hợp lệ',
+		FORBIDDEN_WORD: 'Mật khẩu không được chứa từ bị cấm',
+		PERSONAL_INFO: 'Mật khẩu không được chứa hoặc giống {detail} của bạn',
+		PREVIOUS_PASSWORD:
+			'Mật khẩu không được trùng với mật khẩu bạn đã dùng trước đây',
+		USE_LONGER: 'Hãy dùng mật khẩu dài hơn (từ {length} ký tự trở lên)',
+		MIX_CASE: 'Kết hợp chữ hoa và chữ thường',
+		ADD_NUMBERS_AND_SPECIAL: 'Thêm chữ số và ký tự đặc biệt',
+		AVOID_PATTERNS: 'Tránh các từ và mẫu phổ biến',
+		ADD_VARIETY: 'Dùng nhiều loại ký tự hơn để tăng độ an toàn',
+		ADD_LENGTH: 'Hãy cân nhắc tăng thêm độ dài',
+		DETAIL_USERNAME: 'tên đăng nhập',
+		DETAIL_EMAIL: 'địa chỉ email',
+		DETAIL_FULL_NAME: 'họ tên',
+		DETAIL_COMPANY_NAME: 'tên công ty',
+		DETAIL_BIRTH_DATE: 'ngày sinh',
+		DETAIL_ANY: 'thông tin cá nhân',
+	},
+	ja: {
+		REQUIREMENTS_NOT_MET: 'パスワードが要件を満たしていません',
+		TOO_SHORT: 'パスワードは{min}文字以上にしてください',
+		TOO_LONG: 'パスワードは{max}文字以下にしてください',
+		LENGTH_RANGE: 'パスワードは{min}〜{max}文字にしてください',
+		NO_NUMBER: 'パスワードには数字を{count}文字以上含めてください',
+		NO_SPECIAL: 'パスワードには特殊文字を{count}文字以上含めてください',
+		NO_UPPERCASE: 'パスワードには大文字を{count}文字以上含めてください',
+		NO_LOWERCASE: 'パスワードには小文字を{count}文字以上含めてください',
+		NO_LETTER: 'パスワードには英字を{count}文字以上含めてください',
+		NO_SYMBOL: 'パスワードには記号を1文字以上含めてください',
+		NO_UNICODE: 'パスワードにはUnicode文字を1文字以上含めてください',
+		SEQUENTIAL: 'パスワードに連続した文字（例: 123、abc）を含めないでください',
+		REPEATED:
+			'パスワードに同じ文字の繰り返し（例: aaa、111）を含めないでください',
+		REPEATED_LIMIT: '同じ文字を{max}文字より多く連続させないでください',
+		COMMON_WORD: 'パスワードによく使われる単語やパターンを含めないでください',
+		KEYBOARD_PATTERN:
+			'「{pattern}」のようなキーボード配列のパターンは推測されやすいです',
+		BREACHED: 'このパスワードは過去のデータ漏えいで見つかっています',
+		BREACH_UNCHECKED: 'パスワードはデータ漏えいとの照合が行われていません',
+		CUSTOM_PATTERN: 'パスワードが指定されたパターンに一致しません',
+		INVALID_PATTERN: '指定されたカスタムパターンが無効です',
+		FORBIDDEN_WORD: 'パスワードに禁止されている単語を含めないでください',
+		PERSONAL_INFO: 'パスワードに{detail}やそれに似た文字列を含めないでください',
+		PREVIOUS_PASSWORD: '以前に使用したパスワードは使用できません',
+		USE_LONGER: 'より長いパスワード（{length}文字以上）を使用してください',
+		MIX_CASE: '大文字と小文字を組み合わせてください',
+		ADD_NUMBERS_AND_SPECIAL: '数字と特殊文字を含めてください',
+		AVOID_PATTERNS: 'よく使われる単語やパターンは避けてください',
+		ADD_VARIETY: '文字の種類を増やすと安全性が高まります',
+		ADD_LENGTH: 'さらに長くすることを検討してください',
+		DETAIL_USERNAME: 'ユーザー名',
+		DETAIL_EMAIL: 'メールアドレス',
+		DETAIL_FULL_NAME: '氏名',
+		DETAIL_COMPANY_NAME: '会社名',
+		DETAIL_BIRTH_DATE: '生年月日',
+		DETAIL_ANY: '個人情報',
+	},
+};
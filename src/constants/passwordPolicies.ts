@@ -0,0 +1,40 @@
+/**
+ * @fileoverview RGex Password Policy Presets - Password rules from common security standards
+ * @module Constants
+ * @category Constants
+ * @group Password Validation
+ * @author duongnguyen321 - https://duonguyen.site
+ */
+
+import type {
+	PasswordPolicyPreset,
+	PasswordPolicyRules,
+} from '../../types/index.js';
+
+/**
+ * The rules of the built-in password policies, for `PasswordPolicy.preset(name)`.
+ * The modern standards (NIST, OWASP) drop composition rules in favour of length and
+ * screening against breached passwords; see `setBreachSource` for the corpus.
+ */
+export const PASSWORD_POLICY_PRESETS: Record<
+	PasswordPolicyPreset,
+	PasswordPolicyRules
+> = {
+	// SP 800-63B 5.1.1: at least 8 characters, at least 64 allowed, compared against
+	// known-compromised values
+	nist: { minLength: 8, maxLength: 64, noBreached: true },
+	// ASVS 4.0 V2.1.1-V2.1.7: at least 12 characters, at most 128, breached passwords rejected
+	owasp: { minLength: 12, maxLength: 128, noBreached: true },
+	// PCI DSS 4.0 8.3.6: at least 12 characters with both letters and numbers
+	pciDss: { minLength: 12, minLetters: 1, minNumbers: 1 },
+	// The complexity rules of older directory services
+	legacyEnterprise: {
+		minLength: 8,
+		minUpper: 1,
+		minLower: 1,
+		minNumbers: 1,
+		minSpecial: 1,
+		maxConsecutive: 2,
+		noCommonWords: true,
+	},
+};
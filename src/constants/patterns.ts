@@ -6,7 +6,29 @@
  * @author duongnguyen321 - https://duonguyen.site
  */
 
-import type { HumanTextPattern } from '../../types/index.js';
+import type { HumanTextPattern, NationalIdType } from '../../types/index.js';
+import {
+	isValidAbaRouting,
+	isValidEan,
+	isValidIban,
+	isValidIsbn,
+	isValidIsbn10,
+	isValidIsbn13,
+	isValidVin,
+	luhnCheck,
+} from '../utils/checksums.js';
+import {
+	isValidAadhaar,
+	isValidCccd,
+	isValidChineseResidentId,
+	isValidCnpj,
+	isValidCpf,
+	isValidEuVat,
+	isValidNino,
+	isValidPan,
+	isValidSin,
+} from '../utils/nationalIds.js';
+import { validateDate } from '../utils/dates.js';
 
 // Common regex patterns
 export const REGEX_PATTERNS = {
@@ -21,7 +43,7 @@ export const REGEX_PATTERNS = {
 	PHONE: '^\\+?[1-9]\\d{4,14}$',
 
 	// Date and time patterns
-	DATE: '^\\d{4}-\\d{2}-\\d{2}$',
+	DATE: '^\\d{4}-(?:0[1-9]|1[0-2])-(?:0[1-9]|[12]\\d|3[01])$',
 	TIME: '^([01]?[0-9]|2[0-3]):[0-5][0-9](:[0-5][0-9])?$',
 
 	// Number patterns
@@ -50,7 +72,8 @@ export const REGEX_PATTERNS = {
 	IMAGE_FILE: '^.*\\.(jpg|jpeg|png|gif|bmp|svg|webp|ico)$',
 	DOCUMENT_FILE: '^.*\\.(pdf|doc|docx|txt|rtf|odt)$',
 	TIMESTAMP: '^[0-9]{10,13}$',
-	ISO_DATETIME: '^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}(\\.\\d{3})?Z?$',
+	ISO_DATETIME:
+		'^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}(\\.\\d{3})?(?:Z|[+-]\\d{2}:\\d{2})?$',
 
 	// Financial patterns
 	CREDIT_CARD:
@@ -80,6 +103,20 @@ export const REGEX_PATTERNS = {
 
 	// Government ID patterns
 	SSN: '^(?!666|000|9\\d{2})\\d{3}-(?!00)\\d{2}-(?!0{4})\\d{4}$',
+	UK_NINO:
+		'^(?!BG|GB|KN|NK|NT|TN|ZZ)[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z] ?\\d{2} ?\\d{2} ?\\d{2} ?[A-D]$',
+	CANADIAN_SIN: '^[1-79]\\d{2}[ -]?\\d{3}[ -]?\\d{3}$',
+	INDIAN_PAN: '^[A-Z]{3}[ABCFGHJLPT][A-Z]\\d{4}[A-Z]$',
+	AADHAAR: '^[2-9]\\d{3} ?\\d{4} ?\\d{4}$',
+	BRAZIL_CPF: '^\\d{3}\\.?\\d{3}\\.?\\d{3}-?\\d{2}$',
+	BRAZIL_CNPJ:
+		'^[A-Z\\d]{2}\\.?[A-Z\\d]{3}\\.?[A-Z\\d]{3}\\/?[A-Z\\d]{4}-?\\d{2}$',
+	VIETNAM_CCCD:
+		'^0(?:0[12468]|1[0124579]|2[024-7]|3[013-8]|4[0245689]|5[12468]|6[024678]|7[024579]|8[0234679]|9[1-6])\\d{9}$',
+	CHINESE_RESIDENT_ID:
+		'^[1-9]\\d{5}(?:18|19|20)\\d{2}(?:0[1-9]|1[0-2])(?:0[1-9]|[12]\\d|3[01])\\d{3}[\\dX]$',
+	EU_VAT:
+		'^(?:ATU\\d{8}|BE[01]\\d{9}|BG\\d{9,10}|CY\\d{8}[A-Z]|CZ\\d{8,10}|DE\\d{9}|DK\\d{8}|EE\\d{9}|(?:EL|GR)\\d{9}|ES[A-Z\\d]\\d{7}[A-Z\\d]|FI\\d{8}|FR[A-HJ-NP-Z\\d]{2}\\d{9}|HR\\d{11}|HU\\d{8}|IE\\d(?:\\d{6}[A-W][A-IW]?|[A-Z+*]\\d{5}[A-W])|IT\\d{11}|LT(?:\\d{9}|\\d{12})|LU\\d{8}|LV\\d{11}|MT\\d{8}|NL\\d{9}B\\d{2}|PL\\d{10}|PT\\d{9}|RO[1-9]\\d{1,9}|SE\\d{10}01|SI[1-9]\\d{7}|SK[1-9]\\d{9})$',
 
 	// Encoding patterns
 	BASE64: '^[A-Za-z0-9+/]*={0,2}$',
@@ -95,6 +132,12 @@ export const REGEX_PATTERNS = {
 	// ISBN patterns
 	ISBN_10: '^(?:\\d{9}[\\dX]|\\d{10})$',
 	ISBN_13: '^97[89]\\d{10}$',
+	ISBN: '^(?:\\d{9}[\\dX]|97[89]\\d{10})$',
+
+	// Checksummed identifiers
+	ABA_ROUTING: '^(?:0[0-9]|1[0-2]|2[1-9]|3[0-2]|6[1-9]|7[0-2]|80)\\d{7}$',
+	EAN: '^(?:\\d{8}|\\d{12,14})$',
+	VIN: '^[A-HJ-NPR-Z0-9]{17}$',
 
 	// Version and development patterns
 	SEMVER:
@@ -127,6 +170,102 @@ export const REGEX_PATTERNS = {
 	AZURE_RESOURCE_GROUP: '^[a-zA-Z0-9._()-]{1,90}$',
 } as const;
 
+// Names of the built-in patterns, as used in regex explanations
+export const REGEX_PATTERN_NAMES: Record<keyof typeof REGEX_PATTERNS, string> =
+	{
+		EMAIL: 'an email address',
+		URL: 'an HTTP or HTTPS URL',
+		PHONE: 'a phone number',
+		DATE: 'a date (YYYY-MM-DD)',
+		TIME: 'a time (HH:MM or HH:MM:SS)',
+		INTEGER: 'an integer',
+		DECIMAL: 'a decimal number',
+		POSITIVE_INTEGER: 'a positive integer',
+		POSITIVE_DECIMAL: 'a positive decimal number',
+		UUID: 'a UUID v1–v5',
+		MONGO_ID: 'a MongoDB ObjectId',
+		IPV4: 'an IPv4 address',
+		IPV6: 'an IPv6 address',
+		DOMAIN: 'a domain name',
+		MAC_ADDRESS: 'a MAC address',
+		HEX_COLOR: 'a hex color code',
+		SLUG: 'a URL slug',
+		USERNAME: 'a username (3–20 letters, digits or underscores)',
+		FILE_EXTENSION: 'a file name with an extension',
+		IMAGE_FILE: 'an image file name',
+		DOCUMENT_FILE: 'a document file name',
+		TIMESTAMP: 'a Unix timestamp',
+		ISO_DATETIME: 'an ISO 8601 date and time',
+		CREDIT_CARD: 'a credit card number',
+		VISA_CARD: 'a Visa card number',
+		MASTERCARD: 'a Mastercard number',
+		AMEX: 'an American Express card number',
+		PASSWORD: 'a password of at least 6 characters',
+		STRONG_PASSWORD: 'a strong password',
+		DIGITS_ONLY: 'digits only',
+		LETTERS_ONLY: 'letters only',
+		ALPHANUMERIC: 'letters and digits only',
+		NO_SPACES: 'text without spaces',
+		TEXT: 'plain text with basic punctuation',
+		US_ZIP_CODE: 'a US ZIP code',
+		CANADIAN_POSTAL_CODE: 'a Canadian postal code',
+		UK_POSTCODE: 'a UK postcode',
+		GERMAN_POSTCODE: 'a German postcode',
+		FRENCH_POSTCODE: 'a French postcode',
+		SSN: 'a US Social Security number',
+		UK_NINO: 'a UK National Insurance number',
+		CANADIAN_SIN: 'a Canadian Social Insurance Number',
+		INDIAN_PAN: 'an Indian PAN',
+		AADHAAR: 'an Aadhaar number',
+		BRAZIL_CPF: 'a Brazilian CPF',
+		BRAZIL_CNPJ: 'a Brazilian CNPJ',
+		VIETNAM_CCCD: 'a Vietnamese citizen identity card number',
+		CHINESE_RESIDENT_ID: 'a Chinese resident identity card number',
+		EU_VAT: 'an EU VAT number',
+		BASE64: 'a Base64 string',
+		BITCOIN_ADDRESS: 'a Bitcoin address',
+		ETHEREUM_ADDRESS: 'an Ethereum address',
+		IBAN: 'an IBAN',
+		SWIFT_CODE: 'a SWIFT/BIC code',
+		ISBN_10: 'an ISBN-10',
+		ISBN_13: 'an ISBN-13',
+		ISBN: 'an ISBN-10 or ISBN-13',
+		ABA_ROUTING: 'an ABA routing number',
+		EAN: 'an EAN/UPC barcode number',
+		VIN: 'a vehicle identification number (VIN)',
+		SEMVER: 'a semantic version',
+		JWT_TOKEN: 'a JSON Web Token',
+		GIT_COMMIT: 'a Git commit hash',
+		GITHUB_USERNAME: 'a GitHub username',
+		TWITTER_HANDLE: 'a Twitter handle',
+		DISCORD_ID: 'a Discord ID',
+		SLACK_USER_ID: 'a Slack user ID',
+		YOUTUBE_VIDEO_ID: 'a YouTube video ID',
+		AWS_S3_BUCKET: 'an AWS S3 bucket name',
+		DOCKER_IMAGE: 'a Docker image name',
+		K8S_RESOURCE_NAME: 'a Kubernetes resource name',
+		NPM_PACKAGE: 'an npm package name',
+		E164_PHONE: 'an E.164 phone number',
+		LINKEDIN_PROFILE: 'a LinkedIn profile URL',
+		GOOGLE_DRIVE_ID: 'a Google Drive file ID',
+		FIREBASE_PROJECT_ID: 'a Firebase project ID',
+		AZURE_RESOURCE_GROUP: 'an Azure resource group name',
+	};
+
+// Format patterns of the national identifiers checked by `isValidNationalId`
+export const NATIONAL_ID_PATTERNS: Record<NationalIdType, string> = {
+	usSsn: REGEX_PATTERNS.SSN,
+	ukNino: REGEX_PATTERNS.UK_NINO,
+	caSin: REGEX_PATTERNS.CANADIAN_SIN,
+	inPan: REGEX_PATTERNS.INDIAN_PAN,
+	inAadhaar: REGEX_PATTERNS.AADHAAR,
+	brCpf: REGEX_PATTERNS.BRAZIL_CPF,
+	brCnpj: REGEX_PATTERNS.BRAZIL_CNPJ,
+	vnCccd: REGEX_PATTERNS.VIETNAM_CCCD,
+	cnResidentId: REGEX_PATTERNS.CHINESE_RESIDENT_ID,
+	euVat: REGEX_PATTERNS.EU_VAT,
+};
+
 // Human-readable pattern mappings
 export const HUMAN_PATTERNS: Record<string, HumanTextPattern> = {
 	// Network patterns (specific first)
@@ -170,7 +309,12 @@ export const HUMAN_PATTERNS: Record<string, HumanTextPattern> = {
 		type: 'custom',
 		pattern: REGEX_PATTERNS.ISO_DATETIME,
 		description: 'ISO datetime format',
-		examples: ['2023-12-25T10:30:00Z', '2023-12-25T10:30:00.123Z'],
+		examples: [
+			'2023-12-25T10:30:00Z',
+			'2023-12-25T10:30:00.123Z',
+			'2023-12-25T17:30:00+07:00',
+		],
+		validator: (value: string) => validateDate(value).valid,
 	},
 
 	time: {
@@ -216,6 +360,159 @@ export const HUMAN_PATTERNS: Record<string, HumanTextPattern> = {
 		examples: ['K1A 0A6', 'M5V 3L9'],
 	},
 
+	// Financial and checksummed identifiers (before generic numbers)
+	creditcard: {
+		type: 'custom',
+		pattern: REGEX_PATTERNS.CREDIT_CARD,
+		description: 'Credit card number',
+		validator: luhnCheck,
+		examples: ['4111111111111111', '5555555555554444'],
+	},
+
+	visa: {
+		type: 'custom',
+		pattern: REGEX_PATTERNS.VISA_CARD,
+		description: 'Visa credit card number',
+		validator: luhnCheck,
+		examples: ['4111111111111111', '4012888888881881'],
+	},
+
+	mastercard: {
+		type: 'custom',
+		pattern: REGEX_PATTERNS.MASTERCARD,
+		description: 'Mastercard credit card number',
+		validator: luhnCheck,
+		examples: ['5555555555554444', '5105105105105100'],
+	},
+
+	iban: {
+		type: 'custom',
+		pattern: REGEX_PATTERNS.IBAN,
+		description: 'IBAN',
+		examples: ['GB82WEST12345698765432', 'DE89370400440532013000'],
+		validator: isValidIban,
+	},
+
+	routingnumber: {
+		type: 'custom',
+		pattern: REGEX_PATTERNS.ABA_ROUTING,
+		description: 'ABA routing number',
+		examples: ['021000021', '011000015'],
+		validator: isValidAbaRouting,
+	},
+
+	isbn13: {
+		type: 'custom',
+		pattern: REGEX_PATTERNS.ISBN_13,
+		description: 'ISBN-13',
+		examples: ['9780306406157', '9781861972712'],
+		validator: isValidIsbn13,
+	},
+
+	isbn10: {
+		type: 'custom',
+		pattern: REGEX_PATTERNS.ISBN_10,
+		description: 'ISBN-10',
+		examples: ['0306406152', '080442957X'],
+		validator: isValidIsbn10,
+	},
+
+	isbn: {
+		type: 'custom',
+		pattern: REGEX_PATTERNS.ISBN,
+		description: 'ISBN-10 or ISBN-13',
+		examples: ['9780306406157', '0306406152'],
+		validator: isValidIsbn,
+	},
+
+	ean: {
+		type: 'custom',
+		pattern: REGEX_PATTERNS.EAN,
+		description: 'EAN/UPC barcode number',
+		examples: ['4006381333931', '036000291452', '73513537'],
+		validator: isValidEan,
+	},
+
+	vin: {
+		type: 'custom',
+		pattern: REGEX_PATTERNS.VIN,
+		description: 'Vehicle identification number (VIN)',
+		examples: ['1M8GDM9AXKP042788', '11111111111111111'],
+		validator: isValidVin,
+	},
+
+	nino: {
+		type: 'custom',
+		pattern: REGEX_PATTERNS.UK_NINO,
+		description: 'UK National Insurance number',
+		examples: ['AB 12 34 56 C', 'JG103759A'],
+		validator: isValidNino,
+	},
+
+	sin: {
+		type: 'custom',
+		pattern: REGEX_PATTERNS.CANADIAN_SIN,
+		description: 'Canadian Social Insurance Number',
+		examples: ['130 692 544', '130692544'],
+		validator: isValidSin,
+	},
+
+	pan: {
+		type: 'custom',
+		pattern: REGEX_PATTERNS.INDIAN_PAN,
+		description: 'Indian Permanent Account Number (PAN)',
+		examples: ['ABCPE1234F', 'AAACR5055K'],
+		validator: isValidPan,
+	},
+
+	aadhaar: {
+		type: 'custom',
+		pattern: REGEX_PATTERNS.AADHAAR,
+		description: 'Aadhaar number',
+		examples: ['2341 2341 2346', '234123412346'],
+		validator: isValidAadhaar,
+	},
+
+	cpf: {
+		type: 'custom',
+		pattern: REGEX_PATTERNS.BRAZIL_CPF,
+		description: 'Brazilian CPF',
+		examples: ['529.982.247-25', '52998224725'],
+		validator: isValidCpf,
+	},
+
+	cnpj: {
+		type: 'custom',
+		pattern: REGEX_PATTERNS.BRAZIL_CNPJ,
+		description: 'Brazilian CNPJ',
+		examples: ['11.222.333/0001-81', '12.ABC.345/01DE-35'],
+		validator: isValidCnpj,
+	},
+
+	cccd: {
+		type: 'custom',
+		pattern: REGEX_PATTERNS.VIETNAM_CCCD,
+		description: 'Vietnamese citizen identity card (CCCD) number',
+		examples: ['001099012345', '079203004567'],
+		validator: isValidCccd,
+	},
+
+	chineseid: {
+		type: 'custom',
+		pattern: REGEX_PATTERNS.CHINESE_RESIDENT_ID,
+		description: 'Chinese resident identity card number',
+		examples: ['11010519491231002X'],
+		validator: isValidChineseResidentId,
+	},
+
+	euvat: {
+		type: 'custom',
+		pattern: REGEX_PATTERNS.EU_VAT,
+		description: 'EU VAT number',
+		examples: ['DE136695976', 'FR40303265045', 'NL004495445B01'],
+		validator: (value: string) => isValidEuVat(value),
+	},
+
 	// Basic patterns
 	email: {
 		type: 'email',
@@ -242,7 +539,9 @@ export const HUMAN_PATTERNS: Record<string, HumanTextPattern> = {
 		type: 'date',
 		pattern: REGEX_PATTERNS.DATE,
 		description: 'Date in YYYY-MM-DD format',
-		examples: ['2023-12-25', '2024-01-01'],
+		examples: ['2023-12-25', '2024-02-29'],
+		validator: (value: string) =>
+			validateDate(value, { format: 'YYYY-MM-DD' }).valid,
 	},
 
 	number: {
@@ -304,28 +603,6 @@ export const HUMAN_PATTERNS: Record<string, HumanTextPattern> = {
 		examples: ['password123', 'mypass'],
 	},
 
-	// Financial patterns
-	creditcard: {
-		type: 'custom',
-		pattern: REGEX_PATTERNS.CREDIT_CARD,
-		description: 'Credit card number',
-		examples: ['4111111111111111', '5555555555554444'],
-	},
-
-	visa: {
-		type: 'custom',
-		pattern: REGEX_PATTERNS.VISA_CARD,
-		description: 'Visa credit card number',
-		examples: ['4111111111111111', '4012888888881881'],
-	},
-
-	mastercard: {
-		type: 'custom',
-		pattern: REGEX_PATTERNS.MASTERCARD,
-		description: 'Mastercard credit card number',
-		examples: ['5555555555554444', '5105105105105100'],
-	},
-
 	// User patterns
 	username: {
 		type: 'text',
@@ -381,6 +658,41 @@ export const PATTERN_KEYWORDS: Record<string, string[]> = {
 	creditcard: ['credit card', 'creditcard', 'card number'],
 	visa: ['visa card', 'visa'],
 	mastercard: ['mastercard', 'master card'],
+	iban: ['iban', 'international bank account number'],
+	routingnumber: [
+		'routing number',
+		'routing transit number',
+		'aba routing',
+		'aba number',
+	],
+	isbn13: ['isbn 13', 'isbn-13', 'isbn13'],
+	isbn10: ['isbn 10', 'isbn-10', 'isbn10'],
+	isbn: ['isbn'],
+	ean: [
+		'ean code',
+		'ean-13',
+		'ean 13',
+		'ean-8',
+		'ean 8',
+		'upc',
+		'barcode',
+		'gtin',
+	],
+	vin: ['vehicle identification number', 'vin number', 'vin code'],
+	nino: ['national insurance number', 'nino'],
+	sin: ['social insurance number', 'sin number', 'canadian sin'],
+	pan: ['pan card', 'indian pan', 'permanent account number'],
+	aadhaar: ['aadhaar', 'aadhar', 'uidai'],
+	cpf: ['cpf'],
+	cnpj: ['cnpj'],
+	cccd: ['cccd', 'citizen identity card', 'can cuoc'],
+	chineseid: [
+		'chinese resident id',
+		'chinese id card',
+		'chinese national id',
+		'resident identity card',
+	],
+	euvat: ['vat number', 'vat id', 'eu vat', 'vat identification number'],
 	username: ['username', 'user name', 'handle'],
 	ssn: ['social security number', 'ssn', 'social security'],
 	zipcode: ['zip code', 'zipcode', 'zip'],
@@ -0,0 +1,227 @@
+/**
+ * @fileoverview RGex Phone Metadata - Offline numbering plan data for phone number parsing
+ * @module Constants
+ * @category Constants
+ * @group Phone Metadata
+ * @author duongnguyen321 - https://duonguyen.site
+ */
+
+import type { PhoneCountryMetadata } from '../../types/index.js';
+
+/**
+ * Numbering plans by ISO 3166-1 country code: calling code, trunk prefix, national
+ * significant number lengths and the number ranges of mobile and fixed lines.
+ * Countries sharing a calling code are listed most specific first (Canada's area
+ * codes before the rest of the North American Numbering Plan).
+ */
+export const PHONE_METADATA: Record<string, PhoneCountryMetadata> = {
+	CA: {
+		country: 'CA',
+		name: 'Canadian',
+		keywords: ['canada', 'canadian'],
+		callingCode: '1',
+		trunkPrefix: '',
+		lengths: [10],
+		pattern:
+			'(?:204|226|236|249|250|263|289|306|343|354|365|367|368|382|403|416|418|428|431|437|438|450|468|474|506|514|519|548|579|581|584|587|604|613|639|647|672|683|705|709|742|753|778|780|782|807|819|825|867|873|879|902|905)[2-9]\\d{6}',
+		formats: [{ leading: '', groups: [3, 3] }],
+	},
+	US: {
+		country: 'US',
+		name: 'US',
+		keywords: ['us', 'usa', 'american', 'united states'],
+		callingCode: '1',
+		trunkPrefix: '',
+		lengths: [10],
+		pattern: '[2-9]\\d{2}[2-9]\\d{6}',
+		formats: [{ leading: '', groups: [3, 3] }],
+	},
+	GB: {
+		country: 'GB',
+		name: 'UK',
+		keywords: ['uk', 'british', 'united kingdom', 'england', 'great britain'],
+		callingCode: '44',
+		trunkPrefix: '0',
+		lengths: [9, 10],
+		pattern: '(?:[1-3]\\d{8,9}|7[1-57-9]\\d{8}|8\\d{8,9})',
+		mobile: '7[1-57-9]\\d{8}',
+		fixedLine: '[1-3]\\d{8,9}',
+		formats: [
+			{ leading: '7', groups: [4] },
+			{ leading: '2', groups: [2, 4] },
+			{ leading: '', groups: [4] },
+		],
+	},
+	DE: {
+		country: 'DE',
+		name: 'German',
+		keywords: ['germany', 'german'],
+		callingCode: '49',
+		trunkPrefix: '0',
+		lengths: [6, 7, 8, 9, 10, 11],
+		pattern: '(?:1(?:5\\d{9}|[67]\\d{8,9})|[2-9]\\d{5,10})',
+		mobile: '1(?:5\\d{9}|[67]\\d{8,9})',
+		fixedLine: '[2-9]\\d{5,10}',
+		formats: [
+			{ leading: '15', groups: [4] },
+			{ leading: '1[67]', groups: [3] },
+			{ leading: '(?:30|40|69|89)', groups: [2] },
+			{ leading: '', groups: [3] },
+		],
+	},
+	FR: {
+		country: 'FR',
+		name: 'French',
+		keywords: ['france', 'french'],
+		callingCode: '33',
+		trunkPrefix: '0',
+		lengths: [9],
+		pattern: '[1-9]\\d{8}',
+		mobile: '[67]\\d{8}',
+		fixedLine: '[1-5]\\d{8}',
+		formats: [{ leading: '', groups: [1, 2, 2, 2] }],
+	},
+	ES: {
+		country: 'ES',
+		name: 'Spanish',
+		keywords: ['spain', 'spanish'],
+		callingCode: '34',
+		trunkPrefix: '',
+		lengths: [9],
+		pattern: '[5-9]\\d{8}',
+		mobile: '(?:6\\d|7[1-9])\\d{7}',
+		fixedLine: '[89]\\d{8}',
+		formats: [{ leading: '', groups: [3, 2, 2] }],
+	},
+	IT: {
+		country: 'IT',
+		name: 'Italian',
+		keywords: ['italy', 'italian'],
+		callingCode: '39',
+		trunkPrefix: '',
+		lengths: [6, 7, 8, 9, 10, 11],
+		pattern: '(?:0\\d{5,10}|3\\d{8,9})',
+		mobile: '3\\d{8,9}',
+		fixedLine: '0\\d{5,10}',
+		formats: [
+			{ leading: '3', groups: [3, 3] },
+			{ leading: '0[26]', groups: [2, 4] },
+			{ leading: '', groups: [3, 3] },
+		],
+	},
+	NL: {
+		country: 'NL',
+		name: 'Dutch',
+		keywords: ['netherlands', 'dutch', 'holland'],
+		callingCode: '31',
+		trunkPrefix: '0',
+		lengths: [9],
+		pattern: '[1-9]\\d{8}',
+		mobile: '6[1-58]\\d{7}',
+		fixedLine: '[1-57]\\d{8}',
+		formats: [
+			{ leading: '6', groups: [1] },
+			{ leading: '', groups: [2, 3] },
+		],
+	},
+	VN: {
+		country: 'VN',
+		name: 'Vietnamese',
+		keywords: ['vietnam', 'viet nam', 'vietnamese'],
+		callingCode: '84',
+		trunkPrefix: '0',
+		lengths: [9, 10],
+		pattern: '(?:(?:3[2-9]|5[25689]|7[06-9]|8[1-9]|9[0-46-9])\\d{7}|2\\d{9})',
+		mobile: '(?:3[2-9]|5[25689]|7[06-9]|8[1-9]|9[0-46-9])\\d{7}',
+		fixedLine: '2\\d{9}',
+		formats: [
+			{ leading: '2', groups: [2, 4] },
+			{ leading: '', groups: [3, 3] },
+		],
+	},
+	IN: {
+		country: 'IN',
+		name: 'Indian',
+		keywords: ['india', 'indian'],
+		callingCode: '91',
+		trunkPrefix: '0',
+		lengths: [10],
+		pattern: '[1-9]\\d{9}',
+		mobile: '[6-9]\\d{9}',
+		fixedLine: '[1-5]\\d{9}',
+		formats: [
+			{ leading: '[6-9]', groups: [5] },
+			{ leading: '', groups: [3, 3] },
+		],
+	},
+	AU: {
+		country: 'AU',
+		name: 'Australian',
+		keywords: ['australia', 'australian'],
+		callingCode: '61',
+		trunkPrefix: '0',
+		lengths: [9],
+		pattern: '[2-478]\\d{8}',
+		mobile: '4\\d{8}',
+		fixedLine: '[2378]\\d{8}',
+		formats: [
+			{ leading: '4', groups: [3, 3] },
+			{ leading: '', groups: [1, 4] },
+		],
+	},
+	JP: {
+		country: 'JP',
+		name: 'Japanese',
+		keywords: ['japan', 'japanese'],
+		callingCode: '81',
+		trunkPrefix: '0',
+		lengths: [9, 10],
+		pattern: '(?:[789]0\\d{8}|[1-9]\\d{8})',
+		mobile: '[789]0\\d{8}',
+		fixedLine: '[1-9]\\d{8}',
+		formats: [
+			{ leading: '[789]0', groups: [2, 4] },
+			{ leading: '', groups: [1, 4] },
+		],
+	},
+	SG: {
+		country: 'SG',
+		name: 'Singaporean',
+		keywords: ['singapore', 'singaporean'],
+		callingCode: '65',
+		trunkPrefix: '',
+		lengths: [8],
+		pattern: '[3689]\\d{7}',
+		mobile: '[89]\\d{7}',
+		fixedLine: '6\\d{7}',
+		formats: [{ leading: '', groups: [4] }],
+	},
+	BR: {
+		country: 'BR',
+		name: 'Brazilian',
+		keywords: ['brazil', 'brazilian'],
+		callingCode: '55',
+		trunkPrefix: '0',
+		lengths: [10, 11],
+		pattern: '[1-9]{2}(?:9\\d{8}|[2-5]\\d{7})',
+		mobile: '[1-9]{2}9\\d{8}',
+		fixedLine: '[1-9]{2}[2-5]\\d{7}',
+		formats: [
+			{ leading: '[1-9]{2}9', groups: [2, 5] },
+			{ leading: '', groups: [2, 4] },
+		],
+	},
+	MX: {
+		country: 'MX',
+		name: 'Mexican',
+		keywords: ['mexico', 'mexican'],
+		callingCode: '52',
+		trunkPrefix: '',
+		lengths: [10],
+		pattern: '[1-9]\\d{9}',
+		formats: [
+			{ leading: '(?:33|55|81)', groups: [2, 4] },
+			{ leading: '', groups: [3, 3] },
+		],
+	},
+};
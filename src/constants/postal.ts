@@ -0,0 +1,726 @@
+/**
+ * @fileoverview RGex Postal Code Formats - Postal code catalog keyed by ISO 3166-1 country code
+ * @module Constants
+ * @category Constants
+ * @group Postal Codes
+ * @author duongnguyen321 - https://duonguyen.site
+ */
+
+import type { PostalCodeFormat } from '../../types/index.js';
+
+/**
+ * Postal code formats of the countries that use postal codes, keyed by ISO 3166-1
+ * code. Patterns describe the canonical upper-case form; a `separator` is where
+ * `normalizePostalCode` puts the space or hyphen back (e.g. `sw1a1aa` → `SW1A 1AA`).
+ */
+export const POSTAL_CODE_FORMATS: Record<string, PostalCodeFormat> = {
+	AD: {
+		name: 'Andorra',
+		keywords: ['andorran'],
+		pattern: 'AD\\d{3}',
+		example: 'AD500',
+	},
+	AF: {
+		name: 'Afghanistan',
+		keywords: ['afghan'],
+		pattern: '\\d{4}',
+		example: '1001',
+	},
+	AL: {
+		name: 'Albania',
+		keywords: ['albanian'],
+		pattern: '\\d{4}',
+		example: '1001',
+	},
+	AM: {
+		name: 'Armenia',
+		keywords: ['armenian'],
+		pattern: '\\d{4}',
+		example: '0010',
+	},
+	AR: {
+		name: 'Argentina',
+		keywords: ['argentinian', 'argentine'],
+		pattern: '(?:[A-HJ-NP-Z]\\d{4}[A-Z]{3}|\\d{4})',
+		example: 'C1425DKF',
+	},
+	AT: {
+		name: 'Austria',
+		keywords: ['austrian'],
+		pattern: '\\d{4}',
+		example: '1010',
+	},
+	AU: {
+		name: 'Australia',
+		keywords: ['australian'],
+		pattern: '\\d{4}',
+		example: '2000',
+	},
+	AZ: {
+		name: 'Azerbaijan',
+		keywords: ['azerbaijani'],
+		pattern: '(?:AZ ?)?\\d{4}',
+		example: 'AZ 1000',
+	},
+	BA: {
+		name: 'Bosnia and Herzegovina',
+		keywords: ['bosnia', 'bosnian'],
+		pattern: '\\d{5}',
+		example: '71000',
+	},
+	BB: {
+		name: 'Barbados',
+		keywords: ['barbadian'],
+		pattern: 'BB\\d{5}',
+		example: 'BB11000',
+	},
+	BD: {
+		name: 'Bangladesh',
+		keywords: ['bangladeshi'],
+		pattern: '\\d{4}',
+		example: '1000',
+	},
+	BE: {
+		name: 'Belgium',
+		keywords: ['belgian'],
+		pattern: '\\d{4}',
+		example: '1000',
+	},
+	BG: {
+		name: 'Bulgaria',
+		keywords: ['bulgarian'],
+		pattern: '\\d{4}',
+		example: '1000',
+	},
+	BH: {
+		name: 'Bahrain',
+		keywords: ['bahraini'],
+		pattern: '\\d{3,4}',
+		example: '317',
+	},
+	BN: { name: 'Brunei', pattern: '[A-Z]{2} ?\\d{4}', example: 'BS8811' },
+	BR: {
+		name: 'Brazil',
+		keywords: ['brazilian'],
+		pattern: '\\d{5}-\\d{3}',
+		separator: { text: '-', at: 5 },
+		example: '01310-100',
+	},
+	BT: {
+		name: 'Bhutan',
+		keywords: ['bhutanese'],
+		pattern: '\\d{5}',
+		example: '11001',
+	},
+	BY: {
+		name: 'Belarus',
+		keywords: ['belarusian'],
+		pattern: '\\d{6}',
+		example: '220050',
+	},
+	CA: {
+		name: 'Canada',
+		keywords: ['canadian'],
+		pattern: '[ABCEGHJ-NPRSTVXY]\\d[ABCEGHJ-NPRSTV-Z] \\d[ABCEGHJ-NPRSTV-Z]\\d',
+		separator: { text: ' ', at: 3 },
+		example: 'K1A 0B1',
+	},
+	CH: {
+		name: 'Switzerland',
+		keywords: ['swiss'],
+		pattern: '\\d{4}',
+		example: '8001',
+	},
+	CL: {
+		name: 'Chile',
+		keywords: ['chilean'],
+		pattern: '\\d{7}',
+		example: '8320000',
+	},
+	CN: {
+		name: 'China',
+		keywords: ['chinese'],
+		pattern: '\\d{6}',
+		example: '100000',
+	},
+	CO: {
+		name: 'Colombia',
+		keywords: ['colombian'],
+		pattern: '\\d{6}',
+		example: '110111',
+	},
+	CR: {
+		name: 'Costa Rica',
+		keywords: ['costa rican'],
+		pattern: '\\d{5}',
+		example: '10101',
+	},
+	CU: {
+		name: 'Cuba',
+		keywords: ['cuban'],
+		pattern: '\\d{5}',
+		example: '10400',
+	},
+	CV: { name: 'Cape Verde', pattern: '\\d{4}', example: '7600' },
+	CY: {
+		name: 'Cyprus',
+		keywords: ['cypriot'],
+		pattern: '\\d{4}',
+		example: '1010',
+	},
+	CZ: {
+		name: 'Czech Republic',
+		keywords: ['czechia', 'czech'],
+		pattern: '\\d{3} \\d{2}',
+		separator: { text: ' ', at: 3 },
+		example: '110 00',
+	},
+	DE: {
+		name: 'Germany',
+		keywords: ['german'],
+		pattern: '\\d{5}',
+		example: '10115',
+	},
+	DK: {
+		name: 'Denmark',
+		keywords: ['danish'],
+		pattern: '\\d{4}',
+		example: '1050',
+	},
+	DO: {
+		name: 'Dominican Republic',
+		keywords: ['dominican'],
+		pattern: '\\d{5}',
+		example: '10101',
+	},
+	DZ: {
+		name: 'Algeria',
+		keywords: ['algerian'],
+		pattern: '\\d{5}',
+		example: '16000',
+	},
+	EC: {
+		name: 'Ecuador',
+		keywords: ['ecuadorian'],
+		pattern: '\\d{6}',
+		example: '170150',
+	},
+	EE: {
+		name: 'Estonia',
+		keywords: ['estonian'],
+		pattern: '\\d{5}',
+		example: '10111',
+	},
+	EG: {
+		name: 'Egypt',
+		keywords: ['egyptian'],
+		pattern: '\\d{5}',
+		example: '11511',
+	},
+	ES: {
+		name: 'Spain',
+		keywords: ['spanish'],
+		pattern: '(?:0[1-9]|[1-4]\\d|5[0-2])\\d{3}',
+		example: '28013',
+	},
+	ET: {
+		name: 'Ethiopia',
+		keywords: ['ethiopian'],
+		pattern: '\\d{4}',
+		example: '1000',
+	},
+	FI: {
+		name: 'Finland',
+		keywords: ['finnish'],
+		pattern: '\\d{5}',
+		example: '00100',
+	},
+	FR: {
+		name: 'France',
+		keywords: ['french'],
+		pattern: '\\d{5}',
+		example: '75008',
+	},
+	GB: {
+		name: 'United Kingdom',
+		keywords: ['uk', 'british', 'england', 'great britain'],
+		pattern: '(?:GIR 0AA|[A-Z]{1,2}\\d[A-Z\\d]? \\d[ABD-HJLNP-UW-Z]{2})',
+		separator: { text: ' ', at: -3 },
+		example: 'SW1A 1AA',
+	},
+	GE: { name: 'Georgia', pattern: '\\d{4}', example: '0100' },
+	GN: { name: 'Guinea', pattern: '\\d{3}', example: '001' },
+	GR: {
+		name: 'Greece',
+		keywords: ['greek'],
+		pattern: '\\d{3} \\d{2}',
+		separator: { text: ' ', at: 3 },
+		example: '105 57',
+	},
+	GT: {
+		name: 'Guatemala',
+		keywords: ['guatemalan'],
+		pattern: '\\d{5}',
+		example: '01001',
+	},
+	GW: { name: 'Guinea-Bissau', pattern: '\\d{4}', example: '1000' },
+	HN: {
+		name: 'Honduras',
+		keywords: ['honduran'],
+		pattern: '\\d{5}',
+		example: '11101',
+	},
+	HR: {
+		name: 'Croatia',
+		keywords: ['croatian'],
+		pattern: '\\d{5}',
+		example: '10000',
+	},
+	HT: {
+		name: 'Haiti',
+		keywords: ['haitian'],
+		pattern: '\\d{4}',
+		example: '6110',
+	},
+	HU: {
+		name: 'Hungary',
+		keywords: ['hungarian'],
+		pattern: '\\d{4}',
+		example: '1051',
+	},
+	ID: {
+		name: 'Indonesia',
+		keywords: ['indonesian'],
+		pattern: '\\d{5}',
+		example: '10110',
+	},
+	IE: {
+		name: 'Ireland',
+		keywords: ['irish', 'eircode'],
+		pattern: '(?:[AC-FHKNPRTV-Y]\\d{2}|D6W) [0-9AC-FHKNPRTV-Y]{4}',
+		separator: { text: ' ', at: 3 },
+		example: 'D02 X285',
+	},
+	IL: {
+		name: 'Israel',
+		keywords: ['israeli'],
+		pattern: '\\d{7}',
+		example: '9614303',
+	},
+	IN: {
+		name: 'India',
+		keywords: ['indian', 'pin code'],
+		pattern: '\\d{6}',
+		example: '110001',
+	},
+	IQ: {
+		name: 'Iraq',
+		keywords: ['iraqi'],
+		pattern: '\\d{5}',
+		example: '10001',
+	},
+	IR: {
+		name: 'Iran',
+		keywords: ['iranian'],
+		pattern: '\\d{10}',
+		example: '1193653471',
+	},
+	IS: {
+		name: 'Iceland',
+		keywords: ['icelandic'],
+		pattern: '\\d{3}',
+		example: '101',
+	},
+	IT: {
+		name: 'Italy',
+		keywords: ['italian'],
+		pattern: '\\d{5}',
+		example: '00144',
+	},
+	JO: {
+		name: 'Jordan',
+		keywords: ['jordanian'],
+		pattern: '\\d{5}',
+		example: '11118',
+	},
+	JP: {
+		name: 'Japan',
+		keywords: ['japanese'],
+		pattern: '\\d{3}-\\d{4}',
+		separator: { text: '-', at: 3 },
+		example: '100-0001',
+	},
+	KE: {
+		name: 'Kenya',
+		keywords: ['kenyan'],
+		pattern: '\\d{5}',
+		example: '00100',
+	},
+	KG: { name: 'Kyrgyzstan', pattern: '\\d{6}', example: '720001' },
+	KH: {
+		name: 'Cambodia',
+		keywords: ['cambodian'],
+		pattern: '\\d{5,6}',
+		example: '120101',
+	},
+	KR: {
+		name: 'South Korea',
+		keywords: ['korea', 'korean'],
+		pattern: '\\d{5}',
+		example: '03051',
+	},
+	KW: {
+		name: 'Kuwait',
+		keywords: ['kuwaiti'],
+		pattern: '\\d{5}',
+		example: '13001',
+	},
+	KZ: {
+		name: 'Kazakhstan',
+		keywords: ['kazakh'],
+		pattern: '\\d{6}',
+		example: '050000',
+	},
+	LA: { name: 'Laos', keywords: ['lao'], pattern: '\\d{5}', example: '01000' },
+	LB: {
+		name: 'Lebanon',
+		keywords: ['lebanese'],
+		pattern: '\\d{4}(?: \\d{4})?',
+		example: '2038 3054',
+	},
+	LI: { name: 'Liechtenstein', pattern: '94[89]\\d', example: '9490' },
+	LK: {
+		name: 'Sri Lanka',
+		keywords: ['sri lankan'],
+		pattern: '\\d{5}',
+		example: '00100',
+	},
+	LR: {
+		name: 'Liberia',
+		keywords: ['liberian'],
+		pattern: '\\d{4}',
+		example: '1000',
+	},
+	LS: { name: 'Lesotho', pattern: '\\d{3}', example: '100' },
+	LT: {
+		name: 'Lithuania',
+		keywords: ['lithuanian'],
+		pattern: '(?:LT-)?\\d{5}',
+		example: 'LT-01100',
+	},
+	LU: {
+		name: 'Luxembourg',
+		keywords: ['luxembourgish'],
+		pattern: '(?:L-)?\\d{4}',
+		example: '1611',
+	},
+	LV: {
+		name: 'Latvia',
+		keywords: ['latvian'],
+		pattern: '(?:LV-)?\\d{4}',
+		example: 'LV-1050',
+	},
+	MA: {
+		name: 'Morocco',
+		keywords: ['moroccan'],
+		pattern: '\\d{5}',
+		example: '10000',
+	},
+	MC: {
+		name: 'Monaco',
+		keywords: ['monegasque'],
+		pattern: '980\\d{2}',
+		example: '98000',
+	},
+	MD: {
+		name: 'Moldova',
+		keywords: ['moldovan'],
+		pattern: '(?:MD-?)?\\d{4}',
+		example: 'MD-2001',
+	},
+	ME: {
+		name: 'Montenegro',
+		keywords: ['montenegrin'],
+		pattern: '8\\d{4}',
+		example: '81000',
+	},
+	MG: {
+		name: 'Madagascar',
+		keywords: ['malagasy'],
+		pattern: '\\d{3}',
+		example: '101',
+	},
+	MK: {
+		name: 'North Macedonia',
+		keywords: ['macedonia', 'macedonian'],
+		pattern: '\\d{4}',
+		example: '1000',
+	},
+	MN: {
+		name: 'Mongolia',
+		keywords: ['mongolian'],
+		pattern: '\\d{5}',
+		example: '15160',
+	},
+	MT: {
+		name: 'Malta',
+		keywords: ['maltese'],
+		pattern: '[A-Z]{3} \\d{4}',
+		separator: { text: ' ', at: 3 },
+		example: 'VLT 1117',
+	},
+	MU: {
+		name: 'Mauritius',
+		keywords: ['mauritian'],
+		pattern: '\\d{5}',
+		example: '11302',
+	},
+	MV: { name: 'Maldives', pattern: '\\d{5}', example: '20026' },
+	MX: {
+		name: 'Mexico',
+		keywords: ['mexican'],
+		pattern: '\\d{5}',
+		example: '06600',
+	},
+	MY: {
+		name: 'Malaysia',
+		keywords: ['malaysian'],
+		pattern: '\\d{5}',
+		example: '50050',
+	},
+	MZ: { name: 'Mozambique', pattern: '\\d{4}', example: '1100' },
+	NE: { name: 'Niger', pattern: '\\d{4}', example: '8001' },
+	NG: {
+		name: 'Nigeria',
+		keywords: ['nigerian'],
+		pattern: '\\d{6}',
+		example: '100001',
+	},
+	NI: {
+		name: 'Nicaragua',
+		keywords: ['nicaraguan'],
+		pattern: '\\d{5}',
+		example: '11001',
+	},
+	NL: {
+		name: 'Netherlands',
+		keywords: ['dutch', 'holland'],
+		pattern: '[1-9]\\d{3} (?!SA|SD|SS)[A-Z]{2}',
+		separator: { text: ' ', at: 4 },
+		example: '1012 JS',
+	},
+	NO: {
+		name: 'Norway',
+		keywords: ['norwegian'],
+		pattern: '\\d{4}',
+		example: '0150',
+	},
+	NP: {
+		name: 'Nepal',
+		keywords: ['nepali', 'nepalese'],
+		pattern: '\\d{5}',
+		example: '44600',
+	},
+	NZ: { name: 'New Zealand', pattern: '\\d{4}', example: '6011' },
+	OM: { name: 'Oman', keywords: ['omani'], pattern: '\\d{3}', example: '100' },
+	PE: {
+		name: 'Peru',
+		keywords: ['peruvian'],
+		pattern: '\\d{5}',
+		example: '15001',
+	},
+	PG: { name: 'Papua New Guinea', pattern: '\\d{3}', example: '111' },
+	PH: {
+		name: 'Philippines',
+		keywords: ['philippine', 'filipino'],
+		pattern: '\\d{4}',
+		example: '1000',
+	},
+	PK: {
+		name: 'Pakistan',
+		keywords: ['pakistani'],
+		pattern: '\\d{5}',
+		example: '44000',
+	},
+	PL: {
+		name: 'Poland',
+		keywords: ['polish'],
+		pattern: '\\d{2}-\\d{3}',
+		separator: { text: '-', at: 2 },
+		example: '00-950',
+	},
+	PR: {
+		name: 'Puerto Rico',
+		keywords: ['puerto rican'],
+		pattern: '00[679]\\d{2}(?:-\\d{4})?',
+		example: '00901',
+	},
+	PT: {
+		name: 'Portugal',
+		keywords: ['portuguese'],
+		pattern: '\\d{4}-\\d{3}',
+		separator: { text: '-', at: 4 },
+		example: '1000-001',
+	},
+	PY: {
+		name: 'Paraguay',
+		keywords: ['paraguayan'],
+		pattern: '\\d{4}',
+		example: '1209',
+	},
+	RO: {
+		name: 'Romania',
+		keywords: ['romanian'],
+		pattern: '\\d{6}',
+		example: '010011',
+	},
+	RS: {
+		name: 'Serbia',
+		keywords: ['serbian'],
+		pattern: '\\d{5}',
+		example: '11000',
+	},
+	RU: {
+		name: 'Russia',
+		keywords: ['russian'],
+		pattern: '\\d{6}',
+		example: '101000',
+	},
+	SA: {
+		name: 'Saudi Arabia',
+		keywords: ['saudi'],
+		pattern: '\\d{5}(?:-\\d{4})?',
+		example: '11564',
+	},
+	SE: {
+		name: 'Sweden',
+		keywords: ['swedish'],
+		pattern: '\\d{3} \\d{2}',
+		separator: { text: ' ', at: 3 },
+		example: '114 55',
+	},
+	SG: {
+		name: 'Singapore',
+		keywords: ['singaporean'],
+		pattern: '\\d{6}',
+		example: '238859',
+	},
+	SI: {
+		name: 'Slovenia',
+		keywords: ['slovenian'],
+		pattern: '(?:SI-)?\\d{4}',
+		example: '1000',
+	},
+	SK: {
+		name: 'Slovakia',
+		keywords: ['slovak'],
+		pattern: '\\d{3} \\d{2}',
+		separator: { text: ' ', at: 3 },
+		example: '811 01',
+	},
+	SM: { name: 'San Marino', pattern: '4789\\d', example: '47890' },
+	SN: {
+		name: 'Senegal',
+		keywords: ['senegalese'],
+		pattern: '\\d{5}',
+		example: '10200',
+	},
+	SV: {
+		name: 'El Salvador',
+		keywords: ['salvadoran'],
+		pattern: '(?:CP )?[1-3][1-7][0-2]\\d',
+		example: '1101',
+	},
+	SZ: {
+		name: 'Eswatini',
+		keywords: ['swaziland'],
+		pattern: '[HLMS]\\d{3}',
+		example: 'H100',
+	},
+	TH: {
+		name: 'Thailand',
+		keywords: ['thai'],
+		pattern: '\\d{5}',
+		example: '10200',
+	},
+	TJ: { name: 'Tajikistan', pattern: '\\d{6}', example: '734000' },
+	TM: { name: 'Turkmenistan', pattern: '\\d{6}', example: '744000' },
+	TN: {
+		name: 'Tunisia',
+		keywords: ['tunisian'],
+		pattern: '\\d{4}',
+		example: '1000',
+	},
+	TR: {
+		name: 'Turkey',
+		keywords: ['turkish', 'turkiye'],
+		pattern: '\\d{5}',
+		example: '34000',
+	},
+	TT: {
+		name: 'Trinidad and Tobago',
+		keywords: ['trinidad'],
+		pattern: '\\d{6}',
+		example: '100101',
+	},
+	TW: {
+		name: 'Taiwan',
+		keywords: ['taiwanese'],
+		pattern: '\\d{3}(?:\\d{2,3})?',
+		example: '100',
+	},
+	UA: {
+		name: 'Ukraine',
+		keywords: ['ukrainian'],
+		pattern: '\\d{5}',
+		example: '01001',
+	},
+	US: {
+		name: 'United States',
+		keywords: ['us', 'usa', 'american'],
+		pattern: '\\d{5}(?:-\\d{4})?',
+		separator: { text: '-', at: 5 },
+		example: '12345-6789',
+	},
+	UY: {
+		name: 'Uruguay',
+		keywords: ['uruguayan'],
+		pattern: '\\d{5}',
+		example: '11000',
+	},
+	UZ: {
+		name: 'Uzbekistan',
+		keywords: ['uzbek'],
+		pattern: '\\d{6}',
+		example: '100000',
+	},
+	VA: {
+		name: 'Vatican City',
+		keywords: ['vatican'],
+		pattern: '00120',
+		example: '00120',
+	},
+	VC: {
+		name: 'Saint Vincent and the Grenadines',
+		pattern: 'VC\\d{4}',
+		example: 'VC0100',
+	},
+	VN: {
+		name: 'Vietnam',
+		keywords: ['viet nam', 'vietnamese'],
+		pattern: '\\d{5,6}',
+		example: '10000',
+	},
+	ZA: {
+		name: 'South Africa',
+		keywords: ['south african'],
+		pattern: '\\d{4}',
+		example: '2000',
+	},
+	ZM: {
+		name: 'Zambia',
+		keywords: ['zambian'],
+		pattern: '\\d{5}',
+		example: '10101',
+	},
+};
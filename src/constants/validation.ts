@@ -3,8 +3,45 @@
  * Validation patterns and rules for different data types
  */
 
-import type { ValidationRule } from '../../types/index.js';
-import { REGEX_PATTERNS } from './patterns.js';
+import type {
+	DateFormat,
+	DateValidationOptions,
+	NationalIdType,
+	ValidationRule,
+} from '../../types/index.js';
+import { NATIONAL_ID_PATTERNS, REGEX_PATTERNS } from './patterns.js';
+import {
+	isValidAbaRouting,
+	isValidEan,
+	isValidIban,
+	isValidIsbn,
+	isValidIsbn10,
+	isValidIsbn13,
+	isValidVin,
+	luhnCheck,
+} from '../utils/checksums.js';
+import {
+	isValidAadhaar,
+	isValidCccd,
+	isValidChineseResidentId,
+	isValidCnpj,
+	isValidCpf,
+	isValidEuVat,
+	isValidNationalId,
+	isValidNino,
+	isValidPan,
+	isValidSin,
+} from '../utils/nationalIds.js';
+import {
+	dateFormatSource,
+	describeDateFormat,
+	validateDate,
+} from '../utils/dates.js';
+import {
+	getPostalFormat,
+	isValidPostalCode,
+	postalCodeSource,
+} from '../utils/postal.js';
 
 /**
  * A collection of factory functions for creating validation rules.
@@ -148,20 +185,35 @@ export const VALIDATION_PATTERNS = {
 	}),
 
 	/**
-	 * Creates a validation rule for a date in YYYY-MM-DD format.
+	 * Creates a validation rule for a date in YYYY-MM-DD format that exists on the
+	 * calendar (`2023-02-29` fails).
 	 * @returns A validation rule object.
 	 */
 	date: (): ValidationRule => ({
 		name: 'date',
 		pattern: new RegExp(REGEX_PATTERNS.DATE),
 		message: 'Please enter a valid date (YYYY-MM-DD)',
-		validator: (val: string) => {
-			if (!new RegExp(REGEX_PATTERNS.DATE).test(val)) return false;
-			const date = new Date(val);
-			return date instanceof Date && !isNaN(date.getTime());
-		},
+		validator: (val: string) =>
+			validateDate(val, { format: 'YYYY-MM-DD' }).valid,
 	}),
 
+	/**
+	 * Creates a validation rule for dates in one or more formats, checked against the
+	 * calendar and optional `after`/`before` bounds and `minAge`/`maxAge` in years.
+	 * @param options - Formats (default `iso8601`) and constraints, as for `validateDate`.
+	 * @returns A validation rule object.
+	 * @throws {Error} If a template has no date/time token.
+	 */
+	calendarDate: (options: DateValidationOptions = {}): ValidationRule => {
+		const formats = ([] as DateFormat[]).concat(options.format ?? 'iso8601');
+		return {
+			name: 'calendarDate',
+			pattern: new RegExp(`^(?:${formats.map(dateFormatSource).join('|')})$`),
+			message: describeDateRule(formats, options),
+			validator: (val: string) => validateDate(val, options).valid,
+		};
+	},
+
 	/**
 	 * Creates a validation rule for time in HH:MM or HH:MM:SS format.
 	 * @returns A validation rule object.
@@ -215,13 +267,15 @@ export const VALIDATION_PATTERNS = {
 	}),
 
 	/**
-	 * Creates a validation rule for a credit card number.
+	 * Creates a validation rule for a credit card number (Luhn check digit).
 	 * @returns A validation rule object.
 	 */
 	creditCard: (): ValidationRule => ({
 		name: 'creditCard',
 		pattern: new RegExp(REGEX_PATTERNS.CREDIT_CARD),
 		message: 'Please enter a valid credit card number',
+		validator: (val: string) =>
+			new RegExp(REGEX_PATTERNS.CREDIT_CARD).test(val) && luhnCheck(val),
 	}),
 
 	/**
@@ -309,6 +363,23 @@ export const VALIDATION_PATTERNS = {
 		message: 'Please enter a valid UK postcode',
 	}),
 
+	/**
+	 * Creates a validation rule for the postal codes of a country. Case and the
+	 * separator are not enforced: `sw1a1aa` passes as a UK postcode.
+	 * @param countryCode - The ISO 3166-1 code of the country, e.g. `JP`.
+	 * @returns A validation rule object.
+	 * @throws {Error} If the country has no entry in `POSTAL_CODE_FORMATS`.
+	 */
+	postalCodeFor: (countryCode: string): ValidationRule => {
+		const format = getPostalFormat(countryCode);
+		return {
+			name: 'postalCode',
+			pattern: new RegExp(`^(?:${postalCodeSource(countryCode)})$`, 'i'),
+			message: `Please enter a valid ${format.name} postal code (e.g. ${format.example})`,
+			validator: (val: string) => isValidPostalCode(val, countryCode),
+		};
+	},
+
 	/**
 	 * Creates a validation rule for file extensions.
 	 * @returns A validation rule object.
@@ -357,36 +428,45 @@ export const VALIDATION_PATTERNS = {
 		name: 'isoDateTime',
 		pattern: new RegExp(REGEX_PATTERNS.ISO_DATETIME),
 		message: 'Please enter a valid ISO datetime (YYYY-MM-DDTHH:mm:ss.sssZ)',
+		validator: (val: string) =>
+			new RegExp(REGEX_PATTERNS.ISO_DATETIME).test(val) &&
+			validateDate(val).valid,
 	}),
 
 	/**
-	 * Creates a validation rule for Visa credit cards.
+	 * Creates a validation rule for Visa credit cards (Luhn check digit).
 	 * @returns A validation rule object.
 	 */
 	visaCard: (): ValidationRule => ({
 		name: 'visaCard',
 		pattern: new RegExp(REGEX_PATTERNS.VISA_CARD),
 		message: 'Please enter a valid Visa card number',
+		validator: (val: string) =>
+			new RegExp(REGEX_PATTERNS.VISA_CARD).test(val) && luhnCheck(val),
 	}),
 
 	/**
-	 * Creates a validation rule for Mastercard credit cards.
+	 * Creates a validation rule for Mastercard credit cards (Luhn check digit).
 	 * @returns A validation rule object.
 	 */
 	masterCard: (): ValidationRule => ({
 		name: 'masterCard',
 		pattern: new RegExp(REGEX_PATTERNS.MASTERCARD),
 		message: 'Please enter a valid Mastercard number',
+		validator: (val: string) =>
+			new RegExp(REGEX_PATTERNS.MASTERCARD).test(val) && luhnCheck(val),
 	}),
 
 	/**
-	 * Creates a validation rule for American Express credit cards.
+	 * Creates a validation rule for American Express credit cards (Luhn check digit).
 	 * @returns A validation rule object.
 	 */
 	amexCard: (): ValidationRule => ({
 		name: 'amexCard',
 		pattern: new RegExp(REGEX_PATTERNS.AMEX),
 		message: 'Please enter a valid American Express card number',
+		validator: (val: string) =>
+			new RegExp(REGEX_PATTERNS.AMEX).test(val) && luhnCheck(val),
 	}),
 
 	/**
@@ -420,13 +500,15 @@ export const VALIDATION_PATTERNS = {
 	}),
 
 	/**
-	 * Creates a validation rule for IBAN codes.
+	 * Creates a validation rule for IBAN codes (country length and mod 97 check digits).
 	 * @returns A validation rule object.
 	 */
 	iban: (): ValidationRule => ({
 		name: 'iban',
 		pattern: new RegExp(REGEX_PATTERNS.IBAN),
 		message: 'Please enter a valid IBAN code',
+		validator: (val: string) =>
+			new RegExp(REGEX_PATTERNS.IBAN).test(val) && isValidIban(val),
 	}),
 
 	/**
@@ -440,23 +522,201 @@ export const VALIDATION_PATTERNS = {
 	}),
 
 	/**
-	 * Creates a validation rule for ISBN-10 codes.
+	 * Creates a validation rule for ISBN-10 codes (mod 11 check digit).
 	 * @returns A validation rule object.
 	 */
 	isbn10: (): ValidationRule => ({
 		name: 'isbn10',
 		pattern: new RegExp(REGEX_PATTERNS.ISBN_10),
 		message: 'Please enter a valid ISBN-10 code',
+		validator: (val: string) =>
+			new RegExp(REGEX_PATTERNS.ISBN_10).test(val) && isValidIsbn10(val),
 	}),
 
 	/**
-	 * Creates a validation rule for ISBN-13 codes.
+	 * Creates a validation rule for ISBN-13 codes (EAN-13 check digit).
 	 * @returns A validation rule object.
 	 */
 	isbn13: (): ValidationRule => ({
 		name: 'isbn13',
 		pattern: new RegExp(REGEX_PATTERNS.ISBN_13),
 		message: 'Please enter a valid ISBN-13 code',
+		validator: (val: string) =>
+			new RegExp(REGEX_PATTERNS.ISBN_13).test(val) && isValidIsbn13(val),
+	}),
+
+	/**
+	 * Creates a validation rule for ISBNs in either form, ISBN-10 or ISBN-13.
+	 * @returns A validation rule object.
+	 */
+	isbn: (): ValidationRule => ({
+		name: 'isbn',
+		pattern: new RegExp(REGEX_PATTERNS.ISBN),
+		message: 'Please enter a valid ISBN-10 or ISBN-13 code',
+		validator: (val: string) =>
+			new RegExp(REGEX_PATTERNS.ISBN).test(val) && isValidIsbn(val),
+	}),
+
+	/**
+	 * Creates a validation rule for US ABA routing numbers (weighted mod 10 checksum).
+	 * @returns A validation rule object.
+	 */
+	abaRouting: (): ValidationRule => ({
+		name: 'abaRouting',
+		pattern: new RegExp(REGEX_PATTERNS.ABA_ROUTING),
+		message: 'Please enter a valid 9-digit routing number',
+		validator: (val: string) =>
+			new RegExp(REGEX_PATTERNS.ABA_ROUTING).test(val) &&
+			isValidAbaRouting(val),
+	}),
+
+	/**
+	 * Creates a validation rule for EAN-8, UPC-A, EAN-13 and GTIN-14 barcode numbers.
+	 * @returns A validation rule object.
+	 */
+	ean: (): ValidationRule => ({
+		name: 'ean',
+		pattern: new RegExp(REGEX_PATTERNS.EAN),
+		message: 'Please enter a valid EAN/UPC barcode number',
+		validator: (val: string) =>
+			new RegExp(REGEX_PATTERNS.EAN).test(val) && isValidEan(val),
+	}),
+
+	/**
+	 * Creates a validation rule for vehicle identification numbers (ISO 3779 check digit).
+	 * @returns A validation rule object.
+	 */
+	vin: (): ValidationRule => ({
+		name: 'vin',
+		pattern: new RegExp(REGEX_PATTERNS.VIN),
+		message: 'Please enter a valid 17-character VIN',
+		validator: (val: string) =>
+			new RegExp(REGEX_PATTERNS.VIN).test(val) && isValidVin(val),
+	}),
+
+	/**
+	 * Creates a validation rule for UK National Insurance numbers.
+	 * @returns A validation rule object.
+	 */
+	ukNino: (): ValidationRule => ({
+		name: 'ukNino',
+		pattern: new RegExp(REGEX_PATTERNS.UK_NINO),
+		message: 'Please enter a valid National Insurance number (AB 12 34 56 C)',
+		validator: isValidNino,
+	}),
+
+	/**
+	 * Creates a validation rule for Canadian Social Insurance Numbers (Luhn check digit).
+	 * @returns A validation rule object.
+	 */
+	canadianSin: (): ValidationRule => ({
+		name: 'canadianSin',
+		pattern: new RegExp(REGEX_PATTERNS.CANADIAN_SIN),
+		message: 'Please enter a valid 9-digit Social Insurance Number',
+		validator: (val: string) =>
+			new RegExp(REGEX_PATTERNS.CANADIAN_SIN).test(val) && isValidSin(val),
+	}),
+
+	/**
+	 * Creates a validation rule for Indian Permanent Account Numbers (PAN).
+	 * @returns A validation rule object.
+	 */
+	indianPan: (): ValidationRule => ({
+		name: 'indianPan',
+		pattern: new RegExp(REGEX_PATTERNS.INDIAN_PAN),
+		message: 'Please enter a valid PAN (ABCPE1234F)',
+		validator: isValidPan,
+	}),
+
+	/**
+	 * Creates a validation rule for Aadhaar numbers (Verhoeff check digit).
+	 * @returns A validation rule object.
+	 */
+	aadhaar: (): ValidationRule => ({
+		name: 'aadhaar',
+		pattern: new RegExp(REGEX_PATTERNS.AADHAAR),
+		message: 'Please enter a valid 12-digit Aadhaar number',
+		validator: (val: string) =>
+			new RegExp(REGEX_PATTERNS.AADHAAR).test(val) && isValidAadhaar(val),
+	}),
+
+	/**
+	 * Creates a validation rule for Brazilian CPF numbers (two mod 11 check digits).
+	 * @returns A validation rule object.
+	 */
+	cpf: (): ValidationRule => ({
+		name: 'cpf',
+		pattern: new RegExp(REGEX_PATTERNS.BRAZIL_CPF),
+		message: 'Please enter a valid CPF (000.000.000-00)',
+		validator: (val: string) =>
+			new RegExp(REGEX_PATTERNS.BRAZIL_CPF).test(val) && isValidCpf(val),
+	}),
+
+	/**
+	 * Creates a validation rule for Brazilian CNPJ numbers, numeric or alphanumeric
+	 * (two mod 11 check digits).
+	 * @returns A validation rule object.
+	 */
+	cnpj: (): ValidationRule => ({
+		name: 'cnpj',
+		pattern: new RegExp(REGEX_PATTERNS.BRAZIL_CNPJ),
+		message: 'Please enter a valid CNPJ (00.000.000/0000-00)',
+		validator: (val: string) =>
+			new RegExp(REGEX_PATTERNS.BRAZIL_CNPJ).test(val) && isValidCnpj(val),
+	}),
+
+	/**
+	 * Creates a validation rule for Vietnamese citizen identity card (CCCD) numbers.
+	 * @returns A validation rule object.
+	 */
+	vietnameseCccd: (): ValidationRule => ({
+		name: 'vietnameseCccd',
+		pattern: new RegExp(REGEX_PATTERNS.VIETNAM_CCCD),
+		message: 'Please enter a valid 12-digit citizen identity card number',
+		validator: isValidCccd,
+	}),
+
+	/**
+	 * Creates a validation rule for Chinese resident identity card numbers (birth date
+	 * and MOD 11-2 check character).
+	 * @returns A validation rule object.
+	 */
+	chineseResidentId: (): ValidationRule => ({
+		name: 'chineseResidentId',
+		pattern: new RegExp(REGEX_PATTERNS.CHINESE_RESIDENT_ID),
+		message: 'Please enter a valid 18-character resident identity card number',
+		validator: isValidChineseResidentId,
+	}),
+
+	/**
+	 * Creates a validation rule for EU VAT numbers, with check digits for the member
+	 * states that publish their algorithm.
+	 * @param countryCode - Only accept this member state, e.g. `DE`.
+	 * @returns A validation rule object.
+	 */
+	euVat: (countryCode?: string): ValidationRule => ({
+		name: 'euVat',
+		pattern: new RegExp(REGEX_PATTERNS.EU_VAT),
+		message: countryCode
+			? `Please enter a valid ${countryCode.toUpperCase()} VAT number`
+			: 'Please enter a valid EU VAT number with its country prefix',
+		validator: (val: string) =>
+			new RegExp(REGEX_PATTERNS.EU_VAT).test(val) &&
+			isValidEuVat(val, countryCode),
+	}),
+
+	/**
+	 * Creates a validation rule for any supported national identifier or tax number.
+	 * @param type - Which identifier, e.g. `brCpf`.
+	 * @returns A validation rule object.
+	 */
+	nationalId: (type: NationalIdType): ValidationRule => ({
+		name: type,
+		pattern: new RegExp(NATIONAL_ID_PATTERNS[type]),
+		message: 'Please enter a valid identification number',
+		validator: (val: string) =>
+			new RegExp(NATIONAL_ID_PATTERNS[type]).test(val) &&
+			isValidNationalId(val, type),
 	}),
 
 	/**
@@ -691,6 +951,28 @@ export const VALIDATION_KEYWORDS: Record<
 	isbn10: VALIDATION_PATTERNS.isbn10,
 	'isbn 13': VALIDATION_PATTERNS.isbn13,
 	isbn13: VALIDATION_PATTERNS.isbn13,
+	isbn: VALIDATION_PATTERNS.isbn,
+	'routing number': VALIDATION_PATTERNS.abaRouting,
+	'aba routing': VALIDATION_PATTERNS.abaRouting,
+	ean: VALIDATION_PATTERNS.ean,
+	upc: VALIDATION_PATTERNS.ean,
+	barcode: VALIDATION_PATTERNS.ean,
+	vin: VALIDATION_PATTERNS.vin,
+	'vehicle identification number': VALIDATION_PATTERNS.vin,
+	'national insurance number': VALIDATION_PATTERNS.ukNino,
+	nino: VALIDATION_PATTERNS.ukNino,
+	'social insurance number': VALIDATION_PATTERNS.canadianSin,
+	'pan card': VALIDATION_PATTERNS.indianPan,
+	'permanent account number': VALIDATION_PATTERNS.indianPan,
+	aadhaar: VALIDATION_PATTERNS.aadhaar,
+	cpf: VALIDATION_PATTERNS.cpf,
+	cnpj: VALIDATION_PATTERNS.cnpj,
+	cccd: VALIDATION_PATTERNS.vietnameseCccd,
+	'citizen identity card': VALIDATION_PATTERNS.vietnameseCccd,
+	'chinese resident id': VALIDATION_PATTERNS.chineseResidentId,
+	'resident identity card': VALIDATION_PATTERNS.chineseResidentId,
+	'vat number': VALIDATION_PATTERNS.euVat,
+	'eu vat': VALIDATION_PATTERNS.euVat,
 	semver: VALIDATION_PATTERNS.semver,
 	'semantic version': VALIDATION_PATTERNS.semver,
 	'jwt token': VALIDATION_PATTERNS.jwtToken,
@@ -732,3 +1014,36 @@ export const LENGTH_PATTERNS = {
 	'minimum length': VALIDATION_PATTERNS.minLength,
 	'maximum length': VALIDATION_PATTERNS.maxLength,
 };
+
+/**
+ * Builds the message of a `calendarDate` rule, e.g. "Please enter a valid date
+ * (DD/MM/YYYY) at least 18 years ago".
+ * @internal
+ */
+function describeDateRule(
+	formats: DateFormat[],
+	options: DateValidationOptions
+): string {
+	const constraints: string[] = [];
+	if (options.after !== undefined) {
+		constraints.push(`after ${describeBound(options.after)}`);
+	}
+	if (options.before !== undefined) {
+		constraints.push(`before ${describeBound(options.before)}`);
+	}
+	if (options.minAge !== undefined) {
+		constraints.push(`at least ${options.minAge} years ago`);
+	}
+	if (options.maxAge !== undefined) {
+		constraints.push(`at most ${options.maxAge} years ago`);
+	}
+	const range = constraints.length > 0 ? ` ${constraints.join(' and ')}` : '';
+	return `Please enter a valid date (${formats
+		.map(describeDateFormat)
+		.join(' or ')})${range}`;
+}
+
+/** @internal */
+function describeBound(bound: Date | string): string {
+	return typeof bound === 'string' ? bound : bound.toISOString();
+}
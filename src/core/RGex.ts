@@ -15,17 +15,28 @@
  */
 
 import type {
+	ExampleSynthesisResult,
+	NationalIdType,
+	NumericRangeOptions,
 	PasswordValidationOptions,
 	PasswordValidationResult,
+	ReDoSReport,
 	RegexBuilderOptions,
+	RegexExamples,
+	RegexExplanation,
+	RegexNode,
+	SequenceNode,
+	StringGenerationOptions,
 	TextExtractionResult,
+	TypedMatchGroups,
 	ValidationExtractionResult,
 } from '../../types/index.js';
 
 import { RGEX_CONFIG } from '../config/index.js';
-import { REGEX_PATTERNS } from '../constants/patterns.js';
+import { NATIONAL_ID_PATTERNS, REGEX_PATTERNS } from '../constants/patterns.js';
 import {
 	escapeRegex,
+	flagsToOptions,
 	isValidRegex,
 	normalizeText,
 	optionsToFlags,
@@ -36,21 +47,46 @@ import {
 	parseHumanTextToValidation,
 } from '../utils/humanText.js';
 import { validatePassword } from '../utils/password.js';
+import { analyzeReDoS } from '../utils/redos.js';
+import { explainRegex } from '../utils/explain.js';
+import { synthesizeRegex } from '../utils/synthesis.js';
+import { generateMatching, generateNonMatching } from '../utils/generate.js';
+import { patternRegistry } from '../utils/patternRegistry.js';
+import { postalCodeSource } from '../utils/postal.js';
+import { numericRangeSource } from '../utils/numericRange.js';
+import {
+	cloneNode,
+	countCaptureGroups,
+	emptySequence,
+	expandDot,
+	expandIgnoreCase,
+	hasNumberedBackreference,
+	hasTopLevelAlternation,
+	isCaseSensitive,
+	serializeNode,
+	shiftCaptureGroups,
+	toSingleNode,
+	useUnicodeSets,
+} from './ast.js';
+import { parseRegex } from './parser.js';
 
 /**
  * Main RGex class with fluent API
  */
-export class RGex {
-	private pattern: string = '';
+export class RGex<Groups extends string = never> {
+	private root: SequenceNode = emptySequence();
 	private options: RegexBuilderOptions = {};
+	private frozen = false;
 
 	/**
 	 * Initializes a new instance of the RGex class.
-	 * @param pattern - The initial regex pattern string.
+	 * @param pattern - The initial regex pattern string, kept verbatim as a raw node.
 	 * @param options - The initial regex options.
 	 */
 	constructor(pattern: string = '', options: RegexBuilderOptions = {}) {
-		this.pattern = pattern;
+		if (pattern) {
+			this.root.elements.push({ type: 'raw', source: pattern });
+		}
 		this.options = { ...RGEX_CONFIG.defaults.flags, ...options };
 	}
 
@@ -64,6 +100,23 @@ export class RGex {
 		return new RGex(pattern, options);
 	}
 
+	/**
+	 * Creates an immutable RGex instance: every builder and flag method returns a new
+	 * instance and leaves the original untouched, so a shared fragment such as
+	 * `RGex.immutable().start().literal('ID-')` can be extended in several directions.
+	 * @param pattern - The initial regex pattern.
+	 * @param options - The regex options.
+	 * @returns A new immutable RGex instance.
+	 */
+	static immutable(
+		pattern: string = '',
+		options: RegexBuilderOptions = {}
+	): RGex {
+		const instance = new RGex(pattern, options);
+		instance.frozen = true;
+		return instance;
+	}
+
 	/**
 	 * Converts a human-readable text description into a regex pattern.
 	 * @param humanText - The natural language description of the pattern.
@@ -120,6 +173,35 @@ export class RGex {
 		}
 	}
 
+	/**
+	 * Infers a minimal anchored pattern from samples it must match and reject.
+	 * @param examples - The `match` samples and optional `reject` samples.
+	 * @returns A result with the inferred pattern and the samples that drove each part of it.
+	 */
+	static fromExamples(examples: RegexExamples): ExampleSynthesisResult {
+		return synthesizeRegex(examples);
+	}
+
+	/**
+	 * Parses an existing regular expression into a builder whose AST mirrors its structure,
+	 * so the pattern can be inspected with `toAST()` or extended with the fluent API.
+	 * @param source - The pattern string or a `RegExp`.
+	 * @param flags - The flags to parse with. Defaults to the flags of a `RegExp` source.
+	 * @returns A new RGex instance backed by the parsed tree. Its group names aren't known
+	 * at compile time, so `matchTyped` returns a string-keyed record.
+	 * @throws {SyntaxError} If the pattern is not a valid regular expression.
+	 */
+	static parse(source: string | RegExp, flags?: string): RGex<string> {
+		const flagString =
+			flags ?? (typeof source === 'string' ? '' : source.flags);
+		const instance = new RGex<string>('', {
+			...flagsToOptions(flagString),
+			flags: flagString.replace(/[gimsuy]/g, ''),
+		});
+		instance.root = parseRegex(source, flagString);
+		return instance;
+	}
+
 	/**
 	 * Replaces the current pattern with one generated from a human-readable text description.
 	 * @param humanText - The natural language description of the pattern.
@@ -129,15 +211,19 @@ export class RGex {
 	humanText(humanText: string, testValue?: string): RGex {
 		const result = parseHumanTextToRegex(humanText, testValue);
 
-		if (result.success && result.pattern) {
-			this.pattern = result.pattern.source;
-			// Preserve existing flags unless pattern has specific requirements
-			return this;
-		} else {
-			// Set to non-matching pattern if parsing failed
-			this.pattern = '(?!.*)'; // Pattern that never matches
-			return this;
-		}
+		return this.edit((target) => {
+			target.root = emptySequence();
+			if (result.success && result.pattern) {
+				target.root.elements.push({
+					type: 'raw',
+					source: result.pattern.source,
+				});
+				// Preserve existing flags unless pattern has specific requirements
+			} else {
+				// Set to non-matching pattern if parsing failed
+				target.root.elements.push({ type: 'raw', source: '(?!.*)' }); // Pattern that never matches
+			}
+		});
 	}
 
 	// Builder Methods
@@ -147,9 +233,8 @@ export class RGex {
 	 * @param text - The literal string to append.
 	 * @returns The current RGex instance for chaining.
 	 */
-	literal(text: string): RGex {
-		this.pattern += escapeRegex(text);
-		return this;
+	literal(text: string): RGex<Groups> {
+		return this.append({ type: 'literal', value: text });
 	}
 
 	/**
@@ -157,9 +242,8 @@ export class RGex {
 	 * @param pattern - The raw pattern string to append.
 	 * @returns The current RGex instance for chaining.
 	 */
-	raw(pattern: string): RGex {
-		this.pattern += pattern;
-		return this;
+	raw(pattern: string): RGex<Groups> {
+		return this.append({ type: 'raw', source: pattern });
 	}
 
 	/**
@@ -168,164 +252,354 @@ export class RGex {
 	 * @param negate - If true, creates a negated character class.
 	 * @returns The current RGex instance for chaining.
 	 */
-	charClass(chars: string, negate: boolean = false): RGex {
-		const escaped = chars.replace(/[\]\\^-]/g, '\\$&');
-		this.pattern += negate ? `[^${escaped}]` : `[${escaped}]`;
-		return this;
+	charClass(chars: string, negate: boolean = false): RGex<Groups> {
+		return this.append({
+			type: 'class',
+			negate,
+			items: Array.from(chars, (char) => ({ type: 'char', value: char })),
+		});
 	}
 
 	/**
 	 * Appends a digit character class (\\d).
 	 * @returns The current RGex instance for chaining.
 	 */
-	digit(): RGex {
-		this.pattern += '\\d';
-		return this;
+	digit(): RGex<Groups> {
+		return this.append({ type: 'characterType', kind: 'digit', negate: false });
 	}
 
 	/**
 	 * Appends a word character class (\\w).
 	 * @returns The current RGex instance for chaining.
 	 */
-	word(): RGex {
-		this.pattern += '\\w';
-		return this;
+	word(): RGex<Groups> {
+		return this.append({ type: 'characterType', kind: 'word', negate: false });
 	}
 
 	/**
 	 * Appends a whitespace character class (\\s).
 	 * @returns The current RGex instance for chaining.
 	 */
-	whitespace(): RGex {
-		this.pattern += '\\s';
-		return this;
+	whitespace(): RGex<Groups> {
+		return this.append({
+			type: 'characterType',
+			kind: 'whitespace',
+			negate: false,
+		});
 	}
 
 	/**
 	 * Appends an "any character" pattern (.).
 	 * @returns The current RGex instance for chaining.
 	 */
-	any(): RGex {
-		this.pattern += '.';
-		return this;
+	any(): RGex<Groups> {
+		return this.append({ type: 'characterType', kind: 'any', negate: false });
 	}
 
 	/**
-	 * Adds a start-of-string anchor (^) to the beginning of the pattern.
+	 * Adds a start-of-string anchor (^) to the beginning of the pattern, unless it
+	 * already begins with one.
 	 * @returns The current RGex instance for chaining.
 	 */
-	start(): RGex {
-		if (!this.pattern.startsWith('^')) {
-			this.pattern = '^' + this.pattern;
-		}
-		return this;
+	start(): RGex<Groups> {
+		return this.edit((target) => {
+			if (!startsWithAnchor(target.root.elements)) {
+				target.root.elements.unshift({
+					type: 'assertion',
+					kind: 'start',
+					negative: false,
+				});
+			}
+		});
 	}
 
 	/**
-	 * Adds an end-of-string anchor ($) to the end of the pattern.
+	 * Adds an end-of-string anchor ($) to the end of the pattern, unless it already ends
+	 * with one. An escaped `\$`, as in `literal('a$')`, is not an anchor.
 	 * @returns The current RGex instance for chaining.
 	 */
-	end(): RGex {
-		if (!this.pattern.endsWith('$')) {
-			this.pattern += '$';
-		}
-		return this;
+	end(): RGex<Groups> {
+		return this.edit((target) => {
+			if (!endsWithAnchor(target.root.elements)) {
+				target.root.elements.push({
+					type: 'assertion',
+					kind: 'end',
+					negative: false,
+				});
+			}
+		});
+	}
+
+	/**
+	 * Turns everything built so far (between the `^`/`$` anchors) into an alternation
+	 * with other patterns. Elements appended afterwards follow the whole alternation,
+	 * so `literal('cat').or('dog').literal('s')` builds `(?:cat|dog)s`. On an empty
+	 * builder the alternatives stand alone: `rgex().or(cat, dog)` builds `cat|dog`.
+	 * @param patterns - The alternative patterns, as raw strings or RGex instances (see
+	 * `followedBy` for how instances are embedded).
+	 * @returns The current RGex instance for chaining.
+	 * @throws {SyntaxError} If an RGex operand is not a valid regular expression.
+	 */
+	or<Other extends string = never>(
+		...patterns: Array<string | RGex<Other>>
+	): RGex<Groups | Other> {
+		return this.edit<Groups | Other>((target) => {
+			const elements = target.root.elements;
+			const head =
+				elements[0]?.type === 'assertion' && elements[0].kind === 'start'
+					? elements.splice(0, 1)
+					: [];
+			const last = elements[elements.length - 1];
+			const tail =
+				last?.type === 'assertion' && last.kind === 'end'
+					? elements.splice(elements.length - 1, 1)
+					: [];
+
+			// Alternatives come after everything built so far, including each other
+			const alternatives: RegexNode[] = [];
+			for (const pattern of patterns) {
+				alternatives.push(
+					target.embed(
+						pattern,
+						toSingleNode([...elements].concat(alternatives))
+					)
+				);
+			}
+			const current = elements[0];
+			const alternation: RegexNode =
+				elements.length === 1 && current?.type === 'alternation'
+					? {
+							type: 'alternation',
+							alternatives: [...current.alternatives, ...alternatives],
+					  }
+					: {
+							type: 'alternation',
+							alternatives:
+								elements.length === 0
+									? alternatives
+									: [toSingleNode(elements), ...alternatives],
+					  };
+
+			target.root.elements = [...head, alternation, ...tail];
+		});
 	}
 
 	/**
-	 * Appends an OR operator (|) followed by another pattern.
-	 * @param pattern - The alternative pattern.
+	 * Appends another pattern, typically a shared fragment built with its own RGex
+	 * instance. An instance is embedded by structure rather than text: its own `^`/`$`
+	 * anchors are dropped, numbered backreferences are shifted past the capture groups
+	 * already built, and its case-insensitive and dot-all flags are kept to its own part
+	 * (`i` becomes classes such as `[aA]`). Its unicode flag is enabled on this builder.
+	 * @param pattern - A raw pattern string or an RGex instance.
 	 * @returns The current RGex instance for chaining.
+	 * @throws {SyntaxError} If an RGex operand is not a valid regular expression.
+	 *
+	 * @example
+	 * ```typescript
+	 * const octet = rgex().range(0, 255);
+	 * rgex().start().followedBy(octet).literal('.').followedBy(octet).end();
+	 * // /^(?:25[0-5]|...)\.(?:25[0-5]|...)$/
+	 * ```
 	 */
-	or(pattern: string): RGex {
-		this.pattern += `|${pattern}`;
-		return this;
+	followedBy<Other extends string = never>(
+		pattern: string | RGex<Other>
+	): RGex<Groups | Other> {
+		return this.edit<Groups | Other>((target) => {
+			target.root.elements.push(target.embed(pattern, target.root));
+		});
 	}
 
 	/**
-	 * Appends a quantifier to the preceding element.
+	 * Applies a quantifier to the last element added to the builder. Multi-character
+	 * elements (e.g. `literal('ab')`) are grouped so the quantifier covers all of them.
 	 * @param min - The minimum number of repetitions.
 	 * @param max - The maximum number of repetitions. Use Infinity for no upper limit.
 	 * @returns The current RGex instance for chaining.
+	 * @throws Will throw an error if there is no element to quantify.
 	 */
-	quantifier(min: number, max?: number): RGex {
-		if (max === undefined) {
-			this.pattern += `{${min}}`;
-		} else if (max === Infinity) {
-			this.pattern += `{${min},}`;
-		} else {
-			this.pattern += `{${min},${max}}`;
-		}
-		return this;
+	quantifier(min: number, max?: number): RGex<Groups> {
+		return this.quantify(min, max ?? min);
 	}
 
 	/**
-	 * Appends a zero-or-more quantifier (*).
+	 * Applies a zero-or-more quantifier (*) to the last element.
 	 * @returns The current RGex instance for chaining.
 	 */
-	zeroOrMore(): RGex {
-		this.pattern += '*';
-		return this;
+	zeroOrMore(): RGex<Groups> {
+		return this.quantify(0, Infinity);
 	}
 
 	/**
-	 * Appends a one-or-more quantifier (+).
+	 * Applies a one-or-more quantifier (+) to the last element.
 	 * @returns The current RGex instance for chaining.
 	 */
-	oneOrMore(): RGex {
-		this.pattern += '+';
-		return this;
+	oneOrMore(): RGex<Groups> {
+		return this.quantify(1, Infinity);
 	}
 
 	/**
-	 * Appends a zero-or-one quantifier (?).
+	 * Applies a zero-or-one quantifier (?) to the last element.
 	 * @returns The current RGex instance for chaining.
 	 */
-	optional(): RGex {
-		this.pattern += '?';
-		return this;
+	optional(): RGex<Groups> {
+		return this.quantify(0, 1);
+	}
+
+	/**
+	 * Makes the quantifier on the last element lazy (e.g. `+?`).
+	 * @returns The current RGex instance for chaining.
+	 * @throws Will throw an error if the last element is not quantified.
+	 */
+	lazy(): RGex<Groups> {
+		const last = this.root.elements[this.root.elements.length - 1];
+		if (last?.type !== 'quantifier') {
+			throw new Error('lazy() must follow a quantifier');
+		}
+		return this.edit((target) => {
+			const quantifier = target.root.elements[target.root.elements.length - 1];
+			if (quantifier?.type === 'quantifier') quantifier.lazy = true;
+		});
 	}
 
 	/**
 	 * Wraps a pattern in a capturing group.
-	 * @param pattern - The pattern to group.
+	 * @param pattern - The pattern to group, as a raw string or an RGex instance (see
+	 * `followedBy` for how instances are embedded).
 	 * @returns The current RGex instance for chaining.
+	 * @throws {SyntaxError} If an RGex operand is not a valid regular expression.
 	 */
-	group(pattern: string): RGex {
-		this.pattern += `(${pattern})`;
-		return this;
+	group<Other extends string = never>(
+		pattern: string | RGex<Other>
+	): RGex<Groups | Other> {
+		return this.edit<Groups | Other>((target) => {
+			const group: RegexNode = {
+				type: 'group',
+				kind: 'capturing',
+				body: { type: 'sequence', elements: [] },
+			};
+			target.root.elements.push(group);
+			group.body = target.embed(pattern, target.root);
+		});
 	}
 
 	/**
 	 * Wraps a pattern in a non-capturing group.
-	 * @param pattern - The pattern to group.
+	 * @param pattern - The pattern to group, as a raw string or an RGex instance (see
+	 * `followedBy` for how instances are embedded).
+	 * @returns The current RGex instance for chaining.
+	 * @throws {SyntaxError} If an RGex operand is not a valid regular expression.
+	 */
+	nonCapturingGroup<Other extends string = never>(
+		pattern: string | RGex<Other>
+	): RGex<Groups | Other> {
+		return this.edit<Groups | Other>((target) => {
+			const group: RegexNode = {
+				type: 'group',
+				kind: 'nonCapturing',
+				body: { type: 'sequence', elements: [] },
+			};
+			target.root.elements.push(group);
+			group.body = target.embed(pattern, target.root);
+		});
+	}
+
+	/**
+	 * Wraps a pattern in a named capture group `(?<name>...)`. The name is added to the
+	 * builder's type, so `matchTyped` returns it and `backreference` accepts it.
+	 * @param name - The group name, a JavaScript identifier such as `year`.
+	 * @param pattern - The pattern to group, as a raw string or an RGex instance (see
+	 * `followedBy` for how instances are embedded).
 	 * @returns The current RGex instance for chaining.
+	 * @throws {Error} If the name is not a valid group name.
+	 * @throws {SyntaxError} If an RGex operand is not a valid regular expression.
+	 *
+	 * @example
+	 * ```typescript
+	 * const date = rgex()
+	 *   .namedGroup('year', '\\d{4}')
+	 *   .literal('-')
+	 *   .namedGroup('month', '\\d{2}');
+	 * date.matchTyped('2024-05')?.month; // '05', typed as { year: string; month: string }
+	 * ```
 	 */
-	nonCapturingGroup(pattern: string): RGex {
-		this.pattern += `(?:${pattern})`;
-		return this;
+	namedGroup<Name extends string, Other extends string = never>(
+		name: Name,
+		pattern: string | RGex<Other>
+	): RGex<Groups | Name | Other> {
+		assertGroupName(name);
+		return this.edit<Groups | Name | Other>((target) => {
+			const group: RegexNode = {
+				type: 'group',
+				kind: 'named',
+				name,
+				body: { type: 'sequence', elements: [] },
+			};
+			target.root.elements.push(group);
+			group.body = target.embed(pattern, target.root);
+		});
+	}
+
+	/**
+	 * Appends a backreference to an earlier capture group: `\k<name>` for a named group
+	 * declared in the chain, or `\1`, `\2`, ... by number.
+	 * @param ref - The group name or its 1-based number.
+	 * @returns The current RGex instance for chaining.
+	 * @throws {Error} If the name is not a valid group name or the number is not a
+	 * positive integer.
+	 */
+	backreference(ref: Groups | number): RGex<Groups> {
+		if (typeof ref === 'number') {
+			if (!Number.isInteger(ref) || ref < 1) {
+				throw new Error(`Backreference numbers start at 1, got ${ref}`);
+			}
+		} else {
+			assertGroupName(ref);
+		}
+		return this.append({ type: 'backreference', ref });
 	}
 
 	/**
 	 * Appends a lookahead assertion.
-	 * @param pattern - The pattern for the lookahead.
+	 * @param pattern - The pattern for the lookahead, as a raw string or an RGex instance
+	 * (see `followedBy` for how instances are embedded).
 	 * @param negative - If true, creates a negative lookahead.
 	 * @returns The current RGex instance for chaining.
+	 * @throws {SyntaxError} If an RGex operand is not a valid regular expression.
 	 */
-	lookahead(pattern: string, negative: boolean = false): RGex {
-		this.pattern += negative ? `(?!${pattern})` : `(?=${pattern})`;
-		return this;
+	lookahead<Other extends string = never>(
+		pattern: string | RGex<Other>,
+		negative: boolean = false
+	): RGex<Groups | Other> {
+		return this.edit<Groups | Other>((target) => {
+			target.root.elements.push({
+				type: 'assertion',
+				kind: 'lookahead',
+				negative,
+				body: target.embed(pattern, target.root),
+			});
+		});
 	}
 
 	/**
 	 * Appends a lookbehind assertion.
-	 * @param pattern - The pattern for the lookbehind.
+	 * @param pattern - The pattern for the lookbehind, as a raw string or an RGex instance
+	 * (see `followedBy` for how instances are embedded).
 	 * @param negative - If true, creates a negative lookbehind.
 	 * @returns The current RGex instance for chaining.
+	 * @throws {SyntaxError} If an RGex operand is not a valid regular expression.
 	 */
-	lookbehind(pattern: string, negative: boolean = false): RGex {
-		this.pattern += negative ? `(?<!${pattern})` : `(?<=${pattern})`;
-		return this;
+	lookbehind<Other extends string = never>(
+		pattern: string | RGex<Other>,
+		negative: boolean = false
+	): RGex<Groups | Other> {
+		return this.edit<Groups | Other>((target) => {
+			target.root.elements.push({
+				type: 'assertion',
+				kind: 'lookbehind',
+				negative,
+				body: target.embed(pattern, target.root),
+			});
+		});
 	}
 
 	// Pre-built patterns
@@ -334,81 +608,139 @@ export class RGex {
 	 * Appends a pre-built email validation pattern.
 	 * @returns The current RGex instance for chaining.
 	 */
-	email(): RGex {
-		this.pattern += REGEX_PATTERNS.EMAIL;
-		return this;
+	email(): RGex<Groups> {
+		return this.append({ type: 'raw', source: REGEX_PATTERNS.EMAIL });
 	}
 
 	/**
 	 * Appends a pre-built URL validation pattern.
 	 * @returns The current RGex instance for chaining.
 	 */
-	url(): RGex {
-		this.pattern += REGEX_PATTERNS.URL;
-		return this;
+	url(): RGex<Groups> {
+		return this.append({ type: 'raw', source: REGEX_PATTERNS.URL });
 	}
 
 	/**
 	 * Appends a pre-built phone number validation pattern.
 	 * @returns The current RGex instance for chaining.
 	 */
-	phone(): RGex {
-		this.pattern += REGEX_PATTERNS.PHONE;
-		return this;
+	phone(): RGex<Groups> {
+		return this.append({ type: 'raw', source: REGEX_PATTERNS.PHONE });
 	}
 
 	/**
 	 * Appends a pre-built date (YYYY-MM-DD) validation pattern.
 	 * @returns The current RGex instance for chaining.
 	 */
-	date(): RGex {
-		this.pattern += REGEX_PATTERNS.DATE;
-		return this;
+	date(): RGex<Groups> {
+		return this.append({ type: 'raw', source: REGEX_PATTERNS.DATE });
 	}
 
 	/**
 	 * Appends a pre-built time (HH:MM or HH:MM:SS) validation pattern.
 	 * @returns The current RGex instance for chaining.
 	 */
-	time(): RGex {
-		this.pattern += REGEX_PATTERNS.TIME;
-		return this;
+	time(): RGex<Groups> {
+		return this.append({ type: 'raw', source: REGEX_PATTERNS.TIME });
 	}
 
 	/**
 	 * Appends a pre-built number (integer or decimal) validation pattern.
 	 * @returns The current RGex instance for chaining.
 	 */
-	number(): RGex {
-		this.pattern += REGEX_PATTERNS.DECIMAL;
-		return this;
+	number(): RGex<Groups> {
+		return this.append({ type: 'raw', source: REGEX_PATTERNS.DECIMAL });
+	}
+
+	/**
+	 * Appends a pattern matching the numbers from `min` to `max`, inclusive, e.g.
+	 * `range(1, 65535)` for port numbers or `range(0, 100, { decimals: 2 })` for
+	 * percentages. The range is not anchored, so it can sit between other parts; add
+	 * `start()` and `end()` to match a whole input.
+	 * @param min - The smallest accepted number.
+	 * @param max - The largest accepted number.
+	 * @param options - `leadingZeros` to accept padding such as `007`, and `decimals`, the
+	 * number of fraction digits allowed (0 by default).
+	 * @returns The current RGex instance for chaining.
+	 * @throws {Error} If a bound has more fraction digits than `decimals` allows, or `min`
+	 * is greater than `max`.
+	 */
+	range(
+		min: number,
+		max: number,
+		options: NumericRangeOptions = {}
+	): RGex<Groups> {
+		const source = numericRangeSource(min, max, options);
+		return this.append({ type: 'raw', source: `(?:${source})` });
 	}
 
 	/**
 	 * Appends a pre-built UUID validation pattern.
 	 * @returns The current RGex instance for chaining.
 	 */
-	uuid(): RGex {
-		this.pattern += REGEX_PATTERNS.UUID;
-		return this;
+	uuid(): RGex<Groups> {
+		return this.append({ type: 'raw', source: REGEX_PATTERNS.UUID });
 	}
 
 	/**
 	 * Appends a pre-built IPv4 validation pattern.
 	 * @returns The current RGex instance for chaining.
 	 */
-	ipv4(): RGex {
-		this.pattern += REGEX_PATTERNS.IPV4;
-		return this;
+	ipv4(): RGex<Groups> {
+		return this.append({ type: 'raw', source: REGEX_PATTERNS.IPV4 });
 	}
 
 	/**
 	 * Appends a pre-built hex color code validation pattern.
 	 * @returns The current RGex instance for chaining.
 	 */
-	hexColor(): RGex {
-		this.pattern += REGEX_PATTERNS.HEX_COLOR;
-		return this;
+	hexColor(): RGex<Groups> {
+		return this.append({ type: 'raw', source: REGEX_PATTERNS.HEX_COLOR });
+	}
+
+	/**
+	 * Appends the format of a national identifier or tax number, e.g. a Brazilian CPF
+	 * or an EU VAT number. Check digits can't be expressed as a pattern; validate them
+	 * with `isValidNationalId` or `VALIDATION_PATTERNS.nationalId`. The format is not
+	 * anchored, so add `start()` and `end()` to match a whole input.
+	 * @param type - Which identifier, e.g. `brCpf`, `ukNino` or `euVat`.
+	 * @returns The current RGex instance for chaining.
+	 */
+	nationalId(type: NationalIdType): RGex<Groups> {
+		return this.appendStored(new RegExp(NATIONAL_ID_PATTERNS[type]));
+	}
+
+	/**
+	 * Appends the postal code format of a country, accepting the separator as a space,
+	 * a hyphen or nothing (`100-0001` and `1000001` for Japan). Postal codes are not
+	 * case-sensitive, so their letters are matched in either case (`[A-Za-z]`) without
+	 * changing the builder's flags.
+	 * @param countryCode - The ISO 3166-1 code of the country, e.g. `JP`.
+	 * @returns The current RGex instance for chaining.
+	 * @throws {Error} If the country has no entry in `POSTAL_CODE_FORMATS`.
+	 */
+	postalCode(countryCode: string): RGex<Groups> {
+		const body = expandIgnoreCase(parseRegex(postalCodeSource(countryCode)));
+		return this.append({ type: 'group', kind: 'nonCapturing', body });
+	}
+
+	/**
+	 * Appends a named pattern from the shared `patternRegistry`, e.g. `acme.orderId`, or a
+	 * built-in `HUMAN_PATTERNS`/`REGEX_PATTERNS` name. It is embedded like a `followedBy`
+	 * operand: without its `^`/`$` anchors, in a non-capturing group, and with its
+	 * case-insensitive and dot-all flags kept to its own part. Add `start()` and `end()`
+	 * to match a whole input.
+	 * @param name - The registered pattern name.
+	 * @returns The current RGex instance for chaining.
+	 * @throws {Error} If no pattern has that name.
+	 */
+	use(name: string): RGex<Groups> {
+		const definition = patternRegistry.get(name);
+		if (!definition) {
+			throw new Error(`Unknown pattern "${name}"`);
+		}
+
+		return this.appendStored(definition.pattern);
 	}
 
 	// Options and flags
@@ -418,9 +750,10 @@ export class RGex {
 	 * @param enabled - If true, the flag is enabled.
 	 * @returns The current RGex instance for chaining.
 	 */
-	global(enabled: boolean = true): RGex {
-		this.options.global = enabled;
-		return this;
+	global(enabled: boolean = true): RGex<Groups> {
+		return this.edit((target) => {
+			target.options.global = enabled;
+		});
 	}
 
 	/**
@@ -428,9 +761,10 @@ export class RGex {
 	 * @param enabled - If true, the flag is enabled.
 	 * @returns The current RGex instance for chaining.
 	 */
-	ignoreCase(enabled: boolean = true): RGex {
-		this.options.ignoreCase = enabled;
-		return this;
+	ignoreCase(enabled: boolean = true): RGex<Groups> {
+		return this.edit((target) => {
+			target.options.ignoreCase = enabled;
+		});
 	}
 
 	/**
@@ -438,9 +772,10 @@ export class RGex {
 	 * @param enabled - If true, the flag is enabled.
 	 * @returns The current RGex instance for chaining.
 	 */
-	multiline(enabled: boolean = true): RGex {
-		this.options.multiline = enabled;
-		return this;
+	multiline(enabled: boolean = true): RGex<Groups> {
+		return this.edit((target) => {
+			target.options.multiline = enabled;
+		});
 	}
 
 	/**
@@ -448,9 +783,10 @@ export class RGex {
 	 * @param enabled - If true, the flag is enabled.
 	 * @returns The current RGex instance for chaining.
 	 */
-	dotAll(enabled: boolean = true): RGex {
-		this.options.dotAll = enabled;
-		return this;
+	dotAll(enabled: boolean = true): RGex<Groups> {
+		return this.edit((target) => {
+			target.options.dotAll = enabled;
+		});
 	}
 
 	/**
@@ -458,9 +794,10 @@ export class RGex {
 	 * @param enabled - If true, the flag is enabled.
 	 * @returns The current RGex instance for chaining.
 	 */
-	unicode(enabled: boolean = true): RGex {
-		this.options.unicode = enabled;
-		return this;
+	unicode(enabled: boolean = true): RGex<Groups> {
+		return this.edit((target) => {
+			target.options.unicode = enabled;
+		});
 	}
 
 	/**
@@ -468,9 +805,10 @@ export class RGex {
 	 * @param enabled - If true, the flag is enabled.
 	 * @returns The current RGex instance for chaining.
 	 */
-	sticky(enabled: boolean = true): RGex {
-		this.options.sticky = enabled;
-		return this;
+	sticky(enabled: boolean = true): RGex<Groups> {
+		return this.edit((target) => {
+			target.options.sticky = enabled;
+		});
 	}
 
 	// Password validation method
@@ -484,7 +822,7 @@ export class RGex {
 		options: PasswordValidationOptions = {}
 	): PasswordValidationResult {
 		// Use current pattern as test value if no pattern specified
-		const testValue = this.pattern || '';
+		const testValue = this.getPattern();
 		return validatePassword(testValue, options);
 	}
 
@@ -518,6 +856,19 @@ export class RGex {
 		}
 	}
 
+	/**
+	 * Matches the pattern against a string and returns its named groups, typed by the
+	 * names declared with `namedGroup` (or embedded from other builders). Groups that
+	 * didn't take part in the match, e.g. inside an optional part, are `undefined`.
+	 * @param input - The string to match.
+	 * @returns The named groups, or null if the pattern doesn't match.
+	 */
+	matchTyped(input: string): TypedMatchGroups<Groups> | null {
+		const match = this.exec(input);
+		if (!match) return null;
+		return { ...match.groups } as TypedMatchGroups<Groups>;
+	}
+
 	/**
 	 * Finds all matches of the pattern in a string.
 	 * @param input - The string to search.
@@ -569,7 +920,46 @@ export class RGex {
 	 * @returns True if the pattern is valid, otherwise false.
 	 */
 	isValid(): boolean {
-		return isValidRegex(this.pattern);
+		return isValidRegex(this.getPattern());
+	}
+
+	/**
+	 * Analyzes the current pattern for catastrophic backtracking (ReDoS).
+	 * @returns A report listing nested quantifiers, overlapping alternations and other
+	 * backtracking hazards, each with its position and an attack string.
+	 * @throws {SyntaxError} If the current pattern is not a valid regular expression.
+	 */
+	safetyReport(): ReDoSReport {
+		return analyzeReDoS(this.getPattern(), this.getFlags());
+	}
+
+	/**
+	 * Explains the current pattern in plain English.
+	 * @returns A one-paragraph summary plus a per-token explanation tree.
+	 * @throws {SyntaxError} If the current pattern is not a valid regular expression.
+	 */
+	explain(): RegexExplanation {
+		return explainRegex(this.getPattern(), this.getFlags());
+	}
+
+	/**
+	 * Generates random strings that match the current pattern as a whole input.
+	 * @param options - `count`, a `seed` for reproducible fixtures, and `maxRepeat`,
+	 * the extra repetitions allowed for unbounded quantifiers.
+	 * @returns The generated strings.
+	 * @throws {Error} If the pattern can't match anything (e.g. `a(?!b)b`).
+	 */
+	generate(options?: StringGenerationOptions): string[] {
+		return generateMatching(this.build(), options);
+	}
+
+	/**
+	 * Generates near-miss strings that the current pattern rejects.
+	 * @param options - Same options as `generate`.
+	 * @returns Up to `count` distinct rejected strings.
+	 */
+	generateNonMatching(options?: StringGenerationOptions): string[] {
+		return generateNonMatching(this.build(), options);
 	}
 
 	/**
@@ -577,7 +967,15 @@ export class RGex {
 	 * @returns The pattern string.
 	 */
 	getPattern(): string {
-		return this.pattern;
+		return serializeNode(this.root);
+	}
+
+	/**
+	 * Gets a copy of the syntax tree the pattern is built from.
+	 * @returns The root sequence node of the pattern.
+	 */
+	toAST(): SequenceNode {
+		return cloneNode(this.root);
 	}
 
 	/**
@@ -594,15 +992,46 @@ export class RGex {
 	 */
 	build(): RegExp {
 		const flags = optionsToFlags(this.options);
-		return new RegExp(this.pattern, flags);
+		return new RegExp(this.getPattern(), flags);
 	}
 
 	/**
 	 * Creates a new RGex instance with the same pattern and options.
 	 * @returns A new RGex instance.
 	 */
-	clone(): RGex {
-		return new RGex(this.pattern, { ...this.options });
+	clone(): RGex<Groups> {
+		const copy = new RGex<Groups>('', { ...this.options });
+		copy.root = cloneNode(this.root);
+		copy.frozen = this.frozen;
+		return copy;
+	}
+
+	/**
+	 * Checks whether builder methods return new instances instead of changing this one.
+	 * @returns True for instances created with `RGex.immutable()` or `toImmutable()`.
+	 */
+	isImmutable(): boolean {
+		return this.frozen;
+	}
+
+	/**
+	 * Creates an immutable copy with the same pattern and options.
+	 * @returns A new immutable RGex instance.
+	 */
+	toImmutable(): RGex<Groups> {
+		const copy = this.clone();
+		copy.frozen = true;
+		return copy;
+	}
+
+	/**
+	 * Creates a mutable copy with the same pattern and options.
+	 * @returns A new mutable RGex instance.
+	 */
+	toMutable(): RGex<Groups> {
+		const copy = this.clone();
+		copy.frozen = false;
+		return copy;
 	}
 
 	/**
@@ -610,9 +1039,10 @@ export class RGex {
 	 * @returns The current RGex instance for chaining.
 	 */
 	reset(): RGex {
-		this.pattern = '';
-		this.options = { ...RGEX_CONFIG.defaults.flags };
-		return this;
+		return this.edit((target) => {
+			target.root = emptySequence();
+			target.options = { ...RGEX_CONFIG.defaults.flags };
+		});
 	}
 
 	/**
@@ -621,7 +1051,7 @@ export class RGex {
 	 */
 	toString(): string {
 		const flags = optionsToFlags(this.options);
-		return `/${this.pattern}/${flags}`;
+		return `/${this.getPattern()}/${flags}`;
 	}
 
 	/**
@@ -630,7 +1060,7 @@ export class RGex {
 	 */
 	toJSON(): { pattern: string; flags: string; valid: boolean } {
 		return {
-			pattern: this.pattern,
+			pattern: this.getPattern(),
 			flags: this.getFlags(),
 			valid: this.isValid(),
 		};
@@ -693,6 +1123,161 @@ export class RGex {
 		return normalizeText(text);
 	}
 
+	// Internal helpers
+
+	/**
+	 * Appends a node to the end of the pattern.
+	 * @internal
+	 */
+	private append(node: RegexNode): RGex<Groups> {
+		return this.edit((target) => {
+			target.root.elements.push(node);
+		});
+	}
+
+	/**
+	 * Applies a change to this builder, or to a copy of it in immutable mode.
+	 * @internal
+	 */
+	private edit<Result extends string = Groups>(
+		change: (target: RGex<Groups>) => void
+	): RGex<Result> {
+		const target = this.frozen ? this.clone() : this;
+		change(target);
+		// Only the group names tracked by the type change, never the instance
+		return target as unknown as RGex<Result>;
+	}
+
+	/**
+	 * Turns an operand into a node. Strings stay raw; RGex instances are parsed so their
+	 * anchors can be dropped and their numbered backreferences shifted past the capture
+	 * groups of `preceding`, the part of the pattern that comes before the operand. The
+	 * operand's case-insensitive and dot-all flags are spelled out in its own nodes
+	 * rather than set on this builder. When only one side has the `v` flag, the other
+	 * side's classes are rewritten in place for it.
+	 * @throws {Error} If this builder is case-insensitive and the operand is not.
+	 * @internal
+	 */
+	private embed(
+		pattern: string | RGex<string>,
+		preceding: RegexNode
+	): RegexNode {
+		if (typeof pattern === 'string') return { type: 'raw', source: pattern };
+
+		const flags = pattern.getFlags();
+		const elements = parseRegex(pattern.getPattern(), flags).elements;
+		const first = elements[0];
+		if (first?.type === 'assertion' && first.kind === 'start') elements.shift();
+		const last = elements[elements.length - 1];
+		if (last?.type === 'assertion' && last.kind === 'end') elements.pop();
+
+		let node = toSingleNode(elements);
+		// `^(?:a|b)$` embeds as `a|b`; the serializer regroups it where needed
+		if (
+			node.type === 'group' &&
+			node.kind === 'nonCapturing' &&
+			!node.modifiers
+		) {
+			node = node.body;
+		}
+		if (hasNumberedBackreference(node)) {
+			shiftCaptureGroups(
+				node,
+				countCaptureGroups(
+					parseRegex(serializeNode(preceding), this.getFlags())
+				)
+			);
+		}
+		// The operand's own `i` and `s` flags only apply to its own part
+		const hostFlags = this.getFlags();
+		if (flags.includes('i') && !hostFlags.includes('i')) {
+			node = expandIgnoreCase(node);
+		}
+		// There is no spelling out case sensitivity under an `i` flag
+		if (
+			!flags.includes('i') &&
+			hostFlags.includes('i') &&
+			isCaseSensitive(node)
+		) {
+			throw new Error(
+				`The case-sensitive pattern ${pattern.getPattern()} can't be embedded in a case-insensitive one`
+			);
+		}
+		if (flags.includes('s') !== hostFlags.includes('s')) {
+			node = expandDot(node, flags.includes('s'));
+		}
+		// Classes are escaped differently under `v`, so the side without it is rewritten
+		if (flags.includes('v') && !hostFlags.includes('v')) {
+			useUnicodeSets(preceding, hostFlags);
+		} else if (hostFlags.includes('v') && !flags.includes('v')) {
+			useUnicodeSets(node, flags);
+		}
+		this.adoptFlags(flags.replace(/[is]/g, ''));
+		return node;
+	}
+
+	/**
+	 * Appends a stored pattern in a non-capturing group, without its `^`/`$` anchors, the
+	 * way `followedBy` embeds an RGex operand.
+	 * @internal
+	 */
+	private appendStored(pattern: RegExp): RGex<Groups> {
+		return this.edit((target) => {
+			const body = target.embed(RGex.parse(pattern), target.root);
+			target.root.elements.push({ type: 'group', kind: 'nonCapturing', body });
+		});
+	}
+
+	/**
+	 * Enables the case-insensitive, dot-all and unicode flags of a pattern being added.
+	 * The `v` flag replaces `u`, since a pattern can't have both.
+	 * @internal
+	 */
+	private adoptFlags(flags: string): void {
+		if (flags.includes('i')) this.options.ignoreCase = true;
+		if (flags.includes('s')) this.options.dotAll = true;
+		if (flags.includes('v')) {
+			this.options.unicode = false;
+			if (!(this.options.flags ?? '').includes('v')) {
+				this.options.flags = `${this.options.flags ?? ''}v`;
+			}
+		} else if (
+			flags.includes('u') &&
+			!(this.options.flags ?? '').includes('v')
+		) {
+			this.options.unicode = true;
+		}
+	}
+
+	/**
+	 * Wraps the last element of the pattern in a quantifier node.
+	 * @internal
+	 */
+	private quantify(min: number, max: number): RGex<Groups> {
+		const last = this.root.elements[this.root.elements.length - 1];
+
+		if (
+			!last ||
+			(last.type === 'assertion' &&
+				(last.kind === 'start' || last.kind === 'end'))
+		) {
+			throw new Error('Quantifier has no preceding element to repeat');
+		}
+
+		return this.edit((target) => {
+			const elements = target.root.elements;
+			const body = elements[elements.length - 1];
+			if (!body) return;
+			elements[elements.length - 1] = {
+				type: 'quantifier',
+				min,
+				max,
+				lazy: false,
+				body,
+			};
+		});
+	}
+
 	// ============================================
 	// SHORTER STATIC METHOD ALIASES
 	// ============================================
@@ -717,3 +1302,47 @@ export class RGex {
 	 */
 	static suggest = RGex.getSuggestions;
 }
+
+/**
+ * Checks that a capture group name is a JavaScript identifier.
+ * @internal
+ */
+function assertGroupName(name: string): void {
+	const identifier = new RegExp(
+		'^[$_\\p{ID_Start}][$\\u200c\\u200d\\p{ID_Continue}]*$',
+		'u'
+	);
+	if (!identifier.test(name)) {
+		throw new Error(`Invalid capture group name "${name}"`);
+	}
+}
+
+/**
+ * Checks whether a pattern already starts with a `^` anchor, either as an assertion
+ * node or at the start of a raw pre-built pattern such as `REGEX_PATTERNS.UUID`.
+ * @internal
+ */
+function startsWithAnchor(elements: RegexNode[]): boolean {
+	const first = elements[0];
+	if (first?.type === 'assertion') return first.kind === 'start';
+	return (
+		first?.type === 'raw' &&
+		first.source.startsWith('^') &&
+		!hasTopLevelAlternation(first.source)
+	);
+}
+
+/**
+ * Checks whether a pattern already ends with a `$` anchor; an escaped `\$` at the end
+ * of a raw pattern is a literal dollar sign.
+ * @internal
+ */
+function endsWithAnchor(elements: RegexNode[]): boolean {
+	const last = elements[elements.length - 1];
+	if (last?.type === 'assertion') return last.kind === 'end';
+	return (
+		last?.type === 'raw' &&
+		/(?:^|[^\\])(?:\\\\)*\$$/.test(last.source) &&
+		!hasTopLevelAlternation(last.source)
+	);
+}
@@ -0,0 +1,739 @@
+/**
+ * @fileoverview Regex AST helpers - Serialization and structural utilities for the nodes behind the RGex builder
+ * @module Core
+ * @category Core
+ * @group RGex Builder
+ * @author duongnguyen321 - https://duonguyen.site
+ */
+
+import type {
+	CharacterClassItem,
+	CharacterClassNode,
+	QuantifierNode,
+	RegexNode,
+	SequenceNode,
+} from '../../types/index.js';
+import { deepClone, escapeRegex } from '../utils/helpers.js';
+import { parseRegex } from './parser.js';
+
+const CHARACTER_TYPE_ESCAPES = {
+	digit: 'd',
+	word: 'w',
+	whitespace: 's',
+} as const;
+
+const CONTROL_ESCAPES: Record<string, string> = {
+	'\n': '\\n',
+	'\r': '\\r',
+	'\t': '\\t',
+	'\v': '\\v',
+	'\f': '\\f',
+};
+
+/**
+ * Serializes a regex AST node into its pattern source string.
+ * @param node - The node to serialize.
+ * @returns The regex source for the node.
+ */
+export function serializeNode(node: RegexNode): string {
+	switch (node.type) {
+		case 'literal':
+			return escapeLiteral(node.value);
+
+		case 'raw':
+			return node.source;
+
+		case 'sequence':
+			return node.elements
+				.map((element, index) => {
+					const source = serializeNode(element);
+					if (
+						node.elements.length > 1 &&
+						(element.type === 'alternation' ||
+							(element.type === 'raw' &&
+								hasTopLevelAlternation(element.source)))
+					) {
+						return `(?:${source})`;
+					}
+					// Keep `\1` followed by a digit from reading as `\10`
+					const next = node.elements[index + 1];
+					if (
+						element.type === 'backreference' &&
+						typeof element.ref === 'number' &&
+						next &&
+						/^\d/.test(serializeNode(next))
+					) {
+						return `(?:${source})`;
+					}
+					return source;
+				})
+				.join('');
+
+		case 'alternation':
+			return node.alternatives.map(serializeNode).join('|');
+
+		case 'group':
+			if (node.kind === 'named') {
+				return `(?<${node.name}>${serializeNode(node.body)})`;
+			}
+			if (node.kind === 'capturing') {
+				return `(${serializeNode(node.body)})`;
+			}
+			if (node.modifiers) {
+				const { enable, disable } = node.modifiers;
+				return `(?${enable}${disable ? `-${disable}` : ''}:${serializeNode(
+					node.body
+				)})`;
+			}
+			return `(?:${serializeNode(node.body)})`;
+
+		case 'quantifier':
+			return `${serializeAtom(node.body)}${quantifierSuffix(node)}`;
+
+		case 'class':
+			return `[${node.negate ? '^' : ''}${node.items
+				.map((item) => serializeClassItem(item, node))
+				.join(
+					node.operation === 'intersection'
+						? '&&'
+						: node.operation === 'subtraction'
+						? '--'
+						: ''
+				)}]`;
+
+		case 'characterType':
+			if (node.kind === 'any') return '.';
+			return `\\${
+				node.negate
+					? CHARACTER_TYPE_ESCAPES[node.kind].toUpperCase()
+					: CHARACTER_TYPE_ESCAPES[node.kind]
+			}`;
+
+		case 'unicodeProperty':
+			return `\\${node.negate ? 'P' : 'p'}{${node.name}${
+				node.value ? `=${node.value}` : ''
+			}}`;
+
+		case 'backreference':
+			return typeof node.ref === 'number'
+				? `\\${node.ref}`
+				: `\\k<${node.ref}>`;
+
+		case 'assertion':
+			switch (node.kind) {
+				case 'start':
+					return '^';
+				case 'end':
+					return '$';
+				case 'wordBoundary':
+					return '\\b';
+				case 'nonWordBoundary':
+					return '\\B';
+				case 'lookahead':
+					return `(?${node.negative ? '!' : '='}${
+						node.body ? serializeNode(node.body) : ''
+					})`;
+				case 'lookbehind':
+					return `(?<${node.negative ? '!' : '='}${
+						node.body ? serializeNode(node.body) : ''
+					})`;
+			}
+	}
+}
+
+/**
+ * Serializes a node so that a following quantifier applies to all of it,
+ * wrapping it in a non-capturing group when it is not a single atom.
+ * @param node - The node about to be quantified.
+ * @returns The regex source, grouped if necessary.
+ */
+export function serializeAtom(node: RegexNode): string {
+	const source = serializeNode(node);
+	return needsGrouping(node) ? `(?:${source})` : source;
+}
+
+/**
+ * Collapses a list of nodes into a single node: the node itself when there is
+ * exactly one, otherwise a sequence.
+ * @param elements - The nodes to collapse.
+ * @returns A single node representing the list.
+ */
+export function toSingleNode(elements: RegexNode[]): RegexNode {
+	if (elements.length === 1 && elements[0]) return elements[0];
+	return { type: 'sequence', elements };
+}
+
+/**
+ * Lists the direct child nodes of a node. Character class items are not included.
+ * @param node - The node to inspect.
+ * @returns The child nodes, in source order.
+ */
+export function childNodes(node: RegexNode): RegexNode[] {
+	switch (node.type) {
+		case 'sequence':
+			return node.elements;
+		case 'alternation':
+			return node.alternatives;
+		case 'group':
+		case 'quantifier':
+			return [node.body];
+		case 'assertion':
+			return node.body ? [node.body] : [];
+		default:
+			return [];
+	}
+}
+
+/**
+ * Creates a deep copy of a node tree.
+ * @param node - The node to copy.
+ * @returns An independent copy of the node.
+ */
+export function cloneNode<T extends RegexNode>(node: T): T {
+	return deepClone(node);
+}
+
+/**
+ * Creates an empty sequence node, the root of a fresh builder.
+ * @returns An empty sequence node.
+ */
+export function emptySequence(): SequenceNode {
+	return { type: 'sequence', elements: [] };
+}
+
+/**
+ * Counts the capture groups (numbered and named) in a node tree.
+ * @param node - The root of the tree.
+ * @returns The number of capture groups.
+ */
+export function countCaptureGroups(node: RegexNode): number {
+	const own = node.type === 'group' && node.kind !== 'nonCapturing' ? 1 : 0;
+	return childNodes(node).reduce(
+		(count, child) => count + countCaptureGroups(child),
+		own
+	);
+}
+
+/**
+ * Checks whether a node tree refers to a capture group by number, e.g. `\1`.
+ * @param node - The root of the tree.
+ * @returns True if a numbered backreference is found.
+ */
+export function hasNumberedBackreference(node: RegexNode): boolean {
+	if (node.type === 'backreference') return typeof node.ref === 'number';
+	return childNodes(node).some(hasNumberedBackreference);
+}
+
+/**
+ * Renumbers the capture groups of a tree in place, for embedding it after `offset`
+ * other groups: numbered backreferences and the `index` of groups are shifted.
+ * @param node - The root of the tree.
+ * @param offset - The number of capture groups that will precede the tree.
+ */
+export function shiftCaptureGroups(node: RegexNode, offset: number): void {
+	if (node.type === 'backreference' && typeof node.ref === 'number') {
+		node.ref += offset;
+	}
+	if (node.type === 'group' && node.index !== undefined) {
+		node.index += offset;
+	}
+	for (const child of childNodes(node)) shiftCaptureGroups(child, offset);
+}
+
+/**
+ * Rewrites a tree parsed with the `i` flag so that it matches the same strings without
+ * it: letters become classes of both cases (`ab` becomes `[aA][bB]`), and classes gain
+ * the other case of their members.
+ * @param node - The root of the tree; it is not modified.
+ * @returns The rewritten tree.
+ * @throws {Error} If the tree has a backreference, a Unicode property, class set
+ * operations or class strings, whose case-insensitive matching can't be spelled out.
+ */
+export function expandIgnoreCase(node: RegexNode): RegexNode {
+	switch (node.type) {
+		case 'literal': {
+			const elements: RegexNode[] = [];
+			let plain = '';
+			for (const char of node.value.split('')) {
+				const variants = caseVariants(char);
+				if (variants.length === 1) {
+					plain += char;
+					continue;
+				}
+				if (plain) elements.push({ type: 'literal', value: plain });
+				plain = '';
+				elements.push({
+					type: 'class',
+					negate: false,
+					items: variants.map((value) => ({ type: 'char', value })),
+				});
+			}
+			if (plain) elements.push({ type: 'literal', value: plain });
+			return toSingleNode(elements);
+		}
+		case 'class':
+			return expandClassCase(node);
+		case 'sequence':
+			return { ...node, elements: node.elements.map(expandIgnoreCase) };
+		case 'alternation':
+			return {
+				...node,
+				alternatives: node.alternatives.map(expandIgnoreCase),
+			};
+		case 'group':
+		case 'quantifier':
+			return { ...node, body: expandIgnoreCase(node.body) };
+		case 'assertion':
+			return node.body
+				? { ...node, body: expandIgnoreCase(node.body) }
+				: { ...node };
+		case 'characterType':
+			return { ...node };
+		case 'raw':
+		case 'backreference':
+		case 'unicodeProperty':
+			throw new Error(
+				`A case-insensitive pattern with ${serializeNode(
+					node
+				)} can't be embedded in a case-sensitive one`
+			);
+	}
+}
+
+/**
+ * Checks whether the `i` flag would change what a tree matches: whether it has a letter
+ * with another case, in a literal or a class, or a Unicode property.
+ * @param node - The root of the tree.
+ * @returns True if the tree matches case-sensitively.
+ */
+export function isCaseSensitive(node: RegexNode): boolean {
+	switch (node.type) {
+		case 'literal':
+			return node.value.split('').some(hasOtherCase);
+		case 'class':
+			return node.items.some(isCaseSensitiveItem);
+		case 'unicodeProperty':
+			return true;
+		default:
+			return childNodes(node).some(isCaseSensitive);
+	}
+}
+
+/**
+ * Rewrites a tree in place for a pattern that gains the `v` flag, whose classes reserve
+ * more characters: classes are serialized with set-notation escaping, and raw sources
+ * are re-parsed so that their classes are too.
+ * @param node - The root of the tree.
+ * @param flags - The flags the tree was written for.
+ */
+export function useUnicodeSets(node: RegexNode, flags: string): void {
+	switch (node.type) {
+		case 'class':
+			node.unicodeSets = true;
+			for (const item of node.items) {
+				if (item.type === 'class') useUnicodeSets(item, flags);
+			}
+			return;
+		case 'raw': {
+			const parsed = parseRegex(node.source, flags);
+			useUnicodeSets(parsed, flags);
+			node.source = serializeNode(parsed);
+			return;
+		}
+		default:
+			for (const child of childNodes(node)) useUnicodeSets(child, flags);
+	}
+}
+
+/**
+ * Rewrites every `.` of a tree as the class it stands for, so that the tree keeps its
+ * meaning whatever the dot-all flag of the pattern it is embedded in.
+ * @param node - The root of the tree; it is not modified.
+ * @param dotAll - Whether the tree was parsed with the `s` flag.
+ * @returns The rewritten tree.
+ */
+export function expandDot(node: RegexNode, dotAll: boolean): RegexNode {
+	switch (node.type) {
+		case 'characterType':
+			if (node.kind !== 'any') return { ...node };
+			return dotAll
+				? {
+						type: 'class',
+						negate: false,
+						items: [
+							{ type: 'characterType', kind: 'whitespace', negate: false },
+							{ type: 'characterType', kind: 'whitespace', negate: true },
+						],
+				  }
+				: {
+						type: 'class',
+						negate: true,
+						items: ['\n', '\r', '\u2028', '\u2029'].map((value) => ({
+							type: 'char',
+							value,
+						})),
+				  };
+		case 'sequence':
+			return {
+				...node,
+				elements: node.elements.map((element) => expandDot(element, dotAll)),
+			};
+		case 'alternation':
+			return {
+				...node,
+				alternatives: node.alternatives.map((alternative) =>
+					expandDot(alternative, dotAll)
+				),
+			};
+		case 'group':
+		case 'quantifier':
+			return { ...node, body: expandDot(node.body, dotAll) };
+		case 'assertion':
+			return node.body
+				? { ...node, body: expandDot(node.body, dotAll) }
+				: { ...node };
+		default:
+			return cloneNode(node);
+	}
+}
+
+/**
+ * Checks whether a node must be wrapped in a group before a quantifier can be applied to it.
+ * @internal
+ */
+function needsGrouping(node: RegexNode): boolean {
+	switch (node.type) {
+		case 'literal':
+			return node.value.length !== 1;
+		case 'raw':
+			return !isAtomicSource(node.source);
+		case 'sequence':
+			return node.elements.length === 1 && node.elements[0]
+				? needsGrouping(node.elements[0])
+				: true;
+		case 'alternation':
+			return node.alternatives.length === 1 && node.alternatives[0]
+				? needsGrouping(node.alternatives[0])
+				: true;
+		case 'group':
+		case 'class':
+		case 'characterType':
+		case 'unicodeProperty':
+		case 'backreference':
+			return false;
+		case 'quantifier':
+		case 'assertion':
+			return true;
+	}
+}
+
+/**
+ * Checks whether a raw pattern string is a single atom: one character, one escape,
+ * one character class or one group spanning the whole string.
+ * @internal
+ */
+function isAtomicSource(source: string): boolean {
+	if (source.length === 1) return !/[|*+?{}()[\]^$]/.test(source);
+
+	if (
+		/^\\(?:u\{[0-9a-fA-F]+\}|u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|[pP]\{[^}]+\}|c[A-Za-z]|k<[^>]+>|[^bB])$/.test(
+			source
+		)
+	) {
+		return true;
+	}
+
+	if (source.startsWith('[')) {
+		return findClassEnd(source, 0) === source.length - 1;
+	}
+
+	if (source.startsWith('(')) {
+		return findGroupEnd(source, 0) === source.length - 1;
+	}
+
+	return false;
+}
+
+/**
+ * Finds the index of the `]` closing the character class opened at `start`.
+ * @internal
+ */
+function findClassEnd(source: string, start: number): number {
+	let i = start + 1;
+	if (source[i] === '^') i++;
+	for (; i < source.length; i++) {
+		if (source[i] === '\\') {
+			i++;
+		} else if (source[i] === ']') {
+			return i;
+		}
+	}
+	return -1;
+}
+
+/**
+ * Checks whether a raw pattern string has a `|` outside of its groups and classes, so
+ * that it must be grouped before anything is put next to it.
+ * @param source - The pattern string.
+ * @returns `true` for sources such as `a|b`, `false` for `(?:a|b)c`.
+ */
+export function hasTopLevelAlternation(source: string): boolean {
+	let depth = 0;
+	for (let i = 0; i < source.length; i++) {
+		const char = source[i];
+		if (char === '\\') {
+			i++;
+		} else if (char === '[') {
+			const end = findClassEnd(source, i);
+			if (end === -1) return false;
+			i = end;
+		} else if (char === '(') {
+			depth++;
+		} else if (char === ')') {
+			depth--;
+		} else if (char === '|' && depth === 0) {
+			return true;
+		}
+	}
+	return false;
+}
+
+/**
+ * Finds the index of the `)` closing the group opened at `start`.
+ * @internal
+ */
+function findGroupEnd(source: string, start: number): number {
+	let depth = 0;
+	for (let i = start; i < source.length; i++) {
+		const char = source[i];
+		if (char === '\\') {
+			i++;
+		} else if (char === '[') {
+			const end = findClassEnd(source, i);
+			if (end === -1) return -1;
+			i = end;
+		} else if (char === '(') {
+			depth++;
+		} else if (char === ')') {
+			depth--;
+			if (depth === 0) return i;
+		}
+	}
+	return -1;
+}
+
+/**
+ * Renders the quantifier suffix (`*`, `+`, `?`, `{n}`, `{n,}`, `{n,m}`) for a node.
+ * @internal
+ */
+function quantifierSuffix(node: QuantifierNode): string {
+	const { min, max } = node;
+	let suffix: string;
+
+	if (min === 0 && max === Infinity) suffix = '*';
+	else if (min === 1 && max === Infinity) suffix = '+';
+	else if (min === 0 && max === 1) suffix = '?';
+	else if (min === max) suffix = `{${min}}`;
+	else if (max === Infinity) suffix = `{${min},}`;
+	else suffix = `{${min},${max}}`;
+
+	return node.lazy ? `${suffix}?` : suffix;
+}
+
+/**
+ * Escapes a literal string, also spelling out control characters so the
+ * pattern stays printable.
+ * @internal
+ */
+function escapeLiteral(value: string): string {
+	return escapeControls(escapeRegex(value));
+}
+
+/**
+ * Replaces control and line-separator characters with their escape sequences.
+ * @internal
+ */
+function escapeControls(value: string): string {
+	return value.replace(
+		/[\0-\x1f\x7f\u2028\u2029]/g,
+		(char) =>
+			CONTROL_ESCAPES[char] ??
+			(char.charCodeAt(0) > 0xff
+				? `\\u${char.charCodeAt(0).toString(16)}`
+				: `\\x${char.charCodeAt(0).toString(16).padStart(2, '0')}`)
+	);
+}
+
+/**
+ * Serializes a single character class member. Classes parsed with the `v` flag
+ * escape the wider set of characters that are reserved in set notation.
+ * @internal
+ */
+function serializeClassItem(
+	item: CharacterClassItem,
+	parent: CharacterClassNode
+): string {
+	const escape = (char: string) =>
+		parent.unicodeSets
+			? char.replace(/[\^$\\.*+?()[\]{}|/\-&!#%,:;<=>@`~]/g, '\\$&')
+			: char.replace(/[\]\\^-]/g, '\\$&');
+
+	switch (item.type) {
+		case 'char':
+			return escapeControls(escape(item.value));
+		case 'range':
+			return `${escapeControls(escape(item.from))}-${escapeControls(
+				escape(item.to)
+			)}`;
+		case 'classStrings':
+			return `\\q{${item.strings
+				.map((string) => escapeControls(escape(string)))
+				.join('|')}}`;
+		case 'characterType':
+		case 'unicodeProperty':
+		case 'class':
+			return serializeNode(item);
+	}
+}
+
+/**
+ * Checks whether a class member matches differently under the `i` flag.
+ * @internal
+ */
+function isCaseSensitiveItem(item: CharacterClassItem): boolean {
+	switch (item.type) {
+		case 'char':
+			return hasOtherCase(item.value);
+		case 'range':
+			for (
+				let code = item.from.charCodeAt(0);
+				code <= item.to.charCodeAt(0);
+				code++
+			) {
+				if (hasOtherCase(String.fromCharCode(code))) return true;
+			}
+			return false;
+		case 'classStrings':
+			return item.strings.some((string) => string.split('').some(hasOtherCase));
+		case 'class':
+			return item.items.some(isCaseSensitiveItem);
+		case 'unicodeProperty':
+			return true;
+		case 'characterType':
+			return false;
+	}
+}
+
+/**
+ * Checks whether a character has another case that the `i` flag would also match.
+ * @internal
+ */
+function hasOtherCase(char: string): boolean {
+	return caseVariants(char).length > 1;
+}
+
+/**
+ * The character and its other-case forms, as the `i` flag compares them.
+ * @internal
+ */
+function caseVariants(char: string): string[] {
+	const variants = [char];
+	for (const other of [char.toLowerCase(), char.toUpperCase()]) {
+		if (other.length === 1 && variants.indexOf(other) === -1) {
+			variants.push(other);
+		}
+	}
+	return variants;
+}
+
+/** Ranges up to this size are closed under case one character at a time. */
+const MAX_EXPANDED_RANGE = 0x400;
+
+/**
+ * Adds the other case of every member of a class. Only ranges overlapping the ASCII
+ * letters are expanded when they are too large to go through one by one.
+ * @internal
+ */
+function expandClassCase(node: CharacterClassNode): CharacterClassNode {
+	if (node.operation) {
+		throw new Error(
+			"A case-insensitive class with set operations can't be embedded in a case-sensitive pattern"
+		);
+	}
+
+	const items: CharacterClassItem[] = [];
+	const add = (value: string) => {
+		if (!items.some((item) => item.type === 'char' && item.value === value)) {
+			items.push({ type: 'char', value });
+		}
+	};
+	for (const item of node.items) {
+		switch (item.type) {
+			case 'char':
+				caseVariants(item.value).forEach(add);
+				break;
+			case 'range': {
+				items.push({ ...item });
+				const from = item.from.charCodeAt(0);
+				const to = item.to.charCodeAt(0);
+				if (to - from <= MAX_EXPANDED_RANGE) {
+					const others: number[] = [];
+					for (let code = from; code <= to; code++) {
+						for (const variant of caseVariants(String.fromCharCode(code))) {
+							const other = variant.charCodeAt(0);
+							if (
+								(other < from || other > to) &&
+								others.indexOf(other) === -1
+							) {
+								others.push(other);
+							}
+						}
+					}
+					// Runs such as a-z are kept as ranges, so `[A-Z]` becomes `[A-Za-z]`
+					others.sort((a, b) => a - b);
+					for (let start = 0; start < others.length; ) {
+						let end = start;
+						while (others[end + 1] === (others[end] ?? 0) + 1) end++;
+						const first = String.fromCharCode(others[start] ?? 0);
+						const last = String.fromCharCode(others[end] ?? 0);
+						if (end - start >= 2) {
+							items.push({ type: 'range', from: first, to: last });
+						} else {
+							add(first);
+							if (end > start) add(last);
+						}
+						start = end + 1;
+					}
+				} else {
+					for (const [lower, upper] of [
+						[0x61, 0x7a],
+						[0x41, 0x5a],
+					] as Array<[number, number]>) {
+						const start = Math.max(from, lower);
+						const end = Math.min(to, upper);
+						if (start <= end) {
+							items.push({
+								type: 'range',
+								from: caseVariants(String.fromCharCode(start))[1] ?? '',
+								to: caseVariants(String.fromCharCode(end))[1] ?? '',
+							});
+						}
+					}
+				}
+				break;
+			}
+			case 'class':
+				items.push(expandClassCase(item));
+				break;
+			case 'characterType':
+				items.push({ ...item });
+				break;
+			case 'unicodeProperty':
+			case 'classStrings':
+				throw new Error(
+					"A case-insensitive class with Unicode properties or strings can't be embedded in a case-sensitive pattern"
+				);
+		}
+	}
+	return { ...node, items };
+}
@@ -0,0 +1,709 @@
+/**
+ * @fileoverview Regex Parser - Parses ECMAScript regular expression syntax into the RGex AST
+ * @module Core
+ * @category Core
+ * @group RGex Builder
+ * @author duongnguyen321 - https://duonguyen.site
+ */
+
+import type {
+	AssertionNode,
+	CharacterClassItem,
+	CharacterClassNode,
+	CharacterTypeNode,
+	ClassCharacterItem,
+	GroupNode,
+	RegexNode,
+	SequenceNode,
+	UnicodePropertyNode,
+} from '../../types/index.js';
+
+/**
+ * Mutable cursor shared by the parsing functions.
+ * @internal
+ */
+interface ParserState {
+	source: string;
+	pos: number;
+	unicode: boolean; // `u` or `v` flag
+	unicodeSets: boolean; // `v` flag
+	groupCount: number;
+	hasNamedGroups: boolean;
+	nextGroupIndex: number;
+}
+
+const CHARACTER_TYPES: Record<string, CharacterTypeNode['kind']> = {
+	d: 'digit',
+	w: 'word',
+	s: 'whitespace',
+};
+
+const CONTROL_CHARACTERS: Record<string, string> = {
+	f: '\f',
+	n: '\n',
+	r: '\r',
+	t: '\t',
+	v: '\v',
+};
+
+const QUANTIFIER_BRACES = /^\{(\d+)(,(\d*))?\}/;
+const GROUP_MODIFIERS = /^\?([a-z]*)(?:-([a-z]*))?:/;
+const LEGACY_OCTAL = /^(?:[0-3][0-7]{0,2}|[4-7][0-7]?)/;
+const DECIMAL_DIGITS = /^\d+/;
+const HEX_PAIR = /^[0-9a-fA-F]{2}/;
+const HEX_QUAD = /^[0-9a-fA-F]{4}/;
+const HEX_BRACED = /^\{([0-9a-fA-F]+)\}/;
+
+/**
+ * Parses an ECMAScript regular expression into an RGex syntax tree. Every node
+ * carries the `span` of source it was parsed from. The pattern is compiled with the
+ * native `RegExp` first, so only syntax accepted by the runtime is parsed and invalid
+ * patterns fail with the engine's own error.
+ *
+ * @param source - The pattern string or an existing `RegExp`.
+ * @param flags - The flags to parse with. Defaults to the flags of a `RegExp` source.
+ * @returns The root sequence node of the pattern.
+ * @throws {SyntaxError} If the pattern is not a valid regular expression.
+ */
+export function parseRegex(
+	source: string | RegExp,
+	flags?: string
+): SequenceNode {
+	const pattern = typeof source === 'string' ? source : source.source;
+	const flagString = flags ?? (typeof source === 'string' ? '' : source.flags);
+
+	new RegExp(pattern, flagString);
+
+	const state: ParserState = {
+		source: pattern,
+		pos: 0,
+		unicode: flagString.includes('u') || flagString.includes('v'),
+		unicodeSets: flagString.includes('v'),
+		groupCount: 0,
+		hasNamedGroups: false,
+		nextGroupIndex: 1,
+	};
+	countCapturingGroups(state);
+
+	const body = parseDisjunction(state);
+	return body.type === 'sequence'
+		? body
+		: { type: 'sequence', elements: [body], span: body.span };
+}
+
+/**
+ * Counts capturing groups up front so `\N` can be told apart from a legacy octal escape.
+ * @internal
+ */
+function countCapturingGroups(state: ParserState): void {
+	const { source } = state;
+	let classDepth = 0;
+
+	for (let i = 0; i < source.length; i++) {
+		const char = source[i];
+		if (char === '\\') {
+			i++;
+		} else if (char === '[') {
+			classDepth = state.unicodeSets ? classDepth + 1 : 1;
+		} else if (char === ']' && classDepth > 0) {
+			classDepth--;
+		} else if (char === '(' && classDepth === 0) {
+			if (source[i + 1] !== '?') {
+				state.groupCount++;
+			} else if (
+				source[i + 2] === '<' &&
+				source[i + 3] !== '=' &&
+				source[i + 3] !== '!'
+			) {
+				state.groupCount++;
+				state.hasNamedGroups = true;
+			}
+		}
+	}
+}
+
+/**
+ * Parses `a|b|c` up to the end of the pattern or the closing parenthesis of a group.
+ * @internal
+ */
+function parseDisjunction(state: ParserState): RegexNode {
+	const start = state.pos;
+	const alternatives: RegexNode[] = [parseAlternative(state)];
+
+	while (state.source[state.pos] === '|') {
+		state.pos++;
+		alternatives.push(parseAlternative(state));
+	}
+
+	if (alternatives.length === 1) return alternatives[0]!;
+
+	return {
+		type: 'alternation',
+		alternatives: alternatives.map((alternative) =>
+			alternative.type === 'sequence' && alternative.elements.length === 1
+				? alternative.elements[0]!
+				: alternative
+		),
+		span: { start, end: state.pos },
+	};
+}
+
+/**
+ * Parses a run of terms, merging adjacent literal characters into one literal node.
+ * @internal
+ */
+function parseAlternative(state: ParserState): SequenceNode {
+	const start = state.pos;
+	const elements: RegexNode[] = [];
+
+	while (
+		state.pos < state.source.length &&
+		state.source[state.pos] !== '|' &&
+		state.source[state.pos] !== ')'
+	) {
+		const term = parseTerm(state);
+		const previous = elements[elements.length - 1];
+
+		if (term.type === 'literal' && previous?.type === 'literal') {
+			previous.value += term.value;
+			previous.span = { start: previous.span!.start, end: term.span!.end };
+		} else {
+			elements.push(term);
+		}
+	}
+
+	return { type: 'sequence', elements, span: { start, end: state.pos } };
+}
+
+/**
+ * Parses one assertion or quantified atom.
+ * @internal
+ */
+function parseTerm(state: ParserState): RegexNode {
+	const { source } = state;
+	const start = state.pos;
+	const char = source[state.pos];
+
+	if (char === '^' || char === '$') {
+		state.pos++;
+		return {
+			type: 'assertion',
+			kind: char === '^' ? 'start' : 'end',
+			negative: false,
+			span: { start, end: state.pos },
+		};
+	}
+
+	if (char === '\\' && /[bB]/.test(source[state.pos + 1] ?? '')) {
+		const kind =
+			source[state.pos + 1] === 'b' ? 'wordBoundary' : 'nonWordBoundary';
+		state.pos += 2;
+		return {
+			type: 'assertion',
+			kind,
+			negative: false,
+			span: { start, end: state.pos },
+		};
+	}
+
+	let atom: RegexNode;
+	if (char === '(') {
+		atom = parseGroup(state);
+	} else if (char === '[') {
+		atom = parseClass(state);
+	} else if (char === '.') {
+		state.pos++;
+		atom = {
+			type: 'characterType',
+			kind: 'any',
+			negate: false,
+			span: { start, end: state.pos },
+		};
+	} else if (char === '\\') {
+		atom = parseAtomEscape(state);
+	} else {
+		atom = {
+			type: 'literal',
+			value: readCodePoint(state),
+			span: { start, end: state.pos },
+		};
+	}
+
+	return parseQuantifier(state, atom);
+}
+
+/**
+ * Wraps an atom in a quantifier node if one follows it.
+ * @internal
+ */
+function parseQuantifier(state: ParserState, atom: RegexNode): RegexNode {
+	const { source } = state;
+	let min: number;
+	let max: number;
+
+	switch (source[state.pos]) {
+		case '*':
+			[min, max] = [0, Infinity];
+			state.pos++;
+			break;
+		case '+':
+			[min, max] = [1, Infinity];
+			state.pos++;
+			break;
+		case '?':
+			[min, max] = [0, 1];
+			state.pos++;
+			break;
+		case '{': {
+			const match = matchAt(source, state.pos, QUANTIFIER_BRACES);
+			// Without `u`, a brace that is not a quantifier is a literal character
+			if (!match) return atom;
+			min = Number(match[1]);
+			max = !match[2] ? min : match[3] ? Number(match[3]) : Infinity;
+			state.pos += match[0].length;
+			break;
+		}
+		default:
+			return atom;
+	}
+
+	const lazy = source[state.pos] === '?';
+	if (lazy) state.pos++;
+
+	return {
+		type: 'quantifier',
+		min,
+		max,
+		lazy,
+		body: atom,
+		span: { start: atom.span!.start, end: state.pos },
+	};
+}
+
+/**
+ * Parses a group or lookaround starting at `(`.
+ * @internal
+ */
+function parseGroup(state: ParserState): GroupNode | AssertionNode {
+	const { source } = state;
+	const start = state.pos;
+	state.pos++;
+
+	let assertion: Pick<AssertionNode, 'kind' | 'negative'> | null = null;
+	let group: Omit<GroupNode, 'type' | 'body'> | null = null;
+
+	if (source.startsWith('?:', state.pos)) {
+		state.pos += 2;
+		group = { kind: 'nonCapturing' };
+	} else if (source.startsWith('?=', state.pos)) {
+		state.pos += 2;
+		assertion = { kind: 'lookahead', negative: false };
+	} else if (source.startsWith('?!', state.pos)) {
+		state.pos += 2;
+		assertion = { kind: 'lookahead', negative: true };
+	} else if (source.startsWith('?<=', state.pos)) {
+		state.pos += 3;
+		assertion = { kind: 'lookbehind', negative: false };
+	} else if (source.startsWith('?<!', state.pos)) {
+		state.pos += 3;
+		assertion = { kind: 'lookbehind', negative: true };
+	} else if (source.startsWith('?<', state.pos)) {
+		const close = source.indexOf('>', state.pos);
+		group = {
+			kind: 'named',
+			name: source.slice(state.pos + 2, close),
+			index: state.nextGroupIndex++,
+		};
+		state.pos = close + 1;
+	} else if (source[state.pos] === '?') {
+		const match = matchAt(source, state.pos, GROUP_MODIFIERS)!;
+		group = {
+			kind: 'nonCapturing',
+			modifiers: { enable: match[1] ?? '', disable: match[2] ?? '' },
+		};
+		state.pos += match[0].length;
+	} else {
+		group = { kind: 'capturing', index: state.nextGroupIndex++ };
+	}
+
+	const disjunction = parseDisjunction(state);
+	const body =
+		disjunction.type === 'sequence' && disjunction.elements.length === 1
+			? disjunction.elements[0]!
+			: disjunction;
+	state.pos++; // closing parenthesis
+	const span = { start, end: state.pos };
+
+	if (assertion) {
+		return { type: 'assertion', ...assertion, body, span };
+	}
+	return { type: 'group', ...group!, body, span };
+}
+
+/**
+ * Parses an escape outside a character class.
+ * @internal
+ */
+function parseAtomEscape(state: ParserState): RegexNode {
+	const { source } = state;
+	const start = state.pos;
+	const next = source[state.pos + 1] ?? '';
+
+	const characterType = parseCharacterTypeEscape(state);
+	if (characterType) return characterType;
+
+	if (/[1-9]/.test(next)) {
+		const digits = matchAt(source, state.pos + 1, DECIMAL_DIGITS)![0];
+		const ref = Number(digits);
+		// Without `u`, references past the last group are legacy octal escapes
+		if (state.unicode || ref <= state.groupCount) {
+			state.pos += 1 + digits.length;
+			return { type: 'backreference', ref, span: { start, end: state.pos } };
+		}
+	}
+
+	if (next === 'k' && (state.unicode || state.hasNamedGroups)) {
+		const close = source.indexOf('>', state.pos);
+		const ref = source.slice(state.pos + 3, close);
+		state.pos = close + 1;
+		return { type: 'backreference', ref, span: { start, end: state.pos } };
+	}
+
+	const value = parseCharacterEscape(state, false);
+	return { type: 'literal', value, span: { start, end: state.pos } };
+}
+
+/**
+ * Parses `\d`, `\w`, `\s` (and their negations) and `\p{...}` escapes.
+ * @returns The node, or null if the escape at the cursor is not one of them.
+ * @internal
+ */
+function parseCharacterTypeEscape(
+	state: ParserState
+): CharacterTypeNode | UnicodePropertyNode | null {
+	const { source } = state;
+	const start = state.pos;
+	const next = source[state.pos + 1] ?? '';
+	const kind = CHARACTER_TYPES[next.toLowerCase()];
+
+	if (kind) {
+		state.pos += 2;
+		return {
+			type: 'characterType',
+			kind,
+			negate: next !== next.toLowerCase(),
+			span: { start, end: state.pos },
+		};
+	}
+
+	if ((next === 'p' || next === 'P') && state.unicode) {
+		const close = source.indexOf('}', state.pos);
+		const [name = '', value] = source.slice(state.pos + 3, close).split('=');
+		state.pos = close + 1;
+		return {
+			type: 'unicodeProperty',
+			name,
+			...(value !== undefined && { value }),
+			negate: next === 'P',
+			span: { start, end: state.pos },
+		};
+	}
+
+	return null;
+}
+
+/**
+ * Parses an escape that stands for a single character and returns that character.
+ * @internal
+ */
+function parseCharacterEscape(state: ParserState, inClass: boolean): string {
+	const { source } = state;
+	state.pos++; // backslash
+	const char = source[state.pos] ?? '';
+
+	const control = CONTROL_CHARACTERS[char];
+	if (control) {
+		state.pos++;
+		return control;
+	}
+
+	switch (char) {
+		case 'b':
+			// Only reachable inside a class, where `\b` is backspace
+			state.pos++;
+			return '\b';
+
+		case '0':
+			if (state.unicode || !/[0-7]/.test(source[state.pos + 1] ?? '')) {
+				state.pos++;
+				return '\0';
+			}
+			break;
+
+		case 'c': {
+			const letter = source[state.pos + 1] ?? '';
+			if (
+				/[A-Za-z]/.test(letter) ||
+				(inClass && !state.unicode && /[0-9_]/.test(letter))
+			) {
+				state.pos += 2;
+				return String.fromCharCode(letter.charCodeAt(0) % 32);
+			}
+			// Annex B: the backslash is literal and `c` is read next
+			return '\\';
+		}
+
+		case 'x': {
+			const match = matchAt(source, state.pos + 1, HEX_PAIR);
+			if (match) {
+				state.pos += 3;
+				return String.fromCharCode(parseInt(match[0], 16));
+			}
+			break;
+		}
+
+		case 'u': {
+			const value = parseUnicodeEscape(state);
+			if (value !== null) return value;
+			break;
+		}
+	}
+
+	if (!state.unicode && /[0-7]/.test(char)) {
+		const octal = matchAt(source, state.pos, LEGACY_OCTAL)![0];
+		state.pos += octal.length;
+		return String.fromCharCode(parseInt(octal, 8));
+	}
+
+	// Identity escape
+	return readCodePoint(state);
+}
+
+/**
+ * Parses `\uXXXX`, `\u{X...}` and surrogate pair escapes with the cursor on `u`.
+ * @returns The character, or null if the escape is not a valid unicode escape.
+ * @internal
+ */
+function parseUnicodeEscape(state: ParserState): string | null {
+	const { source } = state;
+
+	if (state.unicode) {
+		const braced = matchAt(source, state.pos + 1, HEX_BRACED);
+		if (braced) {
+			state.pos += 1 + braced[0].length;
+			return String.fromCodePoint(parseInt(braced[1]!, 16));
+		}
+	}
+
+	const quad = matchAt(source, state.pos + 1, HEX_QUAD);
+	if (!quad) return null;
+
+	const lead = parseInt(quad[0], 16);
+	state.pos += 5;
+
+	if (state.unicode && lead >= 0xd800 && lead <= 0xdbff) {
+		const trail = source.startsWith('\\u', state.pos)
+			? matchAt(source, state.pos + 2, HEX_QUAD)
+			: null;
+		const trailValue = trail ? parseInt(trail[0], 16) : 0;
+		if (trailValue >= 0xdc00 && trailValue <= 0xdfff) {
+			state.pos += 6;
+			return String.fromCharCode(lead, trailValue);
+		}
+	}
+
+	return String.fromCharCode(lead);
+}
+
+/**
+ * Parses a character class starting at `[`.
+ * @internal
+ */
+function parseClass(state: ParserState): CharacterClassNode {
+	const { source } = state;
+	const start = state.pos;
+	state.pos++;
+
+	const negate = source[state.pos] === '^';
+	if (negate) state.pos++;
+
+	const node: CharacterClassNode = { type: 'class', negate, items: [] };
+
+	if (state.unicodeSets) {
+		node.unicodeSets = true;
+		parseClassSetContents(state, node);
+	} else {
+		parseClassRanges(state, node);
+	}
+
+	state.pos++; // closing bracket
+	node.span = { start, end: state.pos };
+	return node;
+}
+
+/**
+ * Parses the contents of a class without the `v` flag: characters, escapes and ranges.
+ * @internal
+ */
+function parseClassRanges(state: ParserState, node: CharacterClassNode): void {
+	const { source } = state;
+
+	while (source[state.pos] !== ']') {
+		const from = parseClassAtom(state);
+
+		if (
+			from.type === 'char' &&
+			source[state.pos] === '-' &&
+			source[state.pos + 1] !== ']'
+		) {
+			const dash = state.pos;
+			state.pos++;
+			const to = parseClassAtom(state);
+
+			if (to.type === 'char') {
+				node.items.push({
+					type: 'range',
+					from: from.value,
+					to: to.value,
+					span: { start: from.span!.start, end: to.span!.end },
+				});
+			} else {
+				// Annex B: `[a-\d]` is `a`, `-` and `\d`
+				node.items.push(
+					from,
+					{ type: 'char', value: '-', span: { start: dash, end: dash + 1 } },
+					to
+				);
+			}
+			continue;
+		}
+
+		node.items.push(from);
+	}
+}
+
+/**
+ * Parses the contents of a `v`-flag class: nested classes, `\q{...}` strings,
+ * ranges, and the `&&` / `--` set operators.
+ * @internal
+ */
+function parseClassSetContents(
+	state: ParserState,
+	node: CharacterClassNode
+): void {
+	const { source } = state;
+
+	while (source[state.pos] !== ']') {
+		if (source.startsWith('&&', state.pos)) {
+			node.operation = 'intersection';
+			state.pos += 2;
+			continue;
+		}
+		if (source.startsWith('--', state.pos)) {
+			node.operation = 'subtraction';
+			state.pos += 2;
+			continue;
+		}
+
+		const operand = parseClassSetOperand(state);
+
+		if (
+			operand.type === 'char' &&
+			source[state.pos] === '-' &&
+			source[state.pos + 1] !== '-'
+		) {
+			state.pos++;
+			const to = parseClassSetOperand(state) as ClassCharacterItem;
+			node.items.push({
+				type: 'range',
+				from: operand.value,
+				to: to.value,
+				span: { start: operand.span!.start, end: to.span!.end },
+			});
+			continue;
+		}
+
+		node.items.push(operand);
+	}
+}
+
+/**
+ * Parses a single operand of a `v`-flag class.
+ * @internal
+ */
+function parseClassSetOperand(state: ParserState): CharacterClassItem {
+	const { source } = state;
+	const start = state.pos;
+
+	if (source[state.pos] === '[') {
+		return parseClass(state);
+	}
+
+	if (source.startsWith('\\q{', state.pos)) {
+		state.pos += 3;
+		const strings = [''];
+		while (source[state.pos] !== '}') {
+			if (source[state.pos] === '|') {
+				strings.push('');
+				state.pos++;
+				continue;
+			}
+			const char =
+				source[state.pos] === '\\'
+					? parseCharacterEscape(state, true)
+					: readCodePoint(state);
+			strings[strings.length - 1] += char;
+		}
+		state.pos++;
+		return { type: 'classStrings', strings, span: { start, end: state.pos } };
+	}
+
+	return parseClassAtom(state);
+}
+
+/**
+ * Parses one class member that is not a range: a character or a character type escape.
+ * @internal
+ */
+function parseClassAtom(
+	state: ParserState
+): ClassCharacterItem | CharacterTypeNode | UnicodePropertyNode {
+	const start = state.pos;
+
+	if (state.source[state.pos] === '\\') {
+		const characterType = parseCharacterTypeEscape(state);
+		if (characterType) return characterType;
+
+		const value = parseCharacterEscape(state, true);
+		return { type: 'char', value, span: { start, end: state.pos } };
+	}
+
+	const value = readCodePoint(state);
+	return { type: 'char', value, span: { start, end: state.pos } };
+}
+
+/**
+ * Matches an anchored pattern against the source starting at `index`.
+ * @internal
+ */
+function matchAt(
+	source: string,
+	index: number,
+	pattern: RegExp
+): RegExpExecArray | null {
+	return pattern.exec(source.slice(index));
+}
+
+/**
+ * Reads one character at the cursor: a full code point in unicode mode,
+ * otherwise a single UTF-16 code unit.
+ * @internal
+ */
+function readCodePoint(state: ParserState): string {
+	if (state.unicode) {
+		const char = String.fromCodePoint(state.source.codePointAt(state.pos)!);
+		state.pos += char.length;
+		return char;
+	}
+	return state.source[state.pos++]!;
+}
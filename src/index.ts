@@ -194,10 +194,81 @@ export type {
 	RegexBuilderOptions,
 	PasswordValidationOptions,
 	PasswordValidationResult,
+	PasswordContext,
+	PasswordPolicyPreset,
+	PasswordPolicyRules,
+	PassphraseOptions,
+	GeneratedPassphrase,
+	PasswordFeedbackCode,
+	PasswordFeedbackParams,
+	PasswordFeedbackItem,
+	PasswordFeedback,
+	PasswordMessageKey,
+	PasswordMessage,
+	PasswordMessageCatalog,
+	PasswordSegment,
+	PasswordCrackTimes,
+	PasswordStrengthEstimate,
 	HumanTextPattern,
 	ValidationRule,
 	TextExtractionResult,
+	TextToRegexOptions,
+	SampleResult,
+	RegexCandidate,
 	ValidationExtractionResult,
+	RegexNode,
+	LiteralNode,
+	RawNode,
+	SequenceNode,
+	AlternationNode,
+	GroupNode,
+	QuantifierNode,
+	CharacterClassNode,
+	CharacterClassItem,
+	CharacterTypeNode,
+	AssertionNode,
+	UnicodePropertyNode,
+	BackreferenceNode,
+	ClassCharacterItem,
+	ClassRangeItem,
+	ClassStringsItem,
+	SourceSpan,
+	ReDoSComplexity,
+	ReDoSIssue,
+	ReDoSReport,
+	RegexExplanation,
+	RegexExplanationNode,
+	RegexExamples,
+	SynthesizedPart,
+	ExampleSynthesisResult,
+	StringGenerationOptions,
+	FuzzOptions,
+	FuzzFinding,
+	FuzzReport,
+	TextParserFunction,
+	TextParserDefinition,
+	RegisteredParser,
+	PatternDefinitionInput,
+	PatternDefinition,
+	PatternNamespace,
+	CardBrand,
+	CardBrandInfo,
+	PhoneNumberType,
+	PhoneNumberFormat,
+	PhoneCountryMetadata,
+	PhoneParseOptions,
+	PhoneParseResult,
+	PostalCodeFormat,
+	NationalIdType,
+	DateFormat,
+	DateValidationOptions,
+	DateValidationResult,
+	NumericRangeOptions,
+	TypedMatchGroups,
+	EntityType,
+	EntityExtractionOptions,
+	ExtractedEntity,
+	BreachSource,
 } from '../types/index.js';
 
 // Import for local use
@@ -206,6 +277,8 @@ import type { RegexBuilderOptions } from '../types/index.js';
 
 // Re-export core class
 export { RGex } from './core/RGex.js';
+export { serializeNode } from './core/ast.js';
+export { parseRegex } from './core/parser.js';
 
 // Re-export utilities
 export {
@@ -228,6 +301,41 @@ export {
 	getTimestamp,
 } from './utils/helpers.js';
 
+export { analyzeReDoS } from './utils/redos.js';
+export { explainRegex, regexToText, r2t } from './utils/explain.js';
+export { synthesizeRegex } from './utils/synthesis.js';
+export { generateMatching, generateNonMatching } from './utils/generate.js';
+export { fuzzRule } from './utils/fuzz.js';
+export {
+	luhnCheck,
+	isValidIban,
+	isValidIsbn,
+	isValidIsbn10,
+	isValidIsbn13,
+	isValidAbaRouting,
+	isValidEan,
+	isValidVin,
+} from './utils/checksums.js';
+export { detectCardBrand, formatCardNumber } from './utils/cards.js';
+export { parsePhone } from './utils/phone.js';
+export { isValidPostalCode, normalizePostalCode } from './utils/postal.js';
+export {
+	isValidAadhaar,
+	isValidCccd,
+	isValidChineseResidentId,
+	isValidCnpj,
+	isValidCpf,
+	isValidEuVat,
+	isValidNationalId,
+	isValidNino,
+	isValidPan,
+	isValidSin,
+	isValidSsn,
+} from './utils/nationalIds.js';
+export { parseDate, validateDate } from './utils/dates.js';
+export { numericRangeSource } from './utils/numericRange.js';
+export { extractEntities } from './utils/entities.js';
+
 export {
 	parseHumanTextToRegex,
 	parseHumanTextToValidation,
@@ -248,18 +356,39 @@ export {
 	t2v,
 } from './utils/humanText.js';
 
+export {
+	registerParser,
+	unregisterParser,
+	getRegisteredParsers,
+} from './utils/parserRegistry.js';
+export { PatternRegistry, patternRegistry } from './utils/patternRegistry.js';
+
 export {
 	validatePassword,
+	validatePasswordAsync,
 	hasSequentialChars,
 	hasRepeatingChars,
 	hasCommonWords,
+	findKeyboardPattern,
 	getPasswordSuggestions,
-	generateStrongPassword,
 } from './utils/password.js';
+export {
+	generateStrongPassword,
+	generatePassphrase,
+} from './utils/passwordGenerator.js';
+export { estimatePasswordStrength } from './utils/passwordStrength.js';
+export { isBreached, setBreachSource } from './utils/breach.js';
+export { PasswordPolicy } from './utils/passwordPolicy.js';
+export {
+	registerPasswordMessages,
+	formatPasswordMessage,
+} from './utils/passwordMessages.js';
 
 // Re-export constants
 export {
 	REGEX_PATTERNS,
+	REGEX_PATTERN_NAMES,
+	NATIONAL_ID_PATTERNS,
 	HUMAN_PATTERNS,
 	PATTERN_KEYWORDS,
 	COMMON_PASSWORDS,
@@ -274,6 +403,12 @@ export {
 	LENGTH_PATTERNS,
 } from './constants/validation.js';
 
+export { PHONE_METADATA } from './constants/phone.js';
+export { POSTAL_CODE_FORMATS } from './constants/postal.js';
+export { PASSWORD_POLICY_PRESETS } from './constants/passwordPolicies.js';
+export { PASSPHRASE_WORDS } from './constants/passphraseWords.js';
+export { PASSWORD_MESSAGES } from './constants/passwordMessages.js';
+
 // Re-export configuration
 export { RGEX_CONFIG } from './config/index.js';
 
@@ -290,5 +425,20 @@ export function rgex(pattern?: string, options?: RegexBuilderOptions): RGex {
 	return new RGex(pattern, options);
 }
 
+/**
+ * Factory function to create an immutable `RGex` instance, whose builder methods return
+ * new instances instead of changing it. Same as `RGex.immutable()`.
+ *
+ * @param pattern An initial regex pattern to start with.
+ * @param options Configuration options for the RGex builder.
+ * @returns A new immutable `RGex` instance.
+ */
+rgex.frozen = function frozen(
+	pattern?: string,
+	options?: RegexBuilderOptions
+): RGex {
+	return RGex.immutable(pattern, options);
+};
+
 // Default export for convenience
 export default RGex;
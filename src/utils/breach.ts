@@ -0,0 +1,268 @@
+/**
+ * @fileoverview Breached Passwords - Offline lookups of known-compromised passwords by SHA-1 hash
+ * @module Password Validation
+ * @category Utilities
+ * @group Password Validation
+ * @author duongnguyen321 - https://duonguyen.site
+ */
+
+import type { BreachSource } from '../../types/index.js';
+import { COMMON_PASSWORDS } from '../constants/patterns.js';
+
+/** Hex digits in a SHA-1 hash, and in the prefix that names a k-anonymity file. */
+const HASH_LENGTH = 40;
+const PREFIX_LENGTH = 5;
+
+let breachSource: BreachSource | null = null;
+
+/**
+ * Sets where `isBreached` and the `noBreached` password option look passwords up, as
+ * NIST SP 800-63B asks for comparing new passwords against known-compromised values.
+ * Passwords are only ever looked up by their SHA-1 hash, and rgex itself never makes a
+ * network call: a `corpus` or `range` source is searched synchronously, and a `provider`
+ * is the caller's own function.
+ *
+ * Without a source, passwords are compared exactly against the short built-in
+ * `COMMON_PASSWORDS` list.
+ *
+ * @param source - One of:
+ * - `{ corpus }`: the text of a SHA-1 file sorted by hash, one `HASH` or `HASH:COUNT` per
+ *   line, like the "ordered by hash" Pwned Passwords download. It is binary searched.
+ * - `{ range }`: a function returning the k-anonymity file for a 5-character hash prefix,
+ *   with `SUFFIX:COUNT` lines, e.g. read from a local mirror of the range files.
+ * - `{ provider }`: an async lookup given the full uppercase hash. `validatePassword`
+ *   can't wait for it, so use `validatePasswordAsync` with `noBreached`.
+ * - `null` to go back to the built-in list.
+ * @throws {Error} If the source has none of `corpus`, `range` or `provider`.
+ *
+ * @example
+ * ```typescript
+ * import { readFileSync } from 'node:fs';
+ *
+ * setBreachSource({ corpus: readFileSync('pwned-sha1-ordered.txt', 'utf8') });
+ * validatePassword('P@ssw0rd', { noBreached: true }).pass.noBreached.passed; // false
+ *
+ * setBreachSource({
+ *   range: (prefix) => readFileSync(`ranges/${prefix}.txt`, 'utf8'),
+ * });
+ * ```
+ */
+export function setBreachSource(source: BreachSource | null): void {
+	if (
+		source !== null &&
+		!('corpus' in source && typeof source.corpus === 'string') &&
+		!('range' in source && typeof source.range === 'function') &&
+		!('provider' in source && typeof source.provider === 'function')
+	) {
+		throw new Error(
+			'A breach source needs a corpus string, a range function or a provider function'
+		);
+	}
+	breachSource = source;
+}
+
+/**
+ * Checks whether a password appears in the configured breach source (see
+ * `setBreachSource`). Lookups in a `corpus` or `range` source run synchronously; the
+ * promise only waits when a `provider` is configured.
+ *
+ * @param password - The password to look up.
+ * @returns A promise resolving to `true` if the password is known to be compromised.
+ *
+ * @example
+ * ```typescript
+ * await isBreached('password'); // true, even with the built-in list
+ * ```
+ */
+export async function isBreached(password: string): Promise<boolean> {
+	if (breachSource && 'provider' in breachSource) {
+		return breachSource.provider(sha1Hex(password));
+	}
+	return isBreachedSync(password);
+}
+
+/**
+ * Whether the configured breach source is an async `provider`, which only `isBreached`
+ * and `validatePasswordAsync` can query.
+ * @returns `true` if synchronous lookups would throw.
+ */
+export function hasAsyncBreachSource(): boolean {
+	return breachSource !== null && 'provider' in breachSource;
+}
+
+/**
+ * The synchronous lookup behind the `noBreached` option of `validatePassword`.
+ * @param password - The password to look up.
+ * @returns `true` if the password is known to be compromised.
+ * @throws {Error} If an async `provider` is configured.
+ */
+export function isBreachedSync(password: string): boolean {
+	if (!breachSource) {
+		return COMMON_PASSWORDS.indexOf(password) !== -1;
+	}
+	if ('provider' in breachSource) {
+		throw new Error(
+			'The breach source is an async provider; use validatePasswordAsync to check noBreached'
+		);
+	}
+
+	const hash = sha1Hex(password);
+	if ('corpus' in breachSource) {
+		return corpusContains(breachSource.corpus, hash);
+	}
+	const file = breachSource.range(hash.slice(0, PREFIX_LENGTH));
+	if (!file) return false;
+	const suffix = hash.slice(PREFIX_LENGTH);
+	return file.split('\n').some((line) => isListed(line, suffix));
+}
+
+/**
+ * Binary searches a corpus sorted by hash, probing the line around the middle of the
+ * remaining text so that lines of any length work without splitting the corpus.
+ * @internal
+ */
+function corpusContains(corpus: string, hash: string): boolean {
+	let low = 0;
+	let high = corpus.length;
+	while (low < high) {
+		const middle = Math.floor((low + high) / 2);
+		const start = corpus.lastIndexOf('\n', middle - 1) + 1;
+		const newline = corpus.indexOf('\n', start);
+		const end = newline === -1 ? corpus.length : newline;
+		const line = corpus.slice(start, end);
+		const key = line.slice(0, HASH_LENGTH).toUpperCase();
+
+		if (key === hash) return isListed(line, hash);
+		if (key < hash) {
+			low = end + 1;
+		} else {
+			high = start;
+		}
+	}
+	return false;
+}
+
+/**
+ * Whether a `HASH` or `HASH:COUNT` line lists `key`. Padding lines with a count of 0,
+ * as served by k-anonymity APIs, don't count.
+ * @internal
+ */
+function isListed(line: string, key: string): boolean {
+	const text = line.trim();
+	if (text.slice(0, key.length).toUpperCase() !== key) return false;
+	const rest = text.slice(key.length);
+	return rest === '' || (rest[0] === ':' && Number(rest.slice(1)) > 0);
+}
+
+/**
+ * Hashes text as UTF-8 with SHA-1.
+ * @returns The uppercase hex digest.
+ * @internal
+ */
+function sha1Hex(text: string): string {
+	const bytes = utf8Bytes(text);
+	const bitLength = bytes.length * 8;
+	bytes.push(0x80);
+	while (bytes.length % 64 !== 56) bytes.push(0);
+	const highBits = Math.floor(bitLength / 0x100000000);
+	for (const word of [highBits, bitLength >>> 0]) {
+		bytes.push(
+			(word >>> 24) & 0xff,
+			(word >>> 16) & 0xff,
+			(word >>> 8) & 0xff,
+			word & 0xff
+		);
+	}
+
+	const state = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0];
+	const words: number[] = [];
+	for (let offset = 0; offset < bytes.length; offset += 64) {
+		for (let i = 0; i < 16; i++) {
+			const at = offset + i * 4;
+			words[i] =
+				((bytes[at] ?? 0) << 24) |
+				((bytes[at + 1] ?? 0) << 16) |
+				((bytes[at + 2] ?? 0) << 8) |
+				(bytes[at + 3] ?? 0);
+		}
+		for (let i = 16; i < 80; i++) {
+			words[i] = rotate(
+				(words[i - 3] ?? 0) ^
+					(words[i - 8] ?? 0) ^
+					(words[i - 14] ?? 0) ^
+					(words[i - 16] ?? 0),
+				1
+			);
+		}
+
+		let [a = 0, b = 0, c = 0, d = 0, e = 0] = state;
+		for (let i = 0; i < 80; i++) {
+			let mix: number;
+			let constant: number;
+			if (i < 20) {
+				mix = (b & c) | (~b & d);
+				constant = 0x5a827999;
+			} else if (i < 40) {
+				mix = b ^ c ^ d;
+				constant = 0x6ed9eba1;
+			} else if (i < 60) {
+				mix = (b & c) | (b & d) | (c & d);
+				constant = 0x8f1bbcdc;
+			} else {
+				mix = b ^ c ^ d;
+				constant = 0xca62c1d6;
+			}
+			const next = (rotate(a, 5) + mix + e + constant + (words[i] ?? 0)) | 0;
+			e = d;
+			d = c;
+			c = rotate(b, 30);
+			b = a;
+			a = next;
+		}
+		[a, b, c, d, e].forEach((value, i) => {
+			state[i] = ((state[i] ?? 0) + value) | 0;
+		});
+	}
+
+	return state
+		.map((word) => ('0000000' + (word >>> 0).toString(16)).slice(-8))
+		.join('')
+		.toUpperCase();
+}
+
+/** @internal */
+function rotate(word: number, bits: number): number {
+	return (word << bits) | (word >>> (32 - bits));
+}
+
+/** @internal */
+function utf8Bytes(text: string): number[] {
+	const bytes: number[] = [];
+	for (let i = 0; i < text.length; i++) {
+		let code = text.charCodeAt(i);
+		const low = text.charCodeAt(i + 1);
+		if (code >= 0xd800 && code < 0xdc00 && low >= 0xdc00 && low < 0xe000) {
+			code = 0x10000 + ((code - 0xd800) << 10) + (low - 0xdc00);
+			i++;
+		}
+		if (code < 0x80) {
+			bytes.push(code);
+		} else if (code < 0x800) {
+			bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+		} else if (code < 0x10000) {
+			bytes.push(
+				0xe0 | (code >> 12),
+				0x80 | ((code >> 6) & 0x3f),
+				0x80 | (code & 0x3f)
+			);
+		} else {
+			bytes.push(
+				0xf0 | (code >> 18),
+				0x80 | ((code >> 12) & 0x3f),
+				0x80 | ((code >> 6) & 0x3f),
+				0x80 | (code & 0x3f)
+			);
+		}
+	}
+	return bytes;
+}
@@ -0,0 +1,220 @@
+/**
+ * @fileoverview Payment Cards - Card network detection from IIN ranges and as-you-type formatting
+ * @module Utilities
+ * @category Utilities
+ * @group Payment Cards
+ * @author duongnguyen321 - https://duonguyen.site
+ */
+
+import type { CardBrandInfo } from '../../types/index.js';
+
+/**
+ * A card network and the issuer identification number (IIN) ranges it owns. Each range
+ * is an inclusive pair of equal-width prefixes, e.g. `['2221', '2720']`.
+ * @internal
+ */
+interface CardNetwork extends CardBrandInfo {
+	ranges: Array<[string, string]>;
+}
+
+/** Grouping used when the brand is unknown: 4-4-4-4-3. */
+const DEFAULT_GROUPS = [4, 4, 4, 4, 3];
+
+/** Longest card number accepted when the brand is unknown. */
+const MAX_CARD_LENGTH = 19;
+
+/**
+ * Card networks in detection order. Ranges that overlap a broader range of a later
+ * network (Discover's co-branded `622126`-`622925` inside UnionPay's `62`) come first.
+ * @internal
+ */
+const CARD_NETWORKS: CardNetwork[] = [
+	{
+		brand: 'visa',
+		name: 'Visa',
+		ranges: [['4', '4']],
+		lengths: [13, 16, 19],
+		cvvLength: 3,
+		groups: [4, 4, 4, 4, 3],
+	},
+	{
+		brand: 'mastercard',
+		name: 'Mastercard',
+		ranges: [
+			['51', '55'],
+			['2221', '2720'],
+		],
+		lengths: [16],
+		cvvLength: 3,
+		groups: [4, 4, 4, 4],
+	},
+	{
+		brand: 'amex',
+		name: 'American Express',
+		ranges: [
+			['34', '34'],
+			['37', '37'],
+		],
+		lengths: [15],
+		cvvLength: 4,
+		groups: [4, 6, 5],
+	},
+	{
+		brand: 'discover',
+		name: 'Discover',
+		ranges: [
+			['6011', '6011'],
+			['644', '649'],
+			['65', '65'],
+			['622126', '622925'],
+		],
+		lengths: [16, 19],
+		cvvLength: 3,
+		groups: [4, 4, 4, 4, 3],
+	},
+	{
+		brand: 'jcb',
+		name: 'JCB',
+		ranges: [['3528', '3589']],
+		lengths: [16, 17, 18, 19],
+		cvvLength: 3,
+		groups: [4, 4, 4, 4, 3],
+	},
+	{
+		brand: 'unionpay',
+		name: 'UnionPay',
+		ranges: [
+			['62', '62'],
+			['81', '81'],
+		],
+		lengths: [16, 17, 18, 19],
+		cvvLength: 3,
+		groups: [4, 4, 4, 4, 3],
+	},
+	{
+		brand: 'diners',
+		name: 'Diners Club',
+		ranges: [
+			['300', '305'],
+			['36', '36'],
+			['38', '39'],
+		],
+		lengths: [14, 16, 19],
+		cvvLength: 3,
+		groups: [4, 6, 9],
+	},
+	{
+		brand: 'maestro',
+		name: 'Maestro',
+		ranges: [
+			['50', '50'],
+			['56', '59'],
+			['63', '63'],
+			['67', '67'],
+		],
+		lengths: [12, 13, 14, 15, 16, 17, 18, 19],
+		cvvLength: 3,
+		groups: [4, 4, 4, 4, 3],
+	},
+];
+
+/**
+ * Detects the card network of a (possibly partial) card number from its IIN prefix.
+ * Non-digits are ignored, so formatted input like `4111 1111` works. While the number
+ * is being typed, a brand is returned as soon as the prefix can only belong to one
+ * network: `2` is Mastercard, but `5` could still be Mastercard or Maestro.
+ *
+ * @param input - The card number, complete or partial.
+ * @returns The brand, its valid lengths, CVV length and digit grouping, or `null` if
+ * the prefix is unknown or still ambiguous.
+ *
+ * @example
+ * ```typescript
+ * detectCardBrand('3714 496353 98431');
+ * // { brand: 'amex', name: 'American Express', lengths: [15], cvvLength: 4, groups: [4, 6, 5] }
+ * ```
+ */
+export function detectCardBrand(input: string): CardBrandInfo | null {
+	const digits = input.replace(/\D/g, '');
+	if (!digits) return null;
+
+	const candidates: CardNetwork[] = [];
+	for (const network of CARD_NETWORKS) {
+		const matches = network.ranges.map((range) => matchRange(digits, range));
+		if (matches.some((match) => match === 'full')) {
+			return toBrandInfo(network);
+		}
+		if (matches.some((match) => match === 'partial')) {
+			candidates.push(network);
+		}
+	}
+
+	const [only] = candidates;
+	return candidates.length === 1 && only ? toBrandInfo(only) : null;
+}
+
+/**
+ * Formats a card number with the grouping of its brand (4-6-5 for Amex, 4-6-4 for
+ * 14-digit Diners, 4-4-4-4 otherwise), dropping non-digits and digits beyond the
+ * brand's longest length. Works on partial input, so it can run on every keystroke.
+ *
+ * @param input - The card number as typed.
+ * @param separator - The text between groups. Defaults to a space.
+ * @returns The formatted number, without a trailing separator.
+ *
+ * @example
+ * ```typescript
+ * formatCardNumber('378282246310005'); // '3782 822463 10005'
+ * formatCardNumber('411111'); // '4111 11'
+ * ```
+ */
+export function formatCardNumber(input: string, separator = ' '): string {
+	const brand = detectCardBrand(input);
+	const maxLength = brand ? Math.max(...brand.lengths) : MAX_CARD_LENGTH;
+	const digits = input.replace(/\D/g, '').slice(0, maxLength);
+	const groups = brand ? brand.groups : DEFAULT_GROUPS;
+
+	const blocks: string[] = [];
+	let offset = 0;
+	for (const size of groups) {
+		if (offset >= digits.length) break;
+		blocks.push(digits.slice(offset, offset + size));
+		offset += size;
+	}
+	return blocks.join(separator);
+}
+
+/**
+ * Compares the leading digits with an IIN range. `partial` means the digits typed so
+ * far are too few to decide but can still grow into the range.
+ * @internal
+ */
+function matchRange(
+	digits: string,
+	[low, high]: [string, string]
+): 'full' | 'partial' | null {
+	const width = low.length;
+	if (digits.length >= width) {
+		const prefix = Number(digits.slice(0, width));
+		return prefix >= Number(low) && prefix <= Number(high) ? 'full' : null;
+	}
+
+	const missing = width - digits.length;
+	const smallest = Number(digits + '0'.repeat(missing));
+	const largest = Number(digits + '9'.repeat(missing));
+	return largest >= Number(low) && smallest <= Number(high) ? 'partial' : null;
+}
+
+/**
+ * Copies a network's public fields so callers can't modify the table.
+ * @internal
+ */
+function toBrandInfo(network: CardNetwork): CardBrandInfo {
+	return {
+		brand: network.brand,
+		name: network.name,
+		lengths: [...network.lengths],
+		cvvLength: network.cvvLength,
+		groups: [...network.groups],
+	};
+}
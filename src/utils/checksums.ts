@@ -0,0 +1,281 @@
+/**
+ * @fileoverview Checksums - Check-digit validation for card numbers, IBANs, ISBNs, routing numbers, barcodes and VINs
+ * @module Utilities
+ * @category Utilities
+ * @group Checksums
+ * @author duongnguyen321 - https://duonguyen.site
+ */
+
+/**
+ * IBAN lengths by ISO 3166 country code, from the SWIFT IBAN registry.
+ * @internal
+ */
+const IBAN_LENGTHS: Record<string, number> = {
+	AD: 24,
+	AE: 23,
+	AL: 28,
+	AT: 20,
+	AZ: 28,
+	BA: 20,
+	BE: 16,
+	BG: 22,
+	BH: 22,
+	BI: 27,
+	BR: 29,
+	BY: 28,
+	CH: 21,
+	CR: 22,
+	CY: 28,
+	CZ: 24,
+	DE: 22,
+	DJ: 27,
+	DK: 18,
+	DO: 28,
+	EE: 20,
+	EG: 29,
+	ES: 24,
+	FI: 18,
+	FK: 18,
+	FO: 18,
+	FR: 27,
+	GB: 22,
+	GE: 22,
+	GI: 23,
+	GL: 18,
+	GR: 27,
+	GT: 28,
+	HR: 21,
+	HU: 28,
+	IE: 22,
+	IL: 23,
+	IQ: 23,
+	IS: 26,
+	IT: 27,
+	JO: 30,
+	KW: 30,
+	KZ: 20,
+	LB: 28,
+	LC: 32,
+	LI: 21,
+	LT: 20,
+	LU: 20,
+	LV: 21,
+	LY: 25,
+	MC: 27,
+	MD: 24,
+	ME: 22,
+	MK: 19,
+	MN: 20,
+	MR: 27,
+	MT: 31,
+	MU: 30,
+	NI: 28,
+	NL: 18,
+	NO: 15,
+	OM: 23,
+	PK: 24,
+	PL: 28,
+	PS: 29,
+	PT: 25,
+	QA: 29,
+	RO: 24,
+	RS: 22,
+	RU: 33,
+	SA: 24,
+	SC: 31,
+	SD: 18,
+	SE: 24,
+	SI: 19,
+	SK: 24,
+	SM: 27,
+	SO: 23,
+	ST: 25,
+	SV: 28,
+	TL: 23,
+	TN: 24,
+	TR: 26,
+	UA: 29,
+	VA: 22,
+	VG: 24,
+	XK: 20,
+	YE: 30,
+};
+
+/**
+ * VIN letter values (ISO 3779). I, O and Q are not allowed.
+ * @internal
+ */
+const VIN_VALUES: Record<string, number> = {
+	A: 1,
+	B: 2,
+	C: 3,
+	D: 4,
+	E: 5,
+	F: 6,
+	G: 7,
+	H: 8,
+	J: 1,
+	K: 2,
+	L: 3,
+	M: 4,
+	N: 5,
+	P: 7,
+	R: 9,
+	S: 2,
+	T: 3,
+	U: 4,
+	V: 5,
+	W: 6,
+	X: 7,
+	Y: 8,
+	Z: 9,
+};
+
+/** Position weights of the 17 VIN characters; the check digit (9th) weighs 0. */
+const VIN_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+/**
+ * Checks a number with the Luhn (mod 10) algorithm used by payment cards, IMEIs and
+ * many national identifiers. Spaces and hyphens between digit groups are ignored.
+ * @param value - The number to check, e.g. `4111 1111 1111 1111`.
+ * @returns `true` if the value is at least two digits and its check digit is correct.
+ */
+export function luhnCheck(value: string): boolean {
+	const digits = stripSeparators(value);
+	if (!/^\d{2,}$/.test(digits)) return false;
+
+	let sum = 0;
+	for (let i = 0; i < digits.length; i++) {
+		let digit = Number(digits[digits.length - 1 - i]);
+		if (i % 2 === 1) {
+			digit *= 2;
+			if (digit > 9) digit -= 9;
+		}
+		sum += digit;
+	}
+	return sum % 10 === 0;
+}
+
+/**
+ * Checks an IBAN: the country's registered length and the ISO 7064 mod 97-10 check
+ * digits. Spaces (as in the printed form `GB82 WEST 1234 5698 7654 32`) are ignored.
+ * @param value - The IBAN to check.
+ * @returns `true` if the country is known, the length matches and the checksum is 1.
+ */
+export function isValidIban(value: string): boolean {
+	const iban = value.replace(/ /g, '').toUpperCase();
+	if (!/^[A-Z]{2}\d{2}[A-Z0-9]+$/.test(iban)) return false;
+	if (IBAN_LENGTHS[iban.slice(0, 2)] !== iban.length) return false;
+
+	const rearranged = iban.slice(4) + iban.slice(0, 4);
+	let remainder = 0;
+	for (const char of rearranged) {
+		const code = char.charCodeAt(0);
+		// Letters count as two digits: A = 10 ... Z = 35
+		const digits = code >= 65 ? String(code - 55) : char;
+		for (const digit of digits) {
+			remainder = (remainder * 10 + Number(digit)) % 97;
+		}
+	}
+	return remainder === 1;
+}
+
+/**
+ * Checks an ISBN-10 check digit (weights 10 to 1, mod 11; `X` stands for 10).
+ * Spaces and hyphens are ignored.
+ * @param value - The ISBN to check, e.g. `0-306-40615-2`.
+ * @returns `true` if the check digit is correct.
+ */
+export function isValidIsbn10(value: string): boolean {
+	const isbn = stripSeparators(value).toUpperCase();
+	if (!/^\d{9}[\dX]$/.test(isbn)) return false;
+
+	let sum = 0;
+	for (let i = 0; i < 10; i++) {
+		const char = isbn[i];
+		sum += (10 - i) * (char === 'X' ? 10 : Number(char));
+	}
+	return sum % 11 === 0;
+}
+
+/**
+ * Checks an ISBN-13: a `978` or `979` prefix and a valid EAN-13 check digit.
+ * Spaces and hyphens are ignored.
+ * @param value - The ISBN to check, e.g. `978-0-306-40615-7`.
+ * @returns `true` if the prefix and the check digit are correct.
+ */
+export function isValidIsbn13(value: string): boolean {
+	const isbn = stripSeparators(value);
+	return /^97[89]\d{10}$/.test(isbn) && isValidEan(isbn);
+}
+
+/**
+ * Checks an ISBN in either form: a valid ISBN-10 or a valid ISBN-13.
+ * Spaces and hyphens are ignored.
+ * @param value - The ISBN to check, e.g. `978-0-306-40615-7` or `0-306-40615-2`.
+ * @returns `true` if the value is a valid ISBN-10 or ISBN-13.
+ */
+export function isValidIsbn(value: string): boolean {
+	return isValidIsbn10(value) || isValidIsbn13(value);
+}
+
+/**
+ * Checks a US ABA routing transit number: nine digits whose weighted sum
+ * (3, 7, 1 repeating) is a multiple of 10.
+ * @param value - The routing number to check, e.g. `021000021`.
+ * @returns `true` if the checksum is correct and the number isn't all zeros.
+ */
+export function isValidAbaRouting(value: string): boolean {
+	if (!/^\d{9}$/.test(value) || /^0+$/.test(value)) return false;
+
+	const weights = [3, 7, 1];
+	let sum = 0;
+	for (let i = 0; i < 9; i++) {
+		sum += Number(value[i]) * (weights[i % 3] ?? 0);
+	}
+	return sum % 10 === 0;
+}
+
+/**
+ * Checks a GS1 barcode number: EAN-8, UPC-A (12 digits), EAN-13 or GTIN-14. Digits are
+ * weighted 3 and 1 alternately from the right, starting next to the check digit.
+ * Spaces and hyphens are ignored.
+ * @param value - The barcode number to check, e.g. `4006381333931`.
+ * @returns `true` if the length is supported and the check digit is correct.
+ */
+export function isValidEan(value: string): boolean {
+	const digits = stripSeparators(value);
+	if (!/^(?:\d{8}|\d{12,14})$/.test(digits)) return false;
+
+	let sum = 0;
+	for (let i = 1; i < digits.length; i++) {
+		sum += Number(digits[digits.length - 1 - i]) * (i % 2 === 1 ? 3 : 1);
+	}
+	return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+}
+
+/**
+ * Checks the 9th-position check digit of a 17-character VIN (weights per ISO 3779, mod 11;
+ * `X` stands for 10). The check digit is mandatory for North American vehicles; other
+ * markets may issue VINs that fail it.
+ * @param value - The VIN to check, e.g. `1M8GDM9AXKP042788`.
+ * @returns `true` if the VIN uses valid characters and its check digit is correct.
+ */
+export function isValidVin(value: string): boolean {
+	const vin = value.toUpperCase();
+	if (!/^[A-HJ-NPR-Z0-9]{17}$/.test(vin)) return false;
+
+	let sum = 0;
+	for (let i = 0; i < 17; i++) {
+		const char = vin[i] ?? '';
+		const charValue = /\d/.test(char) ? Number(char) : VIN_VALUES[char] ?? 0;
+		sum += charValue * (VIN_WEIGHTS[i] ?? 0);
+	}
+	const remainder = sum % 11;
+	return vin[8] === (remainder === 10 ? 'X' : String(remainder));
+}
+
+/** @internal */
+function stripSeparators(value: string): string {
+	return value.replace(/[\s-]/g, '');
+}
@@ -4,6 +4,7 @@
 
 import type { TextExtractionResult } from '../../../types/index.js';
 import { calculateConfidence } from '../helpers.js';
+import { isValidAbaRouting, isValidIban, luhnCheck } from '../checksums.js';
 
 /**
  * Parses combined patterns specifically related to financial data.
@@ -28,7 +29,8 @@ export function parseFinancialCombined(
 
 		if (testValue) {
 			const regex = new RegExp(creditCardWithExpiryCvv);
-			const testPassed = regex.test(testValue);
+			const testPassed =
+				regex.test(testValue) && cardWithExpiryChecksum(testValue);
 			confidence = calculateConfidence(confidence, true, testPassed);
 		}
 
@@ -38,6 +40,7 @@ export function parseFinancialCombined(
 			confidence,
 			description: 'Credit card number with expiry date (MM/YY) and CVV',
 			suggestions: [],
+			validator: cardWithExpiryChecksum,
 		};
 	}
 
@@ -53,7 +56,8 @@ export function parseFinancialCombined(
 
 		if (testValue) {
 			const regex = new RegExp(bankAccountFull);
-			const testPassed = regex.test(testValue);
+			const testPassed =
+				regex.test(testValue) && routingWithAccountChecksum(testValue);
 			confidence = calculateConfidence(confidence, true, testPassed);
 		}
 
@@ -64,6 +68,7 @@ export function parseFinancialCombined(
 			description:
 				'Bank account with routing number (9 digits) and account number (4-17 digits)',
 			suggestions: [],
+			validator: routingWithAccountChecksum,
 		};
 	}
 
@@ -78,7 +83,7 @@ export function parseFinancialCombined(
 
 		if (testValue) {
 			const regex = new RegExp(ibanPattern);
-			const testPassed = regex.test(testValue);
+			const testPassed = regex.test(testValue) && isValidIban(testValue);
 			confidence = calculateConfidence(confidence, true, testPassed);
 		}
 
@@ -88,6 +93,7 @@ export function parseFinancialCombined(
 			confidence,
 			description: 'IBAN with country code and check digits',
 			suggestions: [],
+			validator: isValidIban,
 		};
 	}
 
@@ -141,3 +147,19 @@ export function parseFinancialCombined(
 
 	return null;
 }
+
+/**
+ * Checks the card number in front of "MM/YY CVV".
+ * @internal
+ */
+function cardWithExpiryChecksum(value: string): boolean {
+	return luhnCheck(value.trim().split(/\s+/)[0] ?? '');
+}
+
+/**
+ * Checks the routing number in front of the account number.
+ * @internal
+ */
+function routingWithAccountChecksum(value: string): boolean {
+	return isValidAbaRouting(value.trim().split(/\s+/)[0] ?? '');
+}
@@ -25,47 +25,27 @@ import {
 
 /**
  * An array of specialized parser functions for combined patterns.
- * Each parser handles a specific category of patterns (e.g., email, phone).
+ * Each parser handles a specific category of patterns (e.g., email, phone). They are
+ * registered, in this order, as built-in stages of the parser registry.
  */
-const combinedParsers = [
-	parseEmailCombined,
-	parsePhoneCombined,
-	parsePasswordCombined,
-	parseUrlCombined,
-	parseDateTimeCombined,
-	parseFinancialCombined,
-	parseTextCombined,
-	parseSecurityCombined,
-	parseFileCombined,
-	parseBusinessCombined,
-	parseCommunicationCombined,
-	parseHealthcareCombined,
-	parseEducationCombined,
-	parseTransportationCombined,
-	parseTechnologyCombined,
-	parseLanguageCombined,
+export const combinedParsers: Array<{
+	name: string;
+	parse: (text: string, testValue?: string) => TextExtractionResult | null;
+}> = [
+	{ name: 'email', parse: parseEmailCombined },
+	{ name: 'phone', parse: parsePhoneCombined },
+	{ name: 'password', parse: parsePasswordCombined },
+	{ name: 'url', parse: parseUrlCombined },
+	{ name: 'dateTime', parse: parseDateTimeCombined },
+	{ name: 'financial', parse: parseFinancialCombined },
+	{ name: 'text', parse: parseTextCombined },
+	{ name: 'security', parse: parseSecurityCombined },
+	{ name: 'file', parse: parseFileCombined },
+	{ name: 'business', parse: parseBusinessCombined },
+	{ name: 'communication', parse: parseCommunicationCombined },
+	{ name: 'healthcare', parse: parseHealthcareCombined },
+	{ name: 'education', parse: parseEducationCombined },
+	{ name: 'transportation', parse: parseTransportationCombined },
+	{ name: 'technology', parse: parseTechnologyCombined },
+	{ name: 'language', parse: parseLanguageCombined },
 ];
-
-/**
- * Parses complex combined patterns that require multiple conditions.
- * It iterates through a series of specialized parsers, each handling a different category of patterns.
- *
- * @param textForCapture - The natural language text to be analyzed for patterns.
- * @param testValue - An optional string to test the generated pattern against for confidence scoring.
- * @returns A `TextExtractionResult` object if a pattern is successfully parsed, otherwise `null`.
- */
-export function parseCombinedPatterns(
-	textForCapture: string,
-	testValue?: string
-): TextExtractionResult | null {
-	const normalizedText = textForCapture.toLowerCase();
-
-	for (const parser of combinedParsers) {
-		const result = parser(normalizedText, testValue);
-		if (result) {
-			return result;
-		}
-	}
-
-	return null;
-}
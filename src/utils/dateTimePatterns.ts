@@ -3,15 +3,22 @@
  * Handles date and time format patterns
  */
 
-import type { TextExtractionResult } from '../../types/index.js';
+import type {
+	DateFormat,
+	DateValidationOptions,
+	TextExtractionResult,
+} from '../../types/index.js';
+import { dateFormatSource, describeDateFormat, validateDate } from './dates.js';
 import { calculateConfidence } from './helpers.js';
 
 /**
  * Parses text for common date and time related patterns.
  *
  * This function checks for various date formats like MM/DD/YYYY (American) and DD/MM/YYYY (European),
- * as well as age-related queries like "age 18+". It returns a structured result
- * with the corresponding regex pattern, a confidence score, and a description.
+ * as well as age-related queries like "age 18+". Dates of birth and dates with a range
+ * ("date of birth at least 18 years ago", "date after 2020-01-01") get a calendar-aware
+ * validator, so `t2v` rejects 2023-02-30 and people under the age limit. It returns a
+ * structured result with the corresponding regex pattern, a confidence score, and a description.
  *
  * @param textForCapture - The natural language text to be analyzed for date/time patterns.
  * @param testValue - An optional string to test the generated pattern against for confidence scoring.
@@ -23,6 +30,31 @@ export function parseDateTimePatterns(
 ): TextExtractionResult | null {
 	const suggestions: string[] = [];
 
+	// Handle "date of birth at least 18 years ago", "date after 2020-01-01" or "rfc 3339 date"
+	const constrained = readDateConstraints(textForCapture);
+	if (constrained) {
+		const { format, options, description } = constrained;
+		const pattern = `^(?:${dateFormatSource(format)})$`;
+		const validator = (value: string) => validateDate(value, options).valid;
+
+		let confidence: number = 0.85;
+
+		if (testValue) {
+			const testPassed =
+				new RegExp(pattern).test(testValue) && validator(testValue);
+			confidence = calculateConfidence(confidence, true, testPassed);
+		}
+
+		return {
+			success: true,
+			pattern: new RegExp(pattern),
+			confidence,
+			description,
+			suggestions,
+			validator,
+		};
+	}
+
 	// Handle "date format mm/dd/yyyy" or "american date"
 	if (
 		(textForCapture.includes('date') && textForCapture.includes('mm/dd')) ||
@@ -45,6 +77,8 @@ export function parseDateTimePatterns(
 			confidence,
 			description: 'Date in MM/DD/YYYY format',
 			suggestions,
+			validator: (value: string) =>
+				validateDate(value, { format: 'MM/DD/YYYY' }).valid,
 		};
 	}
 
@@ -70,6 +104,8 @@ export function parseDateTimePatterns(
 			confidence,
 			description: 'Date in DD/MM/YYYY format',
 			suggestions,
+			validator: (value: string) =>
+				validateDate(value, { format: 'DD/MM/YYYY' }).valid,
 		};
 	}
 
@@ -100,3 +136,74 @@ export function parseDateTimePatterns(
 
 	return null;
 }
+
+/**
+ * Reads the format and range of a described date: the age limits of a date of birth
+ * ("at least 18 years ago", "over 21", "age >= 18", "18+"), ISO bounds ("after 2020-01-01") and a named
+ * format ("rfc 3339", "dd/mm/yyyy").
+ * @returns The validation options and a description, or `null` when the text neither
+ * describes a date of birth nor a date with a range or standard format.
+ * @internal
+ */
+function readDateConstraints(text: string): {
+	format: DateFormat;
+	options: DateValidationOptions;
+	description: string;
+} | null {
+	const birth = /\b(?:birth|born|dob|birthday)\b/.test(text);
+	const after = text.match(/\b(?:after|since|from)\s+(\d{4}-\d{2}-\d{2})\b/);
+	const before = text.match(/\b(?:before|until|to)\s+(\d{4}-\d{2}-\d{2})\b/);
+	const standard = readStandardFormat(text);
+	if (!birth && !(text.includes('date') && (after || before || standard))) {
+		return null;
+	}
+
+	const format = standard ?? readTemplateFormat(text);
+	const options: DateValidationOptions = { format };
+	// `\b` only guards the words: there is no word boundary between a space and `>`
+	const minAge =
+		text.match(
+			/(?:\b(?:at least|over|older than|minimum(?: age)?(?: of)?|min)\b|>=?)\s*(\d{1,3})\b/
+		) ?? text.match(/\b(\d{1,3})\s*\+(?!\d)/);
+	const maxAge = text.match(
+		/(?:\b(?:at most|under|younger than|maximum(?: age)?(?: of)?|max)\b|<=?)\s*(\d{1,3})\b/
+	);
+	if (minAge?.[1]) options.minAge = Number(minAge[1]);
+	if (maxAge?.[1]) options.maxAge = Number(maxAge[1]);
+	if (after?.[1]) options.after = after[1];
+	if (before?.[1]) options.before = before[1];
+
+	const constraints: string[] = [];
+	if (options.minAge !== undefined) {
+		constraints.push(`at least ${options.minAge} years ago`);
+	}
+	if (options.maxAge !== undefined) {
+		constraints.push(`at most ${options.maxAge} years ago`);
+	}
+	if (options.after) constraints.push(`after ${options.after}`);
+	if (options.before) constraints.push(`before ${options.before}`);
+
+	const subject = birth ? 'Date of birth' : 'Date';
+	const range = constraints.length > 0 ? `, ${constraints.join(' and ')}` : '';
+	return {
+		format,
+		options,
+		description: `${subject} (${describeDateFormat(format)})${range}`,
+	};
+}
+
+/** @internal */
+function readStandardFormat(text: string): string | undefined {
+	if (/\brfc\s*3339\b/.test(text)) return 'rfc3339';
+	if (/\brfc\s*2822\b/.test(text)) return 'rfc2822';
+	if (/\biso\s*8601\b/.test(text)) return 'iso8601';
+	return undefined;
+}
+
+/** @internal */
+function readTemplateFormat(text: string): string {
+	if (text.includes('dd/mm') || text.includes('european')) return 'DD/MM/YYYY';
+	if (text.includes('mm-dd')) return 'MM-DD-YYYY';
+	if (text.includes('mm/dd') || text.includes('american')) return 'MM/DD/YYYY';
+	return 'YYYY-MM-DD';
+}
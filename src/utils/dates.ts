@@ -0,0 +1,551 @@
+/**
+ * @fileoverview Dates - Calendar-aware date and time validation for ISO 8601, RFC 3339, RFC 2822 and custom formats
+ * @module Utilities
+ * @category Utilities
+ * @group Dates
+ * @author duongnguyen321 - https://duonguyen.site
+ */
+
+import type {
+	DateFormat,
+	DateValidationOptions,
+	DateValidationResult,
+} from '../../types/index.js';
+import { escapeRegex } from './helpers.js';
+
+/**
+ * Calendar and clock fields read from a value, before they are checked. `offset` is the
+ * UTC offset in minutes; values without one are read as UTC.
+ * @internal
+ */
+interface DateParts {
+	year: number;
+	month: number;
+	day: number;
+	hour: number;
+	minute: number;
+	second: number;
+	millisecond: number;
+	offset: number;
+	weekday?: string; // RFC 2822 day name, checked against the date
+}
+
+/**
+ * A format compiled to a pattern source and a reader for its capture groups. The reader
+ * returns an error message for fields that can't be expressed in the pattern, such as
+ * an ISO week that the year doesn't have.
+ * @internal
+ */
+interface DateMatcher {
+	source: string;
+	read: (groups: Array<string | undefined>) => DateParts | string;
+}
+
+const MONTH_NAMES = [
+	'Jan',
+	'Feb',
+	'Mar',
+	'Apr',
+	'May',
+	'Jun',
+	'Jul',
+	'Aug',
+	'Sep',
+	'Oct',
+	'Nov',
+	'Dec',
+];
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/** UTC offsets in minutes of the time zone names RFC 2822 still accepts. */
+const RFC2822_ZONES: Record<string, number> = {
+	UT: 0,
+	GMT: 0,
+	EST: -300,
+	EDT: -240,
+	CST: -360,
+	CDT: -300,
+	MST: -420,
+	MDT: -360,
+	PST: -480,
+	PDT: -420,
+};
+
+/** Template tokens, longest first so `MM` wins over `M`. */
+const TEMPLATE_TOKENS: Array<[string, string, keyof DateParts]> = [
+	['YYYY', '(\\d{4})', 'year'],
+	['SSS', '(\\d{3})', 'millisecond'],
+	['MM', '(\\d{2})', 'month'],
+	['DD', '(\\d{2})', 'day'],
+	['HH', '(\\d{2})', 'hour'],
+	['mm', '(\\d{2})', 'minute'],
+	['ss', '(\\d{2})', 'second'],
+	['M', '(\\d{1,2})', 'month'],
+	['D', '(\\d{1,2})', 'day'],
+];
+
+const DAY_MS = 86400000;
+
+/**
+ * The named formats. ISO 8601 covers calendar (`2024-02-29`, `20240229`, `2024-02`),
+ * ordinal (`2024-060`) and week dates (`2024-W09-4`), in extended or basic form, with an
+ * optional time (`T10:30`, `T103000,5`, `T24:00`) and UTC offset (`Z`, `+07:00`, `-0530`).
+ * @internal
+ */
+const NAMED_FORMATS: Record<string, DateMatcher> = {
+	iso8601: {
+		source:
+			'(\\d{4})(?:-(\\d{2})(?:-(\\d{2}))?|(\\d{2})(\\d{2})|-?(\\d{3})|-?W(\\d{2})(?:-?([1-7]))?)' +
+			'(?:[Tt](\\d{2})(?::?(\\d{2})(?::?(\\d{2})(?:[.,](\\d+))?)?)?(Z|[+-]\\d{2}(?::?\\d{2})?)?)?',
+		read: (groups) => {
+			const year = Number(groups[1]);
+			let month = Number(groups[2] ?? groups[4] ?? 1);
+			let day = Number(groups[3] ?? groups[5] ?? 1);
+			let dateYear = year;
+
+			if (groups[6]) {
+				const ordinal = Number(groups[6]);
+				const length = isLeapYear(year) ? 366 : 365;
+				if (ordinal < 1 || ordinal > length) {
+					return `${year} has ${length} days, got day ${ordinal}`;
+				}
+				const date = new Date(utcTime(year, 1, 1) + (ordinal - 1) * DAY_MS);
+				month = date.getUTCMonth() + 1;
+				day = date.getUTCDate();
+			} else if (groups[7]) {
+				const week = Number(groups[7]);
+				const weeks = isoWeeksInYear(year);
+				if (week < 1 || week > weeks) {
+					return `${year} has ${weeks} ISO weeks, got week ${week}`;
+				}
+				const date = isoWeekDate(year, week, Number(groups[8] ?? 1));
+				dateYear = date.getUTCFullYear();
+				month = date.getUTCMonth() + 1;
+				day = date.getUTCDate();
+			}
+
+			const offset = readOffset(groups[13]);
+			if (typeof offset === 'string') return offset;
+			return {
+				year: dateYear,
+				month,
+				day,
+				hour: Number(groups[9] ?? 0),
+				minute: Number(groups[10] ?? 0),
+				second: Number(groups[11] ?? 0),
+				millisecond: readFraction(groups[12]),
+				offset,
+			};
+		},
+	},
+	rfc3339: {
+		source:
+			'(\\d{4})-(\\d{2})-(\\d{2})[Tt ](\\d{2}):(\\d{2}):(\\d{2})(?:\\.(\\d+))?([Zz]|[+-]\\d{2}:\\d{2})',
+		read: (groups) => {
+			const offset = readOffset(groups[8]?.toUpperCase());
+			if (typeof offset === 'string') return offset;
+			return {
+				year: Number(groups[1]),
+				month: Number(groups[2]),
+				day: Number(groups[3]),
+				hour: Number(groups[4]),
+				minute: Number(groups[5]),
+				second: Number(groups[6]),
+				millisecond: readFraction(groups[7]),
+				offset,
+			};
+		},
+	},
+	rfc2822: {
+		source: `(?:(${DAY_NAMES.join(
+			'|'
+		)}),\\s*)?(\\d{1,2})\\s+(${MONTH_NAMES.join(
+			'|'
+		)})\\s+(\\d{4})\\s+(\\d{2}):(\\d{2})(?::(\\d{2}))?\\s+([+-]\\d{4}|UT|GMT|[ECMP][SD]T)`,
+		read: (groups) => {
+			const zone = groups[8] ?? '';
+			const offset =
+				zone in RFC2822_ZONES ? RFC2822_ZONES[zone] ?? 0 : readOffset(zone);
+			if (typeof offset === 'string') return offset;
+			return {
+				year: Number(groups[4]),
+				month: MONTH_NAMES.indexOf(groups[3] ?? '') + 1,
+				day: Number(groups[2]),
+				hour: Number(groups[5]),
+				minute: Number(groups[6]),
+				second: Number(groups[7] ?? 0),
+				millisecond: 0,
+				offset,
+				weekday: groups[1],
+			};
+		},
+	},
+};
+
+/** Compiled templates, by format string. */
+const templateCache = new Map<string, DateMatcher>();
+
+/**
+ * Validates a date or date-time string: its format, whether the date exists on the
+ * calendar (leap years included, so `2023-02-29` fails and `2024-02-29` passes), and
+ * optional range and age constraints.
+ *
+ * @param input - The value to check.
+ * @param options - Accepted formats (default `iso8601`), exclusive `after`/`before`
+ * bounds, and `minAge`/`maxAge` in whole years before `now`.
+ * @returns The verdict, the parsed `Date` and matching format, or an `error` explaining
+ * what is wrong.
+ * @throws {Error} If a bound is not a valid date or a template has no date/time token.
+ *
+ * @example
+ * ```typescript
+ * validateDate('2023-13-45').error; // 'Month 13 does not exist'
+ * validateDate('29/02/2023', { format: 'DD/MM/YYYY' }).error; // '2023-02 has 28 days'
+ * validateDate('2008-06-01', { minAge: 18 }).valid; // false until 2026-06-01
+ * validateDate('2024-05-01T10:00:00+07:00', { format: 'rfc3339' }).date?.toISOString();
+ * // '2024-05-01T03:00:00.000Z'
+ * ```
+ */
+export function validateDate(
+	input: string,
+	options: DateValidationOptions = {}
+): DateValidationResult {
+	const formats = ([] as DateFormat[]).concat(options.format ?? 'iso8601');
+	const value = input.trim();
+
+	let parts: DateParts | undefined;
+	let format: DateFormat | undefined;
+	let firstError: { error: string; format: DateFormat } | undefined;
+	for (const candidate of formats) {
+		const result = readDate(value, candidate);
+		if (result === null) continue;
+		const error =
+			typeof result === 'string'
+				? result
+				: checkParts(result, candidate === 'iso8601');
+		if (typeof result !== 'string' && !error) {
+			parts = result;
+			format = candidate;
+			break;
+		}
+		firstError = firstError ?? { error: error ?? '', format: candidate };
+	}
+
+	if (!parts || !format) {
+		return firstError
+			? { valid: false, format: firstError.format, error: firstError.error }
+			: {
+					valid: false,
+					error: `Expected a date in ${formats
+						.map(describeDateFormat)
+						.join(' or ')} format`,
+			  };
+	}
+
+	const date = toDate(parts);
+	const invalid = (error: string): DateValidationResult => ({
+		valid: false,
+		date,
+		format,
+		error,
+	});
+
+	const after = toBound(options.after, 'after');
+	if (after && date.getTime() <= after.getTime()) {
+		return invalid(`The date must be after ${after.toISOString()}`);
+	}
+	const before = toBound(options.before, 'before');
+	if (before && date.getTime() >= before.getTime()) {
+		return invalid(`The date must be before ${before.toISOString()}`);
+	}
+
+	if (options.minAge !== undefined || options.maxAge !== undefined) {
+		const age = yearsBefore(parts, options.now ?? new Date());
+		if (options.minAge !== undefined && age < options.minAge) {
+			return invalid(`The date must be at least ${options.minAge} years ago`);
+		}
+		if (options.maxAge !== undefined && age > options.maxAge) {
+			return invalid(`The date must be at most ${options.maxAge} years ago`);
+		}
+	}
+
+	return { valid: true, date, format };
+}
+
+/**
+ * Parses a date or date-time string in one of the given formats, rejecting dates that
+ * don't exist. Values without a UTC offset are read as UTC.
+ * @param input - The value to parse.
+ * @param format - The accepted format or formats. Defaults to `iso8601`.
+ * @returns The instant, or `null` if the value isn't a valid date in any format.
+ *
+ * @example
+ * ```typescript
+ * parseDate('2024-W01-1')?.toISOString(); // '2024-01-01T00:00:00.000Z'
+ * parseDate('Tue, 1 Nov 2022 08:00:00 +0100', 'rfc2822')?.toISOString();
+ * // '2022-11-01T07:00:00.000Z'
+ * ```
+ */
+export function parseDate(
+	input: string,
+	format: DateFormat | DateFormat[] = 'iso8601'
+): Date | null {
+	const result = validateDate(input, { format });
+	return result.valid && result.date ? result.date : null;
+}
+
+/**
+ * Returns the unanchored pattern source for a date format. The pattern only checks the
+ * shape; use `validateDate` for calendar checks.
+ * @param format - A named format or template.
+ * @returns The pattern source.
+ * @throws {Error} If a template has no date/time token.
+ */
+export function dateFormatSource(format: DateFormat): string {
+	return getMatcher(format).source;
+}
+
+/**
+ * Names a format for messages: `ISO 8601`, `RFC 3339`, `RFC 2822` or the template.
+ * @param format - A named format or template.
+ * @returns The display name.
+ */
+export function describeDateFormat(format: DateFormat): string {
+	switch (format) {
+		case 'iso8601':
+			return 'ISO 8601';
+		case 'rfc3339':
+			return 'RFC 3339';
+		case 'rfc2822':
+			return 'RFC 2822';
+		default:
+			return format;
+	}
+}
+
+/** @internal */
+function getMatcher(format: DateFormat): DateMatcher {
+	const named = Object.prototype.hasOwnProperty.call(NAMED_FORMATS, format)
+		? NAMED_FORMATS[format]
+		: undefined;
+	if (named) return named;
+
+	let matcher = templateCache.get(format);
+	if (!matcher) {
+		matcher = compileTemplate(format);
+		templateCache.set(format, matcher);
+	}
+	return matcher;
+}
+
+/**
+ * Compiles a template such as `DD/MM/YYYY HH:mm` into a pattern and a reader. Fields
+ * the template leaves out default to 1970-01-01 00:00:00.000 UTC.
+ * @internal
+ */
+function compileTemplate(format: string): DateMatcher {
+	let source = '';
+	const fields: Array<keyof DateParts> = [];
+
+	for (let i = 0; i < format.length; ) {
+		const token = TEMPLATE_TOKENS.find(
+			([text]) => format.slice(i, i + text.length) === text
+		);
+		if (token) {
+			source += token[1];
+			fields.push(token[2]);
+			i += token[0].length;
+		} else {
+			source += escapeRegex(format.charAt(i));
+			i++;
+		}
+	}
+
+	if (fields.length === 0) {
+		throw new Error(
+			`Date format "${format}" has none of the tokens YYYY, MM, M, DD, D, HH, mm, ss or SSS`
+		);
+	}
+
+	return {
+		source,
+		read: (groups) => {
+			const parts: DateParts = {
+				year: 1970,
+				month: 1,
+				day: 1,
+				hour: 0,
+				minute: 0,
+				second: 0,
+				millisecond: 0,
+				offset: 0,
+			};
+			fields.forEach((field, index) => {
+				(parts as unknown as Record<string, number>)[field] = Number(
+					groups[index + 1]
+				);
+			});
+			return parts;
+		},
+	};
+}
+
+/**
+ * Matches a value against a format: `null` if the shape doesn't match, an error message
+ * if a field is out of range, otherwise the fields.
+ * @internal
+ */
+function readDate(
+	value: string,
+	format: DateFormat
+): DateParts | string | null {
+	const matcher = getMatcher(format);
+	const match = new RegExp(`^(?:${matcher.source})$`).exec(value);
+	if (!match) return null;
+	return matcher.read(match);
+}
+
+/**
+ * Checks that the fields form a real date and time. `24:00:00` ends the day only in
+ * ISO 8601; RFC 3339 and the other formats stop at 23:59:60.
+ * @internal
+ */
+function checkParts(parts: DateParts, endOfDay: boolean): string | null {
+	const { year, month, day, hour, minute, second, millisecond } = parts;
+	if (month < 1 || month > 12) return `Month ${month} does not exist`;
+
+	const days = daysInMonth(year, month);
+	if (day < 1 || day > days) {
+		return `${year}-${pad(month)} has ${days} days`;
+	}
+	if (
+		hour > 24 ||
+		(hour === 24 && (!endOfDay || minute > 0 || second > 0 || millisecond > 0))
+	) {
+		return `Hour ${hour} is out of range`;
+	}
+	if (minute > 59) return `Minute ${minute} is out of range`;
+	// 60 is a leap second, which can only end a minute
+	if (second > 60 || (second === 60 && minute !== 59)) {
+		return `Second ${second} is out of range`;
+	}
+	if (parts.weekday) {
+		const weekday = DAY_NAMES[new Date(utcTime(year, month, day)).getUTCDay()];
+		if (weekday !== parts.weekday) {
+			return `${year}-${pad(month)}-${pad(day)} is a ${weekday}, not a ${
+				parts.weekday
+			}`;
+		}
+	}
+	return null;
+}
+
+/** @internal */
+function toDate(parts: DateParts): Date {
+	const date = new Date(utcTime(parts.year, parts.month, parts.day));
+	date.setUTCHours(parts.hour, parts.minute, parts.second, parts.millisecond);
+	return new Date(date.getTime() - parts.offset * 60000);
+}
+
+/**
+ * Reads an `after`/`before` option.
+ * @internal
+ */
+function toBound(
+	value: Date | string | undefined,
+	name: string
+): Date | undefined {
+	if (value === undefined) return undefined;
+	const date = typeof value === 'string' ? parseDate(value) : value;
+	if (!date || isNaN(date.getTime())) {
+		throw new Error(
+			`Invalid "${name}" date "${String(
+				value
+			)}": use a Date or ISO 8601, e.g. 2024-01-31`
+		);
+	}
+	return date;
+}
+
+/**
+ * Whole years from the date's calendar day to `now` (in UTC), as in a person's age.
+ * Someone born on 29 February turns a year older on 1 March in common years.
+ * @internal
+ */
+function yearsBefore(parts: DateParts, now: Date): number {
+	const month = now.getUTCMonth() + 1;
+	const day = now.getUTCDate();
+	const years = now.getUTCFullYear() - parts.year;
+	return month < parts.month || (month === parts.month && day < parts.day)
+		? years - 1
+		: years;
+}
+
+/**
+ * Reads `Z`, `+07`, `+07:00` or `-0530` as minutes east of UTC.
+ * @internal
+ */
+function readOffset(zone: string | undefined): number | string {
+	if (!zone || zone === 'Z') return 0;
+	const hours = Number(zone.slice(1, 3));
+	const minutes = zone.length > 3 ? Number(zone.slice(-2)) : 0;
+	if (hours > 23 || minutes > 59) return `UTC offset ${zone} is out of range`;
+	return (zone.charAt(0) === '-' ? -1 : 1) * (hours * 60 + minutes);
+}
+
+/** @internal */
+function pad(value: number): string {
+	return value < 10 ? `0${value}` : String(value);
+}
+
+/** @internal */
+function readFraction(fraction: string | undefined): number {
+	return fraction ? Number(`${fraction}00`.slice(0, 3)) : 0;
+}
+
+/** @internal */
+function isLeapYear(year: number): boolean {
+	return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+/** @internal */
+function daysInMonth(year: number, month: number): number {
+	if (month === 2) return isLeapYear(year) ? 29 : 28;
+	return month === 4 || month === 6 || month === 9 || month === 11 ? 30 : 31;
+}
+
+/**
+ * Milliseconds since the epoch of a UTC calendar day, including years 0-99 that
+ * `Date.UTC` would map to the 1900s.
+ * @internal
+ */
+function utcTime(year: number, month: number, day: number): number {
+	const date = new Date(0);
+	date.setUTCFullYear(year, month - 1, day);
+	return date.getTime();
+}
+
+/**
+ * A year has 53 ISO weeks if it starts on a Thursday, or is a leap year starting on a
+ * Wednesday.
+ * @internal
+ */
+function isoWeeksInYear(year: number): number {
+	const weekday = (y: number) =>
+		(y + Math.floor(y / 4) - Math.floor(y / 100) + Math.floor(y / 400)) % 7;
+	return weekday(year) === 4 || weekday(year - 1) === 3 ? 53 : 52;
+}
+
+/**
+ * The calendar day of an ISO week date. Week 1 is the week with the year's first
+ * Thursday, so it can start in December of the previous year.
+ * @internal
+ */
+function isoWeekDate(year: number, week: number, weekday: number): Date {
+	const january4 = utcTime(year, 1, 4);
+	const mondayOffset = (new Date(january4).getUTCDay() + 6) % 7;
+	return new Date(
+		january4 + ((week - 1) * 7 + weekday - 1 - mondayOffset) * DAY_MS
+	);
+}
@@ -0,0 +1,244 @@
+/**
+ * @fileoverview Entity Extraction - Finds emails, phone numbers, IBANs and other known values in free text
+ * @module Utilities
+ * @category Utilities
+ * @group Entity Extraction
+ * @author duongnguyen321 - https://duonguyen.site
+ */
+
+import type {
+	EntityExtractionOptions,
+	EntityType,
+	ExtractedEntity,
+} from '../../types/index.js';
+import { REGEX_PATTERNS } from '../constants/patterns.js';
+import { isValidIban, isValidIsbn, luhnCheck } from './checksums.js';
+import { validateDate } from './dates.js';
+import { isValidEuVat, isValidSsn } from './nationalIds.js';
+import { parsePhone } from './phone.js';
+
+interface EntityDefinition {
+	source: string; // unanchored candidate pattern
+	before?: string; // what must not precede a candidate, `\w` by default
+	after?: string; // what must not follow a candidate, `\w` by default
+	shape?: string; // anchored pattern the candidate must match once separators are removed
+	check?: (value: string, options: EntityExtractionOptions) => boolean;
+}
+
+/** Entity definitions, in their default order of priority. */
+const ENTITY_DEFINITIONS: Record<EntityType, EntityDefinition> = {
+	email: { source: unanchored(REGEX_PATTERNS.EMAIL) },
+	url: { source: unanchored(REGEX_PATTERNS.URL) },
+	iban: {
+		// Printed IBANs are split into blocks of four
+		source: '[A-Z]{2}\\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?',
+		shape: REGEX_PATTERNS.IBAN,
+		check: isValidIban,
+	},
+	creditCard: {
+		source: '\\d(?:[ -]?\\d){12,18}',
+		shape: REGEX_PATTERNS.CREDIT_CARD,
+		check: luhnCheck,
+	},
+	isoDateTime: {
+		source: unanchored(REGEX_PATTERNS.ISO_DATETIME),
+		check: (value) => validateDate(value).valid,
+	},
+	date: {
+		source: unanchored(REGEX_PATTERNS.DATE),
+		check: (value) => validateDate(value).valid,
+	},
+	uuid: { source: unanchored(REGEX_PATTERNS.UUID) },
+	ipv4: {
+		source: unanchored(REGEX_PATTERNS.IPV4),
+		before: '[\\w.]',
+		after: '\\w|\\.\\d',
+	},
+	ipv6: {
+		source: unanchored(REGEX_PATTERNS.IPV6),
+		before: '[\\w:]',
+		after: '[\\w:]',
+	},
+	macAddress: {
+		source: unanchored(REGEX_PATTERNS.MAC_ADDRESS),
+		before: '[\\w:-]',
+		after: '[\\w:-]',
+	},
+	ethereumAddress: { source: unanchored(REGEX_PATTERNS.ETHEREUM_ADDRESS) },
+	euVat: {
+		source: unanchored(REGEX_PATTERNS.EU_VAT),
+		check: (value) => isValidEuVat(value),
+	},
+	ssn: { source: unanchored(REGEX_PATTERNS.SSN), check: isValidSsn },
+	phone: {
+		source: '(?:\\+|\\(?0)\\d[\\d ().-]{5,18}\\d',
+		shape: '^(?:\\+[1-9]\\d{6,14}|0\\d{6,14})$',
+		check: (value, options) =>
+			parsePhone(value, { defaultCountry: options.defaultCountry }).valid,
+	},
+	isbn: {
+		source: '97[89](?:-?\\d){10}|\\d(?:-?\\d){8}-?[\\dX]',
+		shape: REGEX_PATTERNS.ISBN,
+		check: isValidIsbn,
+	},
+};
+
+/**
+ * Finds every occurrence of known entities in a document, such as the emails, phone
+ * numbers and IBANs in a support ticket. Candidates are found with the unanchored forms
+ * of `REGEX_PATTERNS`, loosened to accept the spaces and hyphens people print card
+ * numbers, IBANs and phone numbers with.
+ *
+ * When candidates overlap, the type listed first in `types` wins, then the longer
+ * candidate, so the IPv4 address inside a URL is reported as part of the URL. With
+ * `validate`, candidates failing their checksum (Luhn, IBAN mod 97, ISBN, SSN and VAT
+ * rules), calendar or numbering-plan check are dropped before overlaps are resolved.
+ *
+ * @param text - The document to scan.
+ * @param options - `types` to look for in order of priority (all by default),
+ * `validate` to run checksum validators, and `defaultCountry` for national phone numbers.
+ * @returns The entities in document order, with `start` and `end` offsets into `text`.
+ * @throws {Error} If `types` contains an unknown entity type.
+ *
+ * @example
+ * ```typescript
+ * extractEntities('Mail ops@example.com or call +84 912 345 678.');
+ * // [
+ * //   { type: 'email', value: 'ops@example.com', start: 5, end: 20 },
+ * //   { type: 'phone', value: '+84 912 345 678', start: 29, end: 44 }
+ * // ]
+ * extractEntities('Card 4111 1111 1111 1112', { types: ['creditCard'], validate: true });
+ * // [] - fails the Luhn check
+ * ```
+ */
+export function extractEntities(
+	text: string,
+	options: EntityExtractionOptions = {}
+): ExtractedEntity[] {
+	const types =
+		options.types ?? (Object.keys(ENTITY_DEFINITIONS) as EntityType[]);
+	const candidates: Array<ExtractedEntity & { priority: number }> = [];
+
+	types.forEach((type, priority) => {
+		const definition = Object.prototype.hasOwnProperty.call(
+			ENTITY_DEFINITIONS,
+			type
+		)
+			? ENTITY_DEFINITIONS[type]
+			: undefined;
+		if (!definition) throw new Error(`Unknown entity type "${type}"`);
+
+		const finder = new RegExp(
+			`(?<!${definition.before ?? '\\w'})(?:${definition.source})(?!${
+				definition.after ?? '\\w'
+			})`,
+			'g'
+		);
+		let match: RegExpExecArray | null;
+		while ((match = finder.exec(text)) !== null) {
+			const entity = trimEntity(type, match[0], match.index);
+			if (entity && acceptsEntity(definition, entity.value, options)) {
+				candidates.push({ ...entity, priority });
+			}
+		}
+	});
+
+	// Kept entities don't overlap and stay in document order, so only the first one
+	// ending after a candidate's start can overlap it
+	const kept: ExtractedEntity[] = [];
+	candidates
+		.sort(
+			(a, b) =>
+				a.priority - b.priority ||
+				b.end - b.start - (a.end - a.start) ||
+				a.start - b.start
+		)
+		.forEach((candidate) => {
+			const index = firstEndingAfter(kept, candidate.start);
+			const next = kept[index];
+			if (!next || next.start >= candidate.end) {
+				kept.splice(index, 0, candidate);
+			}
+		});
+
+	return kept.map(({ type, value, start, end }) => ({
+		type,
+		value,
+		start,
+		end,
+	}));
+}
+
+/**
+ * Finds the first of a list of non-overlapping entities, in document order, that ends
+ * after an offset, by binary search.
+ * @internal
+ */
+function firstEndingAfter(entities: ExtractedEntity[], offset: number): number {
+	let low = 0;
+	let high = entities.length;
+	while (low < high) {
+		const middle = (low + high) >> 1;
+		if ((entities[middle]?.end ?? 0) > offset) high = middle;
+		else low = middle + 1;
+	}
+	return low;
+}
+
+/**
+ * Strips the anchors from a `REGEX_PATTERNS` entry so it can match inside text.
+ * @internal
+ */
+function unanchored(pattern: string): string {
+	return pattern.replace(/^\^/, '').replace(/\$$/, '');
+}
+
+/**
+ * Drops punctuation that a pattern accepts but that usually belongs to the sentence:
+ * quotes before an email, and trailing full stops, commas and unbalanced parentheses
+ * after a URL.
+ * @internal
+ */
+function trimEntity(
+	type: EntityType,
+	value: string,
+	start: number
+): ExtractedEntity | null {
+	let trimmed = value;
+	let offset = start;
+	if (type === 'email') {
+		const quotes = trimmed.match(/^['`]+/)?.[0].length ?? 0;
+		trimmed = trimmed.slice(quotes);
+		offset += quotes;
+	} else if (type === 'url') {
+		for (;;) {
+			const shorter = trimmed.replace(/[.,;:!?'"]+$/, '');
+			const unbalanced =
+				/\)$/.test(shorter) &&
+				(shorter.match(/\)/g) ?? []).length >
+					(shorter.match(/\(/g) ?? []).length;
+			const next = unbalanced ? shorter.slice(0, -1) : shorter;
+			if (next === trimmed) break;
+			trimmed = next;
+		}
+	}
+	if (!trimmed) return null;
+	return { type, value: trimmed, start: offset, end: offset + trimmed.length };
+}
+
+/** @internal */
+function acceptsEntity(
+	definition: EntityDefinition,
+	value: string,
+	options: EntityExtractionOptions
+): boolean {
+	if (
+		definition.shape &&
+		!new RegExp(definition.shape).test(value.replace(/[\s().-]/g, ''))
+	) {
+		return false;
+	}
+	return (
+		!options.validate || !definition.check || definition.check(value, options)
+	);
+}
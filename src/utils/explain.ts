@@ -0,0 +1,634 @@
+/**
+ * @fileoverview Regex Explanation - Converts regex patterns into human-readable descriptions
+ * @module Utilities
+ * @category Utilities
+ * @group Regex Explanation
+ * @author duongnguyen321 - https://duonguyen.site
+ */
+
+import type {
+	CharacterClassItem,
+	CharacterClassNode,
+	RegexExplanation,
+	RegexExplanationNode,
+	RegexNode,
+	SequenceNode,
+	UnicodePropertyNode,
+} from '../../types/index.js';
+import { REGEX_PATTERNS, REGEX_PATTERN_NAMES } from '../constants/patterns.js';
+import { childNodes, serializeNode, toSingleNode } from '../core/ast.js';
+import { parseRegex } from '../core/parser.js';
+
+type PatternName = keyof typeof REGEX_PATTERNS;
+
+/** Sub-expressions shorter than this are not matched against built-in patterns. */
+const MIN_RECOGNIZED_LENGTH = 10;
+
+const CHARACTER_NAMES: Record<string, string> = {
+	' ': 'a space',
+	'\n': 'a newline',
+	'\r': 'a carriage return',
+	'\t': 'a tab',
+	'\v': 'a vertical tab',
+	'\f': 'a form feed',
+	'\0': 'a null character',
+};
+
+const UNICODE_PROPERTY_NAMES: Record<string, string> = {
+	L: 'a letter',
+	Letter: 'a letter',
+	Lu: 'an uppercase letter',
+	Uppercase_Letter: 'an uppercase letter',
+	Ll: 'a lowercase letter',
+	Lowercase_Letter: 'a lowercase letter',
+	N: 'a number character',
+	Number: 'a number character',
+	Nd: 'a decimal digit',
+	Decimal_Number: 'a decimal digit',
+	P: 'a punctuation character',
+	Punctuation: 'a punctuation character',
+	S: 'a symbol',
+	Symbol: 'a symbol',
+	Z: 'a separator',
+	Separator: 'a separator',
+	Emoji: 'an emoji',
+	Alphabetic: 'an alphabetic character',
+	White_Space: 'a whitespace character',
+};
+
+const FLAG_NAMES: Record<string, string> = {
+	d: 'with match indices',
+	g: 'global',
+	i: 'case-insensitive',
+	m: 'multiline',
+	s: 'dot matches line breaks',
+	u: 'Unicode',
+	v: 'Unicode sets',
+	y: 'sticky',
+};
+
+/**
+ * Normalized sources of the built-in patterns, computed on first use.
+ * @internal
+ */
+let knownPatterns: {
+	full: Map<string, PatternName[]>;
+	body: Map<string, PatternName[]>;
+} | null = null;
+
+/**
+ * Shared state for one explanation.
+ * @internal
+ */
+interface ExplainContext {
+	pattern: string;
+	flags: string;
+}
+
+/**
+ * Explains a regular expression in plain English. The pattern is parsed into a tree
+ * where every token gets a description, and a one-paragraph summary is produced for
+ * the whole pattern. Built-in `REGEX_PATTERNS` entries are recognized by name, both
+ * as the whole pattern and as sub-expressions.
+ *
+ * @param pattern - The regex pattern string or `RegExp` to explain.
+ * @param flags - The flags of the pattern. Defaults to the flags of a `RegExp` source.
+ * @returns The summary, the per-token explanation tree and any recognized pattern names.
+ * @throws {SyntaxError} If the pattern is not a valid regular expression.
+ *
+ * @example
+ * ```typescript
+ * explainRegex(REGEX_PATTERNS.IPV4).summary;
+ * // 'Matches an entire input consisting of an IPv4 address.'
+ *
+ * explainRegex(/^\d{3}-\d{4}$/).tree.children[1]?.description;
+ * // 'a digit, exactly 3 times'
+ * ```
+ */
+export function explainRegex(
+	pattern: string | RegExp,
+	flags?: string
+): RegexExplanation {
+	const source = typeof pattern === 'string' ? pattern : pattern.source;
+	const flagString =
+		flags ?? (typeof pattern === 'string' ? '' : pattern.flags);
+	const root = parseRegex(source, flagString);
+	const context: ExplainContext = { pattern: source, flags: flagString };
+
+	const patternNames = recognizePattern(root);
+
+	return {
+		pattern: source,
+		flags: flagString,
+		summary: summarize(root, patternNames, context),
+		patternNames,
+		tree: explainNode(root, context),
+	};
+}
+
+/**
+ * Describes a single syntax tree node as a short English phrase, as used in the
+ * explanation tree, e.g. "a digit, exactly 4 times".
+ * @param node - The node to describe.
+ * @param flags - The flags the node is matched with.
+ * @returns The description.
+ */
+export function describeRegexNode(node: RegexNode, flags: string = ''): string {
+	return describe(node, { pattern: serializeNode(node), flags });
+}
+
+/**
+ * Builds the explanation tree for a node and its children.
+ * @internal
+ */
+function explainNode(
+	node: RegexNode,
+	context: ExplainContext
+): RegexExplanationNode {
+	const patternNames = recognizeSubexpression(node);
+
+	return {
+		type: node.type,
+		source: node.span
+			? context.pattern.slice(node.span.start, node.span.end)
+			: serializeNode(node),
+		...(node.span && { span: node.span }),
+		description: describe(node, context),
+		...(patternNames.length > 0 && { patternNames }),
+		children: childNodes(node).map((child) => explainNode(child, context)),
+	};
+}
+
+/**
+ * Writes the one-paragraph summary: what the pattern matches, where, what it
+ * captures and which flags apply.
+ * @internal
+ */
+function summarize(
+	root: SequenceNode,
+	patternNames: PatternName[],
+	context: ExplainContext
+): string {
+	const elements = [...root.elements];
+	const first = elements[0];
+	const last = elements[elements.length - 1];
+	const anchoredStart = first?.type === 'assertion' && first.kind === 'start';
+	const anchoredEnd =
+		elements.length > (anchoredStart ? 1 : 0) &&
+		last?.type === 'assertion' &&
+		last.kind === 'end';
+	if (anchoredStart) elements.shift();
+	if (anchoredEnd) elements.pop();
+
+	const subject =
+		patternNames.length > 0
+			? namesPhrase(patternNames)
+			: elements.length > 0
+			? describe(toSingleNode(elements), context)
+			: 'an empty string';
+
+	const sentences = [
+		anchoredStart && anchoredEnd
+			? `Matches an entire input consisting of ${subject}.`
+			: anchoredStart
+			? `Matches ${subject} at the start of the input.`
+			: anchoredEnd
+			? `Matches ${subject} at the end of the input.`
+			: `Matches ${subject} anywhere in the input.`,
+	];
+
+	const captures = collectCaptures(root);
+	if (captures.length > 0) {
+		sentences.push(`Captures ${joinList(captures, 'and')}.`);
+	}
+
+	const flagNames = Array.from(context.flags)
+		.map((flag) => FLAG_NAMES[flag])
+		.filter(Boolean);
+	if (flagNames.length > 0) {
+		sentences.push(`Flags: ${flagNames.join(', ')}.`);
+	}
+
+	return sentences.join(' ');
+}
+
+/**
+ * Describes a node as a noun phrase, e.g. "a digit, exactly 4 times".
+ * @internal
+ */
+function describe(node: RegexNode, context: ExplainContext): string {
+	const patternNames = recognizeSubexpression(node);
+	if (patternNames.length > 0) return namesPhrase(patternNames);
+
+	switch (node.type) {
+		case 'literal': {
+			const chars = Array.from(node.value);
+			return chars.length === 1
+				? describeCharacter(chars[0]!)
+				: `the text "${printable(node.value)}"`;
+		}
+
+		case 'raw':
+			return `the pattern ${node.source}`;
+
+		case 'sequence':
+			return node.elements.length === 0
+				? 'nothing'
+				: describeElements(node.elements, context);
+
+		case 'alternation': {
+			const alternatives = node.alternatives.map((alternative) =>
+				alternative.type === 'sequence' && alternative.elements.length === 0
+					? 'nothing'
+					: isCompound(alternative)
+					? `(${describe(alternative, context)})`
+					: describe(alternative, context)
+			);
+			return `either ${alternatives.join(' or ')}`;
+		}
+
+		case 'group': {
+			const inner = describe(node.body, context);
+			if (node.kind === 'named') return `group "${node.name}" (${inner})`;
+			if (node.kind === 'capturing') return `group #${node.index} (${inner})`;
+			if (node.modifiers) {
+				const { enable, disable } = node.modifiers;
+				return `(${inner}) with flags ${enable}${disable ? `-${disable}` : ''}`;
+			}
+			return isCompound(node.body) ? `(${inner})` : inner;
+		}
+
+		case 'quantifier': {
+			const body = describe(node.body, context);
+			const lazy = node.lazy ? ' (as few as possible)' : '';
+			const { min, max } = node;
+
+			if (min === 0 && max === 1) return `optionally ${body}${lazy}`;
+
+			const times =
+				min === max
+					? `exactly ${min} ${min === 1 ? 'time' : 'times'}`
+					: max === Infinity
+					? min === 0
+						? 'zero or more times'
+						: min === 1
+						? 'one or more times'
+						: `at least ${min} times`
+					: `between ${min} and ${max} times`;
+			return `${body}, ${times}${lazy}`;
+		}
+
+		case 'class':
+			return describeClass(node, context);
+
+		case 'characterType':
+			switch (node.kind) {
+				case 'digit':
+					return node.negate ? 'a non-digit character' : 'a digit';
+				case 'word':
+					return node.negate
+						? 'a non-word character'
+						: 'a word character (letter, digit or underscore)';
+				case 'whitespace':
+					return node.negate
+						? 'a non-whitespace character'
+						: 'a whitespace character';
+				case 'any':
+					return context.flags.includes('s')
+						? 'any character'
+						: 'any character except a line break';
+			}
+
+		case 'unicodeProperty':
+			return describeUnicodeProperty(node);
+
+		case 'backreference':
+			return typeof node.ref === 'number'
+				? `the same text as group #${node.ref}`
+				: `the same text as group "${node.ref}"`;
+
+		case 'assertion':
+			switch (node.kind) {
+				case 'start':
+					return context.flags.includes('m')
+						? 'the start of a line'
+						: 'the start of the input';
+				case 'end':
+					return context.flags.includes('m')
+						? 'the end of a line'
+						: 'the end of the input';
+				case 'wordBoundary':
+					return 'a word boundary';
+				case 'nonWordBoundary':
+					return 'a position that is not a word boundary';
+				case 'lookahead': {
+					const contained = describeContains(node.body, context);
+					if (contained) {
+						return node.negative
+							? `a check that the rest does not contain ${contained}`
+							: `a check that the rest contains ${contained}`;
+					}
+					const body = node.body ? describe(node.body, context) : 'nothing';
+					return node.negative
+						? `a check that what follows is not (${body})`
+						: `a check that what follows is (${body})`;
+				}
+				case 'lookbehind': {
+					const body = node.body ? describe(node.body, context) : 'nothing';
+					return node.negative
+						? `a check that what precedes is not (${body})`
+						: `a check that what precedes is (${body})`;
+				}
+			}
+	}
+}
+
+/**
+ * Describes the elements of a sequence in order, naming any run of elements that
+ * is equivalent to a built-in pattern.
+ * @internal
+ */
+function describeElements(
+	elements: RegexNode[],
+	context: ExplainContext
+): string {
+	const { body } = getKnownPatterns();
+	const parts: string[] = [];
+
+	for (let i = 0; i < elements.length; i++) {
+		let end = -1;
+		for (let j = elements.length; j > i + 1; j--) {
+			if (body.has(serializeNode(toSingleNode(elements.slice(i, j))))) {
+				end = j;
+				break;
+			}
+		}
+
+		if (end === -1) {
+			parts.push(describe(elements[i]!, context));
+		} else {
+			parts.push(
+				namesPhrase(
+					body.get(serializeNode(toSingleNode(elements.slice(i, end))))!
+				)
+			);
+			i = end - 1;
+		}
+	}
+
+	return parts.join(', followed by ');
+}
+
+/**
+ * Describes the `.*X` body of a "contains" lookahead as X, or returns null.
+ * @internal
+ */
+function describeContains(
+	body: RegexNode | undefined,
+	context: ExplainContext
+): string | null {
+	if (body?.type !== 'sequence' || body.elements.length < 2) return null;
+
+	const [prefix, ...rest] = body.elements;
+	if (
+		prefix?.type !== 'quantifier' ||
+		prefix.min !== 0 ||
+		prefix.max !== Infinity ||
+		prefix.body.type !== 'characterType' ||
+		prefix.body.kind !== 'any'
+	) {
+		return null;
+	}
+
+	return describe(toSingleNode(rest), context);
+}
+
+/**
+ * Describes a character class, listing its members.
+ * @internal
+ */
+function describeClass(
+	node: CharacterClassNode,
+	context: ExplainContext
+): string {
+	const members = node.items.map((item) => describeClassItem(item, context));
+
+	if (node.operation === 'intersection') {
+		return `a character that is ${joinList(members, 'and')} at once`;
+	}
+	if (node.operation === 'subtraction') {
+		const [base, ...excluded] = members;
+		return `${base} but not ${joinList(excluded, 'or')}`;
+	}
+
+	if (node.negate) return `any character except ${joinList(members, 'or')}`;
+	if (members.length === 1) {
+		return node.items[0]?.type === 'range'
+			? `a character from ${members[0]}`
+			: members[0]!;
+	}
+	return `one character from ${joinList(members, 'or')}`;
+}
+
+/**
+ * Describes a single character class member.
+ * @internal
+ */
+function describeClassItem(
+	item: CharacterClassItem,
+	context: ExplainContext
+): string {
+	switch (item.type) {
+		case 'char':
+			return describeCharacter(item.value);
+		case 'range':
+			return `"${printable(item.from)}" to "${printable(item.to)}"`;
+		case 'classStrings':
+			return joinList(
+				item.strings.map((string) => `"${printable(string)}"`),
+				'or'
+			);
+		case 'characterType':
+		case 'unicodeProperty':
+		case 'class':
+			return describe(item, context);
+	}
+}
+
+/**
+ * Describes a `\p{...}` escape.
+ * @internal
+ */
+function describeUnicodeProperty(node: UnicodePropertyNode): string {
+	const { name, value } = node;
+	let phrase: string;
+
+	if (value && ['Script', 'sc', 'Script_Extensions', 'scx'].includes(name)) {
+		phrase = `a ${value.replace(/_/g, ' ')} script character`;
+	} else {
+		const key =
+			value && ['General_Category', 'gc'].includes(name) ? value : name;
+		phrase =
+			UNICODE_PROPERTY_NAMES[key] ??
+			`a character with the Unicode property ${name}${
+				value ? `=${value}` : ''
+			}`;
+	}
+
+	return node.negate ? `any character except ${phrase}` : phrase;
+}
+
+/**
+ * Describes one character, naming whitespace and control characters.
+ * @internal
+ */
+function describeCharacter(char: string): string {
+	return CHARACTER_NAMES[char] ?? `"${printable(char)}"`;
+}
+
+/**
+ * Lists the capture groups of a pattern in order, e.g. `group "year" (#1)`.
+ * @internal
+ */
+function collectCaptures(node: RegexNode): string[] {
+	const captures: string[] = [];
+	if (node.type === 'group' && node.kind === 'named') {
+		captures.push(`group "${node.name}" (#${node.index})`);
+	} else if (node.type === 'group' && node.kind === 'capturing') {
+		captures.push(`group #${node.index}`);
+	}
+	for (const child of childNodes(node)) {
+		captures.push(...collectCaptures(child));
+	}
+	return captures;
+}
+
+/**
+ * Finds the built-in patterns a whole pattern is equivalent to, with or without its anchors.
+ * @internal
+ */
+function recognizePattern(root: SequenceNode): PatternName[] {
+	const { full, body } = getKnownPatterns();
+	return (
+		full.get(serializeNode(root)) ??
+		body.get(serializeNode(stripAnchors(root))) ??
+		[]
+	);
+}
+
+/**
+ * Finds the built-in patterns a compound sub-expression is equivalent to.
+ * @internal
+ */
+function recognizeSubexpression(node: RegexNode): PatternName[] {
+	if (!isCompound(node) && node.type !== 'group') return [];
+
+	const { body } = getKnownPatterns();
+	const candidates = [serializeNode(node)];
+	if (node.type === 'group') candidates.push(serializeNode(node.body));
+
+	for (const candidate of candidates) {
+		const names = body.get(candidate);
+		if (names) return names;
+	}
+	return [];
+}
+
+/**
+ * Parses every `REGEX_PATTERNS` entry once so lookups compare normalized sources.
+ * @internal
+ */
+function getKnownPatterns(): NonNullable<typeof knownPatterns> {
+	if (knownPatterns) return knownPatterns;
+
+	const full = new Map<string, PatternName[]>();
+	const body = new Map<string, PatternName[]>();
+	const add = (
+		map: Map<string, PatternName[]>,
+		key: string,
+		name: PatternName
+	) => map.set(key, [...(map.get(key) ?? []), name]);
+
+	for (const name of Object.keys(REGEX_PATTERNS) as PatternName[]) {
+		const root = parseRegex(REGEX_PATTERNS[name]);
+		add(full, serializeNode(root), name);
+
+		const stripped = serializeNode(stripAnchors(root));
+		if (stripped.length >= MIN_RECOGNIZED_LENGTH) add(body, stripped, name);
+	}
+
+	knownPatterns = { full, body };
+	return knownPatterns;
+}
+
+/**
+ * Removes a leading `^` and trailing `$` from a pattern.
+ * @internal
+ */
+function stripAnchors(root: SequenceNode): RegexNode {
+	const elements = root.elements.filter(
+		(element, index) =>
+			!(
+				element.type === 'assertion' &&
+				((element.kind === 'start' && index === 0) ||
+					(element.kind === 'end' && index === root.elements.length - 1))
+			)
+	);
+	return toSingleNode(elements);
+}
+
+/**
+ * Checks whether a node is made of several parts, so its description needs grouping.
+ * @internal
+ */
+function isCompound(node: RegexNode): boolean {
+	return (
+		(node.type === 'sequence' && node.elements.length > 1) ||
+		node.type === 'alternation' ||
+		node.type === 'quantifier'
+	);
+}
+
+/** @internal */
+function namesPhrase(names: PatternName[]): string {
+	return joinList(
+		names.map((name) => REGEX_PATTERN_NAMES[name]),
+		'or'
+	);
+}
+
+/** @internal */
+function joinList(items: string[], conjunction: 'and' | 'or'): string {
+	if (items.length <= 1) return items[0] ?? '';
+	return `${items.slice(0, -1).join(', ')} ${conjunction} ${
+		items[items.length - 1]
+	}`;
+}
+
+/** @internal */
+function printable(value: string): string {
+	return JSON.stringify(value).slice(1, -1);
+}
+
+/**
+ * Explains a regular expression in plain English, the inverse of `textToRegex`.
+ * Alias of `explainRegex`.
+ *
+ * @example
+ * ```typescript
+ * regexToText('^\\d{5}(-\\d{4})?$').summary;
+ * // 'Matches an entire input consisting of a US ZIP code.'
+ * ```
+ */
+export const regexToText = explainRegex;
+
+/**
+ * Explains a regular expression in plain English, the inverse of `t2r`.
+ * Alias of `explainRegex`.
+ *
+ * @example
+ * ```typescript
+ * const { summary, tree } = r2t(/^[a-z]+@example\.com$/i);
+ * ```
+ */
+export const r2t = explainRegex; // regex to text
@@ -5,12 +5,19 @@
 
 import type { TextExtractionResult } from '../../types/index.js';
 import { calculateConfidence } from './helpers.js';
+import { luhnCheck } from './checksums.js';
+import {
+	findPostalCountry,
+	getPostalFormat,
+	isValidPostalCode,
+	postalCodeSource,
+} from './postal.js';
 
 /**
  * Parses text for common financial and government ID-related patterns.
  *
  * This function identifies patterns for Visa credit cards, Social Security Numbers (SSN),
- * and US ZIP codes. It returns a structured result with the corresponding regex pattern,
+ * the postal codes of a named country and US ZIP codes. It returns a structured result with the corresponding regex pattern,
  * a confidence score, and a description.
  *
  * @param textForCapture - The natural language text to be analyzed for patterns.
@@ -34,7 +41,7 @@ export function parseFinancialPatterns(
 
 		if (testValue) {
 			const regex = new RegExp(visaCard);
-			const testPassed = regex.test(testValue);
+			const testPassed = regex.test(testValue) && luhnCheck(testValue);
 			confidence = calculateConfidence(confidence, true, testPassed);
 		}
 
@@ -44,6 +51,7 @@ export function parseFinancialPatterns(
 			confidence,
 			description: 'Visa credit card number',
 			suggestions,
+			validator: luhnCheck,
 		};
 	}
 
@@ -72,6 +80,38 @@ export function parseFinancialPatterns(
 		};
 	}
 
+	// Handle "postal code for japan", "german postcode" or "canadian zip"
+	if (
+		textForCapture.includes('postal') ||
+		textForCapture.includes('postcode') ||
+		textForCapture.includes('post code') ||
+		textForCapture.includes('zip')
+	) {
+		const countryCode = findPostalCountry(textForCapture);
+		if (countryCode) {
+			const format = getPostalFormat(countryCode);
+			const pattern = new RegExp(`^(?:${postalCodeSource(countryCode)})$`, 'i');
+			const validator = (value: string) =>
+				isValidPostalCode(value, countryCode);
+
+			let confidence: number = 0.85;
+
+			if (testValue) {
+				const testPassed = pattern.test(testValue) && validator(testValue);
+				confidence = calculateConfidence(confidence, true, testPassed);
+			}
+
+			return {
+				success: true,
+				pattern,
+				confidence,
+				description: `${format.name} postal code (e.g. ${format.example})`,
+				suggestions,
+				validator,
+			};
+		}
+	}
+
 	// Handle "us zip code" or "postal code"
 	if (
 		(textForCapture.includes('zip') || textForCapture.includes('postal')) &&
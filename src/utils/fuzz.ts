@@ -0,0 +1,327 @@
+/**
+ * @fileoverview Rule Fuzzing - Property-based stress testing of validation rules
+ * @module Utilities
+ * @category Utilities
+ * @group Rule Fuzzing
+ * @author duongnguyen321 - https://duonguyen.site
+ */
+
+import type {
+	FuzzFinding,
+	FuzzOptions,
+	FuzzReport,
+	ValidationRule,
+} from '../../types/index.js';
+import { generateMatching, generateNonMatching } from './generate.js';
+import { analyzeReDoS } from './redos.js';
+import { createSeededRandom } from './helpers.js';
+
+/** Default number of mutated inputs checked per run. */
+const DEFAULT_ITERATIONS = 200;
+
+/** Default time, in milliseconds, a single check may take before it is reported. */
+const DEFAULT_TIME_LIMIT_MS = 50;
+
+/** Longest input produced by length mutations. */
+const MAX_INPUT_LENGTH = 512;
+
+/**
+ * Longest input produced for patterns the ReDoS analyzer already flags as exponential,
+ * so the fuzzer itself doesn't hang. The attack string is reported instead.
+ */
+const MAX_EXPONENTIAL_INPUT_LENGTH = 24;
+
+/**
+ * Look-alike replacements: Cyrillic and Greek letters and fullwidth digits that render
+ * like their ASCII counterparts.
+ * @internal
+ */
+const CONFUSABLES: Record<string, string> = {
+	a: 'а',
+	c: 'с',
+	e: 'е',
+	i: 'і',
+	o: 'о',
+	p: 'р',
+	x: 'х',
+	y: 'у',
+	A: 'Α',
+	B: 'В',
+	E: 'Е',
+	H: 'Н',
+	O: 'О',
+	P: 'Р',
+	'0': '０',
+	'1': '１',
+	'5': '５',
+	'@': '＠',
+	'.': '．',
+	'-': '‐',
+};
+
+/** Whitespace that trimming and `\s` may treat differently. */
+const WHITESPACE = [' ', '\t', '\n', '\u00a0', '\u200b', '\u3000'];
+
+/**
+ * A named input transformation.
+ * @internal
+ */
+interface Mutation {
+	name: string;
+	apply: (value: string, random: () => number) => string;
+}
+
+/**
+ * The mutations applied to samples: boundary lengths, unicode confusables,
+ * whitespace and truncation.
+ * @internal
+ */
+const MUTATIONS: Mutation[] = [
+	{ name: 'empty', apply: () => '' },
+	{
+		name: 'whitespace-only',
+		apply: (_value, random) =>
+			pick(WHITESPACE, random).repeat(1 + Math.floor(random() * 3)),
+	},
+	{
+		name: 'leading-whitespace',
+		apply: (value, random) => pick(WHITESPACE, random) + value,
+	},
+	{
+		name: 'trailing-whitespace',
+		apply: (value, random) => value + pick(WHITESPACE, random),
+	},
+	{
+		name: 'inner-whitespace',
+		apply: (value, random) => insertAt(value, pick(WHITESPACE, random), random),
+	},
+	{
+		name: 'truncate',
+		apply: (value, random) =>
+			Array.from(value)
+				.slice(0, Math.floor(random() * Array.from(value).length))
+				.join(''),
+	},
+	{
+		name: 'drop-last',
+		apply: (value) => Array.from(value).slice(0, -1).join(''),
+	},
+	{
+		name: 'repeat-last',
+		apply: (value) => value + (Array.from(value).pop() ?? 'a'),
+	},
+	{
+		name: 'long',
+		apply: (value, random) => {
+			const unit = value || 'a';
+			return unit.repeat(
+				Math.ceil((64 + random() * MAX_INPUT_LENGTH) / unit.length)
+			);
+		},
+	},
+	{
+		name: 'confusable',
+		apply: (value, random) => {
+			const chars = Array.from(value);
+			const positions = chars
+				.map((char, index) => (CONFUSABLES[char] ? index : -1))
+				.filter((index) => index >= 0);
+			if (positions.length === 0) return value + 'а';
+			const at = pick(positions, random);
+			chars[at] = CONFUSABLES[chars[at] ?? ''] ?? '';
+			return chars.join('');
+		},
+	},
+	{
+		name: 'case-flip',
+		apply: (value) =>
+			Array.from(value)
+				.map((char) =>
+					char === char.toLowerCase() ? char.toUpperCase() : char.toLowerCase()
+				)
+				.join(''),
+	},
+];
+
+/**
+ * Fuzzes a validation rule by mutating known-good and known-bad samples and checking
+ * each input against both the rule's `pattern` and its `validator`. Reports inputs where
+ * the two disagree, inputs that take longer than `timeLimitMs`, and inputs that throw.
+ * Samples are generated from the pattern itself and can be extended with `samples`.
+ *
+ * @param rule - The rule to fuzz, e.g. from `VALIDATION_PATTERNS` or a `t2v` result.
+ * @param options - `iterations`, a `seed` for reproducible runs, extra `samples`, and
+ * `timeLimitMs`, the time a single check may take.
+ * @returns A report with the seed used and every distinct finding.
+ */
+export function fuzzRule(
+	rule: ValidationRule,
+	options: FuzzOptions = {}
+): FuzzReport {
+	const seed = options.seed ?? Math.floor(Math.random() * 0x7fffffff);
+	const iterations = options.iterations ?? DEFAULT_ITERATIONS;
+	const timeLimit = options.timeLimitMs ?? DEFAULT_TIME_LIMIT_MS;
+	const random = createSeededRandom(seed);
+	const findings: FuzzFinding[] = [];
+
+	const report = (finding: FuzzFinding) => {
+		const duplicate = findings.some(
+			(other) => other.kind === finding.kind && other.input === finding.input
+		);
+		if (!duplicate) findings.push(finding);
+	};
+
+	let maxLength = MAX_INPUT_LENGTH;
+	const redos = safeAnalyze(rule.pattern);
+	if (redos?.complexity === 'exponential') {
+		maxLength = MAX_EXPONENTIAL_INPUT_LENGTH;
+		for (const issue of redos.issues) {
+			report({
+				kind: 'slow',
+				input: issue.attackString,
+				mutation: 'redos-attack',
+				error: issue.message,
+			});
+		}
+	}
+
+	const samples = collectSamples(rule, seed, options.samples ?? []);
+	for (const sample of samples) {
+		check(rule, sample.slice(0, maxLength), 'sample', timeLimit, report);
+	}
+
+	for (let i = 0; i < iterations; i++) {
+		let input = pick(samples, random);
+		const names: string[] = [];
+		const steps = random() < 0.25 ? 2 : 1;
+		for (let step = 0; step < steps; step++) {
+			const mutation = pick(MUTATIONS, random);
+			input = mutation.apply(input, random);
+			names.push(mutation.name);
+		}
+		check(
+			rule,
+			Array.from(input).slice(0, maxLength).join(''),
+			names.join('+'),
+			timeLimit,
+			report
+		);
+	}
+
+	return {
+		rule: rule.name,
+		iterations,
+		seed,
+		passed: findings.length === 0,
+		findings,
+	};
+}
+
+/**
+ * Runs one input through the rule and reports crashes, slowness and disagreement.
+ * @internal
+ */
+function check(
+	rule: ValidationRule,
+	input: string,
+	mutation: string,
+	timeLimit: number,
+	report: (finding: FuzzFinding) => void
+): void {
+	let patternResult: boolean | undefined;
+	let validatorResult: boolean | undefined;
+	const started = Date.now();
+
+	try {
+		rule.pattern.lastIndex = 0;
+		patternResult = rule.pattern.test(input);
+	} catch (error) {
+		report({
+			kind: 'crash',
+			input,
+			mutation,
+			error: `pattern: ${errorMessage(error)}`,
+		});
+	}
+
+	if (rule.validator) {
+		try {
+			validatorResult = rule.validator(input);
+		} catch (error) {
+			report({
+				kind: 'crash',
+				input,
+				mutation,
+				error: `validator: ${errorMessage(error)}`,
+			});
+		}
+	}
+
+	const durationMs = Date.now() - started;
+	if (durationMs > timeLimit) {
+		report({ kind: 'slow', input, mutation, durationMs });
+	}
+
+	if (
+		patternResult !== undefined &&
+		validatorResult !== undefined &&
+		patternResult !== validatorResult
+	) {
+		report({
+			kind: 'disagreement',
+			input,
+			mutation,
+			patternResult,
+			validatorResult,
+		});
+	}
+}
+
+/**
+ * Gathers the inputs mutations start from: strings generated to match and narrowly
+ * miss the pattern, the caller's samples, and the empty string.
+ * @internal
+ */
+function collectSamples(
+	rule: ValidationRule,
+	seed: number,
+	extra: string[]
+): string[] {
+	const samples = [''].concat(extra);
+	try {
+		samples.push(...generateMatching(rule.pattern, { count: 10, seed }));
+	} catch {
+		// Patterns nothing matches still get fuzzed from their near misses
+	}
+	samples.push(...generateNonMatching(rule.pattern, { count: 10, seed }));
+	return samples.filter((sample, index) => samples.indexOf(sample) === index);
+}
+
+/**
+ * Runs the ReDoS analyzer, tolerating patterns it can't parse.
+ * @internal
+ */
+function safeAnalyze(pattern: RegExp) {
+	try {
+		return analyzeReDoS(pattern);
+	} catch {
+		return null;
+	}
+}
+
+/** @internal */
+function pick<T>(items: T[], random: () => number): T {
+	return items[Math.floor(random() * items.length)] as T;
+}
+
+/** @internal */
+function insertAt(value: string, text: string, random: () => number): string {
+	const chars = Array.from(value);
+	chars.splice(Math.floor(random() * (chars.length + 1)), 0, text);
+	return chars.join('');
+}
+
+/** @internal */
+function errorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,373 @@
+/**
+ * @fileoverview String Generation - Seeded random strings that match (or narrowly miss) a regex
+ * @module Utilities
+ * @category Utilities
+ * @group String Generation
+ * @author duongnguyen321 - https://duonguyen.site
+ */
+
+import type {
+	CharacterClassItem,
+	CharacterClassNode,
+	RegexNode,
+	StringGenerationOptions,
+} from '../../types/index.js';
+import { serializeAtom } from '../core/ast.js';
+import { parseRegex } from '../core/parser.js';
+import { createSeededRandom } from './helpers.js';
+
+/** Default number of strings to generate. */
+const DEFAULT_COUNT = 10;
+
+/** Extra repetitions allowed beyond the minimum of an unbounded quantifier. */
+const DEFAULT_MAX_REPEAT = 5;
+
+/** Generation attempts allowed per requested string before giving up. */
+const ATTEMPTS_PER_VALUE = 200;
+
+/**
+ * Characters drawn from when a class can't be sampled from its own items
+ * (negated classes, `.`, `\w`, Unicode properties, set operations).
+ * @internal
+ */
+const UNIVERSE: string[] = (() => {
+	const chars: string[] = [];
+	for (let code = 0x20; code <= 0x7e; code++) {
+		chars.push(String.fromCharCode(code));
+	}
+	chars.push('\t', '\n', '\r', '\u00a0', 'é', 'ß', 'α', 'Ж', '中', '\u2028');
+	return chars;
+})();
+
+/**
+ * Thrown inside a generation attempt when a construct can't be satisfied, so the
+ * attempt is abandoned and retried with fresh random choices.
+ * @internal
+ */
+class RetryGeneration extends Error {}
+
+/**
+ * Shared state for one generation attempt.
+ * @internal
+ */
+interface GenerationContext {
+	flags: string;
+	maxRepeat: number;
+	random: () => number;
+	captures: Map<number | string, string>;
+	classCache: Map<string, string[]>;
+}
+
+/**
+ * Generates random strings that match a regex. Strings are built by walking the parsed
+ * pattern (choosing alternatives, repetition counts and class members at random) and are
+ * then checked against the real regex as a whole-input match, so constructs that can't be
+ * built directly (lookarounds, word boundaries) are handled by retrying.
+ *
+ * @param pattern - The regex pattern string or `RegExp` to generate strings for.
+ * @param options - `count`, a `seed` for reproducible output, and `maxRepeat`, the extra
+ * repetitions allowed beyond the minimum of an unbounded quantifier.
+ * @returns `count` matching strings; the same seed always yields the same strings.
+ * @throws {SyntaxError} If the pattern is not a valid regular expression.
+ * @throws {Error} If no matching string can be produced (e.g. `/a(?!b)b/`).
+ */
+export function generateMatching(
+	pattern: string | RegExp,
+	options: StringGenerationOptions = {}
+): string[] {
+	const { source, flags } = toSourceAndFlags(pattern);
+	const root = parseRegex(source, flags);
+	const random = createSeededRandom(options.seed);
+	const count = options.count ?? DEFAULT_COUNT;
+	const matches = wholeMatcher(source, flags);
+	const classCache = new Map<string, string[]>();
+	const values: string[] = [];
+
+	for (let i = 0; i < count; i++) {
+		let value: string | null = null;
+		for (
+			let attempt = 0;
+			attempt < ATTEMPTS_PER_VALUE && value === null;
+			attempt++
+		) {
+			const candidate = tryGenerate(root, {
+				flags,
+				maxRepeat: options.maxRepeat ?? DEFAULT_MAX_REPEAT,
+				random,
+				captures: new Map(),
+				classCache,
+			});
+			if (candidate !== null && matches(candidate)) {
+				value = candidate;
+			}
+		}
+		if (value === null) {
+			throw new Error(
+				`Could not generate a string matching /${source}/${flags} after ${ATTEMPTS_PER_VALUE} attempts`
+			);
+		}
+		values.push(value);
+	}
+
+	return values;
+}
+
+/**
+ * Generates near-miss strings that the regex rejects: matching strings with a character
+ * deleted, inserted, replaced or re-cased, truncated, or extended past a length limit.
+ *
+ * @param pattern - The regex pattern string or `RegExp` to generate strings for.
+ * @param options - Same options as `generateMatching`.
+ * @returns Up to `count` distinct strings for which `regex.test()` is false. Fewer are
+ * returned when the pattern accepts nearly everything (e.g. `/.*\/`).
+ * @throws {SyntaxError} If the pattern is not a valid regular expression.
+ */
+export function generateNonMatching(
+	pattern: string | RegExp,
+	options: StringGenerationOptions = {}
+): string[] {
+	const { source, flags } = toSourceAndFlags(pattern);
+	const count = options.count ?? DEFAULT_COUNT;
+	const regex = new RegExp(source, flags.replace(/[gy]/g, ''));
+	const random = createSeededRandom(options.seed);
+	const seeds = generateSeeds(source, flags, options, random);
+	const values: string[] = [];
+
+	if (seeds.length === 0) {
+		seeds.push('');
+	}
+
+	for (
+		let attempt = 0;
+		attempt < count * ATTEMPTS_PER_VALUE && values.length < count;
+		attempt++
+	) {
+		let candidate = seeds[Math.floor(random() * seeds.length)] ?? '';
+		const mutations = 1 + Math.floor(random() * 2);
+		for (let i = 0; i < mutations; i++) {
+			candidate = mutate(candidate, random);
+		}
+		if (!values.includes(candidate) && !regex.test(candidate)) {
+			values.push(candidate);
+		}
+	}
+
+	return values;
+}
+
+/**
+ * Produces the matching strings that near misses are derived from. Patterns nothing
+ * matches get none, and their near misses are mutated from the empty string.
+ * @internal
+ */
+function generateSeeds(
+	source: string,
+	flags: string,
+	options: StringGenerationOptions,
+	random: () => number
+): string[] {
+	try {
+		return generateMatching(new RegExp(source, flags), {
+			count: Math.max(5, Math.min(options.count ?? DEFAULT_COUNT, 20)),
+			seed: Math.floor(random() * 0x7fffffff),
+			maxRepeat: options.maxRepeat,
+		});
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Applies one random near-miss edit to a string.
+ * @internal
+ */
+function mutate(value: string, random: () => number): string {
+	const chars = Array.from(value);
+	const at = Math.floor(random() * (chars.length + 1));
+	const char = UNIVERSE[Math.floor(random() * UNIVERSE.length)] ?? '!';
+
+	switch (Math.floor(random() * 6)) {
+		case 0: // delete
+			chars.splice(Math.min(at, chars.length - 1), 1);
+			break;
+		case 1: // insert
+			chars.splice(at, 0, char);
+			break;
+		case 2: // replace
+			chars.splice(Math.min(at, chars.length - 1), 1, char);
+			break;
+		case 3: // truncate
+			chars.length = Math.floor(random() * chars.length);
+			break;
+		case 4: {
+			// extend past a length limit by repeating a character
+			const repeated = chars[Math.min(at, chars.length - 1)] ?? char;
+			chars.splice(at, 0, repeated, repeated);
+			break;
+		}
+		default: {
+			// flip the case of one letter
+			const index = Math.min(at, chars.length - 1);
+			const current = chars[index] ?? '';
+			const flipped =
+				current === current.toLowerCase()
+					? current.toUpperCase()
+					: current.toLowerCase();
+			chars.splice(index, 1, flipped === current ? char : flipped);
+		}
+	}
+
+	return chars.join('');
+}
+
+/**
+ * Runs one generation attempt, returning `null` when a construct couldn't be satisfied.
+ * @internal
+ */
+function tryGenerate(
+	root: RegexNode,
+	context: GenerationContext
+): string | null {
+	try {
+		return generateNode(root, context);
+	} catch (error) {
+		if (error instanceof RetryGeneration) return null;
+		throw error;
+	}
+}
+
+/**
+ * Generates a random string for a single AST node.
+ * @internal
+ */
+function generateNode(node: RegexNode, context: GenerationContext): string {
+	switch (node.type) {
+		case 'literal':
+			return node.value;
+		case 'raw':
+			return generateNode(parseRegex(node.source, context.flags), context);
+		case 'sequence':
+			return node.elements
+				.map((element) => generateNode(element, context))
+				.join('');
+		case 'alternation': {
+			const choice =
+				node.alternatives[
+					Math.floor(context.random() * node.alternatives.length)
+				];
+			return choice ? generateNode(choice, context) : '';
+		}
+		case 'group': {
+			const value = generateNode(node.body, context);
+			if (node.index !== undefined) context.captures.set(node.index, value);
+			if (node.name !== undefined) context.captures.set(node.name, value);
+			return value;
+		}
+		case 'quantifier': {
+			const max =
+				node.max === Infinity ? node.min + context.maxRepeat : node.max;
+			const times =
+				node.min + Math.floor(context.random() * (max - node.min + 1));
+			let value = '';
+			for (let i = 0; i < times; i++) {
+				value += generateNode(node.body, context);
+			}
+			return value;
+		}
+		case 'backreference':
+			return context.captures.get(node.ref) ?? '';
+		case 'assertion':
+			// Anchors consume nothing; lookarounds and boundaries are enforced by the
+			// whole-input check, which retries attempts that violate them
+			return '';
+		case 'class':
+		case 'characterType':
+		case 'unicodeProperty':
+			return pickCharacter(node, context);
+	}
+}
+
+/**
+ * Picks a random member of a character set. Plain classes are sampled item by item so
+ * that ranges outside the fallback universe (e.g. `[Ѐ-ӿ]`) still work.
+ * @internal
+ */
+function pickCharacter(
+	node: CharacterClassItem,
+	context: GenerationContext
+): string {
+	if (node.type === 'char') return node.value;
+	if (node.type === 'range') {
+		const from = node.from.codePointAt(0) ?? 0;
+		const to = node.to.codePointAt(0) ?? from;
+		return String.fromCodePoint(
+			from + Math.floor(context.random() * (to - from + 1))
+		);
+	}
+	if (node.type === 'classStrings') {
+		return (
+			node.strings[Math.floor(context.random() * node.strings.length)] ?? ''
+		);
+	}
+	if (isPlainClass(node)) {
+		const item = node.items[Math.floor(context.random() * node.items.length)];
+		if (!item) throw new RetryGeneration();
+		return pickCharacter(item, context);
+	}
+
+	const members = classMembers(node, context);
+	const member = members[Math.floor(context.random() * members.length)];
+	if (member === undefined) throw new RetryGeneration();
+	return member;
+}
+
+/**
+ * Whether a class is a simple union that can be sampled from its own items.
+ * @internal
+ */
+function isPlainClass(node: CharacterClassItem): node is CharacterClassNode {
+	return node.type === 'class' && !node.negate && !node.operation;
+}
+
+/**
+ * The fallback-universe characters a set accepts, cached by source.
+ * @internal
+ */
+function classMembers(
+	node: CharacterClassItem,
+	context: GenerationContext
+): string[] {
+	const source = serializeAtom(node as RegexNode);
+	let members = context.classCache.get(source);
+	if (!members) {
+		const test = new RegExp(`^${source}$`, context.flags.replace(/[gmy]/g, ''));
+		members = UNIVERSE.filter((char) => test.test(char));
+		context.classCache.set(source, members);
+	}
+	return members;
+}
+
+/**
+ * Builds a predicate that checks the whole input matches the pattern.
+ * @internal
+ */
+function wholeMatcher(
+	source: string,
+	flags: string
+): (value: string) => boolean {
+	const regex = new RegExp(`^(?:${source})$`, flags.replace(/[gmy]/g, ''));
+	return (value) => regex.test(value);
+}
+
+/**
+ * Splits a pattern argument into its source and flags.
+ * @internal
+ */
+function toSourceAndFlags(pattern: string | RegExp): {
+	source: string;
+	flags: string;
+} {
+	return typeof pattern === 'string'
+		? { source: pattern, flags: '' }
+		: { source: pattern.source, flags: pattern.flags };
+}
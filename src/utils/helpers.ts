@@ -158,6 +158,23 @@ export function generateTestData(type: string): string[] {
 	return testData[type] ?? [];
 }
 
+/**
+ * Creates a seeded pseudo-random generator (mulberry32) returning values in [0, 1).
+ * Without a seed, one is drawn from `Math.random`.
+ * @param seed - The seed; the same seed always yields the same sequence.
+ * @returns A function returning the next pseudo-random number.
+ */
+export function createSeededRandom(seed?: number): () => number {
+	let state = (seed ?? Math.floor(Math.random() * 0x7fffffff)) >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
 /**
  * Checks if a single character is a special regex character.
  * @param char - The character to check.
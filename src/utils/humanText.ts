@@ -4,7 +4,10 @@
  */
 
 import type {
+	RegexCandidate,
+	SampleResult,
 	TextExtractionResult,
+	TextToRegexOptions,
 	ValidationExtractionResult,
 	ValidationRule,
 } from '../../types/index.js';
@@ -22,37 +25,39 @@ import {
 } from './helpers.js';
 import { RGEX_CONFIG } from '../config/index.js';
 
-// Import pattern handlers
-import { parsePositionalPatterns } from './positionalPatterns.js';
-import { parseLengthConstraints } from './lengthConstraints.js';
-import { parseEmailPatterns } from './emailPatterns.js';
-import { parsePhonePatterns } from './phonePatterns.js';
-import { parseSecurityPatterns } from './securityPatterns.js';
-import { parseDateTimePatterns } from './dateTimePatterns.js';
-import { parseUrlPatterns } from './urlPatterns.js';
-import { parseFinancialPatterns } from './financialPatterns.js';
-import { parseTextFormattingPatterns } from './textFormattingPatterns.js';
-import { parseCombinedPatterns } from './combinedPatterns.js';
+import { getRegisteredParsers } from './parserRegistry.js';
+import { patternRegistry } from './patternRegistry.js';
+import { PasswordPolicy, parsePasswordPolicy } from './passwordPolicy.js';
 
 /**
  * Parses a human-readable string to generate a regular expression.
  * It first attempts to find complex, compound patterns, then looks for direct keyword matches,
  * and finally falls back to constructing a pattern from individual text components.
  *
+ * When sample sets are passed instead of a single test value, every parser stage contributes
+ * candidates; each is scored against the samples and the best one is returned together with
+ * the ranked alternatives and a per-sample pass/fail report.
+ *
  * @param humanText - The natural language string describing the desired regex.
- * @param testValue - An optional string to test against the generated regex for confidence scoring.
+ * @param testValue - An optional string to test against the generated regex for confidence scoring,
+ *   or `{ shouldMatch, shouldNotMatch }` sample sets used to rank all candidates.
  * @returns A `TextExtractionResult` object containing the generated pattern, confidence, and other metadata.
  */
 export function parseHumanTextToRegex(
 	humanText: string,
-	testValue?: string
+	testValue?: string | TextToRegexOptions
 ): TextExtractionResult {
+	if (typeof testValue === 'object') {
+		return rankHumanTextCandidates(humanText, testValue ?? {});
+	}
+
 	const normalizedText = normalizeText(humanText);
 	let pattern = '';
 	let confidence = 0;
 	let description = '';
 	const suggestions: string[] = [];
 	let patternType: string | undefined;
+	let validator: ((value: string) => boolean) | undefined;
 
 	// Check for compound requirements first (e.g., "email have number in domain")
 	const compoundResult = parseCompoundRequirements(
@@ -76,10 +81,12 @@ export function parseHumanTextToRegex(
 			description = patternInfo.description;
 			confidence = RGEX_CONFIG.defaults.humanTextConfidence.high;
 			patternType = patternInfo.type;
+			validator = patternInfo.validator;
 
 			if (testValue) {
 				const regex = new RegExp(pattern);
-				const testPassed = regex.test(testValue);
+				const testPassed =
+					regex.test(testValue) && (!validator || validator(testValue));
 				confidence = calculateConfidence(confidence, true, testPassed);
 
 				if (!testPassed) {
@@ -131,13 +138,15 @@ export function parseHumanTextToRegex(
 		confidence,
 		description: description || 'Custom pattern extracted from text',
 		suggestions,
+		...(validator ? { validator } : {}),
 	};
 }
 
 /**
- * Tries to find a match for complex, multi-part requirements by iterating through specialized parsers.
- * This function acts as a dispatcher to various parsing modules, each handling a specific domain
- * (e.g., positional, length, email).
+ * Tries to find a match for complex, multi-part requirements by iterating through the
+ * registered parser stages, highest priority first. This function acts as a dispatcher to
+ * the built-in parsing modules, each handling a specific domain (e.g., positional, length,
+ * email), and to any parsers added with `registerParser`.
  *
  * @param normalizedText - The lowercased, trimmed, and whitespace-normalized input text.
  * @param testValue - An optional string to test the generated pattern against.
@@ -149,30 +158,10 @@ function parseCompoundRequirements(
 	testValue?: string,
 	originalText?: string
 ): TextExtractionResult {
-	// Always use normalized text to ensure case-insensitive matching
-	const textForCapture = normalizedText;
-
-	// Try each pattern handler in order (combined patterns first for complex cases)
-	const handlers = [
-		parseCombinedPatterns,
-		parsePositionalPatterns,
-		parseLengthConstraints,
-		parseEmailPatterns,
-		parsePhonePatterns,
-		parseSecurityPatterns,
-		parseDateTimePatterns,
-		parseUrlPatterns,
-		parseFinancialPatterns,
-		parseTextFormattingPatterns,
-	];
-
-	for (const handler of handlers) {
-		// For positional patterns, we need to pass the original text to preserve case
-		const result =
-			handler === parsePositionalPatterns && originalText
-				? handler(textForCapture, testValue, originalText)
-				: handler(textForCapture, testValue);
-		if (result) {
+	for (const parser of getRegisteredParsers()) {
+		const result = parser.parse(normalizedText, testValue, originalText);
+		// A parser declining with `success: false` leaves the text to the next one
+		if (result?.success) {
 			return result;
 		}
 	}
@@ -186,6 +175,259 @@ function parseCompoundRequirements(
 	};
 }
 
+/**
+ * A pattern produced by one parser stage, before it is scored against samples.
+ * @internal
+ */
+interface CandidateHit {
+	source: string;
+	pattern: RegExp;
+	description: string;
+	confidence: number;
+	repaired: boolean;
+	validator?: (value: string) => boolean; // check digits the pattern can't express
+}
+
+/**
+ * Runs every stage of the text-to-regex pipeline without stopping at the first hit:
+ * all registered parsers, every keyword match and the component-based fallback.
+ * @internal
+ */
+function collectCandidateHits(
+	normalizedText: string,
+	originalText: string
+): CandidateHit[] {
+	const hits: CandidateHit[] = [];
+	const add = (
+		source: string,
+		pattern: RegExp | string | undefined,
+		description: string | undefined,
+		confidence: number,
+		validator?: (value: string) => boolean
+	) => {
+		if (!pattern) {
+			return;
+		}
+		try {
+			hits.push({
+				source,
+				pattern: typeof pattern === 'string' ? new RegExp(pattern) : pattern,
+				description: description || 'Custom pattern extracted from text',
+				confidence,
+				repaired: false,
+				...(validator ? { validator } : {}),
+			});
+		} catch {
+			// Stages occasionally build invalid sources; they simply don't compete
+		}
+	};
+
+	for (const parser of getRegisteredParsers()) {
+		const result = parser.parse(normalizedText, undefined, originalText);
+		if (result?.success) {
+			add(
+				parser.name,
+				result.pattern,
+				result.description,
+				result.confidence,
+				result.validator
+			);
+		}
+	}
+
+	for (const [key, patternInfo] of Object.entries(HUMAN_PATTERNS)) {
+		const keywords = PATTERN_KEYWORDS[key] || [];
+		if (
+			keywords.some((keyword) => normalizedText.includes(keyword.toLowerCase()))
+		) {
+			add(
+				`keyword:${key}`,
+				patternInfo.pattern,
+				patternInfo.description,
+				RGEX_CONFIG.defaults.humanTextConfidence.high,
+				patternInfo.validator
+			);
+		}
+	}
+
+	const constructed = constructPatternFromText(normalizedText);
+	add(
+		'fallback',
+		constructed.pattern,
+		constructed.description,
+		constructed.confidence
+	);
+
+	return hits;
+}
+
+/**
+ * Builds variants of a candidate that may fit the samples better: anchored to the whole
+ * input (rejects partial matches) and case-insensitive (accepts differently cased input).
+ * @internal
+ */
+function repairCandidate(hit: CandidateHit): CandidateHit[] {
+	const { source, flags } = hit.pattern;
+	const anchored = source.startsWith('^') && /(?:^|[^\\])\$$/.test(source);
+	const variants: Array<{ source: string; flags: string; note: string }> = [];
+
+	if (!anchored) {
+		variants.push({ source: `^(?:${source})$`, flags, note: 'anchored' });
+	}
+	if (!flags.includes('i')) {
+		variants.push({ source, flags: flags + 'i', note: 'case-insensitive' });
+		if (!anchored) {
+			variants.push({
+				source: `^(?:${source})$`,
+				flags: flags + 'i',
+				note: 'anchored, case-insensitive',
+			});
+		}
+	}
+
+	return variants.map((variant) => ({
+		source: `${hit.source} (${variant.note})`,
+		pattern: new RegExp(variant.source, variant.flags),
+		description: `${hit.description} (${variant.note})`,
+		// Repairs rank just below an untouched candidate with the same score
+		confidence: hit.confidence * 0.95,
+		repaired: true,
+		...(hit.validator ? { validator: hit.validator } : {}),
+	}));
+}
+
+/**
+ * Tests a candidate against both sample sets. A sample only matches when it also passes
+ * the candidate's validator, so a card number with a bad check digit counts as rejected.
+ * @internal
+ */
+function scoreCandidate(
+	hit: CandidateHit,
+	shouldMatch: string[],
+	shouldNotMatch: string[]
+): RegexCandidate {
+	const test = (input: string) => {
+		hit.pattern.lastIndex = 0;
+		return hit.pattern.test(input) && (!hit.validator || hit.validator(input));
+	};
+	const samples: SampleResult[] = [
+		...shouldMatch.map((input) => ({
+			input,
+			expected: 'match' as const,
+			passed: test(input),
+		})),
+		...shouldNotMatch.map((input) => ({
+			input,
+			expected: 'noMatch' as const,
+			passed: !test(input),
+		})),
+	];
+	const passed = samples.filter((sample) => sample.passed).length;
+
+	return {
+		source: hit.source,
+		pattern: hit.pattern,
+		description: hit.description,
+		confidence: hit.confidence,
+		score: samples.length > 0 ? passed / samples.length : 1,
+		repaired: hit.repaired,
+		samples,
+		...(hit.validator ? { validator: hit.validator } : {}),
+	};
+}
+
+/**
+ * Ranked mode of `parseHumanTextToRegex`: collects candidates from every parser stage,
+ * repairs the ones that miss samples, and orders them by sample score, then by the
+ * confidence of the stage that produced them, then by pipeline order. The best candidate
+ * is still reported (with its samples) when it is too weak to count as a success.
+ * @internal
+ */
+function rankHumanTextCandidates(
+	humanText: string,
+	options: TextToRegexOptions
+): TextExtractionResult {
+	const normalizedText = normalizeText(humanText);
+	const shouldMatch = options.shouldMatch ?? [];
+	const shouldNotMatch = options.shouldNotMatch ?? [];
+	const hasSamples = shouldMatch.length + shouldNotMatch.length > 0;
+
+	const seen = new Set<string>();
+	const candidates: RegexCandidate[] = [];
+	for (const hit of collectCandidateHits(normalizedText, humanText)) {
+		const scored = scoreCandidate(hit, shouldMatch, shouldNotMatch);
+		const variants =
+			scored.score < 1
+				? repairCandidate(hit)
+						.map((variant) =>
+							scoreCandidate(variant, shouldMatch, shouldNotMatch)
+						)
+						.filter((variant) => variant.score > scored.score)
+				: [];
+		for (const candidate of [scored, ...variants]) {
+			const key = candidate.pattern.toString();
+			if (!seen.has(key)) {
+				seen.add(key);
+				candidates.push(candidate);
+			}
+		}
+	}
+
+	const ranked = candidates
+		.map((candidate, order) => ({ candidate, order }))
+		.sort(
+			(a, b) =>
+				b.candidate.score - a.candidate.score ||
+				b.candidate.confidence - a.candidate.confidence ||
+				a.order - b.order
+		)
+		.map(({ candidate }) => candidate);
+
+	const [best, ...alternatives] = ranked;
+	if (!best) {
+		return {
+			success: false,
+			pattern: undefined,
+			confidence: 0,
+			description: 'Could not understand the text description',
+			suggestions: [
+				'Try being more specific about the pattern you want',
+				'Use keywords like: email, phone, number, date, etc.',
+			],
+			samples: [],
+			alternatives: [],
+		};
+	}
+
+	const failed = best.samples.filter((sample) => !sample.passed);
+	const suggestions = failed.map((sample) =>
+		sample.expected === 'match'
+			? `The pattern doesn't match "${sample.input}"`
+			: `The pattern unexpectedly matches "${sample.input}"`
+	);
+	if (best.repaired) {
+		suggestions.push(`Pattern was adjusted to fit the samples: ${best.source}`);
+	}
+
+	const confidence = calculateConfidence(
+		best.confidence,
+		hasSamples,
+		failed.length === 0,
+		best.score
+	);
+
+	return {
+		success: confidence >= RGEX_CONFIG.defaults.humanTextConfidence.low,
+		pattern: best.pattern,
+		confidence,
+		description: best.description,
+		suggestions,
+		samples: best.samples,
+		alternatives,
+		...(best.validator ? { validator: best.validator } : {}),
+	};
+}
+
 /**
  * Parses a human-readable string to extract a set of validation rules.
  * It identifies keywords for common validation requirements (e.g., "required", "strong password")
@@ -219,8 +461,20 @@ export function parseHumanTextToValidation(
 		);
 	}
 
+	// Password policies ("password with 2 uppercase 2 numbers", "nist password")
+	// replace the fixed strong-password rule and any regex guessed from the words
+	const policy = parsePasswordPolicy(normalizedText) ?? undefined;
+	if (policy) {
+		rules.push(new PasswordPolicy(policy).toRule());
+		confidence = Math.max(
+			confidence,
+			RGEX_CONFIG.defaults.humanTextConfidence.high
+		);
+	}
+
 	// Check for 'strong password' keyword, which uses a validator function
 	if (
+		!policy &&
 		keywordVariations.strong.some((v) => normalizedText.includes(v)) &&
 		normalizedText.includes('password')
 	) {
@@ -234,7 +488,14 @@ export function parseHumanTextToValidation(
 	// Use the main regex parser to extract a pattern-based rule
 	const regexResult = parseHumanTextToRegex(humanText, testValue);
 
-	if (regexResult.success && regexResult.pattern) {
+	// A catalog definition answered: keep its name, message and validator
+	const definition = patternRegistry.match(normalizedText);
+	if (policy) {
+		// The policy rule already covers the whole description
+	} else if (definition && regexResult.pattern === definition.pattern) {
+		rules.push(patternRegistry.toRule(definition.name));
+		confidence = Math.max(confidence, regexResult.confidence);
+	} else if (regexResult.success && regexResult.pattern) {
 		// Avoid adding a generic password rule if a strong one is already present
 		const isGenericPassword =
 			rules.some((r) => r.name === 'strongPassword') &&
@@ -248,6 +509,15 @@ export function parseHumanTextToValidation(
 					regexResult.description ||
 					'Input does not match the required pattern',
 			};
+			// Check digits (Luhn, IBAN mod 97, ...) run on top of the pattern
+			const checksum = regexResult.validator;
+			if (checksum) {
+				const pattern = regexResult.pattern;
+				customRule.validator = (value: string) => {
+					pattern.lastIndex = 0;
+					return pattern.test(value) && checksum(value);
+				};
+			}
 			rules.push(customRule);
 			confidence = Math.max(confidence, regexResult.confidence);
 			if (regexResult.suggestions) {
@@ -300,6 +570,7 @@ export function parseHumanTextToValidation(
 		suggestions,
 		caseUnPassed,
 		allPassed,
+		policy,
 	};
 }
 
@@ -1207,7 +1478,8 @@ function checkForMeaningfulPatternKeywords(text: string): {
 }
 
 /**
- * Provides regex pattern suggestions based on keywords found in the input text.
+ * Provides regex pattern suggestions based on keywords found in the input text,
+ * including parsers added with `registerParser`.
  * @param text - The user-provided text to analyze for suggestions.
  * @returns An array of string suggestions, limited to the top 5 most relevant.
  */
@@ -1215,6 +1487,22 @@ export function getPatternSuggestions(text: string): string[] {
 	const normalizedText = normalizeText(text);
 	const suggestions: string[] = [];
 
+	// Registered domain parsers come first: they match by keyword or by parsing the text
+	for (const parser of getRegisteredParsers()) {
+		if (parser.builtIn) continue;
+
+		const hasKeyword = parser.keywords.some((keyword) =>
+			normalizedText.includes(keyword.toLowerCase().substring(0, 3))
+		);
+		if (hasKeyword || parser.parse(normalizedText, undefined, text)?.success) {
+			suggestions.push(
+				parser.keywords.length > 0
+					? `Did you mean "${parser.name}"? Try: ${parser.keywords.join(', ')}`
+					: `Did you mean "${parser.name}"?`
+			);
+		}
+	}
+
 	// Check what patterns might be relevant
 	for (const [key, keywords] of Object.entries(PATTERN_KEYWORDS)) {
 		const hasPartialMatch = keywords.some((keyword) =>
@@ -1493,6 +1781,7 @@ export const h2r = parseHumanTextToRegex; // human to regex
  *   length constraints, character classes, and specialized format patterns.
  * @param testValue - Optional test input for pattern validation and confidence calculation.
  *   Enables immediate verification that the generated pattern works as expected.
+ *   Pass `{ shouldMatch, shouldNotMatch }` instead to rank candidates from every parser stage.
  * @returns Complete `TextExtractionResult` object with comprehensive pattern data:
  *   - `success`: Whether text parsing and pattern generation succeeded
  *   - `pattern`: Ready-to-use RegExp object (undefined if generation failed)
@@ -1512,6 +1801,13 @@ export const h2r = parseHumanTextToRegex; // human to regex
  *
  * // Streamlined error handling
  * const pattern = t2r("complex requirement").pattern || /fallback/;
+ *
+ * // Rank every candidate against sample sets
+ * const ranked = t2r("email", {
+ *   shouldMatch: ["dev@example.com"],
+ *   shouldNotMatch: ["dev@example"],
+ * });
+ * ranked.samples?.every((sample) => sample.passed);
  * ```
  */
 export const t2r = parseHumanTextToRegex; // text to regex
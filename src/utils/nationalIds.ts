@@ -0,0 +1,469 @@
+/**
+ * @fileoverview National IDs - Format and check-digit validation for national identifiers and tax numbers
+ * @module Utilities
+ * @category Utilities
+ * @group National IDs
+ * @author duongnguyen321 - https://duonguyen.site
+ */
+
+import type { NationalIdType } from '../../types/index.js';
+import { luhnCheck } from './checksums.js';
+
+/**
+ * An EU member state's VAT number format (after the prefix) and, where the algorithm
+ * is published, its check-digit test on the uppercase number without the prefix.
+ * @internal
+ */
+interface VatFormat {
+	pattern: RegExp;
+	check?: (number: string) => boolean;
+}
+
+/**
+ * VAT number formats by VIES member state prefix. Greece uses `EL`, not `GR`.
+ * Bulgaria, Cyprus, Czechia, Ireland, Latvia, Lithuania, Romania and Spain are only
+ * checked for format.
+ * @internal
+ */
+const EU_VAT_FORMATS: Record<string, VatFormat> = {
+	AT: {
+		pattern: /^U\d{8}$/,
+		check: (number) => {
+			const digits = toDigits(number.slice(1));
+			let sum = 0;
+			for (let i = 0; i < 7; i++) {
+				const digit = digits[i] ?? 0;
+				sum += i % 2 === 0 ? digit : digitSum(digit * 2);
+			}
+			return (10 - ((sum + 4) % 10)) % 10 === digits[7];
+		},
+	},
+	BE: {
+		pattern: /^[01]\d{9}$/,
+		check: (number) =>
+			97 - (Number(number.slice(0, 8)) % 97) === Number(number.slice(8)),
+	},
+	BG: { pattern: /^\d{9,10}$/ },
+	CY: { pattern: /^\d{8}[A-Z]$/ },
+	CZ: { pattern: /^\d{8,10}$/ },
+	DE: { pattern: /^\d{9}$/, check: mod11Mod10 },
+	DK: {
+		pattern: /^\d{8}$/,
+		check: (number) => weightedSum(number, [2, 7, 6, 5, 4, 3, 2, 1]) % 11 === 0,
+	},
+	EE: {
+		pattern: /^\d{9}$/,
+		check: (number) =>
+			(10 - (weightedSum(number, [3, 7, 1, 3, 7, 1, 3, 7]) % 10)) % 10 ===
+			Number(number[8]),
+	},
+	EL: {
+		pattern: /^\d{9}$/,
+		check: (number) =>
+			(weightedSum(number, [256, 128, 64, 32, 16, 8, 4, 2]) % 11) % 10 ===
+			Number(number[8]),
+	},
+	ES: { pattern: /^[A-Z\d]\d{7}[A-Z\d]$/ },
+	FI: {
+		pattern: /^\d{8}$/,
+		check: (number) => {
+			const remainder = weightedSum(number, [7, 9, 10, 5, 8, 4, 2]) % 11;
+			if (remainder === 1) return false;
+			return (remainder === 0 ? 0 : 11 - remainder) === Number(number[7]);
+		},
+	},
+	FR: {
+		pattern: /^[A-HJ-NP-Z\d]{2}\d{9}$/,
+		// Letter keys use an unpublished algorithm; numeric keys derive from the SIREN
+		check: (number) =>
+			!/^\d{2}/.test(number) ||
+			Number(number.slice(0, 2)) ===
+				(12 + 3 * (Number(number.slice(2)) % 97)) % 97,
+	},
+	HR: { pattern: /^\d{11}$/, check: mod11Mod10 },
+	HU: {
+		pattern: /^\d{8}$/,
+		check: (number) =>
+			(10 - (weightedSum(number, [9, 7, 3, 1, 9, 7, 3]) % 10)) % 10 ===
+			Number(number[7]),
+	},
+	IE: { pattern: /^\d(?:\d{6}[A-W][A-IW]?|[A-Z+*]\d{5}[A-W])$/ },
+	IT: { pattern: /^\d{11}$/, check: luhnCheck },
+	LT: { pattern: /^(?:\d{9}|\d{12})$/ },
+	LU: {
+		pattern: /^\d{8}$/,
+		check: (number) =>
+			Number(number.slice(0, 6)) % 89 === Number(number.slice(6)),
+	},
+	LV: { pattern: /^\d{11}$/ },
+	MT: {
+		pattern: /^\d{8}$/,
+		check: (number) =>
+			37 - (weightedSum(number, [3, 4, 6, 7, 8, 9]) % 37) ===
+			Number(number.slice(6)),
+	},
+	NL: {
+		pattern: /^\d{9}B\d{2}$/,
+		// Older numbers pass the "elfproef", numbers issued since 2020 a mod 97 check
+		check: (number) =>
+			(weightedSum(number, [9, 8, 7, 6, 5, 4, 3, 2]) - Number(number[8])) %
+				11 ===
+				0 || mod97(`2321${number.replace('B', '11')}`) === 1,
+	},
+	PL: {
+		pattern: /^\d{10}$/,
+		check: (number) =>
+			weightedSum(number, [6, 5, 7, 2, 3, 4, 5, 6, 7]) % 11 ===
+			Number(number[9]),
+	},
+	PT: {
+		pattern: /^\d{9}$/,
+		check: (number) => {
+			const check = 11 - (weightedSum(number, [9, 8, 7, 6, 5, 4, 3, 2]) % 11);
+			return (check > 9 ? 0 : check) === Number(number[8]);
+		},
+	},
+	RO: { pattern: /^[1-9]\d{1,9}$/ },
+	SE: {
+		pattern: /^\d{10}01$/,
+		check: (number) => luhnCheck(number.slice(0, 10)),
+	},
+	SI: {
+		pattern: /^[1-9]\d{7}$/,
+		check: (number) => {
+			const check = 11 - (weightedSum(number, [8, 7, 6, 5, 4, 3, 2]) % 11);
+			return check !== 11 && (check === 10 ? 0 : check) === Number(number[7]);
+		},
+	},
+	SK: {
+		pattern: /^[1-9]\d{9}$/,
+		check: (number) => Number(number) % 11 === 0,
+	},
+};
+
+/**
+ * Province codes at the start of Vietnamese citizen identity card numbers (the 63
+ * provinces and cities at the time of issue).
+ * @internal
+ */
+const CCCD_PROVINCE =
+	/^0(?:0[12468]|1[0124579]|2[024-7]|3[013-8]|4[0245689]|5[12468]|6[024678]|7[024579]|8[0234679]|9[1-6])/;
+
+/** Verhoeff multiplication table, one string per row. */
+const VERHOEFF_D = [
+	'0123456789',
+	'1234067895',
+	'2340178956',
+	'3401289567',
+	'4012395678',
+	'5987604321',
+	'6598710432',
+	'7659821043',
+	'8765932104',
+	'9876543210',
+];
+
+/** Verhoeff permutation table, one string per row. */
+const VERHOEFF_P = [
+	'0123456789',
+	'1576283094',
+	'5803796142',
+	'8916043527',
+	'9453127860',
+	'4286573901',
+	'2793806415',
+	'7046913258',
+];
+
+/**
+ * Checks a US Social Security number: area not `000`, `666` or `9xx`, group not `00`
+ * and serial not `0000`. The SSA publishes no check digit. Spaces and hyphens are
+ * ignored.
+ * @param value - The number to check, e.g. `123-45-6789`.
+ * @returns `true` if the number could have been issued.
+ */
+export function isValidSsn(value: string): boolean {
+	const digits = stripIdSeparators(value);
+	return /^(?!000|666|9)\d{3}(?!00)\d{2}(?!0000)\d{4}$/.test(digits);
+}
+
+/**
+ * Checks a UK National Insurance number: two prefix letters (excluding the prefixes
+ * HMRC never issues), six digits and a suffix `A`-`D`. There is no check digit.
+ * Spaces are ignored.
+ * @param value - The number to check, e.g. `AB 12 34 56 C`.
+ * @returns `true` if the format is valid.
+ */
+export function isValidNino(value: string): boolean {
+	const nino = value.replace(/\s/g, '').toUpperCase();
+	return /^(?!BG|GB|KN|NK|NT|TN|ZZ)[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z]\d{6}[A-D]$/.test(
+		nino
+	);
+}
+
+/**
+ * Checks a Canadian Social Insurance Number: nine digits passing the Luhn check. The
+ * first digit can't be 0 or 8 (9 marks temporary residents). Spaces and hyphens are
+ * ignored.
+ * @param value - The number to check, e.g. `130 692 544`.
+ * @returns `true` if the first digit and the check digit are valid.
+ */
+export function isValidSin(value: string): boolean {
+	const digits = stripIdSeparators(value);
+	return /^[1-79]\d{8}$/.test(digits) && luhnCheck(digits);
+}
+
+/**
+ * Checks an Indian Permanent Account Number: five letters, four digits and a letter,
+ * where the 4th letter is the holder type (`P` person, `C` company, ...). The check
+ * letter's algorithm is not published, so only the format is checked.
+ * @param value - The PAN to check, e.g. `ABCPE1234F`.
+ * @returns `true` if the format and holder type are valid.
+ */
+export function isValidPan(value: string): boolean {
+	return /^[A-Z]{3}[ABCFGHJLPT][A-Z]\d{4}[A-Z]$/.test(
+		value.trim().toUpperCase()
+	);
+}
+
+/**
+ * Checks an Indian Aadhaar number: twelve digits not starting with 0 or 1, with a
+ * Verhoeff check digit. Spaces and hyphens are ignored.
+ * @param value - The number to check, e.g. `2341 2341 2346`.
+ * @returns `true` if the check digit is correct.
+ */
+export function isValidAadhaar(value: string): boolean {
+	const digits = stripIdSeparators(value);
+	if (!/^[2-9]\d{11}$/.test(digits)) return false;
+
+	let check = 0;
+	for (let i = 0; i < digits.length; i++) {
+		const digit = Number(digits[digits.length - 1 - i]);
+		const permuted = Number(VERHOEFF_P[i % 8]?.[digit]);
+		check = Number(VERHOEFF_D[check]?.[permuted]);
+	}
+	return check === 0;
+}
+
+/**
+ * Checks a Brazilian CPF (individual taxpayer number): eleven digits with two mod 11
+ * check digits. Numbers made of one repeated digit are rejected. Dots, hyphens and
+ * spaces are ignored.
+ * @param value - The CPF to check, e.g. `529.982.247-25`.
+ * @returns `true` if both check digits are correct.
+ */
+export function isValidCpf(value: string): boolean {
+	const cpf = stripIdSeparators(value);
+	if (!/^\d{11}$/.test(cpf) || /^(\d)\1{10}$/.test(cpf)) return false;
+
+	const checkDigit = (length: number) => {
+		let sum = 0;
+		for (let i = 0; i < length; i++) {
+			sum += Number(cpf[i]) * (length + 1 - i);
+		}
+		return ((sum * 10) % 11) % 10;
+	};
+	return checkDigit(9) === Number(cpf[9]) && checkDigit(10) === Number(cpf[10]);
+}
+
+/**
+ * Checks a Brazilian CNPJ (company registration number): twelve characters and two
+ * mod 11 check digits. The alphanumeric CNPJ issued from July 2026 is supported;
+ * letters count as their character code minus 48. Dots, slashes, hyphens and spaces
+ * are ignored.
+ * @param value - The CNPJ to check, e.g. `11.222.333/0001-81`.
+ * @returns `true` if both check digits are correct.
+ */
+export function isValidCnpj(value: string): boolean {
+	const cnpj = stripIdSeparators(value).toUpperCase();
+	if (!/^[A-Z\d]{12}\d{2}$/.test(cnpj) || /^(\d)\1{13}$/.test(cnpj)) {
+		return false;
+	}
+
+	const checkDigit = (length: number) => {
+		let sum = 0;
+		for (let i = 0; i < length; i++) {
+			const weight = ((length - 1 - i) % 8) + 2;
+			sum += (cnpj.charCodeAt(i) - 48) * weight;
+		}
+		const remainder = sum % 11;
+		return remainder < 2 ? 0 : 11 - remainder;
+	};
+	return (
+		checkDigit(12) === Number(cnpj[12]) && checkDigit(13) === Number(cnpj[13])
+	);
+}
+
+/**
+ * Checks a Vietnamese citizen identity card (CCCD) number: a province code, a digit
+ * encoding century and sex, the two-digit birth year and six serial digits. The
+ * number has no check digit, so this checks the province code and that the birth
+ * year isn't in the future. Spaces are ignored.
+ * @param value - The number to check, e.g. `001099012345`.
+ * @returns `true` if the province code and birth year are valid.
+ */
+export function isValidCccd(value: string): boolean {
+	const digits = value.replace(/\s/g, '');
+	if (!/^\d{12}$/.test(digits) || !CCCD_PROVINCE.test(digits)) return false;
+
+	// 0-1: 1900s, 2-3: 2000s, 4-5: 2100s, 6-7: 2200s, 8-9: 1800s (even: male)
+	const centuryDigit = Math.floor(Number(digits[3]) / 2);
+	const century = centuryDigit === 4 ? 1800 : 1900 + centuryDigit * 100;
+	const birthYear = century + Number(digits.slice(4, 6));
+	return birthYear <= new Date().getFullYear();
+}
+
+/**
+ * Checks an 18-character Chinese resident identity card number: a 6-digit area code,
+ * a birth date (`YYYYMMDD`) that exists and isn't in the future, a 3-digit sequence
+ * and an ISO 7064 MOD 11-2 check character (`X` stands for 10).
+ * @param value - The number to check, e.g. `11010519491231002X`.
+ * @returns `true` if the birth date and check character are valid.
+ */
+export function isValidChineseResidentId(value: string): boolean {
+	const id = value.trim().toUpperCase();
+	if (!/^[1-9]\d{16}[\dX]$/.test(id)) return false;
+
+	const year = Number(id.slice(6, 10));
+	const month = Number(id.slice(10, 12));
+	const day = Number(id.slice(12, 14));
+	const birthDate = new Date(Date.UTC(year, month - 1, day));
+	if (
+		year < 1800 ||
+		birthDate.getUTCMonth() !== month - 1 ||
+		birthDate.getUTCDate() !== day ||
+		birthDate.getTime() > Date.now()
+	) {
+		return false;
+	}
+
+	const sum = weightedSum(
+		id,
+		[7, 9, 10, 5, 8, 4, 2, 1, 6, 3, 7, 9, 10, 5, 8, 4, 2]
+	);
+	return '10X98765432'[sum % 11] === id[17];
+}
+
+/**
+ * Checks an EU VAT identification number with its member state prefix (`DE136695976`).
+ * The format is checked for all 27 member states, and the check digits for the 19
+ * whose algorithm is published. Spaces, dots and hyphens are ignored; Greek numbers
+ * may use `GR` instead of `EL`.
+ * @param value - The VAT number to check.
+ * @param countryCode - Only accept this member state, e.g. `FR`.
+ * @returns `true` if the prefix is a member state and the number is valid for it.
+ */
+export function isValidEuVat(value: string, countryCode?: string): boolean {
+	const vat = stripIdSeparators(value).toUpperCase();
+	const prefix = toVatPrefix(vat.slice(0, 2));
+	if (countryCode && toVatPrefix(countryCode.toUpperCase()) !== prefix) {
+		return false;
+	}
+
+	const format = Object.prototype.hasOwnProperty.call(EU_VAT_FORMATS, prefix)
+		? EU_VAT_FORMATS[prefix]
+		: undefined;
+	const number = vat.slice(2);
+	return (
+		!!format &&
+		format.pattern.test(number) &&
+		(!format.check || format.check(number))
+	);
+}
+
+/**
+ * Checks any supported national identifier or tax number by type.
+ * @param value - The identifier to check.
+ * @param type - Which identifier it is, e.g. `brCpf` or `euVat`.
+ * @returns `true` if the identifier is valid for the type.
+ *
+ * @example
+ * ```typescript
+ * isValidNationalId('529.982.247-25', 'brCpf'); // true
+ * isValidNationalId('11010519491231002X', 'cnResidentId'); // true
+ * ```
+ */
+export function isValidNationalId(
+	value: string,
+	type: NationalIdType
+): boolean {
+	switch (type) {
+		case 'usSsn':
+			return isValidSsn(value);
+		case 'ukNino':
+			return isValidNino(value);
+		case 'caSin':
+			return isValidSin(value);
+		case 'inPan':
+			return isValidPan(value);
+		case 'inAadhaar':
+			return isValidAadhaar(value);
+		case 'brCpf':
+			return isValidCpf(value);
+		case 'brCnpj':
+			return isValidCnpj(value);
+		case 'vnCccd':
+			return isValidCccd(value);
+		case 'cnResidentId':
+			return isValidChineseResidentId(value);
+		case 'euVat':
+			return isValidEuVat(value);
+		default:
+			return false;
+	}
+}
+
+/** @internal */
+function stripIdSeparators(value: string): string {
+	return value.replace(/[\s./-]/g, '');
+}
+
+/** @internal */
+function toVatPrefix(code: string): string {
+	return code === 'GR' ? 'EL' : code;
+}
+
+/** @internal */
+function toDigits(value: string): number[] {
+	return value.split('').map(Number);
+}
+
+/** @internal */
+function digitSum(value: number): number {
+	return value > 9 ? value - 9 : value;
+}
+
+/**
+ * Sums the leading digits of `value`, each multiplied by the weight at its position.
+ * @internal
+ */
+function weightedSum(value: string, weights: number[]): number {
+	let sum = 0;
+	for (let i = 0; i < weights.length; i++) {
+		sum += Number(value[i]) * (weights[i] ?? 0);
+	}
+	return sum;
+}
+
+/**
+ * ISO 7064 MOD 11,10 over all but the last digit, which must be the check digit.
+ * Used by German and Croatian tax numbers.
+ * @internal
+ */
+function mod11Mod10(number: string): boolean {
+	let product = 10;
+	for (let i = 0; i < number.length - 1; i++) {
+		const sum = (Number(number[i]) + product) % 10 || 10;
+		product = (2 * sum) % 11;
+	}
+	return (11 - product) % 10 === Number(number[number.length - 1]);
+}
+
+/** @internal */
+function mod97(digits: string): number {
+	let remainder = 0;
+	for (const digit of digits) {
+		remainder = (remainder * 10 + Number(digit)) % 97;
+	}
+	return remainder;
+}
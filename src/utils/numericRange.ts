@@ -0,0 +1,278 @@
+/**
+ * @fileoverview Numeric Ranges - Compiles integer and decimal ranges into regex alternations
+ * @module Utilities
+ * @category Utilities
+ * @group Numeric Ranges
+ * @author duongnguyen321 - https://duonguyen.site
+ */
+
+import type { NumericRangeOptions } from '../../types/index.js';
+
+/** Fraction digits beyond this make the alternations explode. */
+const MAX_DECIMALS = 10;
+
+/**
+ * Builds a pattern source matching exactly the numbers from `min` to `max`, inclusive,
+ * the way IPv4 octets are written: the range is split at powers of ten into pieces that
+ * each fit one digit pattern (`25[0-5]`, `2[0-4]\d`, `1\d{2}`, ...). Negative bounds add
+ * a `-` alternative. With `decimals`, up to that many fraction digits are accepted and
+ * the bounds may have fractions themselves; trailing zeros count, so `1.50` is 1.5.
+ *
+ * @param min - The smallest accepted number.
+ * @param max - The largest accepted number.
+ * @param options - `leadingZeros` to accept padding such as `007`, and `decimals`, the
+ * number of fraction digits allowed (0 by default).
+ * @returns The unanchored pattern source, longest alternatives first.
+ * @throws {Error} If a bound isn't finite, has more fraction digits than `decimals`
+ * allows, or `min` is greater than `max`.
+ *
+ * @example
+ * ```typescript
+ * numericRangeSource(0, 255); // '25[0-5]|2[0-4]\\d|1\\d{2}|[1-9]\\d|\\d'
+ * numericRangeSource(-50, 50); // '50|[1-4]\\d|\\d|-(?:50|[1-4]\\d|[1-9])'
+ * numericRangeSource(0, 1, { decimals: 2 }); // '1(?:\\.(?:00|0))?|0(?:\\.\\d{1,2})?'
+ * ```
+ */
+export function numericRangeSource(
+	min: number,
+	max: number,
+	options: NumericRangeOptions = {}
+): string {
+	const decimals = options.decimals ?? 0;
+	if (!Number.isInteger(decimals) || decimals < 0 || decimals > MAX_DECIMALS) {
+		throw new Error(
+			`decimals must be an integer from 0 to ${MAX_DECIMALS}, got ${decimals}`
+		);
+	}
+
+	const low = toScaled(min, decimals);
+	const high = toScaled(max, decimals);
+	if (low > high) {
+		throw new Error(
+			`The range minimum ${min} is greater than the maximum ${max}`
+		);
+	}
+
+	const leadingZeros = options.leadingZeros ?? false;
+	const alternatives: string[] = [];
+	if (high >= 0) {
+		alternatives.push(
+			magnitudeSource(Math.max(low, 0), high, decimals, leadingZeros)
+		);
+	}
+	if (low < 0) {
+		// Negative numbers by their magnitude; zero is only written without a sign
+		alternatives.push(
+			`-${group(
+				magnitudeSource(high < 0 ? -high : 1, -low, decimals, leadingZeros)
+			)}`
+		);
+	}
+	return alternatives.join('|');
+}
+
+/**
+ * Converts a bound into an integer count of the smallest fraction step, so 0.5 with two
+ * decimals is 50.
+ * @internal
+ */
+function toScaled(value: number, decimals: number): number {
+	if (!Number.isFinite(value)) {
+		throw new Error(`Range bounds must be finite numbers, got ${value}`);
+	}
+	const exact = value * Math.pow(10, decimals);
+	const scaled = Math.round(exact);
+	if (Math.abs(exact - scaled) > 1e-6) {
+		throw new Error(
+			decimals === 0
+				? `Range bounds must be integers, got ${value}; pass decimals to allow fractions`
+				: `${value} has more than ${decimals} decimal places`
+		);
+	}
+	if (!Number.isSafeInteger(scaled)) {
+		throw new Error(`Range bound ${value} is too large`);
+	}
+	return scaled;
+}
+
+/**
+ * Builds the alternation for scaled magnitudes `low` to `high` (both non-negative): the
+ * integer parts whose fractions are unrestricted, plus the two boundary integer parts
+ * whose fractions are limited by the bounds.
+ * @internal
+ */
+function magnitudeSource(
+	low: number,
+	high: number,
+	decimals: number,
+	leadingZeros: boolean
+): string {
+	let source: string;
+	if (decimals === 0) {
+		source = integerSource(low, high);
+	} else {
+		const scale = Math.pow(10, decimals);
+		const lowInteger = Math.floor(low / scale);
+		const lowFraction = low % scale;
+		const highInteger = Math.floor(high / scale);
+		const highFraction = high % scale;
+		const pieces: string[] = [];
+
+		if (lowInteger === highInteger) {
+			pieces.push(
+				lowInteger + fractionSource(lowFraction, highFraction, decimals)
+			);
+		} else {
+			const first = lowFraction === 0 ? lowInteger : lowInteger + 1;
+			const last = highFraction === scale - 1 ? highInteger : highInteger - 1;
+			if (last < highInteger) {
+				pieces.push(highInteger + fractionSource(0, highFraction, decimals));
+			}
+			if (first <= last) {
+				pieces.push(
+					group(integerSource(first, last)) +
+						fractionSource(0, scale - 1, decimals)
+				);
+			}
+			if (first > lowInteger) {
+				pieces.push(
+					lowInteger + fractionSource(lowFraction, scale - 1, decimals)
+				);
+			}
+		}
+		source = pieces.join('|');
+	}
+	return leadingZeros ? `0*${group(source)}` : source;
+}
+
+/**
+ * Builds the fraction part for fractions `from` to `to`, counted in steps of the last
+ * decimal place. Shorter fractions are accepted when their zero-padded value is in range,
+ * and the fraction is optional when the range starts at zero.
+ * @internal
+ */
+function fractionSource(from: number, to: number, decimals: number): string {
+	if (from === 0 && to === Math.pow(10, decimals) - 1) {
+		return `(?:\\.\\d${decimals === 1 ? '' : `{1,${decimals}}`})?`;
+	}
+
+	const alternatives: string[] = [];
+	for (let digits = decimals; digits >= 1; digits--) {
+		const unit = Math.pow(10, decimals - digits);
+		const start = Math.ceil(from / unit);
+		const end = Math.floor(to / unit);
+		if (start <= end) alternatives.push(integerSource(start, end, digits));
+	}
+	const fraction = `\\.${group(alternatives.join('|'))}`;
+	return from === 0 ? `(?:${fraction})?` : fraction;
+}
+
+/**
+ * Builds the alternation for the integers `low` to `high`, zero-padded to `width` digits
+ * when one is given. Adjacent pieces differing only in the number of trailing digits are
+ * merged, so 1-9999 becomes `[1-9]\d{0,3}`.
+ * @internal
+ */
+function integerSource(low: number, high: number, width = 0): string {
+	const pieces: Array<{ stem: string; min: number; max: number }> = [];
+	let start = low;
+	for (const stop of splitRange(low, high)) {
+		const piece = digitPattern(pad(start, width), pad(stop, width));
+		const previous = pieces[pieces.length - 1];
+		if (
+			previous &&
+			previous.stem === piece.stem &&
+			previous.max + 1 === piece.min
+		) {
+			previous.max = piece.max;
+		} else {
+			pieces.push(piece);
+		}
+		start = stop + 1;
+	}
+
+	return pieces
+		.reverse()
+		.map(({ stem, min, max }) => {
+			if (max === 0) return stem;
+			if (min === max) return `${stem}\\d${min === 1 ? '' : `{${min}}`}`;
+			if (min === 0 && max === 1) return `${stem}\\d?`;
+			return `${stem}\\d{${min},${max}}`;
+		})
+		.join('|');
+}
+
+/**
+ * Finds the upper ends of the pieces of a range: runs up to the next number ending in
+ * nines from below, and down to the next multiple of a power of ten from above.
+ * @internal
+ */
+function splitRange(low: number, high: number): number[] {
+	const stops = [high];
+
+	for (let nines = 1; ; nines++) {
+		const digits = String(low);
+		const stop = Number(
+			digits.slice(0, Math.max(digits.length - nines, 0)) + repeat('9', nines)
+		);
+		if (stop >= high) break;
+		// Not needed when the digits to fill are already zeros, e.g. 50-59 of 50-99
+		if (nines >= digits.length || low % Math.pow(10, nines) !== 0) {
+			stops.push(stop);
+		}
+	}
+
+	for (let zeros = 1; ; zeros++) {
+		const stop = high + 1 - ((high + 1) % Math.pow(10, zeros)) - 1;
+		if (stop <= low) break;
+		if (stop < high) stops.push(stop);
+	}
+
+	return stops
+		.filter((stop, index) => stops.indexOf(stop) === index)
+		.sort((a, b) => a - b);
+}
+
+/**
+ * Describes a piece whose bounds have the same length, e.g. `200`-`249` as stem `2[0-4]`
+ * and one trailing digit.
+ * @internal
+ */
+function digitPattern(
+	start: string,
+	stop: string
+): { stem: string; min: number; max: number } {
+	let stem = '';
+	let count = 0;
+	for (let i = 0; i < start.length; i++) {
+		const from = start[i] ?? '';
+		const to = stop[i] ?? '';
+		if (from === to) {
+			stem += from;
+		} else if (from === '0' && to === '9') {
+			count++;
+		} else {
+			stem +=
+				Number(to) - Number(from) === 1 ? `[${from}${to}]` : `[${from}-${to}]`;
+		}
+	}
+	return { stem, min: count, max: count };
+}
+
+/** @internal */
+function group(source: string): string {
+	return source.indexOf('|') === -1 ? source : `(?:${source})`;
+}
+
+/** @internal */
+function pad(value: number, width: number): string {
+	const digits = String(value);
+	return digits.length < width
+		? repeat('0', width - digits.length) + digits
+		: digits;
+}
+
+/** @internal */
+function repeat(text: string, count: number): string {
+	return new Array(count + 1).join(text);
+}
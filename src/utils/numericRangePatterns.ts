@@ -0,0 +1,152 @@
+/**
+ * Numeric Range Pattern Handlers
+ * Handles "number between 1 and 255", "port number", "percentage 0 to 100", etc.
+ */
+
+import type {
+	NumericRangeOptions,
+	TextExtractionResult,
+} from '../../types/index.js';
+import { calculateConfidence } from './helpers.js';
+import { numericRangeSource } from './numericRange.js';
+
+/** "between 1 and 255", "from -50 to 50", "0 to 100", "1-100". */
+const RANGE_PHRASE =
+	/(?:\b(?:between|from)\s+)?(-?\d+(?:\.\d+)?)\s*(?:\band\b|\bto\b|\bthrough\b|-)\s*(-?\d+(?:\.\d+)?)/;
+
+/** Words that make a range a number range rather than a length or a date. */
+const SUBJECT =
+	/\b(number|integer|int|decimal|value|amount|price|score|quantity|age|year|port|percent|percentage)s?\b/;
+
+/** Units after a range that make it a length constraint handled elsewhere. */
+const LENGTH_UNIT =
+	/^\s*(?:characters?|chars?|digits?|letters?|words?|times|long)\b/;
+
+/**
+ * Parses text for numbers limited to a range and compiles the range into an exact
+ * pattern, so "number between 1 and 255" rejects 256 instead of matching any number.
+ *
+ * It understands phrases like:
+ * - "number between 1 and 255", "integer 1-100"
+ * - "number from -50 to 50"
+ * - "price from 0.5 to 99.99", "decimal between 0 and 1 with 3 decimal places"
+ * - "port number" (1-65535) and "percentage" (0-100), with or without a range
+ * - "... with leading zeros"
+ *
+ * @param textForCapture - The natural language text to be analyzed.
+ * @param testValue - An optional string to test the generated pattern against for confidence scoring.
+ * @returns A `TextExtractionResult` object if a range is found, otherwise `null`.
+ */
+export function parseNumericRangePatterns(
+	textForCapture: string,
+	testValue?: string
+): TextExtractionResult | null {
+	const suggestions: string[] = [];
+
+	const subject = textForCapture.match(SUBJECT)?.[1];
+	// Dates such as 2020-01-01 look like ranges
+	if (!subject || /\d{4}-\d{2}-\d{2}/.test(textForCapture)) return null;
+
+	const range = textForCapture.match(RANGE_PHRASE);
+	if (
+		range &&
+		LENGTH_UNIT.test(textForCapture.slice((range.index ?? 0) + range[0].length))
+	) {
+		return null;
+	}
+
+	let bounds: [string, string];
+	if (range?.[1] && range[2]) {
+		bounds = [range[1], range[2]];
+	} else if (
+		subject === 'port' &&
+		!/\b(?:url|ip|ipv4|ipv6|host)\b/.test(textForCapture)
+	) {
+		bounds = ['1', '65535'];
+	} else if (subject === 'percent' || subject === 'percentage') {
+		bounds = ['0', '100'];
+	} else {
+		return null;
+	}
+
+	const [min, max] = bounds.map(Number).sort((a, b) => a - b) as [
+		number,
+		number
+	];
+	const options: NumericRangeOptions = {
+		decimals: readDecimals(textForCapture, bounds),
+		leadingZeros:
+			/\bleading zeros?\b/.test(textForCapture) &&
+			!/\b(?:no|without)\s+leading zeros?\b/.test(textForCapture),
+	};
+	let pattern: string;
+	try {
+		pattern = `^(?:${numericRangeSource(min, max, options)})$`;
+	} catch {
+		// Too many decimal places, or bounds beyond the safe integers
+		return null;
+	}
+
+	let confidence: number = range ? 0.85 : 0.8;
+
+	if (testValue) {
+		const testPassed = new RegExp(pattern).test(testValue);
+		confidence = calculateConfidence(confidence, true, testPassed);
+	}
+
+	const details: string[] = [];
+	if (options.decimals) {
+		details.push(
+			`up to ${options.decimals} decimal place${
+				options.decimals === 1 ? '' : 's'
+			}`
+		);
+	}
+	if (options.leadingZeros) details.push('leading zeros allowed');
+
+	return {
+		success: true,
+		pattern: new RegExp(pattern),
+		confidence,
+		description: `${describeSubject(subject)} from ${min} to ${max}${
+			details.length > 0 ? `, ${details.join(', ')}` : ''
+		}`,
+		suggestions,
+	};
+}
+
+/**
+ * Reads the number of fraction digits: "3 decimal places", the most fraction digits of
+ * a bound, or 2 when the text only asks for a decimal.
+ * @internal
+ */
+function readDecimals(text: string, bounds: [string, string]): number {
+	const places = text.match(/\b(\d{1,2})\s*decimal(?:\s+places?)?\b/);
+	if (places?.[1]) return Number(places[1]);
+
+	const fractionDigits = Math.max(
+		...bounds.map((bound) => bound.split('.')[1]?.length ?? 0)
+	);
+	if (fractionDigits > 0) return fractionDigits;
+	return /\bdecimals?\b/.test(text) ? 2 : 0;
+}
+
+/** @internal */
+function describeSubject(subject: string): string {
+	switch (subject) {
+		case 'port':
+			return 'Port number';
+		case 'percent':
+		case 'percentage':
+			return 'Percentage';
+		case 'age':
+			return 'Age';
+		case 'year':
+			return 'Year';
+		case 'integer':
+		case 'int':
+			return 'Integer';
+		default:
+			return 'Number';
+	}
+}
@@ -0,0 +1,155 @@
+/**
+ * @fileoverview Parser Registry - Ordered, extensible parser stages for the text-to-regex pipeline
+ * @module Utilities
+ * @category Human Text
+ * @group Parser Registry
+ * @author duongnguyen321 - https://duonguyen.site
+ */
+
+import type {
+	RegisteredParser,
+	TextParserDefinition,
+} from '../../types/index.js';
+import { combinedParsers } from './combinedPatterns.js';
+import { parsePositionalPatterns } from './positionalPatterns.js';
+import { parseLengthConstraints } from './lengthConstraints.js';
+import { parseEmailPatterns } from './emailPatterns.js';
+import { parsePhonePatterns } from './phonePatterns.js';
+import { parseSecurityPatterns } from './securityPatterns.js';
+import { parseNumericRangePatterns } from './numericRangePatterns.js';
+import { parseDateTimePatterns } from './dateTimePatterns.js';
+import { parseUrlPatterns } from './urlPatterns.js';
+import { parseFinancialPatterns } from './financialPatterns.js';
+import { parseTextFormattingPatterns } from './textFormattingPatterns.js';
+import { parseCatalogPatterns } from './patternRegistry.js';
+
+/** Priority of the pattern catalog, so keywords of `patternRegistry` definitions win. */
+export const CATALOG_PARSER_PRIORITY = 30;
+
+/** Priority of the built-in combined parsers (e.g. "email with numbers in the domain"). */
+export const COMBINED_PARSER_PRIORITY = 20;
+
+/** Priority of the built-in single-domain handlers (positional, length, email, ...). */
+export const DOMAIN_PARSER_PRIORITY = 10;
+
+/** Priority of registered parsers that don't set one, so domain parsers run first. */
+export const DEFAULT_PARSER_PRIORITY = 100;
+
+/**
+ * All parser stages, in registration order. Sorted by priority on read.
+ * @internal
+ */
+const registry: RegisteredParser[] = [
+	{
+		name: 'catalog:patterns',
+		category: 'catalog',
+		priority: CATALOG_PARSER_PRIORITY,
+		keywords: [],
+		parse: parseCatalogPatterns,
+		builtIn: true,
+	},
+];
+
+for (const parser of combinedParsers) {
+	registry.push({
+		name: `combined:${parser.name}`,
+		category: 'combined',
+		priority: COMBINED_PARSER_PRIORITY,
+		keywords: [],
+		parse: parser.parse,
+		builtIn: true,
+	});
+}
+
+for (const [name, parse] of [
+	['positional', parsePositionalPatterns],
+	['length', parseLengthConstraints],
+	['email', parseEmailPatterns],
+	['phone', parsePhonePatterns],
+	['security', parseSecurityPatterns],
+	['numericRange', parseNumericRangePatterns],
+	['dateTime', parseDateTimePatterns],
+	['url', parseUrlPatterns],
+	['financial', parseFinancialPatterns],
+	['textFormatting', parseTextFormattingPatterns],
+] as const) {
+	registry.push({
+		name: `compound:${name}`,
+		category: 'compound',
+		priority: DOMAIN_PARSER_PRIORITY,
+		keywords: [],
+		parse,
+		builtIn: true,
+	});
+}
+
+/**
+ * Adds a parser stage to the text-to-regex pipeline used by `t2r` and `t2v`. Parsers run
+ * from the highest priority down (ties in registration order) before the `HUMAN_PATTERNS`
+ * keyword table, and the first successful result wins. Built-in parsers use priority 30
+ * (the `patternRegistry` catalog), 20 (combined) and 10 (single-domain); parsers without
+ * a priority run first.
+ *
+ * @param definition - The parser's unique `name`, its `parse` function, and optionally a
+ * `priority`, a `category` and `keywords` surfaced by `getPatternSuggestions`.
+ * @throws {Error} If the name is empty or already registered.
+ *
+ * @example
+ * ```typescript
+ * registerParser({
+ *   name: 'acme-order-id',
+ *   keywords: ['order id'],
+ *   parse: (text) =>
+ *     text.includes('order id')
+ *       ? { success: true, pattern: /^ORD-\d{6}$/, confidence: 0.9 }
+ *       : null,
+ * });
+ * ```
+ */
+export function registerParser(definition: TextParserDefinition): void {
+	const name = definition.name?.trim();
+	if (!name) {
+		throw new Error('Parser name must be a non-empty string');
+	}
+	if (typeof definition.parse !== 'function') {
+		throw new Error(`Parser "${name}" must provide a parse function`);
+	}
+	if (registry.some((parser) => parser.name === name)) {
+		throw new Error(`A parser named "${name}" is already registered`);
+	}
+
+	registry.push({
+		name,
+		category: definition.category ?? 'custom',
+		priority: definition.priority ?? DEFAULT_PARSER_PRIORITY,
+		keywords: definition.keywords ?? [],
+		parse: definition.parse,
+		builtIn: false,
+	});
+}
+
+/**
+ * Removes a parser stage by name. Built-in parsers (`catalog:*`, `combined:*`,
+ * `compound:*`) can be removed too, e.g. to stop a generic parser from claiming a
+ * domain phrase.
+ *
+ * @param name - The name the parser was registered under.
+ * @returns `true` if a parser was removed, `false` if none had that name.
+ */
+export function unregisterParser(name: string): boolean {
+	const index = registry.findIndex((parser) => parser.name === name);
+	if (index === -1) return false;
+	registry.splice(index, 1);
+	return true;
+}
+
+/**
+ * Lists the parser stages in the order the pipeline runs them.
+ * @returns A copy of the registered parsers, highest priority first.
+ */
+export function getRegisteredParsers(): RegisteredParser[] {
+	return registry
+		.map((parser, order) => ({ parser, order }))
+		.sort((a, b) => b.parser.priority - a.parser.priority || a.order - b.order)
+		.map(({ parser }) => ({ ...parser, keywords: [...parser.keywords] }));
+}
@@ -4,6 +4,11 @@
  */
 
 import type {
+	PasswordContext,
+	PasswordFeedbackCode,
+	PasswordFeedbackItem,
+	PasswordFeedbackParams,
+	PasswordMessageKey,
 	PasswordValidationOptions,
 	PasswordValidationResult,
 } from '../../types/index.js';
@@ -14,47 +19,157 @@ import {
 	UNICODE_RANGE,
 } from '../constants/patterns.js';
 import { RGEX_CONFIG } from '../config/index.js';
+import { isBreached, isBreachedSync } from './breach.js';
+import {
+	containsWord,
+	findPersonalInfo,
+	personalWords,
+} from './passwordContext.js';
+import type { PersonalInfoField } from './passwordContext.js';
+import { formatPasswordMessage } from './passwordMessages.js';
+import { estimatePasswordStrength, isKeyboardRun } from './passwordStrength.js';
+
+/**
+ * The outcome of one check. The requirement is kept as a feedback code and params so its
+ * message can be rendered in the requested locale.
+ * @internal
+ */
+interface PasswordCheck {
+	passed: boolean;
+	required: boolean;
+	code?: PasswordFeedbackCode; // reported when a required check fails
+	key?: PasswordMessageKey; // the wording of the requirement, when not the code's own
+	params?: PasswordFeedbackParams;
+}
 
 /**
  * Validates a password against a comprehensive set of rules and provides a detailed analysis.
  *
  * @param password The password string to validate.
  * @param options A `PasswordValidationOptions` object to customize the validation rules.
- * @returns A `PasswordValidationResult` object containing the validation details.
+ * Set `locale` (e.g. `vi`, `ja`) to get the messages in another language.
+ * @returns A `PasswordValidationResult` object containing the validation details, with
+ * `feedback` listing warnings and suggestions as codes, params and translated messages,
+ * and the `guesses`, `crackTimes` and `segments` of `estimatePasswordStrength`.
  */
 export function validatePassword(
 	password: string,
 	options: PasswordValidationOptions = {}
+): PasswordValidationResult {
+	return analyzePassword(password, options);
+}
+
+/**
+ * Validates a password like `validatePassword`, waiting for the breach lookup when
+ * `noBreached` is set and the breach source is an async provider (see `setBreachSource`),
+ * and for an async `context.isPreviousPassword`, such as a bcrypt comparison.
+ *
+ * @param password The password string to validate.
+ * @param options A `PasswordValidationOptions` object to customize the validation rules.
+ * @returns A promise of the `PasswordValidationResult`.
+ */
+export async function validatePasswordAsync(
+	password: string,
+	options: PasswordValidationOptions = {}
+): Promise<PasswordValidationResult> {
+	const isPreviousPassword = options.context?.isPreviousPassword;
+	return analyzePassword(password, options, {
+		breached: options.noBreached ? await isBreached(password) : undefined,
+		previous: isPreviousPassword
+			? await isPreviousPassword(password)
+			: undefined,
+	});
+}
+
+/**
+ * Runs every check and scores the password.
+ * @param lookups The results of async lookups; made synchronously where omitted.
+ * @internal
+ */
+function analyzePassword(
+	password: string,
+	options: PasswordValidationOptions,
+	lookups: { breached?: boolean; previous?: boolean } = {}
 ): PasswordValidationResult {
 	const opts = { ...RGEX_CONFIG.defaults.passwordValidation, ...options };
 
-	const results = {
+	const checks = {
 		length: checkLength(password, opts.minLength, opts.maxLength),
-		hasNumber: checkHasNumber(password, opts.hasNumber),
-		hasSpecial: checkHasSpecial(password, opts.hasSpecial),
-		hasUpperChar: checkHasUpperChar(password, opts.hasUpperChar),
-		hasLowerChar: checkHasLowerChar(password, opts.hasLowerChar),
+		hasNumber: checkHasNumber(
+			password,
+			opts.hasNumber || (opts.minNumbers ?? 0) > 0,
+			opts.minNumbers
+		),
+		hasSpecial: checkHasSpecial(
+			password,
+			opts.hasSpecial || (opts.minSpecial ?? 0) > 0,
+			opts.minSpecial
+		),
+		hasUpperChar: checkHasUpperChar(
+			password,
+			opts.hasUpperChar || (opts.minUpper ?? 0) > 0,
+			opts.minUpper
+		),
+		hasLowerChar: checkHasLowerChar(
+			password,
+			opts.hasLowerChar || (opts.minLower ?? 0) > 0,
+			opts.minLower
+		),
 		hasSymbol: checkHasSymbol(password, opts.hasSymbol),
 		hasUnicode: checkHasUnicode(password, opts.hasUnicode),
 		noSequential: checkNoSequential(password, opts.noSequential),
-		noRepeating: checkNoRepeating(password, opts.noRepeating),
+		noRepeating: checkNoRepeating(
+			password,
+			opts.noRepeating || opts.maxConsecutive !== undefined,
+			opts.maxConsecutive
+		),
 		noCommonWords: checkNoCommonWords(password, opts.noCommonWords),
+		noBreached: checkNoBreached(password, opts.noBreached, lookups.breached),
 		customPattern: checkCustomPattern(password, opts.customPattern),
+		hasLetter: checkHasLetter(password, opts.minLetters ?? 0),
+		noForbidden: checkNoForbidden(password, opts.forbidden),
+		noPersonalInfo: checkNoPersonalInfo(password, opts.context),
+		notPreviousPassword: checkNotPreviousPassword(
+			password,
+			opts.context,
+			lookups.previous
+		),
 	};
 
+	const locale = opts.locale;
+	const results = {} as PasswordValidationResult['pass'];
 	const failedRequirements: string[] = [];
+	const warnings: PasswordFeedbackItem[] = [];
 	let passedCount = 0;
 
 	// Check each requirement
-	for (const [key, result] of Object.entries(results)) {
-		if (result.required && !result.passed) {
-			failedRequirements.push(result.message);
+	for (const [key, check] of Object.entries(checks) as Array<
+		[keyof typeof checks, PasswordCheck]
+	>) {
+		const message = check.code
+			? formatPasswordMessage(check.key ?? check.code, check.params, locale)
+			: '';
+		results[key] = { passed: check.passed, required: check.required, message };
+		if (check.required && !check.passed && check.code) {
+			failedRequirements.push(message);
+			warnings.push({ code: check.code, params: check.params ?? {}, message });
 		}
-		if (result.passed) {
+		if (check.passed) {
 			passedCount++;
 		}
 	}
 
+	// Weak patterns no option asked to reject are still worth pointing out
+	if (!checks.noCommonWords.required && hasCommonWords(password)) {
+		warnings.push(feedbackItem('COMMON_WORD', {}, locale));
+	}
+	const keyboardPattern = findKeyboardPattern(password);
+	if (keyboardPattern) {
+		warnings.push(
+			feedbackItem('KEYBOARD_PATTERN', { pattern: keyboardPattern }, locale)
+		);
+	}
+
 	// Calculate score (0-100) - Use comprehensive scoring instead of just requirement-based
 	const score = calculatePasswordScore(password, results, passedCount);
 
@@ -65,250 +180,402 @@ export function validatePassword(
 		passedCount
 	);
 
+	// Guessability, with the words a targeted attacker would try first
+	const estimate = estimatePasswordStrength(
+		password,
+		(opts.forbidden ?? []).concat(personalWords(opts.context ?? {}))
+	);
+
 	return {
 		error:
 			failedRequirements.length > 0
 				? {
-						message: 'Password does not meet requirements',
+						message: formatPasswordMessage('REQUIREMENTS_NOT_MET', {}, locale),
 						requirements: failedRequirements,
 				  }
 				: null,
 		pass: results,
 		score,
 		strength,
+		...estimate,
+		feedback: {
+			warnings,
+			suggestions: suggestImprovements(strength, warnings, locale),
+		},
 	};
 }
 
+/**
+ * Suggests how to make a password stronger, from its strength and the weak patterns found.
+ * @internal
+ */
+function suggestImprovements(
+	strength: PasswordValidationResult['strength'],
+	warnings: PasswordFeedbackItem[],
+	locale?: string
+): PasswordFeedbackItem[] {
+	const codes: Array<[PasswordFeedbackCode, PasswordFeedbackParams]> = [];
+	if (strength === 'very-weak' || strength === 'weak') {
+		codes.push(
+			['USE_LONGER', { length: 12 }],
+			['MIX_CASE', {}],
+			['ADD_NUMBERS_AND_SPECIAL', {}],
+			['AVOID_PATTERNS', {}]
+		);
+	} else if (strength === 'fair') {
+		codes.push(['ADD_VARIETY', {}], ['ADD_LENGTH', {}]);
+	}
+	if (
+		warnings.some(
+			(warning) =>
+				warning.code === 'COMMON_WORD' || warning.code === 'KEYBOARD_PATTERN'
+		) &&
+		!codes.some(([code]) => code === 'AVOID_PATTERNS')
+	) {
+		codes.push(['AVOID_PATTERNS', {}]);
+	}
+	return codes.map(([code, params]) => feedbackItem(code, params, locale));
+}
+
+/** @internal */
+function feedbackItem(
+	code: PasswordFeedbackCode,
+	params: PasswordFeedbackParams,
+	locale?: string
+): PasswordFeedbackItem {
+	return { code, params, message: formatPasswordMessage(code, params, locale) };
+}
+
 /**
  * Checks if the password meets the length requirements.
  * @param password The password to check.
  * @param minLength The minimum required length.
  * @param maxLength The maximum allowed length.
- * @returns An object indicating if the check passed, if it was required, and a message.
+ * @returns The outcome, with `TOO_SHORT` or `TOO_LONG` for the length found.
  * @internal
  */
 function checkLength(
 	password: string,
 	minLength: number,
 	maxLength?: number
-): { passed: boolean; required: boolean; message: string } {
+): PasswordCheck {
 	const length = password.length;
-	const passed =
-		length >= minLength && (maxLength === undefined || length <= maxLength);
-
-	let message = '';
-	if (maxLength !== undefined) {
-		message = `Password must be between ${minLength} and ${maxLength} characters`;
-	} else {
-		message = `Password must be at least ${minLength} characters`;
-	}
+	const tooLong = maxLength !== undefined && length > maxLength;
+	const passed = length >= minLength && !tooLong;
 
+	const params: PasswordFeedbackParams = { min: minLength };
+	if (maxLength !== undefined) params.max = maxLength;
 	return {
 		passed,
 		required: true,
-		message,
+		code: tooLong ? 'TOO_LONG' : 'TOO_SHORT',
+		key: maxLength !== undefined ? 'LENGTH_RANGE' : 'TOO_SHORT',
+		params,
 	};
 }
 
 /**
- * Checks if the password contains at least one number.
+ * Checks if the password contains at least one number, or `min` numbers.
  * @param password The password to check.
  * @param required Whether this check is required.
- * @returns An object indicating if the check passed and if it was required.
+ * @param min The number of digits required.
+ * @returns The outcome of the check.
  * @internal
  */
 function checkHasNumber(
 	password: string,
-	required: boolean
-): { passed: boolean; required: boolean; message: string } {
-	const passed = /\d/.test(password);
-	return {
-		passed,
-		required,
-		message: 'Password must contain at least one number',
-	};
+	required: boolean,
+	min: number = 1
+): PasswordCheck {
+	const count = Math.max(min, 1);
+	const passed = countMatches(password, /\d/g) >= count;
+	return { passed, required, code: 'NO_NUMBER', params: { count } };
 }
 
 /**
- * Checks if the password contains at least one special character.
+ * Checks if the password contains at least one special character, or `min` of them.
  * @param password The password to check.
  * @param required Whether this check is required.
- * @returns An object indicating if the check passed and if it was required.
+ * @param min The number of special characters required.
+ * @returns The outcome of the check.
  * @internal
  */
 function checkHasSpecial(
 	password: string,
-	required: boolean
-): { passed: boolean; required: boolean; message: string } {
-	const pattern = new RegExp(`[${SPECIAL_CHARS}]`);
-	const passed = pattern.test(password);
-	return {
-		passed,
-		required,
-		message: 'Password must contain at least one special character',
-	};
+	required: boolean,
+	min: number = 1
+): PasswordCheck {
+	const count = Math.max(min, 1);
+	const pattern = new RegExp(`[${SPECIAL_CHARS}]`, 'g');
+	const passed = countMatches(password, pattern) >= count;
+	return { passed, required, code: 'NO_SPECIAL', params: { count } };
 }
 
 /**
- * Checks if the password contains at least one uppercase letter.
+ * Checks if the password contains at least one uppercase letter, or `min` of them.
  * @param password The password to check.
  * @param required Whether this check is required.
- * @returns An object indicating if the check passed and if it was required.
+ * @param min The number of uppercase letters required.
+ * @returns The outcome of the check.
  * @internal
  */
 function checkHasUpperChar(
 	password: string,
-	required: boolean
-): { passed: boolean; required: boolean; message: string } {
-	const passed = /[A-Z]/.test(password);
-	return {
-		passed,
-		required,
-		message: 'Password must contain at least one uppercase letter',
-	};
+	required: boolean,
+	min: number = 1
+): PasswordCheck {
+	const count = Math.max(min, 1);
+	const passed = countMatches(password, /[A-Z]/g) >= count;
+	return { passed, required, code: 'NO_UPPERCASE', params: { count } };
 }
 
 /**
- * Checks if the password contains at least one lowercase letter.
+ * Checks if the password contains at least one lowercase letter, or `min` of them.
  * @param password The password to check.
  * @param required Whether this check is required.
- * @returns An object indicating if the check passed and if it was required.
+ * @param min The number of lowercase letters required.
+ * @returns The outcome of the check.
  * @internal
  */
 function checkHasLowerChar(
 	password: string,
-	required: boolean
-): { passed: boolean; required: boolean; message: string } {
-	const passed = /[a-z]/.test(password);
-	return {
-		passed,
-		required,
-		message: 'Password must contain at least one lowercase letter',
-	};
+	required: boolean,
+	min: number = 1
+): PasswordCheck {
+	const count = Math.max(min, 1);
+	const passed = countMatches(password, /[a-z]/g) >= count;
+	return { passed, required, code: 'NO_LOWERCASE', params: { count } };
+}
+
+/**
+ * Checks if the password contains at least `min` letters of either case.
+ * @param password The password to check.
+ * @param min The number of letters required; 0 turns the check off.
+ * @returns The outcome of the check.
+ * @internal
+ */
+function checkHasLetter(password: string, min: number): PasswordCheck {
+	if (min <= 0) {
+		return { passed: true, required: false };
+	}
+
+	const passed = countMatches(password, /[a-zA-Z]/g) >= min;
+	return { passed, required: true, code: 'NO_LETTER', params: { count: min } };
 }
 
 /**
  * Checks if the password contains at least one symbol.
  * @param password The password to check.
  * @param required Whether this check is required.
- * @returns An object indicating if the check passed and if it was required.
+ * @returns The outcome of the check.
  * @internal
  */
-function checkHasSymbol(
-	password: string,
-	required: boolean
-): { passed: boolean; required: boolean; message: string } {
+function checkHasSymbol(password: string, required: boolean): PasswordCheck {
 	const pattern = new RegExp(SYMBOLS);
 	const passed = pattern.test(password);
-	return {
-		passed,
-		required,
-		message: 'Password must contain at least one symbol',
-	};
+	return { passed, required, code: 'NO_SYMBOL' };
 }
 
 /**
  * Checks if the password contains at least one Unicode character.
  * @param password The password to check.
  * @param required Whether this check is required.
- * @returns An object indicating if the check passed and if it was required.
+ * @returns The outcome of the check.
  * @internal
  */
-function checkHasUnicode(
-	password: string,
-	required: boolean
-): { passed: boolean; required: boolean; message: string } {
+function checkHasUnicode(password: string, required: boolean): PasswordCheck {
 	const pattern = new RegExp(UNICODE_RANGE);
 	const passed = pattern.test(password);
-	return {
-		passed,
-		required,
-		message: 'Password must contain at least one unicode character',
-	};
+	return { passed, required, code: 'NO_UNICODE' };
 }
 
 /**
  * Checks if the password contains sequential characters (e.g., "abc", "123").
  * @param password The password to check.
  * @param required Whether this check is required.
- * @returns An object indicating if the check passed and if it was required.
+ * @returns The outcome of the check.
  * @internal
  */
-function checkNoSequential(
-	password: string,
-	required: boolean
-): { passed: boolean; required: boolean; message: string } {
+function checkNoSequential(password: string, required: boolean): PasswordCheck {
 	if (!required) {
-		return { passed: true, required: false, message: '' };
+		return { passed: true, required: false };
 	}
 
 	const passed = !hasSequentialChars(password);
-	return {
-		passed,
-		required,
-		message: 'Password must not contain sequential characters (e.g., 123, abc)',
-	};
+	return { passed, required, code: 'SEQUENTIAL' };
 }
 
 /**
  * Checks if the password contains repeating characters (e.g., "aaa", "111").
  * @param password The password to check.
  * @param required Whether this check is required.
- * @returns An object indicating if the check passed and if it was required.
+ * @param maxConsecutive The most identical characters allowed in a row. Defaults to 2.
+ * @returns The outcome of the check.
  * @internal
  */
 function checkNoRepeating(
 	password: string,
-	required: boolean
-): { passed: boolean; required: boolean; message: string } {
+	required: boolean,
+	maxConsecutive?: number
+): PasswordCheck {
 	if (!required) {
-		return { passed: true, required: false, message: '' };
+		return { passed: true, required: false };
 	}
 
-	const passed = !hasRepeatingChars(password);
-	return {
-		passed,
-		required,
-		message: 'Password must not contain repeating characters (e.g., aaa, 111)',
-	};
+	const passed = !hasRepeatingChars(password, (maxConsecutive ?? 2) + 1);
+	return maxConsecutive === undefined
+		? { passed, required, code: 'REPEATED' }
+		: {
+				passed,
+				required,
+				code: 'REPEATED',
+				key: 'REPEATED_LIMIT',
+				params: { max: maxConsecutive },
+		  };
 }
 
 /**
  * Checks if the password is one of the commonly used passwords.
  * @param password The password to check.
  * @param required Whether this check is required.
- * @returns An object indicating if the check passed and if it was required.
+ * @returns The outcome of the check.
  * @internal
  */
 function checkNoCommonWords(
 	password: string,
 	required: boolean
-): { passed: boolean; required: boolean; message: string } {
+): PasswordCheck {
 	if (!required) {
-		return { passed: true, required: false, message: '' };
+		return { passed: true, required: false };
 	}
 
 	const passed = !hasCommonWords(password);
+	return { passed, required, code: 'COMMON_WORD' };
+}
+
+/**
+ * Checks if the password appears in the configured breach source.
+ * @param password The password to check.
+ * @param required Whether this check is required.
+ * @param breached The result of an async lookup, if one was made.
+ * @returns The outcome of the check.
+ * @internal
+ */
+function checkNoBreached(
+	password: string,
+	required: boolean,
+	breached?: boolean
+): PasswordCheck {
+	if (!required) {
+		return { passed: true, required: false };
+	}
+
+	const passed = !(breached ?? isBreachedSync(password));
+	return { passed, required, code: 'BREACHED' };
+}
+
+/**
+ * Checks if the password contains a forbidden word, also reversed or in l33t spelling.
+ * @param password The password to check.
+ * @param forbidden Words to reject, case-insensitively.
+ * @returns The outcome of the check.
+ * @internal
+ */
+function checkNoForbidden(
+	password: string,
+	forbidden: string[] = []
+): PasswordCheck {
+	if (forbidden.length === 0) {
+		return { passed: true, required: false };
+	}
+
 	return {
-		passed,
-		required,
-		message: 'Password must not contain common words or patterns',
+		passed: !containsWord(password, forbidden),
+		required: true,
+		code: 'FORBIDDEN_WORD',
 	};
 }
 
+/**
+ * Checks if the password contains or closely resembles the user's own details.
+ * @param password The password to check.
+ * @param context The user's details; the check is only required when one is given.
+ * @returns The outcome, with the detail found as the `detail` param.
+ * @internal
+ */
+function checkNoPersonalInfo(
+	password: string,
+	context: PasswordContext = {}
+): PasswordCheck {
+	const fields: PersonalInfoField[] = [
+		'username',
+		'email',
+		'fullName',
+		'companyName',
+		'birthDate',
+	];
+	if (
+		fields.every(
+			(field) => context[field] === undefined || context[field] === ''
+		)
+	) {
+		return { passed: true, required: false };
+	}
+
+	const found = findPersonalInfo(password, context);
+	return {
+		passed: found === null,
+		required: true,
+		code: 'PERSONAL_INFO',
+		params: { detail: found ?? 'any' },
+	};
+}
+
+/**
+ * Checks the password against the user's previous passwords.
+ * @param password The password to check.
+ * @param context The user's details, with the `isPreviousPassword` callback.
+ * @param previous The result of an async check, if one was made.
+ * @returns The outcome of the check.
+ * @throws {Error} If the callback returns a promise outside `validatePasswordAsync`.
+ * @internal
+ */
+function checkNotPreviousPassword(
+	password: string,
+	context: PasswordContext = {},
+	previous?: boolean
+): PasswordCheck {
+	if (!context.isPreviousPassword) {
+		return { passed: true, required: false };
+	}
+
+	const reused = previous ?? context.isPreviousPassword(password);
+	if (typeof reused !== 'boolean') {
+		throw new Error(
+			'context.isPreviousPassword returned a promise; use validatePasswordAsync'
+		);
+	}
+	return { passed: !reused, required: true, code: 'PREVIOUS_PASSWORD' };
+}
+
+/** @internal */
+function countMatches(text: string, pattern: RegExp): number {
+	return (text.match(pattern) ?? []).length;
+}
+
 /**
  * Checks if the password matches a custom regex pattern.
  * @param password The password to check.
  * @param customPattern A custom regex pattern to test against.
- * @returns An object indicating if the check passed, if it was required, and a message.
+ * @returns The outcome, with `INVALID_PATTERN` if the pattern doesn't compile.
  * @internal
  */
 function checkCustomPattern(
 	password: string,
 	customPattern?: string | RegExp
-): { passed: boolean; required: boolean; message: string } {
+): PasswordCheck {
 	if (!customPattern) {
-		return { passed: true, required: false, message: '' };
+		return { passed: true, required: false };
 	}
 
 	try {
@@ -317,17 +584,9 @@ function checkCustomPattern(
 				? new RegExp(customPattern)
 				: customPattern;
 		const passed = pattern.test(password);
-		return {
-			passed,
-			required: true,
-			message: 'Password must match the custom pattern',
-		};
+		return { passed, required: true, code: 'CUSTOM_PATTERN' };
 	} catch (error) {
-		return {
-			passed: false,
-			required: true,
-			message: 'Invalid custom pattern provided',
-		};
+		return { passed: false, required: true, code: 'INVALID_PATTERN' };
 	}
 }
 
@@ -408,6 +667,31 @@ export function hasCommonWords(password: string): boolean {
 	);
 }
 
+/**
+ * Finds a run of neighbouring keys on a QWERTY keyboard, along a row ("qwer", "asdf") or
+ * down a column ("1qaz"), in either direction. Runs of digits only are left to
+ * `hasSequentialChars`.
+ *
+ * @param password The string to check.
+ * @param minLength The fewest keys in a run. Defaults to 4.
+ * @returns The longest run starting at the first one found, as typed, or `null`.
+ */
+export function findKeyboardPattern(
+	password: string,
+	minLength: number = 4
+): string | null {
+	const lower = password.toLowerCase();
+	for (let i = 0; i + minLength <= lower.length; i++) {
+		const slice = lower.slice(i, i + minLength);
+		if (/^\d+$/.test(slice) || !isKeyboardRun(slice)) continue;
+
+		let end = i + minLength;
+		while (end < lower.length && isKeyboardRun(lower.slice(i, end + 1))) end++;
+		return password.slice(i, end);
+	}
+	return null;
+}
+
 /**
  * Calculates a strength score for the password based on various criteria.
  * @param password The password string.
@@ -451,6 +735,16 @@ function calculatePasswordScore(
 	// Penalty for common words (even if not required)
 	if (hasCommonWords(password)) score -= 20;
 
+	// Known-compromised passwords are tried first by attackers
+	if (results.noBreached.required && !results.noBreached.passed) {
+		score = Math.min(score, 10);
+	}
+
+	// Targeted attacks start from the user's own name, company and birth date
+	if (results.noPersonalInfo.required && !results.noPersonalInfo.passed) {
+		score = Math.min(score, 20);
+	}
+
 	// Harsh penalty for very short passwords
 	if (length <= 3) score -= 30;
 	else if (length < 6) score -= 10;
@@ -492,8 +786,9 @@ function calculatePasswordStrength(
  * Provides suggestions for improving a password based on failed validation checks.
  *
  * @param password The password that was tested.
- * @param options The validation options that were used.
- * @returns An array of string suggestions to improve the password.
+ * @param options The validation options that were used; `locale` picks the language.
+ * @returns Up to five suggestions: the failed requirements, then the messages of
+ * `feedback.suggestions`.
  */
 export function getPasswordSuggestions(
 	password: string,
@@ -506,82 +801,10 @@ export function getPasswordSuggestions(
 		suggestions.push(...result.error.requirements);
 	}
 
-	// Additional suggestions based on strength
-	if (result.strength === 'very-weak' || result.strength === 'weak') {
-		suggestions.push(
-			'Consider using a longer password (12+ characters)',
-			'Mix uppercase and lowercase letters',
-			'Include numbers and special characters',
-			'Avoid common words and patterns'
-		);
-	} else if (result.strength === 'fair') {
-		suggestions.push(
-			'Add more character variety for better security',
-			'Consider increasing the length further'
-		);
-	}
+	// Additional suggestions based on strength and weak patterns
+	suggestions.push(
+		...result.feedback.suggestions.map((suggestion) => suggestion.message)
+	);
 
 	return suggestions.slice(0, 5); // Limit to 5 suggestions
 }
-
-/**
- * Generates a strong, random password that adheres to specified criteria.
- *
- * @param length The desired length of the password. Defaults to 12.
- * @param options Options to customize the character sets to include in the generated password.
- * @returns A securely generated password string.
- */
-export function generateStrongPassword(
-	length: number = 12,
-	options: Partial<PasswordValidationOptions> = {}
-): string {
-	const chars = {
-		lowercase: 'abcdefghijklmnopqrstuvwxyz',
-		uppercase: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
-		numbers: '0123456789',
-		special: '!@#$%^&*()_+-=[]{}|;:,.<>?',
-		symbols: '~`!"#$%^&*()_+-=[]{}\\|;:\'",.<>?/',
-	};
-
-	let charSet = '';
-	let password = '';
-
-	// Ensure required character types
-	if (options.hasLowerChar !== false) {
-		charSet += chars.lowercase;
-		password +=
-			chars.lowercase[Math.floor(Math.random() * chars.lowercase.length)];
-	}
-
-	if (options.hasUpperChar !== false) {
-		charSet += chars.uppercase;
-		password +=
-			chars.uppercase[Math.floor(Math.random() * chars.uppercase.length)];
-	}
-
-	if (options.hasNumber !== false) {
-		charSet += chars.numbers;
-		password += chars.numbers[Math.floor(Math.random() * chars.numbers.length)];
-	}
-
-	if (options.hasSpecial !== false) {
-		charSet += chars.special;
-		password += chars.special[Math.floor(Math.random() * chars.special.length)];
-	}
-
-	if (options.hasSymbol) {
-		charSet += chars.symbols;
-		password += chars.symbols[Math.floor(Math.random() * chars.symbols.length)];
-	}
-
-	// Fill remaining length
-	while (password.length < length) {
-		password += charSet[Math.floor(Math.random() * charSet.length)];
-	}
-
-	// Shuffle the password to avoid predictable patterns
-	return password
-		.split('')
-		.sort(() => Math.random() - 0.5)
-		.join('');
-}
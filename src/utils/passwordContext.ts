@@ -0,0 +1,269 @@
+/**
+ * @fileoverview Password Context - Detects passwords built from the user's own details
+ * @module Password Validation
+ * @category Utilities
+ * @group Password Validation
+ * @author duongnguyen321 - https://duonguyen.site
+ */
+
+import type { PasswordContext } from '../../types/index.js';
+import { parseDate } from './dates.js';
+
+/** The details of a `PasswordContext` that `findPersonalInfo` compares against. */
+export type PersonalInfoField =
+	| 'username'
+	| 'email'
+	| 'fullName'
+	| 'birthDate'
+	| 'companyName';
+
+/** Shorter words would reject almost every password. */
+const MIN_WORD_LENGTH = 3;
+
+/** Common l33t substitutions, read back as letters; `1` is tried as both i and l. */
+const LEET_SUBSTITUTIONS: Array<Record<string, string>> = [
+	{
+		'0': 'o',
+		'1': 'i',
+		'3': 'e',
+		'4': 'a',
+		'5': 's',
+		'7': 't',
+		'8': 'b',
+		'9': 'g',
+		'@': 'a',
+		$: 's',
+		'!': 'i',
+		'|': 'l',
+		'+': 't',
+	},
+	{ '1': 'l' },
+];
+
+/** Parts of a company name too generic to reject on their own. */
+const COMPANY_SUFFIXES = [
+	'and',
+	'the',
+	'inc',
+	'llc',
+	'ltd',
+	'plc',
+	'corp',
+	'gmbh',
+	'group',
+	'company',
+	'corporation',
+];
+
+/**
+ * Finds which of the user's details a password contains or closely resembles. Both
+ * sides are compared case-folded, and the password also reversed and with l33t
+ * substitutions read back as letters ("C0mp4ny", "ynapmoc"). Words of five letters or
+ * more also match within one typo (two from nine letters), counting a swap of
+ * neighbouring letters as one. A birth date matches as its year and as day-month,
+ * month-day and full-date digit runs.
+ *
+ * @param password - The password to check.
+ * @param context - The user's details.
+ * @returns The first detail found, or `null`.
+ * @throws {Error} If `birthDate` is a string that isn't an ISO 8601 date.
+ */
+export function findPersonalInfo(
+	password: string,
+	context: PasswordContext
+): PersonalInfoField | null {
+	const lower = password.toLowerCase();
+	const forms = passwordForms(lower);
+	const letters = forms.map((form) => form.replace(/[^a-z\u00c0-\uffff]/g, ''));
+	for (const [field, words] of personalFields(context)) {
+		for (const word of words) {
+			if (/^\d+$/.test(word)) {
+				// Digits are only compared as typed, or "2024" would read as "zoza"
+				if (lower.indexOf(word) !== -1) return field;
+			} else if (
+				forms.some((form) => form.indexOf(word) !== -1) ||
+				letters.some((form) => resembles(form, word))
+			) {
+				return field;
+			}
+		}
+	}
+	return null;
+}
+
+/**
+ * Lists the words `findPersonalInfo` looks for: each name, the local part of the email,
+ * the company name without suffixes, and the digit runs of the birth date.
+ * @param context - The user's details.
+ * @returns The lower-cased words, in the order of the details.
+ * @throws {Error} If `birthDate` is a string that isn't an ISO 8601 date.
+ */
+export function personalWords(context: PasswordContext): string[] {
+	return personalFields(context).reduce<string[]>(
+		(words, [, fieldWords]) => words.concat(fieldWords),
+		[]
+	);
+}
+
+/**
+ * Reads a lower-cased password back with the common l33t substitutions, first with `1`
+ * as i, then also as l.
+ * @param lower - The lower-cased password.
+ * @returns One reading per substitution set, in that order.
+ */
+export function leetReadings(lower: string): string[] {
+	const readings: string[] = [];
+	let substitutions: Record<string, string> = {};
+	for (const extra of LEET_SUBSTITUTIONS) {
+		substitutions = { ...substitutions, ...extra };
+		const map = substitutions;
+		readings.push(lower.replace(/[\s\S]/g, (char) => map[char] ?? char));
+	}
+	return readings;
+}
+
+/**
+ * The words of each of the user's details.
+ * @internal
+ */
+function personalFields(
+	context: PasswordContext
+): Array<[PersonalInfoField, string[]]> {
+	return [
+		['username', textWords(context.username)],
+		['email', textWords(context.email?.split('@')[0])],
+		['fullName', textWords(context.fullName)],
+		['companyName', textWords(context.companyName, COMPANY_SUFFIXES)],
+		['birthDate', dateWords(context.birthDate)],
+	];
+}
+
+/**
+ * Checks whether a password contains any of the words, compared like the letter words
+ * of `findPersonalInfo` but without typo tolerance.
+ * @param password - The password to check.
+ * @param words - The words to reject; words shorter than three characters are ignored.
+ * @returns `true` if one of the words was found.
+ */
+export function containsWord(password: string, words: string[]): boolean {
+	const forms = passwordForms(password.toLowerCase());
+	return words.some((word) => {
+		const lower = word.toLowerCase();
+		return (
+			lower.length >= MIN_WORD_LENGTH &&
+			forms.some((form) => form.indexOf(lower) !== -1)
+		);
+	});
+}
+
+/**
+ * The lower-cased password, its l33t readings, and each of those reversed.
+ * @internal
+ */
+function passwordForms(lower: string): string[] {
+	const forms = [lower].concat(leetReadings(lower));
+	return forms
+		.concat(forms.map((form) => form.split('').reverse().join('')))
+		.filter((form, index, all) => all.indexOf(form) === index);
+}
+
+/**
+ * The words of a name or username to reject: the whole value without separators, and
+ * each run of letters.
+ * @internal
+ */
+function textWords(
+	value: string | undefined,
+	ignored: string[] = []
+): string[] {
+	if (!value) return [];
+	const lower = value.toLowerCase();
+	const words = [lower.replace(/[\s._'-]+/g, '')].concat(
+		lower
+			.split(/[^a-z\u00c0-\uffff]+/)
+			.filter((word) => ignored.indexOf(word) === -1)
+	);
+	return words.filter(
+		(word, index) =>
+			word.length >= MIN_WORD_LENGTH && words.indexOf(word) === index
+	);
+}
+
+/**
+ * The digit runs a birth date is usually written into passwords as.
+ * @internal
+ */
+function dateWords(value: Date | string | undefined): string[] {
+	if (value === undefined) return [];
+	const date = typeof value === 'string' ? parseDate(value) : value;
+	if (!date || isNaN(date.getTime())) {
+		throw new Error(`birthDate "${String(value)}" is not a valid date`);
+	}
+
+	const year = String(date.getUTCFullYear());
+	const month = ('0' + (date.getUTCMonth() + 1)).slice(-2);
+	const day = ('0' + date.getUTCDate()).slice(-2);
+	const shortYear = year.slice(-2);
+	return [
+		year + month + day,
+		day + month + year,
+		month + day + year,
+		day + month + shortYear,
+		month + day + shortYear,
+		shortYear + month + day,
+		year,
+		day + month,
+		month + day,
+	];
+}
+
+/**
+ * Whether some part of the password is within the typo budget of a word.
+ * @internal
+ */
+function resembles(text: string, word: string): boolean {
+	const budget = word.length >= 9 ? 2 : word.length >= 5 ? 1 : 0;
+	if (budget === 0) return false;
+	for (let size = word.length - budget; size <= word.length + budget; size++) {
+		for (let start = 0; start + size <= text.length; start++) {
+			if (editDistance(text.slice(start, start + size), word) <= budget) {
+				return true;
+			}
+		}
+	}
+	return false;
+}
+
+/**
+ * Levenshtein distance, also counting a swap of neighbouring characters as one edit.
+ * @internal
+ */
+function editDistance(a: string, b: string): number {
+	const rows: number[][] = [];
+	for (let i = 0; i <= a.length; i++) {
+		rows[i] = [i];
+	}
+	for (let j = 0; j <= b.length; j++) {
+		(rows[0] as number[])[j] = j;
+	}
+	for (let i = 1; i <= a.length; i++) {
+		const row = rows[i] as number[];
+		const previous = rows[i - 1] as number[];
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			let distance = Math.min(
+				(previous[j] ?? 0) + 1,
+				(row[j - 1] ?? 0) + 1,
+				(previous[j - 1] ?? 0) + cost
+			);
+			if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+				distance = Math.min(
+					distance,
+					((rows[i - 2] as number[])[j - 2] ?? 0) + 1
+				);
+			}
+			row[j] = distance;
+		}
+	}
+	return (rows[a.length] as number[])[b.length] ?? 0;
+}
@@ -0,0 +1,243 @@
+/**
+ * @fileoverview Password Generation - Cryptographically secure passwords and passphrases
+ * @module Password Validation
+ * @category Utilities
+ * @group Password Validation
+ * @author duongnguyen321 - https://duonguyen.site
+ */
+
+import type {
+	GeneratedPassphrase,
+	PassphraseOptions,
+	PasswordValidationOptions,
+} from '../../types/index.js';
+import { RGEX_CONFIG } from '../config/index.js';
+import { PASSPHRASE_WORDS } from '../constants/passphraseWords.js';
+import { hasAsyncBreachSource } from './breach.js';
+import { validatePassword } from './password.js';
+import { PasswordPolicy } from './passwordPolicy.js';
+
+const CHARACTER_SETS = {
+	lowercase: 'abcdefghijklmnopqrstuvwxyz',
+	uppercase: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+	numbers: '0123456789',
+	special: '!@#$%^&*()_+-=[]{}|;:,.<>?',
+	symbols: '~`!"#$%^&*()_+-=[]{}\\|;:\'",.<>?/',
+	unicode: 'äöüßéñçøåæ',
+};
+
+/** Random candidates tried before giving up on options that can't be met. */
+const MAX_ATTEMPTS = 1000;
+
+/**
+ * Generates a random password that passes `validatePassword` with the same options.
+ * Characters are drawn with `crypto.getRandomValues` and rejection sampling, so every
+ * character of a set is equally likely, and the result is shuffled with Fisher-Yates.
+ * Candidates failing a check that can't be built in (no sequences, forbidden words,
+ * breached passwords, a custom pattern) are discarded and drawn again. An async breach
+ * `provider` can't be waited for, so with one configured the breach check is skipped.
+ *
+ * @param length The desired length of the password. Defaults to 12, and is raised or
+ * lowered to fit `minLength` and `maxLength`.
+ * @param options The validation options or `PasswordPolicy` the password must satisfy.
+ * With plain options every character class is used unless turned off (e.g.
+ * `hasSpecial: false`); a policy uses letters, numbers and special characters.
+ * @returns A securely generated password string.
+ * @throws {Error} If no secure random source is available, or the options can't be met.
+ *
+ * @example
+ * ```typescript
+ * generateStrongPassword(16, { hasSymbol: true });
+ * generateStrongPassword(12, PasswordPolicy.preset('legacyEnterprise'));
+ * generateStrongPassword(10, { minUpper: 3, minNumbers: 3, noSequential: true });
+ * ```
+ */
+export function generateStrongPassword(
+	length: number = 12,
+	options: Partial<PasswordValidationOptions> | PasswordPolicy = {}
+): string {
+	if (!Number.isInteger(length) || length < 1) {
+		throw new Error(
+			`Password length must be a positive integer, got ${length}`
+		);
+	}
+
+	const isPolicy = options instanceof PasswordPolicy;
+	const validation = isPolicy ? options.toOptions() : options;
+	const checked =
+		validation.noBreached && hasAsyncBreachSource()
+			? { ...validation, noBreached: false }
+			: validation;
+	const opts = { ...RGEX_CONFIG.defaults.passwordValidation, ...validation };
+	const enabled = (flag: boolean | undefined, min: number | undefined) =>
+		isPolicy || flag !== false || (min ?? 0) > 0;
+
+	// Each set with the number of its characters the password needs
+	const sets: Array<[string, number]> = [];
+	const classes: Array<[string, boolean, boolean, number | undefined]> = [
+		[
+			CHARACTER_SETS.lowercase,
+			enabled(validation.hasLowerChar, opts.minLower),
+			opts.hasLowerChar,
+			opts.minLower,
+		],
+		[
+			CHARACTER_SETS.uppercase,
+			enabled(validation.hasUpperChar, opts.minUpper),
+			opts.hasUpperChar,
+			opts.minUpper,
+		],
+		[
+			CHARACTER_SETS.numbers,
+			enabled(validation.hasNumber, opts.minNumbers),
+			opts.hasNumber,
+			opts.minNumbers,
+		],
+		[
+			CHARACTER_SETS.special,
+			enabled(validation.hasSpecial, opts.minSpecial),
+			opts.hasSpecial,
+			opts.minSpecial,
+		],
+	];
+	for (const [characters, use, required, min] of classes) {
+		if (!use) continue;
+		// Plain options have always put at least one of each class in the password
+		const count = Math.max(min ?? 0, required || !isPolicy ? 1 : 0);
+		sets.push([characters, count]);
+	}
+	if (opts.hasSymbol) sets.push([CHARACTER_SETS.symbols, 1]);
+	if (opts.hasUnicode) sets.push([CHARACTER_SETS.unicode, 1]);
+	if ((opts.minLetters ?? 0) > 0) {
+		sets.push([
+			CHARACTER_SETS.lowercase + CHARACTER_SETS.uppercase,
+			opts.minLetters ?? 0,
+		]);
+	}
+
+	const pool = sets.map(([characters]) => characters).join('');
+	if (!pool) {
+		throw new Error('The options turn off every character class');
+	}
+	const requiredCount = sets.reduce((total, [, count]) => total + count, 0);
+	const maxLength = opts.maxLength ?? Number.POSITIVE_INFINITY;
+	const size = Math.min(
+		Math.max(length, opts.minLength, requiredCount),
+		maxLength
+	);
+	if (requiredCount > size) {
+		throw new Error(
+			`The options need ${requiredCount} characters but maxLength is ${maxLength}`
+		);
+	}
+
+	for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+		const characters: string[] = [];
+		for (const [set, count] of sets) {
+			for (let i = 0; i < count; i++) characters.push(pick(set));
+		}
+		while (characters.length < size) characters.push(pick(pool));
+		shuffle(characters);
+
+		const password = characters.join('');
+		if (validatePassword(password, checked).error === null) {
+			return password;
+		}
+	}
+	throw new Error(
+		'Could not generate a password that passes validatePassword with these options'
+	);
+}
+
+/**
+ * Generates a diceware-style passphrase: words drawn uniformly and independently with
+ * `crypto.getRandomValues` from a word list, 1024 bundled words by default.
+ *
+ * @param options - `words` (default 6), `separator` (default `-`), `capitalize` to
+ * upper-case the first letter of each word, and a custom `wordlist`.
+ * @returns The passphrase and its entropy in bits: 10 per word with the bundled list.
+ * Capitalization and the separator are fixed, so they add nothing.
+ * @throws {Error} If `words` isn't a positive integer, the word list has fewer than two
+ * distinct words, or no secure random source is available.
+ *
+ * @example
+ * ```typescript
+ * generatePassphrase(); // { passphrase: 'otter-plank-basil-tulip-lunar-fjord', entropyBits: 60 }
+ * generatePassphrase({ words: 4, separator: ' ', capitalize: true }).passphrase;
+ * // 'Walrus Canyon Kettle Orbit'
+ * ```
+ */
+export function generatePassphrase(
+	options: PassphraseOptions = {}
+): GeneratedPassphrase {
+	const count = options.words ?? 6;
+	if (!Number.isInteger(count) || count < 1) {
+		throw new Error(`words must be a positive integer, got ${count}`);
+	}
+	const list = (options.wordlist ?? PASSPHRASE_WORDS).filter(
+		(word, index, all) => word.length > 0 && all.indexOf(word) === index
+	);
+	if (list.length < 2) {
+		throw new Error('The word list needs at least 2 distinct words');
+	}
+
+	const words: string[] = [];
+	for (let i = 0; i < count; i++) {
+		const word = pick(list);
+		words.push(
+			options.capitalize ? word.charAt(0).toUpperCase() + word.slice(1) : word
+		);
+	}
+
+	const bits = (count * Math.log(list.length)) / Math.LN2;
+	return {
+		passphrase: words.join(options.separator ?? '-'),
+		entropyBits: Math.round(bits * 100) / 100,
+	};
+}
+
+/** @internal */
+function pick<T>(items: ArrayLike<T>): T {
+	return items[secureRandomInt(items.length)] as T;
+}
+
+/**
+ * Shuffles in place with Fisher-Yates, which unlike sorting with a random comparator
+ * makes every order equally likely.
+ * @internal
+ */
+function shuffle<T>(items: T[]): void {
+	for (let i = items.length - 1; i > 0; i--) {
+		const j = secureRandomInt(i + 1);
+		const item = items[i] as T;
+		items[i] = items[j] as T;
+		items[j] = item;
+	}
+}
+
+/**
+ * Draws an integer from 0 to `max - 1`. Values from the top of the 32-bit range that
+ * would make some results more likely than others are rejected and drawn again.
+ * @internal
+ */
+function secureRandomInt(max: number): number {
+	const source = (
+		globalThis as {
+			crypto?: { getRandomValues?: (array: Uint32Array) => Uint32Array };
+		}
+	).crypto;
+	if (!source || typeof source.getRandomValues !== 'function') {
+		throw new Error(
+			'A secure random source (crypto.getRandomValues) is not available'
+		);
+	}
+
+	const range = 0x100000000;
+	const limit = range - (range % max);
+	const buffer = new Uint32Array(1);
+	for (;;) {
+		source.getRandomValues(buffer);
+		const value = buffer[0] ?? 0;
+		if (value < limit) return value % max;
+	}
+}
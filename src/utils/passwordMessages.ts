@@ -0,0 +1,121 @@
+/**
+ * @fileoverview Password Messages - Locale catalogs for password requirements and feedback
+ * @module Password Validation
+ * @category Utilities
+ * @group Password Validation
+ * @author duongnguyen321 - https://duonguyen.site
+ */
+
+import type {
+	PasswordFeedbackParams,
+	PasswordMessageCatalog,
+	PasswordMessageKey,
+} from '../../types/index.js';
+import { PASSWORD_MESSAGES } from '../constants/passwordMessages.js';
+
+/** Where PERSONAL_INFO's `detail` param is looked up to name it in the message. */
+const DETAIL_KEYS: Record<string, PasswordMessageKey> = {
+	username: 'DETAIL_USERNAME',
+	email: 'DETAIL_EMAIL',
+	fullName: 'DETAIL_FULL_NAME',
+	companyName: 'DETAIL_COMPANY_NAME',
+	birthDate: 'DETAIL_BIRTH_DATE',
+	any: 'DETAIL_ANY',
+};
+
+const catalogs: Record<string, PasswordMessageCatalog> = {
+	en: { ...PASSWORD_MESSAGES.en },
+	vi: { ...PASSWORD_MESSAGES.vi },
+	ja: { ...PASSWORD_MESSAGES.ja },
+};
+
+/**
+ * Adds a locale for password messages, or replaces some messages of an existing one.
+ * Keys missing from a locale fall back to its language (`pt` for `pt-BR`), then English.
+ *
+ * @param locale - A BCP 47 tag such as `fr` or `pt-BR`, matched case-insensitively.
+ * @param messages - Messages by feedback code or other `PasswordMessageKey`, with
+ * `{param}` placeholders and `{ one, other }` forms for codes with a `count`.
+ * @throws {Error} If the locale is empty.
+ *
+ * @example
+ * ```typescript
+ * // With a maxLength (128 by default), a length error uses LENGTH_RANGE
+ * registerPasswordMessages('fr', {
+ *   LENGTH_RANGE: 'Le mot de passe doit contenir entre {min} et {max} caractères',
+ * });
+ * validatePassword('abc', { locale: 'fr-CA' }).feedback.warnings[0].message;
+ * // 'Le mot de passe doit contenir entre 8 et 128 caractères'
+ * ```
+ */
+export function registerPasswordMessages(
+	locale: string,
+	messages: PasswordMessageCatalog
+): void {
+	const tag = normalizeLocale(locale);
+	if (!tag) {
+		throw new Error('A password message locale must not be empty');
+	}
+	catalogs[tag] = { ...catalogs[tag], ...messages };
+}
+
+/**
+ * Renders a password message in a locale, e.g. to show feedback codes stored or sent
+ * by a server in the user's language.
+ *
+ * @param key - A feedback code or other `PasswordMessageKey`.
+ * @param params - The values of the placeholders, as in `PasswordFeedbackItem.params`.
+ * @param locale - The locale; falls back to its language, then English.
+ * @returns The message.
+ *
+ * @example
+ * ```typescript
+ * formatPasswordMessage('TOO_SHORT', { min: 12 }, 'vi'); // 'Mật khẩu phải có ít nhất 12 ký tự'
+ * formatPasswordMessage('PERSONAL_INFO', { detail: 'companyName' }, 'ja');
+ * // 'パスワードに会社名やそれに似た文字列を含めないでください'
+ * ```
+ */
+export function formatPasswordMessage(
+	key: PasswordMessageKey,
+	params: PasswordFeedbackParams = {},
+	locale: string = 'en'
+): string {
+	const message = lookup(key, locale);
+	const template =
+		typeof message === 'string'
+			? message
+			: params.count === 1
+			? message.one
+			: message.other;
+
+	const detailKey =
+		params.detail === undefined ? undefined : DETAIL_KEYS[params.detail];
+	const values: PasswordFeedbackParams = detailKey
+		? { ...params, detail: formatPasswordMessage(detailKey, {}, locale) }
+		: params;
+	return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+		values[name] === undefined ? placeholder : String(values[name])
+	);
+}
+
+/**
+ * Finds a message in the locale, its language, or English.
+ * @internal
+ */
+function lookup(
+	key: PasswordMessageKey,
+	locale: string
+): NonNullable<PasswordMessageCatalog[PasswordMessageKey]> {
+	const tag = normalizeLocale(locale);
+	const chain = [tag, tag.split('-')[0] ?? '', 'en'];
+	for (const candidate of chain) {
+		const message = catalogs[candidate]?.[key];
+		if (message !== undefined) return message;
+	}
+	return PASSWORD_MESSAGES.en[key];
+}
+
+/** @internal */
+function normalizeLocale(locale: string): string {
+	return locale.trim().replace(/_/g, '-').toLowerCase();
+}
@@ -0,0 +1,357 @@
+/**
+ * @fileoverview Password Policies - Declarative password rules with standard presets
+ * @module Password Validation
+ * @category Utilities
+ * @group Password Validation
+ * @author duongnguyen321 - https://duonguyen.site
+ */
+
+import type {
+	PasswordContext,
+	PasswordPolicyPreset,
+	PasswordPolicyRules,
+	PasswordValidationOptions,
+	PasswordValidationResult,
+	ValidationRule,
+} from '../../types/index.js';
+import { RGEX_CONFIG } from '../config/index.js';
+import { PASSWORD_POLICY_PRESETS } from '../constants/passwordPolicies.js';
+import { hasAsyncBreachSource } from './breach.js';
+import { validatePassword, validatePasswordAsync } from './password.js';
+import { formatPasswordMessage } from './passwordMessages.js';
+
+/** Rules holding counts, which must be non-negative integers. */
+const COUNT_RULES = [
+	'minLength',
+	'maxLength',
+	'minUpper',
+	'minLower',
+	'minNumbers',
+	'minSpecial',
+	'minLetters',
+	'maxConsecutive',
+] as const;
+
+/** Words that select a preset in `t2v`, e.g. "nist password". */
+const PRESET_KEYWORDS: Array<[RegExp, PasswordPolicyPreset]> = [
+	[/\b(?:nist|800-63b?)\b/, 'nist'],
+	[/\b(?:owasp|asvs)\b/, 'owasp'],
+	[/\bpci(?:[ -]?dss)?\b/, 'pciDss'],
+	[/\b(?:legacy|enterprise)\b/, 'legacyEnterprise'],
+];
+
+/** "2 uppercase", "1 special character", "3 or more digits". */
+const CLASS_COUNT =
+	/\b(\d+)\s+(?:or more\s+)?(upper ?case|capitals?|lower ?case|numbers?|digits?|numerals?|special|symbols?|letters?)\b/;
+
+/**
+ * A password policy: what a password must contain and avoid, as plain data that can be
+ * stored, shared with a UI through `describe()`, and checked with `validate()`. Build one
+ * from rules, or start from a standard with `PasswordPolicy.preset()`.
+ *
+ * @example
+ * ```typescript
+ * const policy = new PasswordPolicy({ minLength: 10, minUpper: 2, minNumbers: 2 });
+ * policy.describe();
+ * // ['10 to 128 characters', 'At least 2 uppercase letters', 'At least 2 numbers']
+ * policy.test('ABcdefgh12'); // true
+ *
+ * const nist = PasswordPolicy.preset('nist').extend({ forbidden: ['acme'] });
+ * nist.validate('acme-rocks-2024', { username: 'jdoe' }).pass.noForbidden.passed; // false
+ * ```
+ */
+export class PasswordPolicy {
+	readonly rules: Readonly<PasswordPolicyRules>;
+
+	/**
+	 * @param rules - The requirements. Unset rules impose nothing, except that the length
+	 * defaults to `RGEX_CONFIG.defaults.passwordValidation`.
+	 * @throws {Error} If a count isn't a non-negative integer or `minLength` is greater than
+	 * `maxLength`.
+	 */
+	constructor(rules: PasswordPolicyRules = {}) {
+		for (const key of COUNT_RULES) {
+			const value = rules[key];
+			if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+				throw new Error(
+					`Password policy ${key} must be a non-negative integer, got ${value}`
+				);
+			}
+		}
+		const { minLength, maxLength } = this.lengthRange(rules);
+		if (minLength > maxLength) {
+			throw new Error(
+				`Password policy minLength ${minLength} is greater than maxLength ${maxLength}`
+			);
+		}
+
+		const copy: PasswordPolicyRules = { ...rules };
+		if (rules.forbidden) copy.forbidden = [...rules.forbidden];
+		this.rules = Object.freeze(copy);
+	}
+
+	/**
+	 * Creates a policy from a built-in standard (see `PASSWORD_POLICY_PRESETS`).
+	 * @param name - `nist`, `owasp`, `pciDss` or `legacyEnterprise`.
+	 * @returns The policy.
+	 * @throws {Error} If there is no preset with that name.
+	 */
+	static preset(name: PasswordPolicyPreset): PasswordPolicy {
+		const rules = Object.prototype.hasOwnProperty.call(
+			PASSWORD_POLICY_PRESETS,
+			name
+		)
+			? PASSWORD_POLICY_PRESETS[name]
+			: undefined;
+		if (!rules) {
+			throw new Error(`Unknown password policy preset "${name}"`);
+		}
+		return new PasswordPolicy(rules);
+	}
+
+	/**
+	 * Creates a policy with some rules added or replaced, leaving this one unchanged.
+	 * @param rules - The rules to change.
+	 * @returns The new policy.
+	 */
+	extend(rules: PasswordPolicyRules): PasswordPolicy {
+		return new PasswordPolicy({ ...this.rules, ...rules });
+	}
+
+	/**
+	 * Converts the policy into `validatePassword` options. Every check the policy doesn't
+	 * ask for is turned off, so the library defaults don't add requirements.
+	 * @param context - The user's own details (see `PasswordContext`).
+	 * @returns The options.
+	 */
+	toOptions(context?: PasswordContext): PasswordValidationOptions {
+		const rules = this.rules;
+		return {
+			...this.lengthRange(rules),
+			hasNumber: false,
+			hasSpecial: false,
+			hasUpperChar: false,
+			hasLowerChar: false,
+			hasSymbol: false,
+			hasUnicode: false,
+			noSequential: rules.noSequential ?? false,
+			noRepeating: false,
+			noCommonWords: rules.noCommonWords ?? false,
+			noBreached: rules.noBreached ?? false,
+			minUpper: rules.minUpper,
+			minLower: rules.minLower,
+			minNumbers: rules.minNumbers,
+			minSpecial: rules.minSpecial,
+			minLetters: rules.minLetters,
+			maxConsecutive: rules.maxConsecutive,
+			forbidden: rules.forbidden,
+			context,
+		};
+	}
+
+	/**
+	 * Validates a password against the policy. A synchronous check can't wait for an
+	 * async breach `provider` (see `setBreachSource`), so with one configured `noBreached`
+	 * is reported as `skipped` instead; use `validateAsync` to check it.
+	 * @param password - The password to validate.
+	 * @param context - The user's own details (see `PasswordContext`).
+	 * @returns The `validatePassword` result.
+	 */
+	validate(
+		password: string,
+		context?: PasswordContext
+	): PasswordValidationResult {
+		const options = this.toOptions(context);
+		if (!options.noBreached || !hasAsyncBreachSource()) {
+			return validatePassword(password, options);
+		}
+
+		const result = validatePassword(password, {
+			...options,
+			noBreached: false,
+		});
+		result.pass.noBreached = {
+			passed: true,
+			required: true,
+			skipped: true,
+			message: formatPasswordMessage(
+				'BREACH_UNCHECKED',
+				{},
+				RGEX_CONFIG.defaults.passwordValidation.locale
+			),
+		};
+		return result;
+	}
+
+	/**
+	 * Validates a password against the policy, waiting for the breach lookup when the
+	 * breach source is an async provider.
+	 * @param password - The password to validate.
+	 * @param context - The user's own details (see `PasswordContext`).
+	 * @returns A promise of the `validatePasswordAsync` result.
+	 */
+	validateAsync(
+		password: string,
+		context?: PasswordContext
+	): Promise<PasswordValidationResult> {
+		return validatePasswordAsync(password, this.toOptions(context));
+	}
+
+	/**
+	 * Checks whether a password meets every requirement of the policy. Like `validate`,
+	 * it skips `noBreached` when the breach source is an async provider.
+	 * @param password - The password to check.
+	 * @param context - The user's own details (see `PasswordContext`).
+	 * @returns `true` if the password is acceptable.
+	 */
+	test(password: string, context?: PasswordContext): boolean {
+		return this.validate(password, context).error === null;
+	}
+
+	/**
+	 * Checks whether a password meets every requirement of the policy, including
+	 * `noBreached` against an async breach provider.
+	 * @param password - The password to check.
+	 * @param context - The user's own details (see `PasswordContext`).
+	 * @returns A promise of `true` if the password is acceptable.
+	 */
+	async testAsync(
+		password: string,
+		context?: PasswordContext
+	): Promise<boolean> {
+		return (await this.validateAsync(password, context)).error === null;
+	}
+
+	/**
+	 * Lists the requirements in short sentences for a sign-up form.
+	 * @returns One line per requirement, length first.
+	 */
+	describe(): string[] {
+		const rules = this.rules;
+		const { minLength, maxLength } = this.lengthRange(rules);
+		const lines = [`${minLength} to ${maxLength} characters`];
+
+		const counts: Array<[number | undefined, string, string]> = [
+			[rules.minUpper, 'uppercase letter', 'uppercase letters'],
+			[rules.minLower, 'lowercase letter', 'lowercase letters'],
+			[rules.minLetters, 'letter', 'letters'],
+			[rules.minNumbers, 'number', 'numbers'],
+			[rules.minSpecial, 'special character', 'special characters'],
+		];
+		for (const [count, singular, plural] of counts) {
+			if (count) {
+				lines.push(`At least ${count} ${count === 1 ? singular : plural}`);
+			}
+		}
+
+		if (rules.maxConsecutive !== undefined) {
+			lines.push(
+				`No more than ${rules.maxConsecutive} identical characters in a row`
+			);
+		}
+		if (rules.noSequential) lines.push('No sequences such as abc or 123');
+		if (rules.noCommonWords) {
+			lines.push('No common words such as "password"');
+		}
+		if (rules.noBreached) lines.push('Not found in known data breaches');
+		if (rules.forbidden && rules.forbidden.length > 0) {
+			lines.push(
+				`Must not contain ${rules.forbidden
+					.map((word) => `"${word}"`)
+					.join(', ')}`
+			);
+		}
+		return lines;
+	}
+
+	/**
+	 * Converts the policy into a validation rule, as `t2v` returns it.
+	 * @returns A rule named `passwordPolicy` whose validator applies the whole policy.
+	 */
+	toRule(): ValidationRule {
+		const { minLength, maxLength } = this.lengthRange(this.rules);
+		return {
+			name: 'passwordPolicy',
+			pattern: new RegExp(`^[\\s\\S]{${minLength},${maxLength}}$`),
+			message: `Password must meet these requirements: ${this.describe().join(
+				'; '
+			)}`,
+			validator: (value: string) => this.test(value),
+		};
+	}
+
+	/** @internal */
+	private lengthRange(rules: PasswordPolicyRules): {
+		minLength: number;
+		maxLength: number;
+	} {
+		const defaults = RGEX_CONFIG.defaults.passwordValidation;
+		return {
+			minLength: rules.minLength ?? defaults.minLength,
+			maxLength: rules.maxLength ?? defaults.maxLength,
+		};
+	}
+}
+
+/**
+ * Reads a password policy from a description such as "password with 2 uppercase 2
+ * lowercase 2 numbers" or "nist password". Only descriptions of a password with class
+ * counts, a repetition limit or a named standard count; plain "strong password" keeps
+ * its fixed rule.
+ * @param text - The normalized description.
+ * @returns The rules, holding only what the text asks for, or `null`.
+ */
+export function parsePasswordPolicy(text: string): PasswordPolicyRules | null {
+	if (!/\bpasswords?\b/.test(text)) return null;
+
+	const preset = PRESET_KEYWORDS.find(([keyword]) => keyword.test(text))?.[1];
+	const rules: PasswordPolicyRules = preset
+		? { ...PASSWORD_POLICY_PRESETS[preset] }
+		: {};
+	let found = preset !== undefined;
+
+	const counts = new RegExp(CLASS_COUNT.source, 'g');
+	let match: RegExpExecArray | null;
+	while ((match = counts.exec(text)) !== null) {
+		const value = Number(match[1]);
+		const kind = match[2] ?? '';
+		if (/^upper|^capital/.test(kind)) rules.minUpper = value;
+		else if (/^lower/.test(kind)) rules.minLower = value;
+		else if (/^(?:number|digit|numeral)/.test(kind)) rules.minNumbers = value;
+		else if (/^letter/.test(kind)) rules.minLetters = value;
+		else rules.minSpecial = value;
+		found = true;
+	}
+
+	const repeats = text.match(
+		/\b(?:no more than|at most|max(?:imum)?(?: of)?)\s+(\d+)\s+(?:identical|repeated|repeating|consecutive|same)\b/
+	);
+	if (repeats?.[1]) {
+		rules.maxConsecutive = Number(repeats[1]);
+		found = true;
+	}
+	if (!found) return null;
+
+	const between = text.match(
+		/\bbetween\s+(\d+)\s+and\s+(\d+)\s+(?:characters?|chars?)\b/
+	);
+	const min = text.match(
+		/\b(?:at least|min(?:imum)?(?:\s+length)?(?:\s+of)?)\s+(\d+)(?!\d)\s*(?:characters?|chars?)?(?!\s*(?:upper|lower|capital|number|digit|numeral|special|symbol|letter|or more))/
+	);
+	const max = text.match(
+		/\b(?:at most|up to|no more than|max(?:imum)?(?:\s+length)?(?:\s+of)?)\s+(\d+)\s*(?:characters?|chars?)\b/
+	);
+	const lengthMin = between?.[1] ?? min?.[1];
+	const lengthMax = between?.[2] ?? max?.[1];
+	if (lengthMin) rules.minLength = Number(lengthMin);
+	if (lengthMax) rules.maxLength = Number(lengthMax);
+
+	if (/\bno sequen|\bwithout sequen/.test(text)) rules.noSequential = true;
+	if (/\b(?:no|without) (?:common|dictionary) words?\b/.test(text)) {
+		rules.noCommonWords = true;
+	}
+	if (/\b(?:breach(?:ed|es)?|pwned|compromised)\b/.test(text)) {
+		rules.noBreached = true;
+	}
+	return rules;
+}
@@ -0,0 +1,646 @@
+/**
+ * @fileoverview Password Strength - Estimates how many guesses an attacker needs for a password
+ * @module Password Validation
+ * @category Utilities
+ * @group Password Validation
+ * @author duongnguyen321 - https://duonguyen.site
+ */
+
+import type {
+	PasswordCrackTimes,
+	PasswordSegment,
+	PasswordStrengthEstimate,
+} from '../../types/index.js';
+import { COMMON_PASSWORDS } from '../constants/patterns.js';
+import { PASSPHRASE_WORDS } from '../constants/passphraseWords.js';
+import { leetReadings } from './passwordContext.js';
+
+/** Rows and columns of a US QWERTY keyboard. */
+const KEYBOARD_LINES = [
+	'`1234567890-=',
+	'qwertyuiop[]\\',
+	"asdfghjkl;'",
+	'zxcvbnm,./',
+	'1qaz',
+	'2wsx',
+	'3edc',
+	'4rfv',
+	'5tgb',
+	'6yhn',
+	'7ujm',
+	'8ik,',
+	'9ol.',
+	'0p;/',
+];
+
+/** Keys a keyboard walk can start from, counted once per line they are on. */
+const KEYBOARD_STARTS = KEYBOARD_LINES.join('').length;
+
+/** Guesses per second of each attacker model. */
+const GUESS_RATES: PasswordCrackTimes = {
+	onlineThrottled: 100 / 3600,
+	onlineUnthrottled: 10,
+	offlineSlowHash: 1e4,
+	offlineFastHash: 1e10,
+};
+
+/** Later characters don't change the verdict, only the cost of finding segments. */
+const MAX_ANALYZED_LENGTH = 100;
+
+/** Guesses per character of a part no pattern explains. */
+const BRUTEFORCE_CARDINALITY = 10;
+
+/** The fewest guesses a part smaller than the whole password is counted as. */
+const MIN_GUESSES_SINGLE_CHAR = 10;
+const MIN_GUESSES_MULTI_CHAR = 50;
+
+/** How much each extra segment multiplies the attacker's search, at least. */
+const MIN_GUESSES_PER_SEGMENT = 1e4;
+
+/** Years this close to the current one are all about as likely. */
+const MIN_YEAR_SPACE = 20;
+
+/** Characters that start the sequences people type first: `abc`, `zyx`, `123`, `987`. */
+const OBVIOUS_SEQUENCE_STARTS = 'aAzZ019';
+
+/**
+ * Estimates how many guesses an attacker needs for a password, the way zxcvbn does. The
+ * password is split into the segments an attacker would guess it by: common passwords
+ * and words (also in l33t spelling, reversed or capitalized), keyboard walks, sequences,
+ * dates and repeats, with anything else guessed character by character. The split
+ * needing the fewest guesses wins, so `Password1!` is read as a common password with a
+ * capital, a digit and a symbol, not as ten random characters.
+ *
+ * @param password - The password to estimate. Only its first 100 characters are read.
+ * @param userWords - Words an attacker targeting this user would try first, such as
+ * their name; they rank above every built-in word.
+ * @returns The guesses, their base-10 logarithm, the seconds each attacker model needs
+ * and the segments.
+ *
+ * @example
+ * ```typescript
+ * estimatePasswordStrength('Password1!').segments.map((segment) => segment.pattern);
+ * // ['dictionary', 'bruteforce']
+ * estimatePasswordStrength('Password1!').crackTimes.offlineSlowHash; // 2 (seconds)
+ * ```
+ */
+export function estimatePasswordStrength(
+	password: string,
+	userWords: string[] = []
+): PasswordStrengthEstimate {
+	const analyzed = password.slice(0, MAX_ANALYZED_LENGTH);
+	const ranks = dictionaryRanks(userWords);
+	const { guesses, segments } = mostGuessable(
+		analyzed,
+		findSegments(analyzed, ranks)
+	);
+	const crackTimes = {} as PasswordCrackTimes;
+	for (const model of Object.keys(GUESS_RATES) as Array<
+		keyof PasswordCrackTimes
+	>) {
+		crackTimes[model] = guesses / GUESS_RATES[model];
+	}
+	return {
+		guesses,
+		guessesLog10: Math.log(guesses) / Math.LN10,
+		crackTimes,
+		segments,
+	};
+}
+
+/**
+ * Checks whether a string runs along a row or column of a QWERTY keyboard, in either
+ * direction.
+ * @param text - The lower-cased text to check.
+ * @returns `true` if the keys of `text` are neighbours on one keyboard line.
+ */
+export function isKeyboardRun(text: string): boolean {
+	const reversed = text.split('').reverse().join('');
+	return KEYBOARD_LINES.some(
+		(line) => line.indexOf(text) !== -1 || line.indexOf(reversed) !== -1
+	);
+}
+
+/**
+ * The rank of every known word, as the guesses an attacker needs to reach it: the
+ * user's words first, then the common passwords in order, then the passphrase words,
+ * which a diceware-aware attacker tries as one list.
+ * @internal
+ */
+function dictionaryRanks(userWords: string[]): Record<string, number> {
+	const ranks: Record<string, number> = Object.create(null);
+	const add = (word: string, rank: number) => {
+		const lower = word.toLowerCase();
+		const current = ranks[lower];
+		if (lower.length > 0 && (current === undefined || rank < current)) {
+			ranks[lower] = rank;
+		}
+	};
+	userWords.forEach((word, index) => add(word, index + 1));
+	COMMON_PASSWORDS.forEach((word, index) =>
+		add(word, userWords.length + index + 1)
+	);
+	const listRank =
+		userWords.length + COMMON_PASSWORDS.length + PASSPHRASE_WORDS.length;
+	PASSPHRASE_WORDS.forEach((word) => add(word, listRank));
+	return ranks;
+}
+
+/**
+ * Finds every segment any pattern explains. They may overlap; `mostGuessable` picks.
+ * @internal
+ */
+function findSegments(
+	password: string,
+	ranks: Record<string, number>
+): PasswordSegment[] {
+	return dictionarySegments(password, ranks).concat(
+		keyboardSegments(password),
+		sequenceSegments(password),
+		dateSegments(password),
+		repeatSegments(password, ranks)
+	);
+}
+
+/**
+ * Known words of three letters or more, as typed, in l33t spelling and reversed.
+ * @internal
+ */
+function dictionarySegments(
+	password: string,
+	ranks: Record<string, number>
+): PasswordSegment[] {
+	const lower = password.toLowerCase();
+	const length = lower.length;
+	const readings = [lower]
+		.concat(leetReadings(lower))
+		.filter((reading, index, all) => all.indexOf(reading) === index);
+	const segments: PasswordSegment[] = [];
+
+	for (const reversed of [false, true]) {
+		for (const reading of readings) {
+			const text = reversed ? reverse(reading) : reading;
+			for (let i = 0; i < length; i++) {
+				for (let j = i + 3; j <= length; j++) {
+					const word = text.slice(i, j);
+					const rank = ranks[word];
+					if (rank === undefined) continue;
+
+					const start = reversed ? length - j : i;
+					const end = reversed ? length - i : j;
+					const token = password.slice(start, end);
+					const typed = lower.slice(start, end);
+					const read = reversed ? reverse(word) : word;
+					if (reversed && word === typed) continue; // a palindrome
+					const l33t = read !== typed;
+					segments.push({
+						pattern: 'dictionary',
+						token,
+						start,
+						end,
+						guesses:
+							rank *
+							caseVariations(token) *
+							(l33t ? leetVariations(typed, read) : 1) *
+							(reversed ? 2 : 1),
+						word,
+						l33t,
+						reversed,
+					});
+				}
+			}
+		}
+	}
+	return segments;
+}
+
+/**
+ * The longest run of neighbouring keys from each position, of three keys or more. Runs
+ * of digits only are left to `sequenceSegments`.
+ * @internal
+ */
+function keyboardSegments(password: string): PasswordSegment[] {
+	const lower = password.toLowerCase();
+	const segments: PasswordSegment[] = [];
+	for (let i = 0; i + 3 <= lower.length; i++) {
+		let end = i + 1;
+		while (end < lower.length && isKeyboardRun(lower.slice(i, end + 1))) end++;
+		const token = password.slice(i, end);
+		if (token.length < 3 || /^\d+$/.test(token)) continue;
+
+		segments.push({
+			pattern: 'keyboard',
+			token,
+			start: i,
+			end,
+			// The start key, the direction and the length
+			guesses:
+				KEYBOARD_STARTS *
+				2 *
+				token.length *
+				(token === lower.slice(i, end) ? 1 : 2),
+		});
+	}
+	return segments;
+}
+
+/**
+ * Runs of three or more digits or letters of one case that go up or down by one,
+ * such as `abc`, `987` or `XYZ`.
+ * @internal
+ */
+function sequenceSegments(password: string): PasswordSegment[] {
+	const kind = (char: string) =>
+		/\d/.test(char)
+			? 'digit'
+			: /[a-z]/.test(char)
+			? 'lower'
+			: /[A-Z]/.test(char)
+			? 'upper'
+			: '';
+	const segments: PasswordSegment[] = [];
+
+	for (let i = 0; i + 2 < password.length; ) {
+		const first = password[i] ?? '';
+		const delta = password.charCodeAt(i + 1) - password.charCodeAt(i);
+		let end = i + 1;
+		while (
+			end < password.length &&
+			kind(first) !== '' &&
+			kind(password[end] ?? '') === kind(first) &&
+			(delta === 1 || delta === -1) &&
+			password.charCodeAt(end) - password.charCodeAt(end - 1) === delta
+		) {
+			end++;
+		}
+		if (end - i < 3) {
+			i++;
+			continue;
+		}
+
+		const token = password.slice(i, end);
+		const base =
+			OBVIOUS_SEQUENCE_STARTS.indexOf(first) !== -1
+				? 4
+				: kind(first) === 'digit'
+				? 10
+				: kind(first) === 'lower'
+				? 26
+				: 52;
+		segments.push({
+			pattern: 'sequence',
+			token,
+			start: i,
+			end,
+			guesses: base * token.length * (delta < 0 ? 2 : 1),
+		});
+		i = end - 1;
+	}
+	return segments;
+}
+
+/**
+ * Dates of four to eight digits, or with a separator such as `14/07/1990`, and years from
+ * 1900 to 2099 on their own. Their guesses grow with the distance from the current year.
+ * @internal
+ */
+function dateSegments(password: string): PasswordSegment[] {
+	const referenceYear = new Date().getFullYear();
+	const yearGuesses = (year: number) =>
+		Math.max(Math.abs(year - referenceYear), MIN_YEAR_SPACE);
+	const segments: PasswordSegment[] = [];
+
+	for (let i = 0; i + 4 <= password.length; i++) {
+		for (let j = i + 4; j <= Math.min(i + 10, password.length); j++) {
+			const token = password.slice(i, j);
+			const separated = token.match(
+				/^(\d{1,4})([\s/\\_.-])(\d{1,2})\2(\d{1,4})$/
+			);
+			let guesses: number | null = null;
+			if (/^(?:19|20)\d\d$/.test(token)) {
+				guesses = yearGuesses(Number(token));
+			} else if (/^\d{4,8}$/.test(token)) {
+				const year = closestYear(digitDates(token), referenceYear);
+				if (year !== null) guesses = yearGuesses(year) * 365;
+			} else if (separated) {
+				const year = closestYear(
+					[
+						readDate(
+							separated[1] ?? '',
+							separated[3] ?? '',
+							separated[4] ?? ''
+						),
+					],
+					referenceYear
+				);
+				if (year !== null) guesses = yearGuesses(year) * 365 * 4;
+			}
+			if (guesses !== null) {
+				segments.push({ pattern: 'date', token, start: i, end: j, guesses });
+			}
+		}
+	}
+	return segments;
+}
+
+/**
+ * The years of every way a run of digits splits into a day, a month and a year.
+ * @internal
+ */
+function digitDates(digits: string): Array<number | null> {
+	const years: Array<number | null> = [];
+	for (let first = 1; first < digits.length - 1; first++) {
+		for (let second = first + 1; second < digits.length; second++) {
+			years.push(
+				readDate(
+					digits.slice(0, first),
+					digits.slice(first, second),
+					digits.slice(second)
+				)
+			);
+		}
+	}
+	return years;
+}
+
+/**
+ * Reads three parts as a date with the year first or last, and the day and month in
+ * either order.
+ * @returns The year, or `null` if the parts aren't a date.
+ * @internal
+ */
+function readDate(a: string, b: string, c: string): number | null {
+	const dayMonth = (x: string, y: string) => {
+		if (x.length > 2 || y.length > 2) return false;
+		const [p, q] = [Number(x), Number(y)];
+		return (
+			(p >= 1 && p <= 31 && q >= 1 && q <= 12) ||
+			(q >= 1 && q <= 31 && p >= 1 && p <= 12)
+		);
+	};
+	const year = (text: string) => {
+		const value = Number(text);
+		if (text.length === 4) return value >= 1000 && value <= 2050 ? value : null;
+		if (text.length === 2) return value > 50 ? 1900 + value : 2000 + value;
+		return null;
+	};
+
+	const last = year(c);
+	if (last !== null && dayMonth(a, b)) return last;
+	const first = year(a);
+	if (first !== null && dayMonth(b, c)) return first;
+	return null;
+}
+
+/**
+ * The year closest to the reference year, which an attacker tries first.
+ * @internal
+ */
+function closestYear(
+	years: Array<number | null>,
+	referenceYear: number
+): number | null {
+	let closest: number | null = null;
+	for (const year of years) {
+		if (
+			year !== null &&
+			(closest === null ||
+				Math.abs(year - referenceYear) < Math.abs(closest - referenceYear))
+		) {
+			closest = year;
+		}
+	}
+	return closest;
+}
+
+/**
+ * Parts repeated back to back, such as `aaaa` or `abcabc`. A repeat costs the guesses of
+ * its base times the number of copies.
+ * @internal
+ */
+function repeatSegments(
+	password: string,
+	ranks: Record<string, number>
+): PasswordSegment[] {
+	const greedy = /([\s\S]+)\1+/g;
+	const lazy = /([\s\S]+?)\1+/g;
+	const segments: PasswordSegment[] = [];
+
+	for (let last = 0; last < password.length; ) {
+		greedy.lastIndex = last;
+		lazy.lastIndex = last;
+		const greedyMatch = greedy.exec(password);
+		const lazyMatch = lazy.exec(password);
+		if (!greedyMatch || !lazyMatch) break;
+
+		// `aabaab` is `aab` twice, not `a` twice then `baab`
+		const match =
+			greedyMatch[0].length > lazyMatch[0].length ? greedyMatch : lazyMatch;
+		const base =
+			match === greedyMatch
+				? /^([\s\S]+?)\1+$/.exec(match[0])?.[1] ?? match[0]
+				: lazyMatch[1] ?? match[0];
+		const baseGuesses = mostGuessable(base, findSegments(base, ranks)).guesses;
+		segments.push({
+			pattern: 'repeat',
+			token: match[0],
+			start: match.index,
+			end: match.index + match[0].length,
+			guesses: baseGuesses * (match[0].length / base.length),
+			base,
+		});
+		last = match.index + match[0].length;
+	}
+	return segments;
+}
+
+/**
+ * One step of the search: the best way to cover the password up to a segment's end with
+ * a number of segments.
+ * @internal
+ */
+interface Step {
+	segment: PasswordSegment;
+	product: number; // the guesses of the segments, multiplied
+	total: number; // the product, with the cost of the number of segments
+}
+
+/**
+ * Splits the password into the segments needing the fewest guesses in total, as zxcvbn
+ * does: a split into `n` segments costs `n!` times the product of their guesses (the
+ * order they come in) plus `10^4^(n-1)`, so that many tiny segments don't win. Any
+ * stretch no pattern explains is guessed character by character.
+ * @internal
+ */
+function mostGuessable(
+	password: string,
+	found: PasswordSegment[]
+): { guesses: number; segments: PasswordSegment[] } {
+	const length = password.length;
+	if (length === 0) return { guesses: 1, segments: [] };
+
+	const byEnd: PasswordSegment[][] = [];
+	for (let end = 0; end <= length; end++) byEnd.push([]);
+	for (const segment of found) {
+		// Segments smaller than the password are never guessed in a handful of tries
+		if (segment.end - segment.start < length) {
+			segment.guesses = Math.max(
+				segment.guesses,
+				segment.token.length === 1
+					? MIN_GUESSES_SINGLE_CHAR
+					: MIN_GUESSES_MULTI_CHAR
+			);
+		}
+		byEnd[segment.end]?.push(segment);
+	}
+
+	const best: Array<Record<number, Step>> = [];
+	for (let end = 0; end <= length; end++) best.push({});
+	const counts = (end: number) =>
+		Object.keys(best[end] ?? {}).map((key) => Number(key));
+	const update = (segment: PasswordSegment, count: number) => {
+		const previous = best[segment.start]?.[count - 1];
+		const product = segment.guesses * (count > 1 ? previous?.product ?? 1 : 1);
+		const total =
+			factorial(count) * product + Math.pow(MIN_GUESSES_PER_SEGMENT, count - 1);
+		const steps = best[segment.end] ?? {};
+		// A split into fewer segments that costs no more is always preferred
+		for (const other of counts(segment.end)) {
+			if (other <= count && (steps[other]?.total ?? Infinity) <= total) return;
+		}
+		steps[count] = { segment, product, total };
+	};
+
+	for (let end = 1; end <= length; end++) {
+		for (const segment of byEnd[end] ?? []) {
+			if (segment.start === 0) {
+				update(segment, 1);
+			} else {
+				for (const count of counts(segment.start)) update(segment, count + 1);
+			}
+		}
+		update(bruteforce(password, 0, end), 1);
+		for (let start = 1; start < end; start++) {
+			const guessed = bruteforce(password, start, end);
+			for (const count of counts(start)) {
+				// Two character-by-character stretches in a row are one stretch
+				if (best[start]?.[count]?.segment.pattern === 'bruteforce') continue;
+				update(guessed, count + 1);
+			}
+		}
+	}
+
+	let count = counts(length).reduce((fewest, other) =>
+		(best[length]?.[other]?.total ?? Infinity) <
+		(best[length]?.[fewest]?.total ?? Infinity)
+			? other
+			: fewest
+	);
+	const guesses = best[length]?.[count]?.total ?? 1;
+	const segments: PasswordSegment[] = [];
+	for (let end = length; end > 0; count--) {
+		const step = best[end]?.[count];
+		if (!step) break;
+		segments.unshift(step.segment);
+		end = step.segment.start;
+	}
+	return { guesses, segments };
+}
+
+/**
+ * A stretch of the password guessed character by character.
+ * @internal
+ */
+function bruteforce(
+	password: string,
+	start: number,
+	end: number
+): PasswordSegment {
+	const size = end - start;
+	return {
+		pattern: 'bruteforce',
+		token: password.slice(start, end),
+		start,
+		end,
+		guesses: Math.max(
+			Math.pow(BRUTEFORCE_CARDINALITY, size),
+			size === 1 ? MIN_GUESSES_SINGLE_CHAR + 1 : MIN_GUESSES_MULTI_CHAR + 1
+		),
+	};
+}
+
+/**
+ * The ways a word's letters could have been capitalized: 1 for all lower case, 2 for
+ * a capital first or last letter or all capitals, more for capitals in the middle.
+ * @internal
+ */
+function caseVariations(token: string): number {
+	const upper = countMatches(token, /[A-Z]/g);
+	const lower = countMatches(token, /[a-z]/g);
+	if (upper === 0) return 1;
+	if (
+		lower === 0 ||
+		/^[A-Z][^A-Z]+$/.test(token) ||
+		/^[^A-Z]+[A-Z]$/.test(token)
+	) {
+		return 2;
+	}
+	let variations = 0;
+	for (let i = 1; i <= Math.min(upper, lower); i++) {
+		variations += choose(upper + lower, i);
+	}
+	return variations;
+}
+
+/**
+ * The ways the l33t substitutions of a word could have been made: for each substituted
+ * letter, which of its occurrences were replaced.
+ * @internal
+ */
+function leetVariations(typed: string, read: string): number {
+	const pairs: Record<string, string> = {};
+	for (let i = 0; i < typed.length; i++) {
+		const char = typed[i] ?? '';
+		if (char !== read[i]) pairs[char] = read[i] ?? '';
+	}
+	let variations = 1;
+	for (const substituted of Object.keys(pairs)) {
+		const letter = pairs[substituted] ?? '';
+		const subs = typed.split(substituted).length - 1;
+		const plain = typed.split(letter).length - 1;
+		if (plain === 0) {
+			variations *= 2;
+			continue;
+		}
+		let ways = 0;
+		for (let i = 1; i <= Math.min(subs, plain); i++) {
+			ways += choose(subs + plain, i);
+		}
+		variations *= ways;
+	}
+	return variations;
+}
+
+/** @internal */
+function countMatches(text: string, pattern: RegExp): number {
+	return (text.match(pattern) ?? []).length;
+}
+
+/** @internal */
+function choose(n: number, k: number): number {
+	let result = 1;
+	for (let i = 1; i <= k; i++) result = (result * (n - k + i)) / i;
+	return result;
+}
+
+/** @internal */
+function factorial(n: number): number {
+	let result = 1;
+	for (let i = 2; i <= n; i++) result *= i;
+	return result;
+}
+
+/** @internal */
+function reverse(text: string): string {
+	return text.split('').reverse().join('');
+}
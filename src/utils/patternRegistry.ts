@@ -0,0 +1,290 @@
+/**
+ * @fileoverview Pattern Registry - Named, namespaced catalog of custom patterns on top of the built-ins
+ * @module Utilities
+ * @category Utilities
+ * @group Pattern Registry
+ * @author duongnguyen321 - https://duonguyen.site
+ */
+
+import type {
+	PatternDefinition,
+	PatternDefinitionInput,
+	PatternNamespace,
+	TextExtractionResult,
+	ValidationRule,
+} from '../../types/index.js';
+import {
+	HUMAN_PATTERNS,
+	PATTERN_KEYWORDS,
+	REGEX_PATTERNS,
+	REGEX_PATTERN_NAMES,
+} from '../constants/patterns.js';
+import { RGEX_CONFIG } from '../config/index.js';
+import { calculateConfidence } from './helpers.js';
+
+/** Dot-separated identifiers, e.g. `orderId` or `acme.billing.invoiceNo`. */
+const PATTERN_NAME = /^[A-Za-z_][\w-]*(?:\.[A-Za-z_][\w-]*)*$/;
+
+/**
+ * A catalog of named patterns. Custom definitions sit on top of the built-in
+ * `HUMAN_PATTERNS` (e.g. `email`) and `REGEX_PATTERNS` (e.g. `EMAIL`): lookups check
+ * custom definitions first, and a built-in name can only be reused with `override`.
+ *
+ * The shared `patternRegistry` instance feeds `rgex().use(name)`, `t2r` keyword
+ * matching and `t2v` rule creation.
+ *
+ * @example
+ * ```typescript
+ * patternRegistry.namespace('acme').define('orderId', {
+ *   pattern: /^ORD-\d{6}$/,
+ *   keywords: ['order id', 'order number'],
+ *   description: 'ACME order ID',
+ *   examples: ['ORD-123456'],
+ * });
+ *
+ * rgex().use('acme.orderId').test('ORD-123456'); // true
+ * t2r('order number').pattern; // /^ORD-\d{6}$/
+ * ```
+ */
+export class PatternRegistry {
+	private definitions = new Map<string, PatternDefinition>();
+
+	/**
+	 * Defines a named pattern. Every example must match the pattern (and pass the
+	 * validator, if any), so a broken definition fails at registration time.
+	 * @param name - A dot-separated name, e.g. `acme.orderId`.
+	 * @param definition - The pattern plus optional keywords, description, examples,
+	 * validator and validation message.
+	 * @param options - Pass `{ override: true }` to replace an existing or built-in name.
+	 * @returns The stored definition.
+	 * @throws {Error} If the name is invalid or taken, or an example does not match.
+	 */
+	define(
+		name: string,
+		definition: PatternDefinitionInput,
+		options: { override?: boolean } = {}
+	): PatternDefinition {
+		if (!PATTERN_NAME.test(name)) {
+			throw new Error(
+				`Invalid pattern name "${name}": use dot-separated identifiers like "acme.orderId"`
+			);
+		}
+		if (!options.override && this.has(name)) {
+			throw new Error(
+				`Pattern "${name}" is already defined; pass { override: true } to replace it`
+			);
+		}
+
+		const pattern =
+			typeof definition.pattern === 'string'
+				? new RegExp(definition.pattern)
+				: definition.pattern;
+		const description = definition.description ?? name;
+		const stored: PatternDefinition = {
+			name,
+			pattern,
+			keywords: (definition.keywords ?? []).map((keyword) =>
+				keyword.toLowerCase()
+			),
+			description,
+			examples: [...(definition.examples ?? [])],
+			validator: definition.validator,
+			message: definition.message ?? `Please enter a valid ${description}`,
+			builtIn: false,
+		};
+
+		for (const example of stored.examples) {
+			pattern.lastIndex = 0;
+			if (!pattern.test(example)) {
+				throw new Error(
+					`Example "${example}" does not match pattern "${name}" (${pattern})`
+				);
+			}
+			if (stored.validator && !stored.validator(example)) {
+				throw new Error(
+					`Example "${example}" fails the validator of pattern "${name}"`
+				);
+			}
+		}
+
+		this.definitions.set(name, stored);
+		return stored;
+	}
+
+	/**
+	 * Returns a view that prefixes every name with `prefix.`.
+	 * @param prefix - The namespace, e.g. `acme` or `acme.billing`.
+	 * @returns Scoped `define`, `get` and `list` functions.
+	 */
+	namespace(prefix: string): PatternNamespace {
+		if (!PATTERN_NAME.test(prefix)) {
+			throw new Error(`Invalid namespace "${prefix}"`);
+		}
+		return {
+			prefix,
+			define: (name, definition, options) =>
+				this.define(`${prefix}.${name}`, definition, options),
+			get: (name) => this.get(`${prefix}.${name}`),
+			list: () => this.list(prefix),
+		};
+	}
+
+	/**
+	 * Looks up a pattern by name: custom definitions first, then `HUMAN_PATTERNS`
+	 * keys (`email`), then `REGEX_PATTERNS` keys (`EMAIL`).
+	 * @param name - The pattern name.
+	 * @returns The definition, or `undefined` if none has that name.
+	 */
+	get(name: string): PatternDefinition | undefined {
+		return this.definitions.get(name) ?? builtInDefinition(name);
+	}
+
+	/**
+	 * Checks whether a custom or built-in pattern has this name.
+	 * @param name - The pattern name.
+	 * @returns `true` if `get(name)` would find a definition.
+	 */
+	has(name: string): boolean {
+		return this.get(name) !== undefined;
+	}
+
+	/**
+	 * Removes a custom definition, restoring any built-in pattern it overrode.
+	 * @param name - The pattern name.
+	 * @returns `true` if a definition was removed.
+	 */
+	remove(name: string): boolean {
+		return this.definitions.delete(name);
+	}
+
+	/**
+	 * Lists custom definitions in definition order.
+	 * @param namespace - Only list names under this namespace.
+	 * @returns The matching definitions.
+	 */
+	list(namespace?: string): PatternDefinition[] {
+		const all = Array.from(this.definitions.values());
+		return namespace
+			? all.filter((definition) => definition.name.startsWith(`${namespace}.`))
+			: all;
+	}
+
+	/**
+	 * Finds the custom definition whose keyword appears in a description. The longest
+	 * matching keyword wins, so "billing order id" beats "order id".
+	 * @param text - The description to search, e.g. "acme order id".
+	 * @returns The best definition, or `undefined` if no keyword appears.
+	 */
+	match(text: string): PatternDefinition | undefined {
+		const normalized = text.toLowerCase();
+		let best: PatternDefinition | undefined;
+		let bestLength = 0;
+
+		for (const definition of Array.from(this.definitions.values())) {
+			for (const keyword of definition.keywords) {
+				if (keyword.length > bestLength && normalized.includes(keyword)) {
+					best = definition;
+					bestLength = keyword.length;
+				}
+			}
+		}
+
+		return best;
+	}
+
+	/**
+	 * Creates a validation rule from a definition, keeping its validator.
+	 * @param name - The pattern name.
+	 * @returns A `ValidationRule` named after the pattern.
+	 * @throws {Error} If no pattern has that name.
+	 */
+	toRule(name: string): ValidationRule {
+		const definition = this.get(name);
+		if (!definition) {
+			throw new Error(`Unknown pattern "${name}"`);
+		}
+		return {
+			name: definition.name,
+			pattern: definition.pattern,
+			message: definition.message,
+			...(definition.validator ? { validator: definition.validator } : {}),
+		};
+	}
+}
+
+/** The shared registry used by `rgex().use()`, `t2r` and `t2v`. */
+export const patternRegistry = new PatternRegistry();
+
+/**
+ * Parser stage that answers descriptions mentioning a keyword of a custom definition
+ * in the shared registry.
+ * @param text - The normalized description.
+ * @param testValue - An optional string to test the pattern against.
+ * @returns A `TextExtractionResult` for the matched definition, otherwise `null`.
+ */
+export function parseCatalogPatterns(
+	text: string,
+	testValue?: string
+): TextExtractionResult | null {
+	const definition = patternRegistry.match(text);
+	if (!definition) return null;
+
+	const suggestions: string[] = [];
+	let confidence: number = RGEX_CONFIG.defaults.humanTextConfidence.high;
+	if (testValue) {
+		definition.pattern.lastIndex = 0;
+		const testPassed =
+			definition.pattern.test(testValue) &&
+			(!definition.validator || definition.validator(testValue));
+		confidence = calculateConfidence(confidence, true, testPassed);
+		if (!testPassed) {
+			suggestions.push(
+				`The test value "${testValue}" doesn't match the ${definition.name} pattern`
+			);
+		}
+	}
+
+	return {
+		success: true,
+		pattern: definition.pattern,
+		description: definition.description,
+		confidence,
+		suggestions,
+	};
+}
+
+/**
+ * Wraps a built-in pattern as a read-only definition.
+ * @internal
+ */
+function builtInDefinition(name: string): PatternDefinition | undefined {
+	const human = Object.prototype.hasOwnProperty.call(HUMAN_PATTERNS, name)
+		? HUMAN_PATTERNS[name]
+		: undefined;
+	if (human) {
+		return {
+			name,
+			pattern: new RegExp(human.pattern),
+			keywords: PATTERN_KEYWORDS[name] ?? [],
+			description: human.description,
+			examples: human.examples,
+			message: `Please enter a valid ${human.description}`,
+			builtIn: true,
+		};
+	}
+
+	if (Object.prototype.hasOwnProperty.call(REGEX_PATTERNS, name)) {
+		const key = name as keyof typeof REGEX_PATTERNS;
+		return {
+			name,
+			pattern: new RegExp(REGEX_PATTERNS[key]),
+			keywords: [],
+			description: REGEX_PATTERN_NAMES[key],
+			examples: [],
+			message: `Please enter ${REGEX_PATTERN_NAMES[key]}`,
+			builtIn: true,
+		};
+	}
+
+	return undefined;
+}
@@ -0,0 +1,328 @@
+/**
+ * @fileoverview Phone Numbers - Country-aware parsing, validation and formatting from offline metadata
+ * @module Utilities
+ * @category Utilities
+ * @group Phone Numbers
+ * @author duongnguyen321 - https://duonguyen.site
+ */
+
+import type {
+	PhoneCountryMetadata,
+	PhoneNumberType,
+	PhoneParseOptions,
+	PhoneParseResult,
+	RegexNode,
+} from '../../types/index.js';
+import { PHONE_METADATA } from '../constants/phone.js';
+import { serializeNode } from '../core/ast.js';
+import { parseRegex } from '../core/parser.js';
+import { escapeRegex } from './helpers.js';
+
+/** Characters allowed besides digits and a leading `+`. */
+const PHONE_INPUT = /^(?:\+|00)?[\d\s().\/-]+$/;
+
+/** The separators of `PHONE_INPUT`, accepted before any digit of a phone pattern. */
+const PHONE_SEPARATORS = '[\\s().\\/-]*';
+
+/**
+ * Parses a phone number written in national (`0912 345 678`) or international
+ * (`+84 912 345 678`, `0084...`) form and checks it against the bundled numbering plan
+ * of its country: calling code, trunk prefix, national number length and number ranges.
+ * Spaces, dashes, dots, slashes and parentheses are ignored.
+ *
+ * @param input - The phone number as entered.
+ * @param options - `defaultCountry`, the ISO 3166-1 code (e.g. `VN`) assumed for numbers
+ * written without a calling code.
+ * @returns The verdict, the country, the number type where the plan tells mobile and
+ * fixed lines apart, and for valid numbers the E.164, national and international forms.
+ *
+ * @example
+ * ```typescript
+ * parsePhone('0912 345 678', { defaultCountry: 'VN' });
+ * // { valid: true, country: 'VN', type: 'mobile', e164: '+84912345678',
+ * //   national: '0912 345 678', international: '+84 912 345 678', ... }
+ * ```
+ */
+export function parsePhone(
+	input: string,
+	options: PhoneParseOptions = {}
+): PhoneParseResult {
+	const invalid = (
+		error: string,
+		details: Partial<PhoneParseResult> = {}
+	): PhoneParseResult => ({
+		input,
+		valid: false,
+		type: 'unknown',
+		...details,
+		error,
+	});
+
+	const trimmed = input.trim();
+	if (!trimmed) return invalid('The phone number is empty');
+	if (!PHONE_INPUT.test(trimmed)) {
+		return invalid(
+			'Phone numbers may only contain digits, spaces, dashes, dots, slashes and parentheses'
+		);
+	}
+
+	let digits = trimmed.replace(/\D/g, '');
+	let candidates: PhoneCountryMetadata[];
+
+	if (trimmed.startsWith('+') || trimmed.startsWith('00')) {
+		if (trimmed.startsWith('00')) digits = digits.slice(2);
+		const callingCode = findCallingCode(digits);
+		if (!callingCode) {
+			return invalid(`Unknown country calling code in "${input}"`);
+		}
+		digits = digits.slice(callingCode.length);
+		candidates = countriesWithCallingCode(callingCode);
+	} else {
+		const country = options.defaultCountry?.toUpperCase();
+		if (!country) {
+			return invalid(
+				'Add the country calling code (e.g. +84) or pass a defaultCountry'
+			);
+		}
+		const metadata = PHONE_METADATA[country];
+		if (!metadata) {
+			return invalid(`No phone metadata for country "${country}"`);
+		}
+		// "1 201 555 0123": the calling code written without "+"
+		if (
+			digits.length > Math.max(...metadata.lengths) &&
+			digits.startsWith(metadata.callingCode)
+		) {
+			digits = digits.slice(metadata.callingCode.length);
+		}
+		candidates = [metadata].concat(
+			countriesWithCallingCode(metadata.callingCode).filter(
+				(other) => other !== metadata
+			)
+		);
+	}
+
+	for (const metadata of candidates) {
+		const nationalNumber = stripTrunkPrefix(digits, metadata);
+		if (isValidNationalNumber(nationalNumber, metadata)) {
+			const formatted = formatNationalNumber(nationalNumber, metadata);
+			return {
+				input,
+				valid: true,
+				type: numberType(nationalNumber, metadata),
+				country: metadata.country,
+				callingCode: metadata.callingCode,
+				nationalNumber,
+				e164: `+${metadata.callingCode}${nationalNumber}`,
+				national: metadata.trunkPrefix + formatted,
+				international: `+${metadata.callingCode} ${formatted}`,
+			};
+		}
+	}
+
+	const [metadata] = candidates;
+	if (!metadata) return invalid(`Unknown country calling code in "${input}"`);
+	const nationalNumber = stripTrunkPrefix(digits, metadata);
+	const details = {
+		country: metadata.country,
+		callingCode: metadata.callingCode,
+		nationalNumber,
+	};
+	if (metadata.lengths.indexOf(nationalNumber.length) === -1) {
+		return invalid(
+			`${metadata.country} numbers have ${describeLengths(
+				metadata.lengths
+			)} digits after the calling code, got ${nationalNumber.length}`,
+			details
+		);
+	}
+	return invalid(
+		`${nationalNumber} is not a ${metadata.country} phone number range`,
+		details
+	);
+}
+
+/**
+ * Finds the country a description of a phone number refers to, e.g. "vietnamese" or
+ * "germany". Keywords must appear as whole words, and the longest one wins.
+ * @param text - The normalized description.
+ * @returns The country's metadata, or `undefined` if none is mentioned.
+ */
+export function findPhoneCountry(
+	text: string
+): PhoneCountryMetadata | undefined {
+	let best: PhoneCountryMetadata | undefined;
+	let bestLength = 0;
+
+	for (const metadata of Object.values(PHONE_METADATA)) {
+		for (const keyword of metadata.keywords) {
+			if (
+				keyword.length > bestLength &&
+				new RegExp(`\\b${escapeRegex(keyword)}\\b`).test(text)
+			) {
+				best = metadata;
+				bestLength = keyword.length;
+			}
+		}
+	}
+
+	return best;
+}
+
+/**
+ * Builds an anchored pattern for a country's numbers in national (trunk prefix) or
+ * `+<calling code>`/`00<calling code>` form. Like `parsePhone`, it accepts spaces,
+ * dashes, dots, slashes and parentheses between the digits (`030 1234567`,
+ * `+49 (0)30 123456`).
+ * @param metadata - The country's numbering plan.
+ * @param type - Restrict to mobile or fixed-line ranges where the plan has them.
+ * @returns The pattern source, e.g. `^\(?(?:(?:\+|00)84(?:...)?|0)(?:...)$`.
+ */
+export function phonePatternFor(
+	metadata: PhoneCountryMetadata,
+	type?: 'mobile' | 'fixedLine'
+): string {
+	const national =
+		(type === 'mobile' && metadata.mobile) ||
+		(type === 'fixedLine' && metadata.fixedLine) ||
+		metadata.pattern;
+	const international = `(?:\\+|00)${metadata.callingCode}`;
+	const prefix = metadata.trunkPrefix
+		? `(?:${international}(?:${PHONE_SEPARATORS}\\(${metadata.trunkPrefix}\\))?|${metadata.trunkPrefix})`
+		: `(?:${international})?`;
+	const digits = serializeNode(withSeparators(parseRegex(national)));
+	return `^\\(?${prefix}(?:${digits})$`;
+}
+
+/**
+ * Lets separators precede every digit of a national number pattern.
+ * @internal
+ */
+function withSeparators(node: RegexNode): RegexNode {
+	const separators: RegexNode = { type: 'raw', source: PHONE_SEPARATORS };
+	switch (node.type) {
+		case 'literal':
+			return {
+				type: 'sequence',
+				elements: node.value
+					.split('')
+					.reduce<RegexNode[]>(
+						(elements, value) =>
+							elements.concat(separators, { type: 'literal', value }),
+						[]
+					),
+			};
+		case 'class':
+		case 'characterType':
+			return { type: 'sequence', elements: [separators, node] };
+		case 'sequence':
+			return { ...node, elements: node.elements.map(withSeparators) };
+		case 'alternation':
+			return { ...node, alternatives: node.alternatives.map(withSeparators) };
+		case 'group':
+		case 'quantifier':
+			return { ...node, body: withSeparators(node.body) };
+		default:
+			return node;
+	}
+}
+
+/**
+ * Reads the 1-3 digit calling code at the start of an international number.
+ * @internal
+ */
+function findCallingCode(digits: string): string | undefined {
+	for (let length = 1; length <= 3; length++) {
+		const code = digits.slice(0, length);
+		if (countriesWithCallingCode(code).length > 0) return code;
+	}
+	return undefined;
+}
+
+/** @internal */
+function countriesWithCallingCode(callingCode: string): PhoneCountryMetadata[] {
+	return Object.values(PHONE_METADATA).filter(
+		(metadata) => metadata.callingCode === callingCode
+	);
+}
+
+/**
+ * Removes the trunk prefix of national numbers, and the "(0)" some people write after
+ * the calling code.
+ * @internal
+ */
+function stripTrunkPrefix(
+	digits: string,
+	metadata: PhoneCountryMetadata
+): string {
+	return metadata.trunkPrefix && digits.startsWith(metadata.trunkPrefix)
+		? digits.slice(metadata.trunkPrefix.length)
+		: digits;
+}
+
+/** @internal */
+function isValidNationalNumber(
+	nationalNumber: string,
+	metadata: PhoneCountryMetadata
+): boolean {
+	return (
+		metadata.lengths.indexOf(nationalNumber.length) !== -1 &&
+		new RegExp(`^(?:${metadata.pattern})$`).test(nationalNumber)
+	);
+}
+
+/** @internal */
+function numberType(
+	nationalNumber: string,
+	metadata: PhoneCountryMetadata
+): PhoneNumberType {
+	if (!metadata.mobile && !metadata.fixedLine) return 'fixedLineOrMobile';
+	if (
+		metadata.mobile &&
+		new RegExp(`^(?:${metadata.mobile})$`).test(nationalNumber)
+	) {
+		return 'mobile';
+	}
+	if (
+		metadata.fixedLine &&
+		new RegExp(`^(?:${metadata.fixedLine})$`).test(nationalNumber)
+	) {
+		return 'fixedLine';
+	}
+	return 'unknown';
+}
+
+/**
+ * Splits a national number into the blocks of the first matching format.
+ * @internal
+ */
+function formatNationalNumber(
+	nationalNumber: string,
+	metadata: PhoneCountryMetadata
+): string {
+	const format = metadata.formats.find((candidate) =>
+		new RegExp(`^(?:${candidate.leading})`).test(nationalNumber)
+	);
+	const blocks: string[] = [];
+	let offset = 0;
+	for (const size of format?.groups ?? []) {
+		if (offset + size >= nationalNumber.length) break;
+		blocks.push(nationalNumber.slice(offset, offset + size));
+		offset += size;
+	}
+	blocks.push(nationalNumber.slice(offset));
+	return blocks.join(' ');
+}
+
+/**
+ * Describes allowed lengths, e.g. "10", "9 or 10" or "6-11".
+ * @internal
+ */
+function describeLengths(lengths: number[]): string {
+	const min = Math.min(...lengths);
+	const max = Math.max(...lengths);
+	if (lengths.length > 2 && max - min === lengths.length - 1) {
+		return `${min}-${max}`;
+	}
+	return lengths.join(' or ');
+}
@@ -5,12 +5,14 @@
 
 import type { TextExtractionResult } from '../../types/index.js';
 import { calculateConfidence } from './helpers.js';
+import { findPhoneCountry, parsePhone, phonePatternFor } from './phone.js';
 
 /**
  * Parses text for phone number patterns and returns a corresponding regex.
  *
  * It understands phrases like:
  * - "us phone number"
+ * - "vietnamese mobile number" / "german phone" (any country in `PHONE_METADATA`)
  * - "phone with dashes"
  * - "phone with country code" / "international phone"
  *
@@ -52,6 +54,48 @@ export function parsePhonePatterns(
 		};
 	}
 
+	// Handle "vietnamese mobile number", "german landline", "uk phone", ...
+	const country = findPhoneCountry(textForCapture);
+	if (
+		country &&
+		/\b(?:phone|mobile|cell|telephone|landline)\b/.test(textForCapture)
+	) {
+		const type = /\b(?:mobile|cell)\b/.test(textForCapture)
+			? 'mobile'
+			: /\b(?:landline|fixed)\b/.test(textForCapture)
+			? 'fixedLine'
+			: undefined;
+		const validator = (value: string) => {
+			const parsed = parsePhone(value, { defaultCountry: country.country });
+			return (
+				parsed.valid &&
+				parsed.country === country.country &&
+				(!type || parsed.type === type || parsed.type === 'fixedLineOrMobile')
+			);
+		};
+
+		let confidence: number = 0.85;
+
+		if (testValue) {
+			confidence = calculateConfidence(confidence, true, validator(testValue));
+		}
+
+		return {
+			success: true,
+			pattern: new RegExp(phonePatternFor(country, type)),
+			confidence,
+			description: `${country.name} ${
+				type === 'mobile'
+					? 'mobile'
+					: type === 'fixedLine'
+					? 'landline'
+					: 'phone'
+			} number (national or +${country.callingCode} format)`,
+			suggestions,
+			validator,
+		};
+	}
+
 	// Handle "phone with dashes" or "phone format xxx-xxx-xxxx"
 	if (
 		textForCapture.includes('phone') &&
@@ -0,0 +1,144 @@
+/**
+ * @fileoverview Postal Codes - Country-aware postal code normalization and validation
+ * @module Utilities
+ * @category Utilities
+ * @group Postal Codes
+ * @author duongnguyen321 - https://duonguyen.site
+ */
+
+import type { PostalCodeFormat } from '../../types/index.js';
+import { POSTAL_CODE_FORMATS } from '../constants/postal.js';
+import { escapeRegex } from './helpers.js';
+
+/**
+ * Brings a postal code into its country's canonical form: upper case, trimmed, and with
+ * the separator the country uses (`sw1a1aa` → `SW1A 1AA`, `1000001` → `100-0001` for
+ * Japan). Input that is too short for the separator is only upper-cased and trimmed.
+ *
+ * @param input - The postal code as entered.
+ * @param countryCode - The ISO 3166-1 code of the country, e.g. `GB`.
+ * @returns The normalized postal code. It is not validated; use `isValidPostalCode`.
+ * @throws {Error} If the country has no entry in `POSTAL_CODE_FORMATS`.
+ *
+ * @example
+ * ```typescript
+ * normalizePostalCode(' k1a0b1 ', 'CA'); // 'K1A 0B1'
+ * normalizePostalCode('1012-js', 'NL'); // '1012 JS'
+ * ```
+ */
+export function normalizePostalCode(
+	input: string,
+	countryCode: string
+): string {
+	const format = getPostalFormat(countryCode);
+	const collapsed = input.trim().toUpperCase().replace(/\s+/g, ' ');
+	if (!format.separator) return collapsed;
+
+	const { text, at } = format.separator;
+	const compact = collapsed.replace(/[\s-]/g, '');
+	const position = at < 0 ? compact.length + at : at;
+	if (position <= 0 || position >= compact.length) return compact;
+	return compact.slice(0, position) + text + compact.slice(position);
+}
+
+/**
+ * Checks a postal code against its country's format after normalizing case and
+ * spacing, so `sw1a1aa` is a valid `GB` postcode.
+ *
+ * @param input - The postal code as entered.
+ * @param countryCode - The ISO 3166-1 code of the country, e.g. `JP`.
+ * @returns `true` if the normalized code matches the country's format.
+ * @throws {Error} If the country has no entry in `POSTAL_CODE_FORMATS`.
+ *
+ * @example
+ * ```typescript
+ * isValidPostalCode('100-0001', 'JP'); // true
+ * isValidPostalCode('1000001', 'JP'); // true
+ * isValidPostalCode('10001', 'JP'); // false
+ * ```
+ */
+export function isValidPostalCode(input: string, countryCode: string): boolean {
+	const format = getPostalFormat(countryCode);
+	return new RegExp(`^(?:${format.pattern})$`).test(
+		normalizePostalCode(input, countryCode)
+	);
+}
+
+/**
+ * Builds a pattern source for a country's postal codes that also accepts the
+ * separator written as a space, a hyphen or not at all. It matches upper-case codes;
+ * add the `i` flag for lower-case input.
+ * @param countryCode - The ISO 3166-1 code of the country.
+ * @returns The unanchored pattern source, e.g. `\d{3}[\s-]?\d{4}` for Japan.
+ * @throws {Error} If the country has no entry in `POSTAL_CODE_FORMATS`.
+ */
+export function postalCodeSource(countryCode: string): string {
+	const format = getPostalFormat(countryCode);
+	if (!format.separator) return format.pattern;
+
+	// Swap the literal separator for a loose one, leaving character classes alone
+	const separator = format.separator.text;
+	let source = '';
+	let inClass = false;
+	for (let i = 0; i < format.pattern.length; i++) {
+		const char = format.pattern[i] ?? '';
+		if (char === '\\') {
+			source += char + (format.pattern[i + 1] ?? '');
+			i++;
+		} else if (inClass) {
+			if (char === ']') inClass = false;
+			source += char;
+		} else if (char === '[') {
+			inClass = true;
+			source += char;
+		} else {
+			source += char === separator ? '[\\s-]?' : char;
+		}
+	}
+	return source;
+}
+
+/**
+ * Looks up the postal code format of a country.
+ * @param countryCode - The ISO 3166-1 code, in any case.
+ * @returns The country's format.
+ * @throws {Error} If the country has no entry in `POSTAL_CODE_FORMATS`.
+ */
+export function getPostalFormat(countryCode: string): PostalCodeFormat {
+	const code = countryCode.toUpperCase();
+	const format = Object.prototype.hasOwnProperty.call(POSTAL_CODE_FORMATS, code)
+		? POSTAL_CODE_FORMATS[code]
+		: undefined;
+	if (!format) {
+		throw new Error(`No postal code format for country "${countryCode}"`);
+	}
+	return format;
+}
+
+/**
+ * Finds the country a description of a postal code refers to, e.g. "japan" or
+ * "british". Country names and keywords must appear as whole words, and the longest
+ * one wins, so "south korea" beats "korea".
+ * @param text - The normalized description.
+ * @returns The ISO 3166-1 code, or `undefined` if no country is mentioned.
+ */
+export function findPostalCountry(text: string): string | undefined {
+	let best: string | undefined;
+	let bestLength = 0;
+
+	for (const [code, format] of Object.entries(POSTAL_CODE_FORMATS)) {
+		for (const keyword of [format.name.toLowerCase()].concat(
+			format.keywords ?? []
+		)) {
+			if (
+				keyword.length > bestLength &&
+				new RegExp(`\\b${escapeRegex(keyword)}\\b`).test(text)
+			) {
+				best = code;
+				bestLength = keyword.length;
+			}
+		}
+	}
+
+	return best;
+}
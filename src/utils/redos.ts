@@ -0,0 +1,731 @@
+/**
+ * @fileoverview ReDoS Analysis - Static detection of catastrophic backtracking in regex patterns
+ * @module Utilities
+ * @category Utilities
+ * @group ReDoS Analysis
+ * @author duongnguyen321 - https://duonguyen.site
+ */
+
+import type {
+	QuantifierNode,
+	ReDoSIssue,
+	ReDoSReport,
+	RegexNode,
+	SequenceNode,
+} from '../../types/index.js';
+import { childNodes, serializeAtom, serializeNode } from '../core/ast.js';
+import { parseRegex } from '../core/parser.js';
+
+/**
+ * Characters used to approximate the set of characters a sub-expression can consume.
+ * Ordered so that examples and attack strings prefer readable characters.
+ * @internal
+ */
+const SAMPLE_CHARACTERS: string[] = (() => {
+	const chars: string[] = [];
+	const add = (from: string, to: string) => {
+		for (let code = from.charCodeAt(0); code <= to.charCodeAt(0); code++) {
+			const char = String.fromCharCode(code);
+			if (!chars.includes(char)) chars.push(char);
+		}
+	};
+	add('a', 'z');
+	add('A', 'Z');
+	add('0', '9');
+	add(' ', '~');
+	add('\t', '\r');
+	add('\0', '\0');
+	for (const char of ['\u00a0', 'é', 'α', '中', '\u2028']) {
+		chars.push(char);
+	}
+	return chars;
+})();
+
+/** Characters tried first when an attack string needs a character that breaks the match. */
+const SUFFIX_PREFERENCE = ['!', '\n', '#', '~', ' ', '\0', '\u2028', '中'];
+
+/** Outer repetitions allowed before nested ambiguity counts as exponential. */
+const MIN_EXPONENTIAL_REPEAT = 10;
+
+/** Pump repetitions used in attack strings. */
+const EXPONENTIAL_PUMPS = 30;
+const POLYNOMIAL_PUMPS = 10000;
+
+/**
+ * Shared state for one analysis run.
+ * @internal
+ */
+interface AnalysisContext {
+	pattern: string;
+	flags: string;
+	sticky: boolean;
+	charCache: Map<string, Set<string>>;
+	issues: ReDoSIssue[];
+}
+
+/**
+ * Statically analyzes a regex for catastrophic backtracking (ReDoS). Detects nested
+ * quantifiers and overlapping alternatives under a repetition (exponential), and
+ * adjacent overlapping repetitions or unanchored leading repetitions (polynomial).
+ * A construct is only reported when something after it can make the match fail,
+ * since a match that always succeeds never backtracks into it, or when it must
+ * repeat so many times (`(.*a){12}`) that running short of repetitions is enough.
+ *
+ * @param pattern - The regex pattern string or `RegExp` to analyze.
+ * @param flags - The flags to analyze with. Defaults to the flags of a `RegExp` source.
+ * @returns A report with every issue found, exponential ones first, the offending
+ * sub-expression and its position in the pattern, and an attack string demonstrating
+ * the blowup.
+ * @throws {SyntaxError} If the pattern is not a valid regular expression.
+ */
+export function analyzeReDoS(
+	pattern: string | RegExp,
+	flags?: string
+): ReDoSReport {
+	const source = typeof pattern === 'string' ? pattern : pattern.source;
+	const flagString =
+		flags ?? (typeof pattern === 'string' ? '' : pattern.flags);
+	const root = parseRegex(source, flagString);
+
+	const context: AnalysisContext = {
+		pattern: source,
+		flags: flagString.replace(/[gyd]/g, ''),
+		sticky: flagString.includes('y'),
+		charCache: new Map(),
+		issues: [],
+	};
+
+	checkUnanchoredStart(root, context);
+	visit(root, [], context);
+
+	const issues = context.issues
+		.filter(
+			(issue, index, all) =>
+				all.findIndex(
+					(other) =>
+						other.kind === issue.kind &&
+						other.span.start === issue.span.start &&
+						other.span.end === issue.span.end
+				) === index
+		)
+		.sort(
+			(a, b) =>
+				Number(b.complexity === 'exponential') -
+				Number(a.complexity === 'exponential')
+		);
+	const complexity = issues.some((issue) => issue.complexity === 'exponential')
+		? 'exponential'
+		: issues.length > 0
+		? 'polynomial'
+		: 'safe';
+
+	return {
+		pattern: source,
+		flags: flagString,
+		safe: issues.length === 0,
+		complexity,
+		starHeight: starHeight(root),
+		issues,
+	};
+}
+
+/**
+ * Walks the tree, running the structural checks on every quantifier and sequence.
+ * @internal
+ */
+function visit(
+	node: RegexNode,
+	ancestors: RegexNode[],
+	context: AnalysisContext
+): void {
+	if (node.type === 'quantifier' && node.max > 1) {
+		checkNestedQuantifier(node, ancestors, context);
+		checkOverlappingAlternation(node, ancestors, context);
+	}
+	if (node.type === 'sequence') {
+		checkAdjacentQuantifiers(node, ancestors, context);
+	}
+
+	const path = [...ancestors, node];
+	for (const child of childNodes(node)) {
+		visit(child, path, context);
+	}
+}
+
+/**
+ * Reports `(a+)+`-style repetitions whose body can be split across iterations in many
+ * ways, including bodies such as `(a+.)+` whose other elements can take the repeated
+ * characters too. Without anything after it that can fail, a repetition that must run
+ * `MIN_EXPONENTIAL_REPEAT` times or more (`(.*a){12}`) is still reported: an input with
+ * one repetition too few is split every way before the match gives up.
+ * @internal
+ */
+function checkNestedQuantifier(
+	outer: QuantifierNode,
+	ancestors: RegexNode[],
+	context: AnalysisContext
+): void {
+	if (outer.max < MIN_EXPONENTIAL_REPEAT) return;
+
+	const failsAfter = canFailAfter(outer, ancestors);
+	if (!failsAfter && outer.min < MIN_EXPONENTIAL_REPEAT) return;
+
+	let inner = findPumpableQuantifier(outer.body, context);
+	let pump = inner
+		? sample(outer.body, context) ||
+		  sample(inner.body, context) ||
+		  firstOf(charsOf(inner, context))
+		: '';
+	if (!inner) {
+		inner = findRepetition(outer.body);
+		pump = inner ? ambiguousPump(outer.body, inner, context) : '';
+	}
+	if (!inner || !pump) return;
+
+	const prefix = prefixFor(outer, ancestors, context);
+	const suffix = suffixFor(outer, context);
+	addIssue(
+		context,
+		outer,
+		failsAfter
+			? {
+					kind: 'nestedQuantifier',
+					complexity: 'exponential',
+					message: `Nested quantifier: ${sourceOf(
+						inner,
+						context
+					)} is repeated inside another repetition, so a run of "${pump}" can be split between the iterations in exponentially many ways`,
+					attackString: prefix + pump.repeat(EXPONENTIAL_PUMPS) + suffix,
+			  }
+			: {
+					kind: 'nestedQuantifier',
+					complexity: 'exponential',
+					message: `Nested quantifier: ${sourceOf(
+						inner,
+						context
+					)} is repeated inside a repetition that must match ${
+						outer.min
+					} times, so a run of "${pump}" one repetition short is split between the iterations in exponentially many ways before failing`,
+					attackString: prefix + pump.repeat(outer.min - 1) + suffix,
+			  }
+	);
+}
+
+/**
+ * Reports `(a|a)*`-style repetitions where one alternative can match what the other
+ * alternatives, repeated, match too, as `ab` in `(a|b|ab)*`.
+ * @internal
+ */
+function checkOverlappingAlternation(
+	outer: QuantifierNode,
+	ancestors: RegexNode[],
+	context: AnalysisContext
+): void {
+	if (outer.max < MIN_EXPONENTIAL_REPEAT) return;
+
+	const body = unwrapGroups(outer.body);
+	if (body.type !== 'alternation' || !canFailAfter(outer, ancestors)) return;
+
+	for (let i = 0; i < body.alternatives.length; i++) {
+		const alternative = body.alternatives[i]!;
+		const pump = sample(alternative, context);
+		const others: RegexNode = {
+			type: 'alternation',
+			alternatives: body.alternatives.filter((_, j) => j !== i),
+		};
+		if (!pump || !repeatedlyMatches(others, pump, context)) continue;
+
+		addIssue(context, outer, {
+			kind: 'overlappingAlternation',
+			complexity: 'exponential',
+			message: `Overlapping alternation: ${sourceOf(
+				alternative,
+				context
+			)} and repetitions of ${others.alternatives
+				.map((other) => sourceOf(other, context))
+				.join(
+					'|'
+				)} can both match "${pump}", so every repetition can take either branch`,
+			attackString:
+				prefixFor(outer, ancestors, context) +
+				pump.repeat(EXPONENTIAL_PUMPS) +
+				suffixFor(outer, context),
+		});
+		return;
+	}
+}
+
+/**
+ * Reports `\d+\d+`-style unbounded repetitions that follow each other (separated only
+ * by optional elements) and can consume the same characters.
+ * @internal
+ */
+function checkAdjacentQuantifiers(
+	sequence: SequenceNode,
+	ancestors: RegexNode[],
+	context: AnalysisContext
+): void {
+	const { elements } = sequence;
+
+	for (let i = 0; i < elements.length; i++) {
+		const first = unboundedQuantifier(elements[i]!);
+		if (!first) continue;
+
+		for (let j = i + 1; j < elements.length; j++) {
+			const second = unboundedQuantifier(elements[j]!);
+			const shared = second
+				? intersect(charsOf(first, context), firstCharsOf(second, context))
+				: new Set<string>();
+
+			if (second && shared.size > 0) {
+				if (!canFailAfter(elements[j]!, [...ancestors, sequence])) break;
+
+				const span = {
+					start: elements[i]!.span!.start,
+					end: elements[j]!.span!.end,
+				};
+				context.issues.push({
+					kind: 'overlappingQuantifiers',
+					complexity: 'polynomial',
+					source: context.pattern.slice(span.start, span.end),
+					span,
+					message: `Overlapping quantifiers: ${sourceOf(
+						first,
+						context
+					)} and ${sourceOf(second, context)} can both match "${firstOf(
+						shared
+					)}", so every split of a run between them is tried before failing`,
+					attackString:
+						prefixFor(elements[i]!, [...ancestors, sequence], context) +
+						firstOf(shared).repeat(POLYNOMIAL_PUMPS) +
+						suffixFor(sequence, context),
+				});
+				break;
+			}
+
+			if (!nullable(elements[j]!)) break;
+		}
+	}
+}
+
+/**
+ * Reports an unbounded repetition at the start of a pattern that is not anchored with `^`,
+ * which the engine retries from every starting position of a failing input.
+ * @internal
+ */
+function checkUnanchoredStart(
+	root: SequenceNode,
+	context: AnalysisContext
+): void {
+	const [first] = root.elements;
+	if (!first || context.sticky) return;
+
+	const leading = unboundedQuantifier(first);
+	if (!leading || !canFailAfter(first, [root])) return;
+
+	const pump = firstOf(charsOf(leading, context));
+	if (!pump) return;
+
+	addIssue(context, first, {
+		kind: 'unanchoredRepetition',
+		complexity: 'polynomial',
+		message: `Unanchored repetition: ${sourceOf(
+			first,
+			context
+		)} starts the pattern without ^, so a failing run of "${pump}" is rescanned from every position`,
+		attackString: pump.repeat(POLYNOMIAL_PUMPS) + suffixFor(root, context),
+	});
+}
+
+/**
+ * Finds a repetition inside a quantified body that can make up a whole iteration on its
+ * own, i.e. every other element next to it is optional or consumes only its characters.
+ * @internal
+ */
+function findPumpableQuantifier(
+	node: RegexNode,
+	context: AnalysisContext
+): QuantifierNode | null {
+	switch (node.type) {
+		case 'quantifier':
+			return node.max > 1 ? node : findPumpableQuantifier(node.body, context);
+		case 'group':
+			return findPumpableQuantifier(node.body, context);
+		case 'alternation':
+			for (const alternative of node.alternatives) {
+				const found = findPumpableQuantifier(alternative, context);
+				if (found) return found;
+			}
+			return null;
+		case 'sequence':
+			for (let i = 0; i < node.elements.length; i++) {
+				const found = findPumpableQuantifier(node.elements[i]!, context);
+				if (!found) continue;
+
+				const pumped = charsOf(found, context);
+				const absorbed = node.elements.every(
+					(element, j) =>
+						j === i ||
+						nullable(element) ||
+						isSubset(charsOf(element, context), pumped)
+				);
+				if (absorbed) return found;
+			}
+			return null;
+		default:
+			return null;
+	}
+}
+
+/**
+ * Finds the first repetition inside a quantified body, whatever surrounds it.
+ * @internal
+ */
+function findRepetition(node: RegexNode): QuantifierNode | null {
+	if (node.type === 'quantifier' && node.max > 1) return node;
+	if (node.type === 'assertion') return null;
+	for (const child of childNodes(node)) {
+		const found = findRepetition(child);
+		if (found) return found;
+	}
+	return null;
+}
+
+/**
+ * Looks for a run of one repeated character that a body matches both in one iteration
+ * and in two, as `aaaa` is matched by `a+.` and by `a+.a+.`. Every copy of such a run
+ * can then be matched either way, doubling the ways to split the input each time.
+ * @returns The run, or an empty string if no character of `inner` makes one.
+ * @internal
+ */
+function ambiguousPump(
+	body: RegexNode,
+	inner: QuantifierNode,
+	context: AnalysisContext
+): string {
+	const length = Math.max(2, 2 * sample(body, context).length);
+	let once: RegExp;
+	let twice: RegExp;
+	try {
+		const source = serializeNode(body);
+		once = new RegExp(`^(?:${source})$`, context.flags);
+		twice = new RegExp(`^(?:${source}){2}$`, context.flags);
+	} catch {
+		// Backreferences do not compile once the body is taken out of its pattern
+		return '';
+	}
+
+	const chars = Array.from(charsOf(inner, context)).slice(0, 4);
+	for (const char of chars) {
+		const run = char.repeat(length);
+		if (once.test(run) && twice.test(run)) return run;
+	}
+	return '';
+}
+
+/**
+ * Checks whether anything after `node` can reject the input, forcing the engine to
+ * backtrack into it. Lookarounds are atomic, so the search stops at their boundary.
+ * @internal
+ */
+function canFailAfter(node: RegexNode, ancestors: RegexNode[]): boolean {
+	let child = node;
+
+	for (let i = ancestors.length - 1; i >= 0; i--) {
+		const parent = ancestors[i]!;
+		if (parent.type === 'assertion') return false;
+
+		if (parent.type === 'sequence') {
+			const following = parent.elements.slice(
+				parent.elements.indexOf(child) + 1
+			);
+			if (
+				following.some(
+					(element) => element.type === 'assertion' || !nullable(element)
+				)
+			) {
+				return true;
+			}
+		}
+		child = parent;
+	}
+
+	return false;
+}
+
+/**
+ * Builds the shortest input that reaches `node`: an example for every element before it.
+ * @internal
+ */
+function prefixFor(
+	node: RegexNode,
+	ancestors: RegexNode[],
+	context: AnalysisContext
+): string {
+	let prefix = '';
+	let child = node;
+
+	for (let i = ancestors.length - 1; i >= 0; i--) {
+		const parent = ancestors[i]!;
+		if (parent.type === 'sequence') {
+			const preceding = parent.elements.slice(
+				0,
+				parent.elements.indexOf(child)
+			);
+			prefix =
+				preceding.map((element) => sample(element, context)).join('') + prefix;
+		}
+		child = parent;
+	}
+
+	return prefix;
+}
+
+/**
+ * Picks a character the offending construct cannot consume, so the attack ends in a failure.
+ * @internal
+ */
+function suffixFor(node: RegexNode, context: AnalysisContext): string {
+	const consumed = charsOf(node, context);
+	const candidates = SUFFIX_PREFERENCE.concat(SAMPLE_CHARACTERS);
+	return candidates.find((char) => !consumed.has(char)) ?? '';
+}
+
+/**
+ * Builds a shortest example string the node matches.
+ * @internal
+ */
+function sample(node: RegexNode, context: AnalysisContext): string {
+	switch (node.type) {
+		case 'literal':
+			return node.value;
+		case 'raw':
+		case 'class':
+		case 'characterType':
+		case 'unicodeProperty':
+			return firstOf(charsOf(node, context));
+		case 'sequence':
+			return node.elements.map((element) => sample(element, context)).join('');
+		case 'alternation':
+			return node.alternatives
+				.map((alternative) => sample(alternative, context))
+				.reduce((shortest, current) =>
+					current.length < shortest.length ? current : shortest
+				);
+		case 'group':
+			return sample(node.body, context);
+		case 'quantifier':
+			return sample(node.body, context).repeat(node.min);
+		case 'assertion':
+		case 'backreference':
+			return '';
+	}
+}
+
+/**
+ * Approximates the set of characters a node can consume, over the sample characters.
+ * @internal
+ */
+function charsOf(node: RegexNode, context: AnalysisContext): Set<string> {
+	switch (node.type) {
+		case 'literal': {
+			const chars = new Set<string>();
+			for (const char of Array.from(node.value)) {
+				chars.add(char);
+				matchingChars(
+					serializeAtom({ type: 'literal', value: char }),
+					context
+				).forEach((match) => chars.add(match));
+			}
+			return chars;
+		}
+		case 'raw':
+			return matchingChars(serializeAtom(node), context);
+		case 'class':
+		case 'characterType':
+		case 'unicodeProperty':
+			return matchingChars(serializeNode(node), context);
+		case 'group':
+			return charsOf(node.body, context);
+		case 'quantifier':
+			return node.max === 0 ? new Set() : charsOf(node.body, context);
+		case 'sequence':
+		case 'alternation': {
+			const chars = new Set<string>();
+			for (const child of childNodes(node)) {
+				charsOf(child, context).forEach((char) => chars.add(char));
+			}
+			return chars;
+		}
+		case 'assertion':
+		case 'backreference':
+			return new Set();
+	}
+}
+
+/**
+ * Approximates the set of characters a match of the node can start with.
+ * @internal
+ */
+function firstCharsOf(node: RegexNode, context: AnalysisContext): Set<string> {
+	switch (node.type) {
+		case 'literal':
+			return charsOf(
+				{ type: 'literal', value: Array.from(node.value)[0] ?? '' },
+				context
+			);
+		case 'group':
+			return firstCharsOf(node.body, context);
+		case 'quantifier':
+			return node.max === 0 ? new Set() : firstCharsOf(node.body, context);
+		case 'sequence': {
+			const chars = new Set<string>();
+			for (const element of node.elements) {
+				firstCharsOf(element, context).forEach((char) => chars.add(char));
+				if (!nullable(element)) break;
+			}
+			return chars;
+		}
+		case 'alternation': {
+			const chars = new Set<string>();
+			for (const alternative of node.alternatives) {
+				firstCharsOf(alternative, context).forEach((char) => chars.add(char));
+			}
+			return chars;
+		}
+		default:
+			return charsOf(node, context);
+	}
+}
+
+/**
+ * Tests every sample character against a single-character pattern, caching the result.
+ * @internal
+ */
+function matchingChars(source: string, context: AnalysisContext): Set<string> {
+	const cached = context.charCache.get(source);
+	if (cached) return cached;
+
+	const regex = new RegExp(`^(?:${source})$`, context.flags);
+	const chars = new Set(SAMPLE_CHARACTERS.filter((char) => regex.test(char)));
+	context.charCache.set(source, chars);
+	return chars;
+}
+
+/**
+ * Checks whether `input` is matched by one or more repetitions of `node`.
+ * @internal
+ */
+function repeatedlyMatches(
+	node: RegexNode,
+	input: string,
+	context: AnalysisContext
+): boolean {
+	try {
+		return new RegExp(`^(?:${serializeNode(node)})+$`, context.flags).test(
+			input
+		);
+	} catch {
+		// Backreferences do not compile once the node is taken out of its pattern
+		return false;
+	}
+}
+
+/**
+ * Checks whether a node can match the empty string.
+ * @internal
+ */
+function nullable(node: RegexNode): boolean {
+	switch (node.type) {
+		case 'literal':
+			return node.value === '';
+		case 'sequence':
+			return node.elements.every(nullable);
+		case 'alternation':
+			return node.alternatives.some(nullable);
+		case 'group':
+			return nullable(node.body);
+		case 'quantifier':
+			return node.min === 0 || nullable(node.body);
+		case 'assertion':
+		case 'backreference':
+			return true;
+		case 'raw':
+		case 'class':
+		case 'characterType':
+		case 'unicodeProperty':
+			return false;
+	}
+}
+
+/**
+ * Computes the maximum nesting depth of repeating quantifiers.
+ * @internal
+ */
+function starHeight(node: RegexNode): number {
+	const nested = Math.max(0, ...childNodes(node).map(starHeight));
+	return node.type === 'quantifier' && node.max > 1 ? nested + 1 : nested;
+}
+
+/**
+ * Returns the unbounded quantifier a node consists of, looking through groups.
+ * @internal
+ */
+function unboundedQuantifier(node: RegexNode): QuantifierNode | null {
+	const inner = unwrapGroups(node);
+	return inner.type === 'quantifier' && inner.max === Infinity ? inner : null;
+}
+
+/**
+ * Strips groups and single-element sequences around a node.
+ * @internal
+ */
+function unwrapGroups(node: RegexNode): RegexNode {
+	if (node.type === 'group') return unwrapGroups(node.body);
+	if (node.type === 'sequence' && node.elements.length === 1) {
+		return unwrapGroups(node.elements[0]!);
+	}
+	return node;
+}
+
+/**
+ * Records an issue located at `node`.
+ * @internal
+ */
+function addIssue(
+	context: AnalysisContext,
+	node: RegexNode,
+	issue: Omit<ReDoSIssue, 'source' | 'span'>
+): void {
+	const span = node.span ?? { start: 0, end: context.pattern.length };
+	context.issues.push({
+		...issue,
+		source: context.pattern.slice(span.start, span.end),
+		span,
+	});
+}
+
+/**
+ * Returns the source text a node was parsed from.
+ * @internal
+ */
+function sourceOf(node: RegexNode, context: AnalysisContext): string {
+	return node.span
+		? context.pattern.slice(node.span.start, node.span.end)
+		: serializeNode(node);
+}
+
+/** @internal */
+function firstOf(chars: Set<string>): string {
+	return chars.values().next().value ?? '';
+}
+
+/** @internal */
+function intersect(a: Set<string>, b: Set<string>): Set<string> {
+	return new Set(Array.from(a).filter((char) => b.has(char)));
+}
+
+/** @internal */
+function isSubset(subset: Set<string>, superset: Set<string>): boolean {
+	return Array.from(subset).every((char) => superset.has(char));
+}
@@ -0,0 +1,666 @@
+/**
+ * @fileoverview Example Synthesis - Infers regex patterns from positive and negative samples
+ * @module Utilities
+ * @category Utilities
+ * @group Example Synthesis
+ * @author duongnguyen321 - https://duonguyen.site
+ */
+
+import type {
+	CharacterClassItem,
+	ExampleSynthesisResult,
+	RegexExamples,
+	RegexNode,
+	SynthesizedPart,
+} from '../../types/index.js';
+import { serializeNode } from '../core/ast.js';
+import { describeRegexNode } from './explain.js';
+
+type Category = 'upper' | 'lower' | 'digit' | 'space' | 'symbol';
+
+/**
+ * A run of characters in a sample. Coarse tokens merge letters and digits into one word run.
+ * @internal
+ */
+interface Token {
+	key: string;
+	text: string;
+}
+
+/**
+ * A part of the pattern under construction. `levels` holds the nodes it can be
+ * rendered as, from the most general to the most specific.
+ * @internal
+ */
+interface PartCandidate {
+	kind: SynthesizedPart['kind'];
+	levels: RegexNode[];
+	level: number;
+	examples: string[];
+	rejected: string[];
+}
+
+/** Consecutive characters needed before an observed character set is written as a range. */
+const MIN_RANGE_RUN = 3;
+
+/**
+ * Infers a minimal anchored pattern that matches every `match` sample and none of the
+ * `reject` samples. Samples are split into runs of letters, digits and punctuation;
+ * runs that line up across samples become literals (shared prefixes and suffixes) or
+ * character classes with observed length bounds, separator-delimited lists become
+ * repeated segments, and a part is only narrowed to its observed characters or values
+ * when a reject sample would otherwise match. Each part reports the samples that drove it.
+ *
+ * @param examples - The samples the pattern must match and reject.
+ * @returns The inferred pattern and a breakdown of its parts.
+ *
+ * @example
+ * ```typescript
+ * const result = synthesizeRegex({
+ * 	match: ['ORD-1234', 'ORD-98765'],
+ * 	reject: ['ORD-12'],
+ * });
+ * result.pattern; // /^ORD-\d{4,5}$/
+ * ```
+ */
+export function synthesizeRegex(
+	examples: RegexExamples
+): ExampleSynthesisResult {
+	const match = examples.match ?? [];
+	const reject = examples.reject ?? [];
+
+	if (match.length === 0) {
+		return failure('At least one sample to match is required');
+	}
+	const conflict = reject.find((sample) => match.includes(sample));
+	if (conflict !== undefined) {
+		return failure(`Sample "${conflict}" is both matched and rejected`);
+	}
+
+	let parts = mergeLiterals(inferParts(match));
+	specialize(parts, reject);
+
+	if (reject.some((sample) => buildPattern(parts).test(sample))) {
+		// Nothing general enough rejects these samples, so list the accepted values
+		parts = [alternationCandidate(match, match)];
+	}
+
+	const pattern = buildPattern(foldRepeats(parts));
+	const unmatched = match.filter((sample) => !pattern.test(sample));
+	const unrejected = reject.filter((sample) => pattern.test(sample));
+	const success = unmatched.length === 0 && unrejected.length === 0;
+
+	return {
+		success,
+		pattern,
+		parts: foldRepeats(parts).map(toReport),
+		unmatched,
+		unrejected,
+		...(!success && {
+			error: 'No pattern is consistent with all samples',
+		}),
+	};
+}
+
+/**
+ * Splits the samples into aligned parts, trying finer structures first.
+ * @internal
+ */
+function inferParts(samples: string[]): PartCandidate[] {
+	const fine = alignColumns(samples, false);
+	if (fine) return fine.flatMap((values) => columnParts(values, samples));
+
+	const coarse = alignColumns(samples, true);
+	if (coarse) return coarse.flatMap((values) => columnParts(values, samples));
+
+	const list = listParts(samples);
+	if (list) return list;
+
+	return columnParts(samples, samples);
+}
+
+/**
+ * Tokenizes every sample and, if all of them have the same token structure,
+ * returns the token texts column by column.
+ * @internal
+ */
+function alignColumns(samples: string[], coarse: boolean): string[][] | null {
+	const tokenized = samples.map((sample) => tokenize(sample, coarse));
+	const shape = tokenized[0]!.map((token) => token.key).join('|');
+
+	if (
+		tokenized.some(
+			(tokens) => tokens.map((token) => token.key).join('|') !== shape
+		)
+	) {
+		return null;
+	}
+
+	return tokenized[0]!.map((_, column) =>
+		tokenized.map((tokens) => tokens[column]!.text)
+	);
+}
+
+/**
+ * Detects samples that are lists of items joined by one separator, with a varying
+ * number of items, and builds `item(?:sep item){min,max}`.
+ * @internal
+ */
+function listParts(samples: string[]): PartCandidate[] | null {
+	const tokenized = samples.map((sample) => tokenize(sample, true));
+	const separator = tokenized[0]![1]?.text;
+	if (separator === undefined) return null;
+
+	const isList = tokenized.every(
+		(tokens) =>
+			tokens.length % 2 === 1 &&
+			tokens.every((token, index) =>
+				index % 2 === 1
+					? token.text === separator
+					: !token.key.startsWith('symbol')
+			)
+	);
+	if (!isList) return null;
+
+	const items = tokenized.map((tokens) =>
+		tokens.filter((_, index) => index % 2 === 0).map((token) => token.text)
+	);
+	const counts = items.map((list) => list.length);
+	const min = Math.min(...counts);
+	const max = Math.max(...counts);
+
+	const owners = items.flatMap((list, index) =>
+		list.map(() => samples[index]!)
+	);
+	const item = classCandidate(items.flat(), owners);
+
+	return [
+		{
+			kind: 'repeat',
+			levels: item.levels.map((node) => ({
+				type: 'sequence',
+				elements: [
+					node,
+					quantify(
+						{
+							type: 'group',
+							kind: 'nonCapturing',
+							body: {
+								type: 'sequence',
+								elements: [{ type: 'literal', value: separator }, node],
+							},
+						},
+						min - 1,
+						max - 1
+					),
+				],
+			})),
+			level: 0,
+			examples: unique([
+				...item.examples,
+				samples[counts.indexOf(min)]!,
+				samples[counts.indexOf(max)]!,
+			]),
+			rejected: [],
+		},
+	];
+}
+
+/**
+ * Turns one column of aligned values into parts: a literal when every sample agrees,
+ * otherwise a class, with any prefix or suffix shared at a category boundary kept literal.
+ * @internal
+ */
+function columnParts(values: string[], samples: string[]): PartCandidate[] {
+	if (values.every((value) => value === values[0])) {
+		return [literalCandidate(values[0]!, samples)];
+	}
+
+	const prefix = sharedBoundary(values, false);
+	const suffix = sharedBoundary(
+		values.map((value) => value.slice(prefix.length)),
+		true
+	);
+	const middles = values.map((value) =>
+		value.slice(prefix.length, value.length - suffix.length)
+	);
+
+	return [
+		...(prefix ? [literalCandidate(prefix, samples)] : []),
+		classCandidate(middles, samples),
+		...(suffix ? [literalCandidate(suffix, samples)] : []),
+	];
+}
+
+/**
+ * Finds the longest prefix (or suffix) all values share that ends where the character
+ * category changes, so `INV001` / `INV042` share `INV` but `2023` / `2024` share nothing.
+ * @internal
+ */
+function sharedBoundary(values: string[], fromEnd: boolean): string {
+	const oriented = fromEnd
+		? values.map((value) => Array.from(value).reverse().join(''))
+		: values;
+	const first = oriented[0]!;
+
+	let length = 0;
+	while (
+		length < first.length &&
+		oriented.every((value) => value[length] === first[length])
+	) {
+		length++;
+	}
+
+	for (; length > 0; length--) {
+		const last = categoryOf(first[length - 1]!);
+		const atBoundary = oriented.every(
+			(value) => value.length > length && categoryOf(value[length]!) !== last
+		);
+		if (atBoundary) break;
+	}
+
+	const shared = first.slice(0, length);
+	return fromEnd ? Array.from(shared).reverse().join('') : shared;
+}
+
+/**
+ * Builds a literal part shared by every sample.
+ * @internal
+ */
+function literalCandidate(value: string, samples: string[]): PartCandidate {
+	return {
+		kind: 'literal',
+		levels: [{ type: 'literal', value }],
+		level: 0,
+		examples: unique(samples),
+		rejected: [],
+	};
+}
+
+/**
+ * Builds a varying part. Its levels are the character categories seen (`[A-Z]`, `\d`),
+ * then the exact characters seen, then the exact values seen.
+ * @internal
+ */
+function classCandidate(values: string[], samples: string[]): PartCandidate {
+	const chars = new Set(values.flatMap((value) => Array.from(value)));
+	const lengths = values.map((value) => Array.from(value).length);
+	const min = Math.min(...lengths);
+	const max = Math.max(...lengths);
+
+	const levels: RegexNode[] = [];
+	for (const node of [
+		quantify(categoryNode(chars), min, max),
+		quantify(observedNode(chars), min, max),
+		alternationNode(values),
+	]) {
+		const source = serializeNode(node);
+		if (!levels.some((level) => serializeNode(level) === source)) {
+			levels.push(node);
+		}
+	}
+
+	// The shortest and longest values set the bounds; the first value with each
+	// character category sets the class
+	const driving = new Set([lengths.indexOf(min), lengths.indexOf(max)]);
+	const seen = new Set<Category>();
+	values.forEach((value, index) => {
+		for (const char of Array.from(value)) {
+			const category = categoryOf(char);
+			if (!seen.has(category)) {
+				seen.add(category);
+				driving.add(index);
+			}
+		}
+	});
+
+	return {
+		kind: 'class',
+		levels,
+		level: 0,
+		examples: unique(
+			Array.from(driving)
+				.sort((a, b) => a - b)
+				.map((index) => samples[index]!)
+		),
+		rejected: [],
+	};
+}
+
+/**
+ * Builds a part that lists every value as an alternative.
+ * @internal
+ */
+function alternationCandidate(
+	values: string[],
+	samples: string[]
+): PartCandidate {
+	return {
+		kind: 'alternation',
+		levels: [alternationNode(values)],
+		level: 0,
+		examples: unique(samples),
+		rejected: [],
+	};
+}
+
+/**
+ * Joins adjacent literal parts into one, so a shared prefix reads as `ORD-`.
+ * @internal
+ */
+function mergeLiterals(parts: PartCandidate[]): PartCandidate[] {
+	const merged: PartCandidate[] = [];
+
+	for (const part of parts) {
+		const previous = merged[merged.length - 1];
+		const node = part.levels[0]!;
+		const previousNode = previous?.levels[0];
+
+		if (
+			part.kind === 'literal' &&
+			previous?.kind === 'literal' &&
+			node.type === 'literal' &&
+			previousNode?.type === 'literal'
+		) {
+			previous.levels = [
+				{ type: 'literal', value: previousNode.value + node.value },
+			];
+		} else {
+			merged.push(part);
+		}
+	}
+
+	return merged;
+}
+
+/**
+ * Narrows parts one level at a time, always picking the change that stops the most
+ * reject samples from matching, until none match or no part can be narrowed further.
+ * @internal
+ */
+function specialize(parts: PartCandidate[], reject: string[]): void {
+	let offenders = reject.filter((sample) => buildPattern(parts).test(sample));
+
+	while (offenders.length > 0) {
+		let best: { index: number; remaining: string[] } | null = null;
+
+		parts.forEach((part, index) => {
+			if (part.level >= part.levels.length - 1) return;
+
+			part.level++;
+			const pattern = buildPattern(parts);
+			part.level--;
+
+			const remaining = offenders.filter((sample) => pattern.test(sample));
+			if (
+				remaining.length < offenders.length &&
+				(!best || remaining.length < best.remaining.length)
+			) {
+				best = { index, remaining };
+			}
+		});
+
+		if (!best) return;
+
+		const { index, remaining } = best as { index: number; remaining: string[] };
+		const part = parts[index]!;
+		part.level++;
+		part.rejected.push(
+			...offenders.filter((sample) => !remaining.includes(sample))
+		);
+		offenders = remaining;
+	}
+}
+
+/**
+ * Folds consecutive runs of identical parts, e.g. `\d{2}:\d{2}:\d{2}` becomes
+ * `\d{2}(?::\d{2}){2}`.
+ * @internal
+ */
+function foldRepeats(parts: PartCandidate[]): PartCandidate[] {
+	const sources = parts.map((part) => serializeNode(part.levels[part.level]!));
+
+	for (let unit = 1; unit <= parts.length / 2; unit++) {
+		for (let start = 0; start + unit * 2 <= parts.length; start++) {
+			const key = sources.slice(start, start + unit).join('');
+			let count = 1;
+			while (
+				sources
+					.slice(start + unit * count, start + unit * (count + 1))
+					.join('') === key &&
+				start + unit * (count + 1) <= parts.length
+			) {
+				count++;
+			}
+			if (count < 2) continue;
+
+			const folded = parts.slice(start, start + unit * count);
+			const body = folded
+				.slice(0, unit)
+				.map((part) => part.levels[part.level]!);
+
+			return foldRepeats([
+				...parts.slice(0, start),
+				{
+					kind: 'repeat',
+					levels: [
+						quantify(
+							{
+								type: 'group',
+								kind: 'nonCapturing',
+								body:
+									body.length === 1
+										? body[0]!
+										: { type: 'sequence', elements: body },
+							},
+							count,
+							count
+						),
+					],
+					level: 0,
+					examples: unique(folded.flatMap((part) => part.examples)),
+					rejected: unique(folded.flatMap((part) => part.rejected)),
+				},
+				...parts.slice(start + unit * count),
+			]);
+		}
+	}
+
+	return parts;
+}
+
+/**
+ * Compiles the parts at their current levels into an anchored pattern.
+ * @internal
+ */
+function buildPattern(parts: PartCandidate[]): RegExp {
+	return new RegExp(
+		serializeNode({
+			type: 'sequence',
+			elements: [
+				{ type: 'assertion', kind: 'start', negative: false },
+				...parts.map((part) => part.levels[part.level]!),
+				{ type: 'assertion', kind: 'end', negative: false },
+			],
+		})
+	);
+}
+
+/**
+ * Converts a candidate into its public report.
+ * @internal
+ */
+function toReport(part: PartCandidate): SynthesizedPart {
+	const node = part.levels[part.level]!;
+	return {
+		kind:
+			part.kind === 'class' && node.type === 'group'
+				? 'alternation'
+				: part.kind,
+		source: serializeNode(node),
+		description: describeRegexNode(node),
+		examples: part.examples,
+		rejected: part.rejected,
+	};
+}
+
+/**
+ * Splits a sample into runs of one character category. Punctuation characters are
+ * tokens of their own; in coarse mode letters and digits form a single word run.
+ * @internal
+ */
+function tokenize(sample: string, coarse: boolean): Token[] {
+	const tokens: Token[] = [];
+
+	for (const char of Array.from(sample)) {
+		const category = categoryOf(char);
+		const key =
+			category === 'symbol'
+				? `symbol:${char}`
+				: coarse && category !== 'space'
+				? 'word'
+				: category;
+		const previous = tokens[tokens.length - 1];
+
+		if (previous && previous.key === key && category !== 'symbol') {
+			previous.text += char;
+		} else {
+			tokens.push({ key, text: char });
+		}
+	}
+
+	return tokens;
+}
+
+/**
+ * Builds the class for the character categories present, e.g. `[A-Z0-9]`, `\d` or `[0-9a-f]`.
+ * @internal
+ */
+function categoryNode(chars: Set<string>): RegexNode {
+	const all = Array.from(chars);
+	const categories = new Set(all.map(categoryOf));
+	const has = (category: Category) => categories.has(category);
+
+	if (all.length === 0) return { type: 'literal', value: '' };
+	if (categories.size === 1 && has('digit')) {
+		return { type: 'characterType', kind: 'digit', negate: false };
+	}
+	if (categories.size === 1 && has('space')) {
+		return { type: 'characterType', kind: 'whitespace', negate: false };
+	}
+
+	const items: CharacterClassItem[] = [];
+	const hex = has('digit') && categories.size === 2;
+	if (has('digit')) items.push(range('0', '9'));
+	if (hex && all.every((char) => /[0-9a-f]/.test(char))) {
+		items.push(range('a', 'f'));
+	} else if (hex && all.every((char) => /[0-9A-F]/.test(char))) {
+		items.push(range('A', 'F'));
+	} else {
+		if (has('upper')) items.push(range('A', 'Z'));
+		if (has('lower')) items.push(range('a', 'z'));
+	}
+	if (has('space')) {
+		items.push({ type: 'characterType', kind: 'whitespace', negate: false });
+	}
+	for (const char of all
+		.filter((char) => categoryOf(char) === 'symbol')
+		.sort()) {
+		items.push({ type: 'char', value: char });
+	}
+
+	return { type: 'class', negate: false, items };
+}
+
+/**
+ * Builds a class of exactly the characters seen, writing consecutive runs as ranges.
+ * @internal
+ */
+function observedNode(chars: Set<string>): RegexNode {
+	const sorted = Array.from(chars).sort(
+		(a, b) => a.codePointAt(0)! - b.codePointAt(0)!
+	);
+	if (sorted.length === 0) return { type: 'literal', value: '' };
+	if (sorted.length === 1) return { type: 'literal', value: sorted[0]! };
+
+	const items: CharacterClassItem[] = [];
+	for (let i = 0; i < sorted.length; ) {
+		let j = i;
+		while (
+			j + 1 < sorted.length &&
+			sorted[j + 1]!.codePointAt(0) === sorted[j]!.codePointAt(0)! + 1
+		) {
+			j++;
+		}
+		if (j - i + 1 >= MIN_RANGE_RUN) {
+			items.push(range(sorted[i]!, sorted[j]!));
+		} else {
+			for (let k = i; k <= j; k++)
+				items.push({ type: 'char', value: sorted[k]! });
+		}
+		i = j + 1;
+	}
+
+	return { type: 'class', negate: false, items };
+}
+
+/**
+ * Builds `(?:a|b|c)` from the distinct values, longest first.
+ * @internal
+ */
+function alternationNode(values: string[]): RegexNode {
+	const distinct = unique(values).sort(
+		(a, b) => b.length - a.length || (a < b ? -1 : a > b ? 1 : 0)
+	);
+	if (distinct.length === 1) return { type: 'literal', value: distinct[0]! };
+
+	return {
+		type: 'group',
+		kind: 'nonCapturing',
+		body: {
+			type: 'alternation',
+			alternatives: distinct.map((value) => ({ type: 'literal', value })),
+		},
+	};
+}
+
+/**
+ * Repeats a node `{min,max}` times, leaving it alone for exactly once.
+ * @internal
+ */
+function quantify(node: RegexNode, min: number, max: number): RegexNode {
+	if (min === 1 && max === 1) return node;
+	if (node.type === 'literal' && node.value === '') return node;
+	return { type: 'quantifier', min, max, lazy: false, body: node };
+}
+
+/** @internal */
+function range(from: string, to: string): CharacterClassItem {
+	return { type: 'range', from, to };
+}
+
+/** @internal */
+function categoryOf(char: string): Category {
+	if (/[A-Z]/.test(char)) return 'upper';
+	if (/[a-z]/.test(char)) return 'lower';
+	if (/[0-9]/.test(char)) return 'digit';
+	if (/\s/.test(char)) return 'space';
+	return 'symbol';
+}
+
+/** @internal */
+function unique<T>(items: T[]): T[] {
+	return items.filter((item, index) => items.indexOf(item) === index);
+}
+
+/** @internal */
+function failure(error: string): ExampleSynthesisResult {
+	return {
+		success: false,
+		pattern: null,
+		parts: [],
+		unmatched: [],
+		unrejected: [],
+		error,
+	};
+}
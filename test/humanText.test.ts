@@ -1,4 +1,11 @@
-import { t2r } from '../dist/index.js';
+import {
+	t2r,
+	t2v,
+	registerParser,
+	unregisterParser,
+	getRegisteredParsers,
+	getPatternSuggestions,
+} from '../dist/index.js';
 
 // A simple assertion helper for this test file
 function assert(condition: boolean, message: string) {
@@ -689,6 +696,141 @@ const tests = {
 			'Test "french postcode": should match French postcode'
 		);
 	},
+
+	'should rank candidates against sample sets': () => {
+		let result = t2r('email', {
+			shouldMatch: ['dev@example.com', 'a.b@c.io'],
+			shouldNotMatch: ['dev@example', 'x dev@example.com y'],
+		});
+		assert(result.success, 'Ranked "email": should succeed');
+		assert(
+			!!result.samples &&
+				result.samples.length === 4 &&
+				result.samples.every((sample) => sample.passed),
+			'Ranked "email": best candidate should pass every sample'
+		);
+		assert(
+			!!result.alternatives &&
+				result.alternatives.some(
+					(candidate) =>
+						candidate.source === 'keyword:email' && candidate.score < 1
+				),
+			'Ranked "email": keyword candidate should be ranked lower'
+		);
+
+		result = t2r('number', { shouldMatch: ['123'], shouldNotMatch: ['12a'] });
+		assert(
+			!!result.pattern &&
+				result.pattern.test('42') &&
+				!result.pattern.test('4x2'),
+			'Ranked "number": should keep an anchored number pattern'
+		);
+
+		result = t2r('gibberish zzz', { shouldMatch: ['x'] });
+		assert(!result.success, 'Ranked "gibberish zzz": should fail');
+		assert(
+			result.samples?.[0]?.passed === false,
+			'Ranked "gibberish zzz": should report the failing sample'
+		);
+	},
+
+	'should run registered parsers in priority order': () => {
+		const parseTicket = (text: string) =>
+			text.includes('ticket key')
+				? {
+						success: true,
+						pattern: /^ACME-\d+$/,
+						description: 'ACME ticket key',
+						confidence: 0.9,
+				  }
+				: null;
+
+		assert(
+			!t2r('ticket key').success,
+			'Unregistered: should not be understood'
+		);
+
+		registerParser({
+			name: 'acme-ticket',
+			keywords: ['ticket key'],
+			parse: parseTicket,
+		});
+		try {
+			assert(
+				getRegisteredParsers()[0]?.name === 'acme-ticket',
+				'Registry: default priority should run before built-in parsers'
+			);
+
+			const result = t2r('ticket key');
+			assert(
+				!!result.pattern && result.pattern.test('ACME-42'),
+				'Registered "ticket key": t2r should use the parser'
+			);
+			const validation = t2v('ticket key', 'ACME-42');
+			assert(
+				!!validation.allPassed,
+				'Registered "ticket key": t2v should build a passing rule'
+			);
+			assert(
+				getPatternSuggestions('ticket').some((suggestion) =>
+					suggestion.includes('acme-ticket')
+				),
+				'Registered "ticket key": should show up in suggestions'
+			);
+
+			let threw = false;
+			try {
+				registerParser({ name: 'acme-ticket', parse: () => null });
+			} catch {
+				threw = true;
+			}
+			assert(threw, 'Registry: duplicate names should throw');
+		} finally {
+			unregisterParser('acme-ticket');
+		}
+
+		registerParser({
+			name: 'acme-prefix',
+			priority: 1,
+			parse: (text) =>
+				text.includes('starts with')
+					? { success: true, pattern: /^acme$/, confidence: 1 }
+					: null,
+		});
+		try {
+			assert(
+				!!t2r('starts with abc').pattern?.test('abcdef'),
+				'Registry: a low-priority parser should not override built-ins'
+			);
+		} finally {
+			unregisterParser('acme-prefix');
+		}
+
+		registerParser({
+			name: 'acme-declined',
+			parse: (text) =>
+				text.includes('starts with')
+					? {
+							success: false,
+							confidence: 0,
+							error: 'Not an ACME description',
+					  }
+					: null,
+		});
+		try {
+			assert(
+				!!t2r('starts with abc').pattern?.test('abcdef'),
+				'Registry: a parser returning success: false should leave the text to the next parser'
+			);
+		} finally {
+			unregisterParser('acme-declined');
+		}
+
+		assert(
+			!unregisterParser('acme-ticket') && !t2r('ticket key').success,
+			'Unregistered: the parser should be gone'
+		);
+	},
 };
 
 let passed = 0;
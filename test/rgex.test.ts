@@ -3,7 +3,42 @@ import {
 	RGex,
 	REGEX_PATTERNS,
 	validatePassword,
+	estimatePasswordStrength,
 	parseHumanTextToValidation,
+	analyzeReDoS,
+	r2t,
+	fuzzRule,
+	VALIDATION_PATTERNS,
+	patternRegistry,
+	t2r,
+	luhnCheck,
+	isValidIban,
+	isValidIsbn,
+	isValidIsbn10,
+	isValidIsbn13,
+	isValidAbaRouting,
+	isValidEan,
+	isValidVin,
+	detectCardBrand,
+	formatCardNumber,
+	parsePhone,
+	t2v,
+	normalizePostalCode,
+	isValidPostalCode,
+	isValidNationalId,
+	isValidEuVat,
+	validateDate,
+	parseDate,
+	numericRangeSource,
+	extractEntities,
+	setBreachSource,
+	PasswordPolicy,
+	generateStrongPassword,
+	generatePassphrase,
+	findKeyboardPattern,
+	getPasswordSuggestions,
+	registerPasswordMessages,
+	formatPasswordMessage,
 } from '../dist/index.js';
 
 // Simple test runner
@@ -90,6 +125,21 @@ test.test('Basic Builder Methods', () => {
 
 	const endPattern = rgex().literal('test').end();
 	test.assertEquals(endPattern.toString(), '/test$/', 'end() should add $');
+	test.assertEquals(
+		rgex().literal('a$').end().toString(),
+		'/a\\$$/',
+		'end() should not mistake an escaped $ for an anchor'
+	);
+	test.assertEquals(
+		rgex().literal('^a').start().end().toString(),
+		'/^\\^a$/',
+		'start() should not mistake an escaped ^ for an anchor'
+	);
+	test.assertEquals(
+		rgex().uuid().end().getPattern(),
+		rgex().uuid().getPattern(),
+		'end() should not anchor an anchored pre-built pattern twice'
+	);
 
 	const digitPattern = rgex().digit();
 	test.assertEquals(digitPattern.toString(), '/\\d/', 'digit() should add \\d');
@@ -107,81 +157,1383 @@ test.test('Chaining Methods', () => {
 		.end();
 
 	test.assertEquals(
-		chained.toString(),
-		'/^hello\\s+\\w*world$/',
-		'method chaining should work'
+		chained.toString(),
+		'/^hello\\s+\\w*world$/',
+		'method chaining should work'
+	);
+});
+
+test.test('Quantifiers', () => {
+	const optional = rgex().literal('a').optional();
+	test.assertEquals(optional.toString(), '/a?/', 'optional() should add ?');
+
+	const oneOrMore = rgex().literal('a').oneOrMore();
+	test.assertEquals(oneOrMore.toString(), '/a+/', 'oneOrMore() should add +');
+
+	const zeroOrMore = rgex().literal('a').zeroOrMore();
+	test.assertEquals(zeroOrMore.toString(), '/a*/', 'zeroOrMore() should add *');
+
+	const exactRepeat = rgex().literal('a').quantifier(3);
+	test.assertEquals(
+		exactRepeat.toString(),
+		'/a{3}/',
+		'quantifier(n) should add {n}'
+	);
+
+	const rangeRepeat = rgex().literal('a').quantifier(2, 5);
+	test.assertEquals(
+		rangeRepeat.toString(),
+		'/a{2,5}/',
+		'quantifier(min, max) should add {min,max}'
+	);
+});
+
+test.test('Capture Groups', () => {
+	const captured = rgex().group('\\d+');
+	test.assertEquals(
+		captured.toString(),
+		'/(\\d+)/',
+		'group() should add parentheses'
+	);
+
+	const nonCaptured = rgex().raw('(?:abc|def)');
+	test.assertEquals(
+		nonCaptured.toString(),
+		'/(?:abc|def)/',
+		'raw() with non-capturing pattern should work'
+	);
+});
+
+test.test('Named Groups and Typed Matches', () => {
+	const date = rgex()
+		.start()
+		.namedGroup('year', '\\d{4}')
+		.literal('-')
+		.namedGroup('month', '\\d{2}')
+		.end();
+	test.assertEquals(
+		date.getPattern(),
+		'^(?<year>\\d{4})-(?<month>\\d{2})$',
+		'namedGroup() should add a named group'
+	);
+	const match = date.matchTyped('2024-05');
+	test.assertEquals(match?.year, '2024', 'matchTyped: year');
+	test.assertEquals(match?.month, '05', 'matchTyped: month');
+	test.assertEquals(date.matchTyped('2024'), null, 'matchTyped: no match');
+
+	const doubled = rgex()
+		.namedGroup('word', '\\w+')
+		.literal(' ')
+		.backreference('word');
+	test.assertMatch(doubled.build(), 'hi hi', 'named backreference');
+	test.assertNoMatch(doubled.build(), 'hi ho', 'named backreference mismatch');
+	test.assertEquals(
+		rgex().group('a').backreference(1).getPattern(),
+		'(a)\\1',
+		'numbered backreference'
+	);
+
+	let threw = false;
+	try {
+		rgex().namedGroup('1st', 'a');
+	} catch {
+		threw = true;
+	}
+	test.assert(threw, 'invalid group names should throw');
+
+	const time = rgex
+		.frozen()
+		.followedBy(rgex().namedGroup('hour', '\\d{2}'))
+		.literal(':')
+		.namedGroup('minute', '\\d{2}');
+	test.assertEquals(
+		time.matchTyped('10:30')?.hour,
+		'10',
+		'groups of embedded builders'
+	);
+});
+
+test.test('Lookaheads and Lookbehinds', () => {
+	const positiveLookahead = rgex().lookahead('test', false);
+	test.assertEquals(
+		positiveLookahead.toString(),
+		'/(?=test)/',
+		'lookahead() should work'
+	);
+
+	const negativeLookahead = rgex().lookahead('test', true);
+	test.assertEquals(
+		negativeLookahead.toString(),
+		'/(?!test)/',
+		'negative lookahead should work'
+	);
+
+	const positiveLookbehind = rgex().lookbehind('test', false);
+	test.assertEquals(
+		positiveLookbehind.toString(),
+		'/(?<=test)/',
+		'lookbehind() should work'
+	);
+
+	const negativeLookbehind = rgex().lookbehind('test', true);
+	test.assertEquals(
+		negativeLookbehind.toString(),
+		'/(?<!test)/',
+		'negative lookbehind should work'
+	);
+});
+
+test.test('AST-backed Builder', () => {
+	const multiChar = rgex().literal('ab').oneOrMore();
+	test.assertEquals(
+		multiChar.toString(),
+		'/(?:ab)+/',
+		'quantifier should apply to the whole literal'
+	);
+
+	const rawRepeat = rgex().raw('\\d+').optional();
+	test.assertEquals(
+		rawRepeat.toString(),
+		'/(?:\\d+)?/',
+		'quantifier should group a multi-atom raw pattern'
+	);
+
+	const classRepeat = rgex().raw('[a-z]').oneOrMore();
+	test.assertEquals(
+		classRepeat.toString(),
+		'/[a-z]+/',
+		'quantifier should not group a single character class'
+	);
+
+	const alternation = rgex().start().literal('cat').or('dog').end();
+	test.assertEquals(
+		alternation.toString(),
+		'/^(?:cat|dog)$/',
+		'or() should be scoped inside the anchors'
+	);
+	test.assert(alternation.test('dog'), 'alternation should match dog');
+	test.assert(!alternation.test('dogs'), 'alternation should stay anchored');
+
+	const followed = rgex().literal('cat').or('dog').or('bird').literal('s');
+	test.assertEquals(
+		followed.toString(),
+		'/(?:cat|dog|bird)s/',
+		'or() should extend the alternation and group it before later elements'
+	);
+
+	const rawAlternation = rgex().raw('a|b').literal('c');
+	test.assertEquals(
+		rawAlternation.toString(),
+		'/(?:a|b)c/',
+		'a raw alternation should be grouped before later elements'
+	);
+	test.assert(!rawAlternation.test('a'), 'raw alternation should not leak');
+	test.assertEquals(
+		rgex().raw('(?:a|b)').raw('[|]').toString(),
+		'/(?:a|b)[|]/',
+		'raw sources with | only inside groups or classes stay as they are'
+	);
+
+	const lazy = rgex().any().oneOrMore().lazy();
+	test.assertEquals(lazy.toString(), '/.+?/', 'lazy() should add ?');
+
+	let threw = false;
+	try {
+		rgex().start().oneOrMore();
+	} catch {
+		threw = true;
+	}
+	test.assert(threw, 'quantifier without a preceding element should throw');
+
+	const ast = rgex().start().digit().quantifier(2).toAST();
+	test.assertEquals(ast.elements.length, 2, 'toAST() should expose elements');
+	test.assertEquals(
+		ast.elements[1]?.type,
+		'quantifier',
+		'toAST() should expose quantifier nodes'
+	);
+
+	const original = rgex().literal('a');
+	const copy = original.clone().literal('b');
+	test.assertEquals(original.getPattern(), 'a', 'clone() should not share AST');
+	test.assertEquals(copy.getPattern(), 'ab', 'clone() should copy AST');
+});
+
+test.test('Immutable Builders and Composition', () => {
+	const base = rgex.frozen().start().literal('ID-');
+	const numeric = base.digit().quantifier(3).end();
+	const word = base.word().oneOrMore().end();
+	test.assertEquals(base.getPattern(), '^ID-', 'base should be unchanged');
+	test.assertEquals(numeric.getPattern(), '^ID-\\d{3}$', 'numeric branch');
+	test.assertEquals(word.getPattern(), '^ID-\\w+$', 'word branch');
+	test.assert(numeric.isImmutable(), 'branches stay immutable');
+	test.assert(!base.toMutable().isImmutable(), 'toMutable()');
+
+	const flagged = RGex.immutable('a');
+	test.assertEquals(flagged.ignoreCase().getFlags(), 'i', 'flag on copy');
+	test.assertEquals(flagged.getFlags(), '', 'flag not on original');
+
+	const octet = rgex().range(0, 255);
+	const pair = rgex()
+		.start()
+		.followedBy(octet)
+		.literal('.')
+		.followedBy(octet)
+		.end();
+	test.assertMatch(pair.build(), '10.255', 'followedBy: anchors dropped');
+	test.assertNoMatch(pair.build(), '10.256', 'followedBy: range kept');
+
+	const animals = rgex()
+		.start()
+		.or(rgex('cat', { ignoreCase: true }), rgex('^dog$'))
+		.end()
+		.build();
+	test.assertEquals(
+		animals.source,
+		'^(?:[cC][aA][tT]|dog)$',
+		'or() with instances'
+	);
+	test.assertEquals(animals.flags, '', 'or() keeps the i flag to its operand');
+	test.assertNoMatch(animals, 'DOG', 'other operands stay case-sensitive');
+
+	const id = rgex()
+		.start()
+		.literal('ID-')
+		.followedBy(rgex().literal('x').ignoreCase())
+		.end()
+		.build();
+	test.assertMatch(id, 'ID-X', 'operand is case-insensitive');
+	test.assertNoMatch(id, 'id-X', 'host literal keeps its case sensitivity');
+	const line = rgex()
+		.start()
+		.followedBy(rgex('a.b', { dotAll: true }))
+		.literal('-')
+		.followedBy(rgex('c.d'))
+		.end()
+		.build();
+	test.assertMatch(line, 'a\nb-c.d', 'dot-all operand matches newlines');
+	test.assertNoMatch(line, 'a\nb-c\nd', 'dot-all stays in its operand');
+	let caseError = '';
+	try {
+		rgex('id-', { ignoreCase: true }).followedBy(rgex('abc'));
+	} catch (error) {
+		caseError = (error as Error).message;
+	}
+	test.assertEquals(
+		caseError,
+		"The case-sensitive pattern abc can't be embedded in a case-insensitive one",
+		'case-sensitive operand rejected by a case-insensitive host'
+	);
+	test.assertEquals(
+		rgex('id-', { ignoreCase: true }).followedBy(rgex('\\d+')).getPattern(),
+		'id-\\d+',
+		'operand without letters embeds in a case-insensitive host'
+	);
+	const sets = rgex()
+		.charClass('(|')
+		.followedBy(RGex.parse('[a]', 'v'))
+		.build();
+	test.assertEquals(sets.flags, 'v', 'v flag adopted from the operand');
+	test.assertMatch(sets, '|a', 'host class re-escaped for the v flag');
+	test.assertEquals(
+		RGex.parse('[a--b]', 'v').followedBy(rgex('[(|]')).getPattern(),
+		'[a--b][\\(\\|]',
+		'operand class re-escaped for a v host'
+	);
+
+	const repeated = rgex('(a)\\1');
+	test.assertEquals(
+		rgex().group('x').followedBy(repeated).getPattern(),
+		'(x)(a)\\2',
+		'backreferences are renumbered'
+	);
+	test.assertEquals(
+		rgex().lookahead(rgex().literal('a')).group(rgex('b|c')).getPattern(),
+		'(?=a)(b|c)',
+		'lookahead() and group() accept instances'
+	);
+});
+
+test.test('Regex Parser', () => {
+	const date = RGex.parse('(?<year>\\d{4})-(?<month>\\d{2})');
+	const [year] = date.toAST().elements;
+	test.assertEquals(year?.type, 'group', 'named group should parse as a group');
+	if (year?.type === 'group') {
+		test.assertEquals(year.name, 'year', 'group name should be kept');
+		test.assertEquals(year.index, 1, 'group should be numbered');
+		test.assertEquals(year.span?.start, 0, 'span should start at the group');
+		test.assertEquals(year.span?.end, 14, 'span should end after the group');
+	}
+	test.assertEquals(
+		date.exec('2024-05')?.groups?.month,
+		'05',
+		'parsed pattern should still capture'
+	);
+
+	const price = RGex.parse(/(?<=\$)\d+(?!px)/g);
+	test.assertEquals(price.getFlags(), 'g', 'RegExp flags should be kept');
+	const [lookbehind] = price.toAST().elements;
+	test.assert(
+		lookbehind?.type === 'assertion' && lookbehind.kind === 'lookbehind',
+		'lookbehind should parse as an assertion'
+	);
+
+	const letters = RGex.parse('\\p{Script=Greek}+', 'u');
+	const [repeat] = letters.toAST().elements;
+	test.assert(
+		repeat?.type === 'quantifier' &&
+			repeat.body.type === 'unicodeProperty' &&
+			repeat.body.value === 'Greek',
+		'unicode property escape should parse'
+	);
+	test.assertMatch(letters.build(), 'αβγ');
+
+	const sets = RGex.parse('^[\\p{L}--[a-z]]+$', 'v');
+	test.assertMatch(sets.build(), 'ÀB');
+	test.assertNoMatch(sets.build(), 'ab');
+
+	const extended = RGex.parse('^(cat|dog)').literal('s').end();
+	test.assertEquals(
+		extended.getPattern(),
+		'^(cat|dog)s$',
+		'parsed pattern should continue with the fluent API'
+	);
+
+	let threw = false;
+	try {
+		RGex.parse('(unclosed');
+	} catch (error) {
+		threw = error instanceof SyntaxError;
+	}
+	test.assert(threw, 'invalid patterns should throw a SyntaxError');
+
+	const sample = 'user@example.com';
+	test.assert(
+		Object.values(REGEX_PATTERNS).every(
+			(pattern) =>
+				new RegExp(RGex.parse(pattern).getPattern()).test(sample) ===
+				new RegExp(pattern).test(sample)
+		),
+		'parsed built-in patterns should behave like the originals'
+	);
+});
+
+test.test('ReDoS Analysis', () => {
+	const nested = analyzeReDoS('^(a+)+$');
+	test.assertEquals(nested.complexity, 'exponential', 'nested quantifier');
+	test.assertEquals(nested.starHeight, 2, 'star height of (a+)+');
+	test.assertEquals(nested.issues[0]?.kind, 'nestedQuantifier', 'issue kind');
+	test.assertEquals(nested.issues[0]?.source, '(a+)+', 'offending source');
+	test.assertEquals(nested.issues[0]?.span.start, 1, 'offending position');
+	test.assertEquals(
+		nested.issues[0]?.attackString,
+		'a'.repeat(30) + '!',
+		'attack string should pump and then fail'
+	);
+
+	const alternation = analyzeReDoS(/^(\d|[0-9a-f])+x/);
+	test.assertEquals(
+		alternation.issues[0]?.kind,
+		'overlappingAlternation',
+		'overlapping alternatives under a repetition'
+	);
+
+	for (const pattern of ['^(a|b|ab)*$', '^(?:ab|a|b)+$']) {
+		const union = analyzeReDoS(pattern);
+		test.assertEquals(
+			union.issues[0]?.kind,
+			'overlappingAlternation',
+			`${pattern}: an alternative matched by the others repeated`
+		);
+		test.assertEquals(
+			union.issues[0]?.attackString,
+			'ab'.repeat(30) + '!',
+			`${pattern}: attack string`
+		);
+	}
+	test.assert(analyzeReDoS('^(a|b)*$').safe, 'disjoint alternatives');
+
+	const adjacent = analyzeReDoS('^\\d+\\d+$');
+	test.assertEquals(adjacent.complexity, 'polynomial', 'adjacent repetitions');
+	test.assertEquals(
+		analyzeReDoS('\\s+$').issues[0]?.kind,
+		'unanchoredRepetition',
+		'unanchored trailing whitespace'
+	);
+
+	const owasp = analyzeReDoS('^(([a-z])+.)+[A-Z]([a-z])+$');
+	test.assertEquals(owasp.complexity, 'exponential', 'OWASP (([a-z])+.)+');
+	test.assertEquals(
+		owasp.issues[0]?.source,
+		'(([a-z])+.)+',
+		'a repetition ending in . can split a run of letters'
+	);
+	test.assertEquals(
+		analyzeReDoS('^(\\d+.)+$').issues[0]?.attackString,
+		'0000'.repeat(30) + '\n',
+		'. taking the repeated characters'
+	);
+	test.assert(analyzeReDoS('^([a-z]+,)+$').safe, 'separator outside the run');
+
+	const bounded = analyzeReDoS('(.*a){12}');
+	test.assertEquals(bounded.complexity, 'exponential', 'bounded .* prefix');
+	test.assertEquals(
+		bounded.issues[0]?.attackString,
+		'a'.repeat(11) + '\n',
+		'bounded repetition attack is one repetition short'
+	);
+	test.assert(analyzeReDoS('(.*a){3}').safe, 'small bounded repetition');
+
+	const mixed = analyzeReDoS('\\s*(a+)+b');
+	test.assertEquals(
+		mixed.issues.map((issue) => issue.complexity).join(),
+		'exponential,polynomial',
+		'issues are sorted exponential first'
+	);
+
+	test.assert(analyzeReDoS('^(?:\\.[a-z]+)*$').safe, 'separated repetition');
+	test.assert(analyzeReDoS('^(ab|a)*c').safe, 'distinguishable alternatives');
+	test.assert(
+		analyzeReDoS('^(?=.*X)(?=.*Y).*$').safe,
+		'anchored lookaheads should be safe'
+	);
+	test.assert(
+		analyzeReDoS('(a+)+').safe,
+		'nothing after the repetition can force backtracking'
+	);
+
+	const report = rgex()
+		.start()
+		.word()
+		.oneOrMore()
+		.oneOrMore()
+		.end()
+		.safetyReport();
+	test.assertEquals(
+		report.complexity,
+		'exponential',
+		'safetyReport() on builder'
+	);
+	test.assert(
+		rgex().start().digit().oneOrMore().end().safetyReport().safe,
+		'safe builder'
+	);
+});
+
+test.test('Regex Explanation', () => {
+	const ipv4 = r2t(REGEX_PATTERNS.IPV4);
+	test.assertEquals(
+		ipv4.patternNames.join(),
+		'IPV4',
+		'built-in pattern by name'
+	);
+	test.assertEquals(
+		ipv4.summary,
+		'Matches an entire input consisting of an IPv4 address.',
+		'summary should name the built-in pattern'
+	);
+	test.assert(
+		r2t(REGEX_PATTERNS.UUID).summary.includes('a UUID v1–v5'),
+		'UUID should be recognized'
+	);
+
+	const embedded = r2t(
+		'x(?:(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\\.){3}(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)'
+	);
+	test.assert(
+		embedded.summary.includes('"x", followed by an IPv4 address'),
+		'built-in pattern should be recognized inside a larger pattern'
+	);
+
+	const date = r2t(/^(?<year>\d{4})-\d{2}$/i);
+	const [, year, dash] = date.tree.children;
+	test.assertEquals(year?.source, '(?<year>\\d{4})', 'token source');
+	test.assertEquals(
+		year?.description,
+		'group "year" (a digit, exactly 4 times)',
+		'named group description'
+	);
+	test.assertEquals(dash?.span?.start, 15, 'token position');
+	test.assert(
+		date.summary.includes('Captures group "year" (#1).') &&
+			date.summary.includes('Flags: case-insensitive.'),
+		'summary should list captures and flags'
+	);
+
+	const explained = rgex()
+		.start()
+		.literal('v')
+		.digit()
+		.oneOrMore()
+		.end()
+		.explain();
+	test.assertEquals(
+		explained.summary,
+		'Matches an entire input consisting of "v", followed by a digit, one or more times.',
+		'explain() on builder'
+	);
+});
+
+test.test('Example Synthesis', () => {
+	const orders = RGex.fromExamples({
+		match: ['ORD-1234', 'ORD-98765'],
+		reject: ['ORD-12', 'INV-1234'],
+	});
+	test.assert(orders.success, 'synthesis should succeed');
+	test.assertEquals(
+		orders.pattern?.source,
+		'^ORD-\\d{4,5}$',
+		'literal prefix and digit class with observed bounds'
+	);
+	test.assertEquals(orders.parts[0]?.kind, 'literal', 'prefix part');
+	test.assertEquals(orders.parts[1]?.source, '\\d{4,5}', 'class part');
+
+	const narrowed = RGex.fromExamples({
+		match: ['ORD-123', 'ORD-4567'],
+		reject: ['ORD-0000'],
+	});
+	test.assertEquals(
+		narrowed.pattern?.source,
+		'^ORD-[1-7]{3,4}$',
+		'reject sample should narrow the class to observed characters'
+	);
+	test.assertEquals(
+		narrowed.parts[1]?.rejected.join(),
+		'ORD-0000',
+		'part should report the reject sample that drove it'
+	);
+
+	test.assertEquals(
+		RGex.fromExamples({ match: ['12:34:56', '01:02:03'] }).pattern?.source,
+		'^(?:\\d{2}:){2}\\d{2}$',
+		'repeated segments should be folded'
+	);
+	test.assertEquals(
+		RGex.fromExamples({ match: ['a,b,c', 'dd,e'] }).pattern?.source,
+		'^[a-z]{1,2}(?:,[a-z]{1,2}){1,2}$',
+		'separated lists should become a repeated segment'
+	);
+
+	const conflict = RGex.fromExamples({ match: ['x'], reject: ['x'] });
+	test.assert(!conflict.success && !!conflict.error, 'conflicting samples');
+});
+
+test.test('String Generation', () => {
+	const orderId = rgex().start().literal('ID-').digit().quantifier(3).end();
+	const values = orderId.generate({ count: 20, seed: 42 });
+	test.assertEquals(values.length, 20, 'should generate the requested count');
+	test.assert(
+		values.every((value) => /^ID-\d{3}$/.test(value)),
+		'generated values should match'
+	);
+	test.assertEquals(
+		orderId.generate({ count: 20, seed: 42 }).join(),
+		values.join(),
+		'same seed should reproduce the same values'
+	);
+
+	const repeated = rgex('(\\w)\\1-(?<n>\\d{2})\\k<n>').generate({
+		count: 10,
+		seed: 1,
+	});
+	test.assert(
+		repeated.every((value) => /^(\w)\1-(\d{2})\2$/.test(value)),
+		'backreferences should repeat the captured text'
+	);
+
+	const password = rgex('^(?=.*[A-Z])(?=.*\\d).{8,12}$').generate({
+		count: 10,
+		seed: 7,
+	});
+	test.assert(
+		password.every((value) => /^(?=.*[A-Z])(?=.*\d).{8,12}$/.test(value)),
+		'lookaheads should be satisfied'
+	);
+	test.assert(
+		rgex('a*')
+			.generate({ count: 20, seed: 3, maxRepeat: 2 })
+			.every((value) => value.length <= 2),
+		'maxRepeat should cap unbounded quantifiers'
+	);
+
+	const misses = orderId.generateNonMatching({ count: 10, seed: 42 });
+	test.assertEquals(misses.length, 10, 'should generate near misses');
+	test.assert(
+		misses.every((value) => !/^ID-\d{3}$/.test(value)),
+		'near misses should be rejected'
+	);
+	test.assertEquals(
+		rgex('.*').generateNonMatching({ count: 3 }).length,
+		0,
+		'nothing to miss for a pattern that accepts everything'
+	);
+
+	let threw = false;
+	try {
+		rgex('a(?!b)b').generate();
+	} catch {
+		threw = true;
+	}
+	test.assert(threw, 'impossible patterns should throw');
+});
+
+test.test('Rule Fuzzing', () => {
+	const required = fuzzRule(VALIDATION_PATTERNS.required(), { seed: 1 });
+	test.assert(!required.passed, 'required rule should not pass');
+	test.assert(
+		required.findings.some(
+			(finding) =>
+				finding.kind === 'disagreement' &&
+				finding.input.trim() === '' &&
+				finding.patternResult === true &&
+				finding.validatorResult === false
+		),
+		'whitespace-only input should expose the pattern/validator mismatch'
+	);
+	test.assertEquals(
+		JSON.stringify(fuzzRule(VALIDATION_PATTERNS.required(), { seed: 1 })),
+		JSON.stringify(required),
+		'same seed should reproduce the same report'
+	);
+
+	const email = fuzzRule(VALIDATION_PATTERNS.email(), {
+		seed: 1,
+		iterations: 50,
+	});
+	test.assert(email.passed, 'pattern-only rule has nothing to disagree with');
+
+	const nested = fuzzRule(
+		{ name: 'nested', pattern: /^(a+)+$/, message: 'invalid' },
+		{ seed: 1, iterations: 50 }
+	);
+	test.assert(
+		nested.findings.some(
+			(finding) =>
+				finding.kind === 'slow' && finding.mutation === 'redos-attack'
+		),
+		'exponential patterns should be reported without being run'
+	);
+
+	const crashing = fuzzRule(
+		{
+			name: 'crashing',
+			pattern: /x/,
+			message: 'invalid',
+			validator: (value: string) => {
+				if (value.length > 100) throw new Error('too long');
+				return value.includes('x');
+			},
+		},
+		{ seed: 1 }
+	);
+	test.assert(
+		crashing.findings.some(
+			(finding) =>
+				finding.kind === 'crash' && finding.error === 'validator: too long'
+		),
+		'validator exceptions should be reported as crashes'
+	);
+});
+
+test.test('Pattern Registry', () => {
+	const acme = patternRegistry.namespace('acme');
+	acme.define('orderId', {
+		pattern: /^ORD-\d{6}$/,
+		keywords: ['order id', 'order number'],
+		description: 'ACME order ID',
+		examples: ['ORD-123456'],
+		validator: (value: string) => !value.endsWith('000000'),
+	});
+
+	try {
+		test.assert(
+			rgex().use('acme.orderId').test('ORD-123456'),
+			'use() should append a namespaced pattern'
+		);
+		test.assertEquals(
+			rgex().start().use('HEX_COLOR').end().getPattern(),
+			`^(?:${REGEX_PATTERNS.HEX_COLOR.slice(1, -1)})$`,
+			'use() should fall back to built-in names'
+		);
+		acme.define('sku', { pattern: /^ACME-\d+$/i });
+		const labelled = rgex().literal('x').use('acme.sku');
+		test.assertEquals(
+			labelled.getPattern(),
+			'x(?:[Aa][Cc][Mm][Ee]-\\d+)',
+			'use() should drop the anchors and keep the i flag to its own part'
+		);
+		test.assert(labelled.test('xacme-42'), 'use() after another step');
+		test.assert(
+			!rgex().literal('x').use('acme.sku').test('Xacme-42'),
+			'the stored i flag should not reach the rest of the builder'
+		);
+		test.assertEquals(labelled.getFlags(), '', 'use() adds no i flag');
+		test.assertEquals(
+			t2r('order number').pattern?.source,
+			'^ORD-\\d{6}$',
+			't2r should match definition keywords'
+		);
+
+		const validation = parseHumanTextToValidation('order id', 'ORD-000000');
+		test.assertEquals(
+			validation.rules?.[0]?.name,
+			'acme.orderId',
+			't2v should build a rule named after the definition'
+		);
+		test.assert(
+			validation.allPassed === false,
+			't2v rule should keep the definition validator'
+		);
+
+		let error = '';
+		try {
+			patternRegistry.define('acme.code', {
+				pattern: /^\d+$/,
+				examples: ['12a'],
+			});
+		} catch (e) {
+			error = (e as Error).message;
+		}
+		test.assert(
+			error.includes('"12a"') && !patternRegistry.has('acme.code'),
+			'examples should be validated at registration'
+		);
+
+		error = '';
+		try {
+			patternRegistry.define('email', { pattern: /^[^@]+@acme\.com$/ });
+		} catch (e) {
+			error = (e as Error).message;
+		}
+		test.assert(error.includes('override'), 'built-in names need override');
+
+		patternRegistry.define(
+			'email',
+			{ pattern: /^[^@]+@acme\.com$/, keywords: ['email'] },
+			{ override: true }
+		);
+		test.assert(
+			!!t2r('email').pattern?.test('dev@acme.com') &&
+				!t2r('email').pattern?.test('dev@example.com'),
+			'overrides should take precedence in t2r'
+		);
+		patternRegistry.remove('email');
+		test.assert(
+			!!patternRegistry.get('email')?.builtIn,
+			'removing an override should restore the built-in'
+		);
+	} finally {
+		patternRegistry.remove('acme.orderId');
+		patternRegistry.remove('acme.sku');
+		patternRegistry.remove('email');
+	}
+	test.assertEquals(acme.list().length, 0, 'namespace should be empty');
+});
+
+test.test('Checksum Validators', () => {
+	test.assert(luhnCheck('4111111111111111'), 'Luhn: valid card');
+	test.assert(luhnCheck('4111 1111 1111 1111'), 'Luhn: grouped card');
+	test.assert(!luhnCheck('4111111111111112'), 'Luhn: wrong check digit');
+	test.assert(!luhnCheck('4'), 'Luhn: too short');
+
+	test.assert(isValidIban('GB82WEST12345698765432'), 'IBAN: valid GB');
+	test.assert(isValidIban('GB82 WEST 1234 5698 7654 32'), 'IBAN: printed form');
+	test.assert(!isValidIban('GB82WEST12345698765433'), 'IBAN: wrong checksum');
+	test.assert(!isValidIban('DE89370400440532013'), 'IBAN: wrong length');
+	test.assert(!isValidIban('ZZ82WEST12345698765432'), 'IBAN: unknown country');
+
+	test.assert(isValidIsbn10('0306406152'), 'ISBN-10: valid');
+	test.assert(isValidIsbn10('080442957X'), 'ISBN-10: X check digit');
+	test.assert(!isValidIsbn10('0306406153'), 'ISBN-10: wrong check digit');
+	test.assert(isValidIsbn13('978-0-306-40615-7'), 'ISBN-13: hyphenated');
+	test.assert(!isValidIsbn13('9780306406158'), 'ISBN-13: wrong check digit');
+	test.assert(isValidIsbn('9780306406157'), 'ISBN: either form, 13');
+	test.assert(isValidIsbn('0-306-40615-2'), 'ISBN: either form, 10');
+	test.assert(t2v('isbn', '9780306406157').allPassed, 't2v isbn: ISBN-13');
+	test.assert(t2v('isbn', '0306406152').allPassed, 't2v isbn: ISBN-10');
+	test.assert(
+		!t2v('isbn', '9780306406158').allPassed,
+		't2v isbn: wrong check digit'
+	);
+	test.assert(
+		!t2v('isbn 10', '9780306406157').allPassed,
+		't2v isbn 10: ISBN-13 rejected'
+	);
+	const cards = t2r('credit card', {
+		shouldMatch: ['4111111111111111'],
+		shouldNotMatch: ['4111111111111112'],
+	});
+	test.assert(
+		cards.samples?.every((sample) => sample.passed) ?? false,
+		't2r samples: the card validator rejects a bad check digit'
+	);
+	test.assert(!!cards.validator, 't2r samples: validator returned');
+
+	test.assert(isValidAbaRouting('021000021'), 'ABA: valid');
+	test.assert(!isValidAbaRouting('021000022'), 'ABA: wrong checksum');
+	test.assert(!isValidAbaRouting('000000000'), 'ABA: all zeros');
+
+	test.assert(isValidEan('4006381333931'), 'EAN-13: valid');
+	test.assert(isValidEan('036000291452'), 'UPC-A: valid');
+	test.assert(isValidEan('73513537'), 'EAN-8: valid');
+	test.assert(!isValidEan('4006381333932'), 'EAN-13: wrong check digit');
+
+	test.assert(isValidVin('1M8GDM9AXKP042788'), 'VIN: X check digit');
+	test.assert(!isValidVin('1M8GDM9A1KP042788'), 'VIN: wrong check digit');
+	test.assert(!isValidVin('1M8GDM9AXKP04278O'), 'VIN: letter O');
+
+	const card = VALIDATION_PATTERNS.creditCard();
+	test.assert(
+		card.pattern.test('4111111111111112'),
+		'the pattern alone only checks the shape'
+	);
+	test.assert(!card.validator?.('4111111111111112'), 'rule rejects bad Luhn');
+	test.assert(!!card.validator?.('4111111111111111'), 'rule accepts card');
+	test.assert(
+		!!VALIDATION_PATTERNS.iban().validator?.('DE89370400440532013000'),
+		'iban rule accepts valid IBAN'
+	);
+	test.assert(
+		!VALIDATION_PATTERNS.abaRouting().validator?.('021000022'),
+		'routing rule rejects bad checksum'
+	);
+
+	const fromText = parseHumanTextToValidation('credit card number');
+	const rule = fromText.rules?.[0];
+	test.assert(!!rule?.validator, 't2v attaches the checksum');
+	test.assert(!!rule?.validator?.('5555555555554444'), 't2v accepts card');
+	test.assert(!rule?.validator?.('5555555555554445'), 't2v rejects bad Luhn');
+	test.assert(
+		!parseHumanTextToValidation('iban', 'GB82WEST12345698765433').allPassed,
+		't2v test value fails the IBAN checksum'
+	);
+});
+
+test.test('Payment Cards', () => {
+	const brands = [
+		['4111111111111111', 'visa'],
+		['5555555555554444', 'mastercard'],
+		['2223003122003222', 'mastercard'],
+		['378282246310005', 'amex'],
+		['6011111111111117', 'discover'],
+		['6221260000000000', 'discover'],
+		['3530111333300000', 'jcb'],
+		['6200000000000005', 'unionpay'],
+		['30569309025904', 'diners'],
+		['6759649826438453', 'maestro'],
+	];
+	for (const [number, brand] of brands) {
+		test.assertEquals(
+			detectCardBrand(number ?? '')?.brand,
+			brand,
+			`${number} should be ${brand}`
+		);
+	}
+
+	const amex = detectCardBrand('3782 8224');
+	test.assertEquals(amex?.cvvLength, 4, 'Amex has a 4-digit CVV');
+	test.assertEquals(amex?.lengths.join(), '15', 'Amex numbers are 15 digits');
+	test.assertEquals(amex?.groups.join(), '4,6,5', 'Amex groups 4-6-5');
+	test.assertEquals(
+		detectCardBrand('2')?.brand,
+		'mastercard',
+		'partial prefix with one possible brand'
+	);
+	test.assertEquals(
+		detectCardBrand('5'),
+		null,
+		'ambiguous prefix (Mastercard or Maestro)'
+	);
+	test.assertEquals(detectCardBrand('9999'), null, 'unknown prefix');
+	test.assertEquals(detectCardBrand(''), null, 'empty input');
+
+	test.assertEquals(formatCardNumber('411111'), '4111 11', 'partial Visa');
+	test.assertEquals(
+		formatCardNumber('378282246310005'),
+		'3782 822463 10005',
+		'Amex 4-6-5'
+	);
+	test.assertEquals(
+		formatCardNumber('30569309025904'),
+		'3056 930902 5904',
+		'Diners 4-6-4'
+	);
+	test.assertEquals(
+		formatCardNumber('5555-5555-5555-4444-99'),
+		'5555 5555 5555 4444',
+		'drops separators and digits past the longest length'
+	);
+	test.assertEquals(
+		formatCardNumber('4111111111111111', '-'),
+		'4111-1111-1111-1111',
+		'custom separator'
+	);
+});
+
+test.test('Phone Numbers', () => {
+	const vn = parsePhone('0912 345 678', { defaultCountry: 'VN' });
+	test.assert(vn.valid, 'national Vietnamese mobile number');
+	test.assertEquals(vn.type, 'mobile', 'type is inferred from the range');
+	test.assertEquals(vn.e164, '+84912345678', 'E.164 form');
+	test.assertEquals(vn.national, '0912 345 678', 'national form');
+	test.assertEquals(vn.international, '+84 912 345 678', 'international form');
+
+	test.assertEquals(
+		parsePhone('0084912345678').e164,
+		'+84912345678',
+		'00 international prefix'
+	);
+	test.assertEquals(
+		parsePhone('+44 (0)20 7946 0958').national,
+		'020 7946 0958',
+		'"(0)" after the calling code is dropped'
+	);
+	test.assertEquals(
+		parsePhone('+49 30 12345678').type,
+		'fixedLine',
+		'German landline'
+	);
+	test.assertEquals(
+		parsePhone('+1 416 555 0123').country,
+		'CA',
+		'Canadian area code on +1'
+	);
+	test.assertEquals(
+		parsePhone('1 (201) 555-0123', { defaultCountry: 'US' }).e164,
+		'+12015550123',
+		'calling code written without +'
+	);
+
+	test.assert(!parsePhone('123', { defaultCountry: 'VN' }).valid, 'too short');
+	test.assert(
+		!parsePhone('0112345678', { defaultCountry: 'VN' }).valid,
+		'unassigned range'
+	);
+	test.assert(!parsePhone('call me maybe').valid, 'letters are rejected');
+	test.assert(
+		!!parsePhone('0912345678').error,
+		'national numbers need a defaultCountry'
+	);
+	test.assert(!parsePhone('+999 1234567').valid, 'unknown calling code');
+
+	const mobile = t2r('vietnamese mobile number');
+	test.assert(!!mobile.pattern?.test('+84912345678'), 't2r: +84 form');
+	test.assert(!!mobile.pattern?.test('0912345678'), 't2r: national form');
+	test.assert(!mobile.pattern?.test('0241234567'), 't2r: landline excluded');
+
+	const german = t2v('german phone').rules?.[0];
+	test.assert(!!german?.validator?.('015123456789'), 't2v: German mobile');
+	test.assert(!german?.validator?.('+49123'), 't2v: too short');
+	test.assert(
+		!!german?.validator?.('+49 30 123456'),
+		't2v: international form with spaces'
+	);
+	test.assert(
+		!!german?.validator?.('030 1234567'),
+		't2v: national form with a space'
+	);
+	test.assert(
+		!!german?.pattern.test('+49 (0)30 123-456'),
+		't2v: pattern accepts parsePhone separators'
+	);
+	test.assert(
+		!!mobile.pattern?.test('0912 345 678'),
+		't2r: formatted national form'
+	);
+});
+
+test.test('Postal Codes', () => {
+	test.assertEquals(normalizePostalCode('sw1a1aa', 'GB'), 'SW1A 1AA', 'UK');
+	test.assertEquals(normalizePostalCode('1000001', 'JP'), '100-0001', 'Japan');
+	test.assertEquals(
+		normalizePostalCode(' k1a 0b1 ', 'ca'),
+		'K1A 0B1',
+		'Canada'
+	);
+	test.assertEquals(
+		normalizePostalCode('1012-js', 'NL'),
+		'1012 JS',
+		'Netherlands'
+	);
+
+	test.assert(isValidPostalCode('100-0001', 'JP'), 'Japanese postal code');
+	test.assert(isValidPostalCode('00-950', 'PL'), 'Polish postal code');
+	test.assert(isValidPostalCode('d02x285', 'IE'), 'Eircode');
+	test.assert(!isValidPostalCode('10001', 'JP'), 'too short for Japan');
+	test.assert(
+		!isValidPostalCode('Q1A 0B1', 'CA'),
+		'Q is not a Canadian letter'
+	);
+
+	let threw = false;
+	try {
+		isValidPostalCode('12345', 'XX');
+	} catch {
+		threw = true;
+	}
+	test.assert(threw, 'unknown country throws');
+
+	const japan = rgex().postalCode('JP').build();
+	test.assert(japan.test('100-0001'), 'builder: hyphenated');
+	test.assert(japan.test('1000001'), 'builder: without hyphen');
+	test.assert(
+		rgex().postalCode('GB').test('sw1a 1aa'),
+		'builder: ignores case'
+	);
+	const zip = rgex().literal('ZIP ').postalCode('US');
+	test.assert(zip.test('ZIP 94105'), 'builder: postal code after a literal');
+	test.assert(!zip.test('zip 94105'), 'builder: the rest stays case-sensitive');
+	test.assertEquals(zip.getFlags(), '', 'builder: no case-insensitive flag');
+	test.assertEquals(
+		rgex().postalCode('NL').getPattern(),
+		'(?:[1-9]\\d{3}[\\s\\-]?(?![Ss][Aa]|[Ss][Dd]|[Ss][Ss])[A-Za-z]{2})',
+		'builder: letters spelled in both cases'
+	);
+
+	const rule = VALIDATION_PATTERNS.postalCodeFor('BR');
+	test.assert(!!rule.validator?.('01310100'), 'rule: Brazilian CEP');
+	test.assert(!rule.validator?.('0131010'), 'rule: too short');
+
+	const parsed = t2r('postal code for japan');
+	test.assert(!!parsed.pattern?.test('100-0001'), 't2r: Japan');
+	test.assert(!parsed.pattern?.test('10115'), 't2r: German code rejected');
+	test.assert(
+		!!t2r('zip code for australia').pattern?.test('2000'),
+		't2r: "australia" is not read as "us"'
+	);
+});
+
+test.test('National IDs', () => {
+	test.assert(isValidNationalId('529.982.247-25', 'brCpf'), 'CPF');
+	test.assert(!isValidNationalId('529.982.247-26', 'brCpf'), 'CPF check digit');
+	test.assert(
+		!isValidNationalId('111.111.111-11', 'brCpf'),
+		'CPF repeated digits'
+	);
+	test.assert(isValidNationalId('11.222.333/0001-81', 'brCnpj'), 'CNPJ');
+	test.assert(
+		isValidNationalId('12.ABC.345/01DE-35', 'brCnpj'),
+		'alphanumeric CNPJ'
+	);
+	test.assert(isValidNationalId('AB 12 34 56 C', 'ukNino'), 'NINO');
+	test.assert(
+		!isValidNationalId('GB123456A', 'ukNino'),
+		'NINO: unissued prefix'
+	);
+	test.assert(isValidNationalId('130 692 544', 'caSin'), 'SIN');
+	test.assert(!isValidNationalId('130 692 545', 'caSin'), 'SIN check digit');
+	test.assert(isValidNationalId('ABCPE1234F', 'inPan'), 'PAN');
+	test.assert(isValidNationalId('2341 2341 2346', 'inAadhaar'), 'Aadhaar');
+	test.assert(
+		!isValidNationalId('2341 2341 2347', 'inAadhaar'),
+		'Aadhaar check digit'
+	);
+	test.assert(isValidNationalId('001099012345', 'vnCccd'), 'CCCD');
+	test.assert(
+		!isValidNationalId('003099012345', 'vnCccd'),
+		'CCCD: unknown province'
+	);
+	test.assert(
+		isValidNationalId('11010519491231002X', 'cnResidentId'),
+		'Chinese ID'
+	);
+	test.assert(
+		!isValidNationalId('11010519490231002X', 'cnResidentId'),
+		'Chinese ID: Feb 31'
+	);
+
+	test.assert(isValidEuVat('DE136695976'), 'German VAT');
+	test.assert(!isValidEuVat('DE136695977'), 'German VAT check digit');
+	test.assert(isValidEuVat('FR 40 303265045'), 'French VAT with spaces');
+	test.assert(isValidEuVat('NL004495445B01'), 'Dutch VAT');
+	test.assert(isValidEuVat('GR094259216'), 'GR is accepted for EL');
+	test.assert(
+		VALIDATION_PATTERNS.euVat().validator?.('GR094259216') ?? false,
+		'euVat rule: GR is accepted for EL'
+	);
+	test.assertMatch(
+		new RegExp(REGEX_PATTERNS.EU_VAT),
+		'GR094259216',
+		'EU_VAT pattern: GR is accepted for EL'
+	);
+	test.assert(!isValidEuVat('DE136695976', 'FR'), 'restricted to France');
+
+	test.assert(
+		rgex().nationalId('brCpf').test('52998224725'),
+		'builder: CPF format'
+	);
+	const labelled = rgex().literal('CPF: ').nationalId('brCpf');
+	test.assert(labelled.test('CPF: 529.982.247-25'), 'builder: after a literal');
+	test.assert(
+		rgex()
+			.start()
+			.nationalId('brCpf')
+			.literal('/')
+			.nationalId('usSsn')
+			.end()
+			.test('52998224725/123-45-6789'),
+		'builder: two identifiers in one pattern'
+	);
+	const rule = VALIDATION_PATTERNS.euVat();
+	test.assert(!!rule.validator?.('ATU13585627'), 'rule: Austrian VAT');
+	test.assert(!rule.validator?.('ATU13585626'), 'rule: Austrian check digit');
+
+	const cpf = t2v('cpf number').rules?.[0];
+	test.assert(!!cpf?.validator?.('529.982.247-25'), 't2v: CPF');
+	test.assert(!cpf?.validator?.('529.982.247-26'), 't2v: CPF check digit');
+});
+
+test.test('Dates', () => {
+	test.assert(validateDate('2024-02-29').valid, 'leap day');
+	test.assert(!validateDate('2023-02-29').valid, 'no leap day in 2023');
+	test.assert(!validateDate('1900-02-29').valid, '1900 is not a leap year');
+	test.assert(!validateDate('2024-04-31').valid, 'April has 30 days');
+	test.assert(validateDate('2024-W09-4').valid, 'ISO week date');
+	test.assert(validateDate('2024-060').valid, 'ISO ordinal date');
+	test.assert(
+		validateDate('2024-02-29T23:59:60+07:00').valid,
+		'ISO date-time with leap second'
+	);
+	test.assert(
+		!validateDate('2024-02-29T10:00:00', { format: 'rfc3339' }).valid,
+		'RFC 3339 needs an offset'
+	);
+	test.assert(
+		validateDate('2024-01-01T24:00:00Z').valid,
+		'ISO 8601 end of day'
+	);
+	test.assert(
+		!validateDate('2024-01-01T24:00:00Z', { format: 'rfc3339' }).valid,
+		'RFC 3339 has no hour 24'
+	);
+	test.assert(
+		!validateDate('2024-01-01 24:00', { format: 'YYYY-MM-DD HH:mm' }).valid,
+		'custom formats have no hour 24'
+	);
+	test.assert(
+		validateDate('Thu, 29 Feb 2024 10:00:00 +0000', { format: 'rfc2822' })
+			.valid,
+		'RFC 2822'
+	);
+	test.assert(
+		!validateDate('Fri, 29 Feb 2024 10:00:00 +0000', { format: 'rfc2822' })
+			.valid,
+		'RFC 2822 weekday must match'
+	);
+	test.assert(
+		validateDate('31/12/2024', { format: 'DD/MM/YYYY' }).valid,
+		'DD/MM/YYYY'
+	);
+	test.assert(
+		!validateDate('12/31/2024', { format: 'DD/MM/YYYY' }).valid,
+		'DD/MM/YYYY rejects month 31'
+	);
+	test.assert(
+		validateDate('12-31-2024', { format: 'MM-DD-YYYY' }).valid,
+		'MM-DD-YYYY'
+	);
+	test.assertEquals(
+		parseDate('29/02/2024', 'DD/MM/YYYY')?.toISOString(),
+		'2024-02-29T00:00:00.000Z',
+		'parseDate'
 	);
-});
 
-test.test('Quantifiers', () => {
-	const optional = rgex().literal('a').optional();
-	test.assertEquals(optional.toString(), '/a?/', 'optional() should add ?');
+	const now = new Date('2024-06-15T00:00:00Z');
+	test.assert(
+		validateDate('2006-06-15', { minAge: 18, now }).valid,
+		'18th birthday today'
+	);
+	test.assert(
+		!validateDate('2006-06-16', { minAge: 18, now }).valid,
+		'18th birthday tomorrow'
+	);
+	test.assert(
+		validateDate('2021-06-01', { after: '2020-12-31', before: '2022-01-01' })
+			.valid,
+		'within range'
+	);
+	test.assert(
+		!validateDate('2020-06-01', { after: '2020-12-31' }).valid,
+		'before the lower bound'
+	);
 
-	const oneOrMore = rgex().literal('a').oneOrMore();
-	test.assertEquals(oneOrMore.toString(), '/a+/', 'oneOrMore() should add +');
+	const rule = VALIDATION_PATTERNS.calendarDate({
+		format: ['iso8601', 'DD/MM/YYYY'],
+	});
+	test.assert(rule.pattern.test('29/02/2023'), 'rule: shape only');
+	test.assert(!rule.validator?.('29/02/2023'), 'rule: calendar check');
+	test.assert(!!rule.validator?.('2024-02-29'), 'rule: ISO date');
 
-	const zeroOrMore = rgex().literal('a').zeroOrMore();
-	test.assertEquals(zeroOrMore.toString(), '/a*/', 'zeroOrMore() should add *');
+	const dob = t2v('date of birth at least 18 years ago').rules?.[0];
+	test.assert(!!dob?.validator?.('1990-05-20'), 't2v: adult');
+	test.assert(
+		!dob?.validator?.(`${new Date().getFullYear() - 1}-01-01`),
+		't2v: minor'
+	);
+	test.assert(!dob?.validator?.('1990-02-30'), 't2v: Feb 30');
+	test.assert(
+		!t2v('date of birth age >= 18', '2020-01-01').allPassed,
+		't2v: "age >= 18" rejects a minor'
+	);
+	test.assert(
+		!!t2v('date of birth age >= 18', '1990-01-01').allPassed,
+		't2v: "age >= 18" accepts an adult'
+	);
+	test.assert(
+		!t2v('date of birth age 18+', '2020-01-01').allPassed,
+		't2v: "age 18+" rejects a minor'
+	);
+	test.assert(
+		!t2v('date of birth age <= 30', '1950-01-01').allPassed,
+		't2v: "age <= 30" rejects an older date'
+	);
+});
 
-	const exactRepeat = rgex().literal('a').quantifier(3);
+test.test('Numeric Ranges', () => {
 	test.assertEquals(
-		exactRepeat.toString(),
-		'/a{3}/',
-		'quantifier(n) should add {n}'
+		numericRangeSource(0, 255),
+		'25[0-5]|2[0-4]\\d|1\\d{2}|[1-9]\\d|\\d',
+		'0-255 like an IPv4 octet'
+	);
+
+	const port = rgex().start().range(1, 65535).end().build();
+	test.assertMatch(port, '65535', 'range: upper bound');
+	test.assertMatch(port, '1', 'range: lower bound');
+	test.assertNoMatch(port, '65536', 'range: above');
+	test.assertNoMatch(port, '0', 'range: below');
+	test.assertNoMatch(port, '080', 'range: leading zero');
+
+	const signed = rgex().start().range(-50, 50).end().build();
+	test.assertMatch(signed, '-50', 'negative bound');
+	test.assertMatch(signed, '0', 'zero');
+	test.assertNoMatch(signed, '-0', 'signed zero');
+	test.assertNoMatch(signed, '-51', 'below negative bound');
+
+	const price = rgex().start().range(0.5, 99.99, { decimals: 2 }).end().build();
+	test.assertMatch(price, '0.5', 'decimal lower bound');
+	test.assertMatch(price, '99.99', 'decimal upper bound');
+	test.assertMatch(price, '12', 'integer in decimal range');
+	test.assertNoMatch(price, '0.49', 'below decimal bound');
+	test.assertNoMatch(price, '1.234', 'too many decimals');
+
+	test.assertMatch(
+		rgex().start().range(1, 12, { leadingZeros: true }).end().build(),
+		'07',
+		'leading zeros'
 	);
 
-	const rangeRepeat = rgex().literal('a').quantifier(2, 5);
+	const mid = rgex().literal('port:').range(1, 65535);
+	test.assert(mid.test('port:80'), 'range in the middle of a pattern');
 	test.assertEquals(
-		rangeRepeat.toString(),
-		'/a{2,5}/',
-		'quantifier(min, max) should add {min,max}'
+		mid.getPattern(),
+		'port:(?:6553[0-5]|655[0-2]\\d|65[0-4]\\d{2}|6[0-4]\\d{3}|[1-5]\\d{4}|[1-9]\\d{0,3})',
+		'range appended unanchored'
+	);
+	const listen = rgex()
+		.start()
+		.literal('port:')
+		.range(1, 65535)
+		.literal('/tcp')
+		.end()
+		.build();
+	test.assertMatch(listen, 'port:443/tcp', 'range between literals');
+	test.assertNoMatch(listen, 'port:65536/tcp', 'range between literals: above');
+
+	let threw = false;
+	try {
+		numericRangeSource(10, 1);
+	} catch {
+		threw = true;
+	}
+	test.assert(threw, 'min greater than max should throw');
+
+	const ports = t2r('port number');
+	test.assert(!!ports.pattern?.test('8080'), 't2r: port 8080');
+	test.assert(!ports.pattern?.test('70000'), 't2r: port 70000');
+	const percentage = t2r('percentage 0 to 100');
+	test.assert(!!percentage.pattern?.test('100'), 't2r: 100%');
+	test.assert(!percentage.pattern?.test('101'), 't2r: 101%');
+	const temperature = t2r('number from -50 to 50');
+	test.assert(!!temperature.pattern?.test('-12'), 't2r: -12');
+	test.assert(!temperature.pattern?.test('51'), 't2r: 51');
+	test.assert(
+		!!t2r('between 8 and 20 characters').pattern?.test('abcdefghij'),
+		'length constraints still win'
 	);
 });
 
-test.test('Capture Groups', () => {
-	const captured = rgex().group('\\d+');
+test.test('Entity Extraction', () => {
+	const ticket =
+		"Mail 'ops@example.com' or call +84 912 345 678. Logs at https://example.com/logs?id=7 (server 10.0.0.1).";
+	const entities = extractEntities(ticket);
 	test.assertEquals(
-		captured.toString(),
-		'/(\\d+)/',
-		'group() should add parentheses'
+		entities.map((entity) => `${entity.type}:${entity.value}`).join(' '),
+		'email:ops@example.com phone:+84 912 345 678 url:https://example.com/logs?id=7 ipv4:10.0.0.1',
+		'finds entities in document order'
 	);
-
-	const nonCaptured = rgex().raw('(?:abc|def)');
+	const [email] = entities;
 	test.assertEquals(
-		nonCaptured.toString(),
-		'/(?:abc|def)/',
-		'raw() with non-capturing pattern should work'
+		ticket.slice(email?.start, email?.end),
+		'ops@example.com',
+		'offsets point into the text'
 	);
-});
 
-test.test('Lookaheads and Lookbehinds', () => {
-	const positiveLookahead = rgex().lookahead('test', false);
+	const payment =
+		'Pay DE89 3704 0044 0532 0130 00 by card 4111 1111 1111 1111 or 4111 1111 1111 1112.';
 	test.assertEquals(
-		positiveLookahead.toString(),
-		'/(?=test)/',
-		'lookahead() should work'
+		extractEntities(payment, { types: ['iban', 'creditCard'] }).length,
+		3,
+		'grouped IBANs and cards'
 	);
-
-	const negativeLookahead = rgex().lookahead('test', true);
 	test.assertEquals(
-		negativeLookahead.toString(),
-		'/(?!test)/',
-		'negative lookahead should work'
+		extractEntities(payment, { types: ['iban', 'creditCard'], validate: true })
+			.map((entity) => entity.value)
+			.join(', '),
+		'DE89 3704 0044 0532 0130 00, 4111 1111 1111 1111',
+		'validate drops the card failing the Luhn check'
 	);
 
-	const positiveLookbehind = rgex().lookbehind('test', false);
+	const link = 'http://10.0.0.1/status';
 	test.assertEquals(
-		positiveLookbehind.toString(),
-		'/(?<=test)/',
-		'lookbehind() should work'
+		extractEntities(link)[0]?.type,
+		'url',
+		'the URL wins over the IPv4 address inside it'
+	);
+	test.assertEquals(
+		extractEntities(link, { types: ['ipv4', 'url'] })[0]?.value,
+		'10.0.0.1',
+		'the order of types sets the priority'
+	);
+	test.assertEquals(
+		extractEntities('At 2024-05-01T10:00:00Z')[0]?.type,
+		'isoDateTime',
+		'longer date-time over the date inside it'
+	);
+	test.assertEquals(
+		extractEntities('Released 2023-02-30', { validate: true }).length,
+		0,
+		'validate drops impossible dates'
 	);
 
-	const negativeLookbehind = rgex().lookbehind('test', true);
+	const mailingList = Array.from(
+		{ length: 4000 },
+		(_, index) => `user${index}@example.com`
+	).join(', ');
+	const addresses = extractEntities(mailingList);
+	test.assertEquals(addresses.length, 4000, 'thousands of entities');
 	test.assertEquals(
-		negativeLookbehind.toString(),
-		'/(?<!test)/',
-		'negative lookbehind should work'
+		addresses[3999]?.value,
+		'user3999@example.com',
+		'entities stay in document order'
 	);
+
+	let threw = false;
+	try {
+		extractEntities('text', { types: ['fax' as never] });
+	} catch {
+		threw = true;
+	}
+	test.assert(threw, 'unknown entity types should throw');
 });
 
 // ========================================
@@ -604,6 +1956,434 @@ test.test('Password Strength Scoring', () => {
 	test.assert(strongResult.score > 80, 'Should have strong score');
 });
 
+test.test('Password Guessability Estimation', () => {
+	const patterns = (password: string, userWords?: string[]) =>
+		estimatePasswordStrength(password, userWords)
+			.segments.map((segment) => `${segment.pattern}:${segment.token}`)
+			.join(' ');
+
+	test.assertEquals(
+		patterns('Password1!'),
+		'dictionary:Password bruteforce:1!',
+		'common password with a capital and a suffix'
+	);
+	test.assertEquals(patterns('P@ssw0rd'), 'dictionary:P@ssw0rd', 'l33t');
+	test.assertEquals(patterns('drowssap'), 'dictionary:drowssap', 'reversed');
+	test.assertEquals(patterns('zxcvbnm'), 'keyboard:zxcvbnm', 'keyboard walk');
+	test.assertEquals(patterns('abcdef'), 'sequence:abcdef', 'sequence');
+	test.assertEquals(patterns('14/07/1990'), 'date:14/07/1990', 'date');
+	test.assertEquals(patterns('abcabcabc'), 'repeat:abcabcabc', 'repeat');
+	test.assertEquals(
+		patterns('Contoso2024!', ['contoso']),
+		'dictionary:Contoso bruteforce:2024!',
+		"the user's words are tried first"
+	);
+
+	const weak = estimatePasswordStrength('Password1!');
+	const random = estimatePasswordStrength('hT7$kL2@pQ9!wZ4&');
+	test.assert(weak.guessesLog10 < 6, 'Password1! is guessed quickly');
+	test.assert(random.guessesLog10 >= 16, 'random characters are not');
+	test.assertEquals(
+		weak.crackTimes.onlineUnthrottled,
+		weak.guesses / 10,
+		'crack time at 10 guesses a second'
+	);
+	test.assert(
+		weak.crackTimes.offlineFastHash < weak.crackTimes.onlineThrottled,
+		'a fast offline attack beats a throttled login'
+	);
+	test.assertEquals(estimatePasswordStrength('').guesses, 1, 'empty password');
+
+	const result = validatePassword('Password1!');
+	test.assertEquals(
+		result.guesses,
+		weak.guesses,
+		'validatePassword reports the estimate'
+	);
+	test.assertEquals(
+		result.segments.length,
+		2,
+		'validatePassword reports the segments'
+	);
+	test.assert(
+		validatePassword('Contoso2024!', { forbidden: ['contoso'] }).guesses <
+			estimatePasswordStrength('Contoso2024!').guesses,
+		'forbidden words count as targeted guesses'
+	);
+});
+
+test.test('Breached Password Checks', () => {
+	test.assert(
+		!validatePassword('password', { noBreached: true }).pass.noBreached.passed,
+		'built-in list is used without a breach source'
+	);
+	test.assert(
+		!validatePassword('password').pass.noBreached.required,
+		'noBreached is off by default'
+	);
+
+	// SHA-1 of "password" and "P@ssw0rd", sorted, as in the Pwned Passwords download
+	setBreachSource({
+		corpus: [
+			'21BD12DC183F740EE76F27B78EB39C8AD972A757:52579',
+			'5BAA61E4C9B93F3F0682250B6CF8331B7EE68FD8:10434004',
+		].join('\r\n'),
+	});
+	const breached = validatePassword('P@ssw0rd', { noBreached: true });
+	test.assert(!breached.pass.noBreached.passed, 'corpus: breached password');
+	test.assert(breached.score <= 10, 'corpus: breached password scores low');
+	test.assert(
+		validatePassword('Tr0ub4dor&3', { noBreached: true }).pass.noBreached
+			.passed,
+		'corpus: unlisted password'
+	);
+
+	setBreachSource({
+		range: (prefix) =>
+			prefix === '5BAA6'
+				? '1E4C9B93F3F0682250B6CF8331B7EE68FD8:10434004\n1E4C9B93F3F0682250B6CF8331B7EE68FD9:0'
+				: '',
+	});
+	test.assert(
+		!validatePassword('password', { noBreached: true }).pass.noBreached.passed,
+		'range: breached password'
+	);
+	test.assert(
+		validatePassword('P@ssw0rd', { noBreached: true }).pass.noBreached.passed,
+		'range: prefix file without the suffix'
+	);
+
+	setBreachSource({ provider: async () => true });
+	let threw = false;
+	try {
+		validatePassword('P@ssw0rd', { noBreached: true });
+	} catch {
+		threw = true;
+	}
+	test.assert(threw, 'async provider needs validatePasswordAsync');
+	test.assert(
+		validatePassword('P@ssw0rd').pass.noBreached.passed,
+		'validatePassword stays synchronous without noBreached'
+	);
+
+	const nist = PasswordPolicy.preset('nist');
+	const unchecked = nist.validate('correct horse battery');
+	test.assert(
+		unchecked.error === null && unchecked.pass.noBreached.skipped === true,
+		'provider: policy.validate() skips noBreached instead of throwing'
+	);
+	test.assertEquals(
+		unchecked.pass.noBreached.message,
+		'Password was not checked against data breaches',
+		'provider: the skipped check says so'
+	);
+	test.assert(
+		nist.test('correct horse battery'),
+		'provider: policy.test() stays synchronous'
+	);
+	test.assert(
+		!!t2v('nist password', 'correct horse battery').allPassed,
+		'provider: t2v policy rule'
+	);
+	test.assert(
+		generateStrongPassword(16, nist).length === 16,
+		'provider: generateStrongPassword skips the breach check'
+	);
+	test.assert(
+		nist.validateAsync('correct horse battery') instanceof Promise &&
+			nist.testAsync('correct horse battery') instanceof Promise,
+		'provider: validateAsync() and testAsync() wait for the provider'
+	);
+	void nist.testAsync('correct horse battery').then((passed) => {
+		if (passed) throw new Error('testAsync ignored the breach provider');
+	});
+
+	setBreachSource(null);
+});
+
+test.test('Password Policies', () => {
+	const policy = new PasswordPolicy({
+		minUpper: 2,
+		minLower: 2,
+		minNumbers: 2,
+	});
+	test.assert(policy.test('ABcd12xy'), 'meets per-class minimums');
+	test.assert(!policy.test('Abcd12xy'), 'one uppercase letter short');
+	test.assertEquals(
+		policy.describe().join(' | '),
+		'8 to 128 characters | At least 2 uppercase letters | At least 2 lowercase letters | At least 2 numbers',
+		'describe() lists the requirements'
+	);
+
+	const parsed = t2v('password with 2 uppercase 2 lowercase 2 numbers');
+	test.assertEquals(
+		JSON.stringify(parsed.policy),
+		JSON.stringify(policy.rules),
+		't2v produces the same policy'
+	);
+	const [rule] = parsed.rules ?? [];
+	test.assertEquals(rule?.name, 'passwordPolicy', 't2v: policy rule');
+	test.assert(!!rule?.validator?.('ABcd12xy'), 't2v: rule accepts');
+	test.assert(!rule?.validator?.('abcdefgh'), 't2v: rule rejects');
+	test.assertEquals(
+		t2v('strong password min length 8').policy,
+		undefined,
+		'plain "strong password" keeps its fixed rule'
+	);
+
+	const nist = PasswordPolicy.preset('nist');
+	test.assert(
+		nist.test('correct horse battery staple'),
+		'NIST: no composition rules'
+	);
+	test.assert(!nist.test('password'), 'NIST: known-compromised password');
+	test.assert(
+		!nist.test('correct horse battery staple '.repeat(3)),
+		'NIST: longer than 64'
+	);
+	test.assert(
+		!PasswordPolicy.preset('pciDss').test('abcdefghijkl'),
+		'PCI DSS: letters and numbers'
+	);
+	test.assertEquals(
+		PasswordPolicy.preset('legacyEnterprise').validate('Paaassw0rd!').error
+			?.requirements[0],
+		'Password must not contain more than 2 identical characters in a row',
+		'legacy: consecutive identical characters'
+	);
+
+	const company = nist.extend({ forbidden: ['acme'] });
+	test.assert(!company.test('ACME-rocks-2024'), 'forbidden substring');
+	test.assert(
+		!company.test('correct jdoe battery', { email: 'jdoe@example.com' }),
+		'email local part from the user context'
+	);
+	test.assert(
+		company.test('correct horse battery', { username: 'jd' }),
+		'very short context words are ignored'
+	);
+
+	let threw = false;
+	try {
+		new PasswordPolicy({ minLength: 20, maxLength: 10 });
+	} catch {
+		threw = true;
+	}
+	test.assert(threw, 'minLength above maxLength should throw');
+});
+
+test.test('Password Generation', () => {
+	const generated = generateStrongPassword(16, { hasSymbol: true });
+	test.assertEquals(generated.length, 16, 'requested length');
+	test.assert(
+		validatePassword(generated, { hasSymbol: true }).error === null,
+		'passes validatePassword with the same options'
+	);
+
+	const options = {
+		minUpper: 3,
+		minNumbers: 3,
+		noSequential: true,
+		noRepeating: true,
+	};
+	let allValid = true;
+	for (let i = 0; i < 50; i++) {
+		allValid =
+			allValid &&
+			validatePassword(generateStrongPassword(10, options), options).error ===
+				null;
+	}
+	test.assert(allValid, 'per-class minimums and pattern checks');
+
+	const legacy = PasswordPolicy.preset('legacyEnterprise');
+	test.assert(
+		legacy.test(generateStrongPassword(12, legacy)),
+		'accepts a PasswordPolicy'
+	);
+	test.assertEquals(
+		generateStrongPassword(4).length,
+		8,
+		'raised to the default minimum length'
+	);
+	test.assert(
+		/^[a-z\d]+$/.test(
+			generateStrongPassword(12, { hasUpperChar: false, hasSpecial: false })
+		),
+		'classes can be turned off'
+	);
+
+	let threw = false;
+	try {
+		generateStrongPassword(8, { minUpper: 10, maxLength: 8 });
+	} catch {
+		threw = true;
+	}
+	test.assert(threw, 'requirements longer than maxLength should throw');
+
+	const passphrase = generatePassphrase();
+	test.assertEquals(
+		passphrase.passphrase.split('-').length,
+		6,
+		'six words by default'
+	);
+	test.assertEquals(passphrase.entropyBits, 60, '10 bits per bundled word');
+	const custom = generatePassphrase({
+		words: 4,
+		separator: ' ',
+		capitalize: true,
+	});
+	test.assertMatch(
+		/^(?:[A-Z][a-z]+ ){3}[A-Z][a-z]+$/,
+		custom.passphrase,
+		'separator and capitalization'
+	);
+	test.assertEquals(
+		generatePassphrase({ words: 3, wordlist: ['ab', 'cd', 'cd'] }).entropyBits,
+		3,
+		'entropy counts distinct words'
+	);
+});
+
+test.test('Context-Aware Password Checks', () => {
+	const context = {
+		username: 'jdoe88',
+		email: 'john.doe@contoso.com',
+		fullName: 'John Doe',
+		companyName: 'Contoso Ltd',
+		birthDate: '1990-07-14',
+	};
+	const personalInfo = (password: string) =>
+		validatePassword(password, { context }).pass.noPersonalInfo;
+
+	test.assert(!personalInfo('Contoso2024!').passed, 'company name');
+	test.assert(!personalInfo('C0nt0s0#2024').passed, 'l33t spelling');
+	test.assert(!personalInfo('Osotnoc!2024x').passed, 'reversed');
+	test.assert(!personalInfo('Contsoo2024!').passed, 'one typo away');
+	test.assert(!personalInfo('Xy!JDoe8877q').passed, 'username letters');
+	test.assert(!personalInfo('Blue.Kettle.1407').passed, 'birth day and month');
+	test.assert(!personalInfo('Kettle*1990zz').passed, 'birth year');
+	test.assert(personalInfo('Tr4vel!Orbit#9').passed, 'unrelated password');
+	test.assertEquals(
+		personalInfo('Contoso2024!').message,
+		'Password must not contain or resemble your company name',
+		'the message names the detail found'
+	);
+	test.assert(
+		validatePassword('Contoso2024!', { context }).score <= 20,
+		'score is capped'
+	);
+	test.assert(
+		!validatePassword('Tr4vel!Orbit#9').pass.noPersonalInfo.required,
+		'not required without a context'
+	);
+	test.assert(
+		!validatePassword('Acm3Rocks!9', { forbidden: ['acme'] }).pass.noForbidden
+			.passed,
+		'forbidden words in l33t spelling'
+	);
+
+	const isPreviousPassword = (password: string) => password === 'OldPass!234';
+	test.assert(
+		!validatePassword('OldPass!234', { context: { isPreviousPassword } }).pass
+			.notPreviousPassword.passed,
+		'previous password'
+	);
+	test.assert(
+		validatePassword('NewPass!234', { context: { isPreviousPassword } }).pass
+			.notPreviousPassword.passed,
+		'new password'
+	);
+
+	let threw = false;
+	try {
+		validatePassword('OldPass!234', {
+			context: { isPreviousPassword: async () => true },
+		});
+	} catch {
+		threw = true;
+	}
+	test.assert(threw, 'an async callback needs validatePasswordAsync');
+});
+
+test.test('Localized Password Feedback', () => {
+	const english = validatePassword('qwerty1');
+	test.assertEquals(
+		english.error?.requirements[0],
+		'Password must be between 8 and 128 characters',
+		'English stays the default'
+	);
+	test.assert(
+		english.feedback.warnings.some(
+			(warning) =>
+				warning.code === 'KEYBOARD_PATTERN' &&
+				warning.params.pattern === 'qwerty'
+		),
+		'keyboard pattern warning'
+	);
+	test.assertEquals(
+		english.feedback.warnings[0]?.code,
+		'TOO_SHORT',
+		'failed requirements come first'
+	);
+
+	const vietnamese = validatePassword('abc', { locale: 'vi' });
+	test.assertEquals(
+		vietnamese.error?.message,
+		'Mật khẩu không đáp ứng các yêu cầu',
+		'Vietnamese summary'
+	);
+	test.assertEquals(
+		vietnamese.pass.length.message,
+		'Mật khẩu phải có từ 8 đến 128 ký tự',
+		'Vietnamese requirement'
+	);
+	test.assertEquals(
+		validatePassword('abcdefgh', { locale: 'ja-JP', minUpper: 2 }).pass
+			.hasUpperChar.message,
+		'パスワードには大文字を2文字以上含めてください',
+		'region falls back to the language'
+	);
+	test.assertEquals(
+		getPasswordSuggestions('weak', { locale: 'ja' })[4],
+		'より長いパスワード（12文字以上）を使用してください',
+		'translated suggestions'
+	);
+	test.assertEquals(
+		validatePassword('abc', { locale: 'xx' }).error?.message,
+		'Password does not meet requirements',
+		'unknown locales fall back to English'
+	);
+
+	test.assertEquals(
+		formatPasswordMessage('NO_NUMBER', { count: 3 }),
+		'Password must contain at least 3 numbers',
+		'plural form'
+	);
+	test.assertEquals(
+		formatPasswordMessage('PERSONAL_INFO', { detail: 'companyName' }, 'vi'),
+		'Mật khẩu không được chứa hoặc giống tên công ty của bạn',
+		'translated detail names'
+	);
+	registerPasswordMessages('fr', {
+		NO_NUMBER: 'Le mot de passe doit contenir au moins {count} chiffre(s)',
+	});
+	const french = validatePassword('abcdefgh', { locale: 'fr' });
+	test.assertEquals(
+		french.pass.hasNumber.message,
+		'Le mot de passe doit contenir au moins 1 chiffre(s)',
+		'registered locale'
+	);
+	test.assertEquals(
+		french.pass.hasSpecial.message,
+		'Password must contain at least one special character',
+		'missing keys fall back to English'
+	);
+
+	test.assertEquals(findKeyboardPattern('x1qazx'), '1qaz', 'keyboard column');
+	test.assertEquals(findKeyboardPattern('Zx!hgfdsa'), 'hgfdsa', 'reversed row');
+	test.assertEquals(findKeyboardPattern('12345678'), null, 'digits only');
+});
+
 // ========================================
 // Error Handling Tests
 // ========================================
@@ -11,8 +11,76 @@ export type {
 	RegexBuilderOptions,
 	PasswordValidationOptions,
 	PasswordValidationResult,
+	PasswordContext,
+	PasswordPolicyPreset,
+	PasswordPolicyRules,
+	PassphraseOptions,
+	GeneratedPassphrase,
+	PasswordFeedbackCode,
+	PasswordFeedbackParams,
+	PasswordFeedbackItem,
+	PasswordFeedback,
+	PasswordMessageKey,
+	PasswordMessage,
+	PasswordMessageCatalog,
 	HumanTextPattern,
 	ValidationRule,
 	TextExtractionResult,
+	TextToRegexOptions,
+	SampleResult,
+	RegexCandidate,
 	ValidationExtractionResult,
+	RegexNode,
+	LiteralNode,
+	RawNode,
+	SequenceNode,
+	AlternationNode,
+	GroupNode,
+	QuantifierNode,
+	CharacterClassNode,
+	CharacterClassItem,
+	CharacterTypeNode,
+	AssertionNode,
+	UnicodePropertyNode,
+	BackreferenceNode,
+	ClassCharacterItem,
+	ClassRangeItem,
+	ClassStringsItem,
+	SourceSpan,
+	ReDoSComplexity,
+	ReDoSIssue,
+	ReDoSReport,
+	RegexExplanation,
+	RegexExplanationNode,
+	RegexExamples,
+	SynthesizedPart,
+	ExampleSynthesisResult,
+	StringGenerationOptions,
+	FuzzOptions,
+	FuzzFinding,
+	FuzzReport,
+	TextParserFunction,
+	TextParserDefinition,
+	RegisteredParser,
+	PatternDefinitionInput,
+	PatternDefinition,
+	PatternNamespace,
+	CardBrand,
+	CardBrandInfo,
+	PhoneNumberType,
+	PhoneNumberFormat,
+	PhoneCountryMetadata,
+	PhoneParseOptions,
+	PhoneParseResult,
+	PostalCodeFormat,
+	NationalIdType,
+	DateFormat,
+	DateValidationOptions,
+	DateValidationResult,
+	NumericRangeOptions,
+	TypedMatchGroups,
+	EntityType,
+	EntityExtractionOptions,
+	ExtractedEntity,
+	BreachSource,
 } from './types/index.js';
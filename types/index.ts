@@ -28,10 +28,29 @@ export interface PasswordValidationOptions {
 	noSequential?: boolean;
 	noRepeating?: boolean;
 	noCommonWords?: boolean;
+	noBreached?: boolean; // reject passwords found in the configured breach corpus
 	customPattern?: string;
+	minUpper?: number; // per-class minimums; a count above 0 makes the class required
+	minLower?: number;
+	minNumbers?: number;
+	minSpecial?: number;
+	minLetters?: number;
+	maxConsecutive?: number; // most identical characters in a row, e.g. 2 rejects "aaa"
+	forbidden?: string[]; // words rejected case-insensitively, also reversed or in l33t spelling
+	context?: PasswordContext; // the user's own details, rejected even when disguised
+	locale?: string; // language of the messages, e.g. "vi" or "ja-JP"; falls back to English
 }
 
-export interface PasswordValidationResult {
+export interface PasswordContext {
+	username?: string;
+	email?: string; // compared by its local part
+	fullName?: string; // each name and the whole name are compared
+	birthDate?: Date | string; // a Date or ISO 8601 date, compared as year and day-month digits
+	companyName?: string;
+	isPreviousPassword?: (password: string) => boolean | Promise<boolean>; // checks the user's stored password hashes
+}
+
+export interface PasswordValidationResult extends PasswordStrengthEstimate {
 	error: {
 		message: string;
 		requirements: string[];
@@ -47,10 +66,25 @@ export interface PasswordValidationResult {
 		noSequential: { passed: boolean; required: boolean; message: string };
 		noRepeating: { passed: boolean; required: boolean; message: string };
 		noCommonWords: { passed: boolean; required: boolean; message: string };
+		noBreached: {
+			passed: boolean;
+			required: boolean;
+			message: string;
+			skipped?: boolean; // a PasswordPolicy couldn't wait for an async breach source
+		};
 		customPattern: { passed: boolean; required: boolean; message: string };
+		hasLetter: { passed: boolean; required: boolean; message: string };
+		noForbidden: { passed: boolean; required: boolean; message: string };
+		noPersonalInfo: { passed: boolean; required: boolean; message: string };
+		notPreviousPassword: {
+			passed: boolean;
+			required: boolean;
+			message: string;
+		};
 	};
 	score: number; // 0-100
 	strength: 'very-weak' | 'weak' | 'fair' | 'good' | 'strong' | 'very-strong';
+	feedback: PasswordFeedback;
 }
 
 export interface HumanTextPattern {
@@ -66,6 +100,7 @@ export interface HumanTextPattern {
 	pattern: string;
 	description: string;
 	examples: string[];
+	validator?: (value: string) => boolean; // check digits the pattern can't express
 }
 
 export interface ValidationRule {
@@ -82,6 +117,31 @@ export interface TextExtractionResult {
 	confidence: number;
 	suggestions?: string[];
 	error?: string;
+	samples?: SampleResult[]; // only in ranked mode (t2r with options)
+	alternatives?: RegexCandidate[]; // runner-up candidates, best first
+	validator?: (value: string) => boolean; // check digits the pattern can't express
+}
+
+export interface TextToRegexOptions {
+	shouldMatch?: string[];
+	shouldNotMatch?: string[];
+}
+
+export interface SampleResult {
+	input: string;
+	expected: 'match' | 'noMatch';
+	passed: boolean;
+}
+
+export interface RegexCandidate {
+	source: string; // pipeline stage, e.g. "combined:email" or "keyword:email"
+	pattern: RegExp;
+	description: string;
+	confidence: number; // confidence reported by the stage itself
+	score: number; // share of samples passed, 0-1
+	repaired: boolean; // anchored or made case-insensitive to fit the samples
+	samples: SampleResult[];
+	validator?: (value: string) => boolean; // check digits the pattern can't express
 }
 
 export interface ValidationExtractionResult {
@@ -93,4 +153,593 @@ export interface ValidationExtractionResult {
 	error?: string;
 	caseUnPassed?: string[];
 	allPassed?: boolean;
+	policy?: PasswordPolicyRules; // set when the text describes a password policy
+}
+
+// Regex AST nodes used by the RGex builder
+
+export interface SourceSpan {
+	start: number;
+	end: number;
+}
+
+export interface LiteralNode {
+	type: 'literal';
+	value: string;
+	span?: SourceSpan;
+}
+
+export interface RawNode {
+	type: 'raw';
+	source: string;
+	span?: SourceSpan;
+}
+
+export interface SequenceNode {
+	type: 'sequence';
+	elements: RegexNode[];
+	span?: SourceSpan;
+}
+
+export interface AlternationNode {
+	type: 'alternation';
+	alternatives: RegexNode[];
+	span?: SourceSpan;
+}
+
+export interface GroupNode {
+	type: 'group';
+	kind: 'capturing' | 'nonCapturing' | 'named';
+	name?: string;
+	index?: number; // capture group number, set by the parser
+	modifiers?: { enable: string; disable: string };
+	body: RegexNode;
+	span?: SourceSpan;
+}
+
+export interface QuantifierNode {
+	type: 'quantifier';
+	min: number;
+	max: number; // Infinity for unbounded
+	lazy: boolean;
+	body: RegexNode;
+	span?: SourceSpan;
+}
+
+export interface ClassCharacterItem {
+	type: 'char';
+	value: string;
+	span?: SourceSpan;
+}
+
+export interface ClassRangeItem {
+	type: 'range';
+	from: string;
+	to: string;
+	span?: SourceSpan;
+}
+
+export interface ClassStringsItem {
+	type: 'classStrings';
+	strings: string[];
+	span?: SourceSpan;
+}
+
+export type CharacterClassItem =
+	| ClassCharacterItem
+	| ClassRangeItem
+	| ClassStringsItem
+	| CharacterTypeNode
+	| UnicodePropertyNode
+	| CharacterClassNode;
+
+export interface CharacterClassNode {
+	type: 'class';
+	negate: boolean;
+	items: CharacterClassItem[];
+	operation?: 'intersection' | 'subtraction'; // v-flag set notation
+	unicodeSets?: boolean;
+	span?: SourceSpan;
+}
+
+export interface CharacterTypeNode {
+	type: 'characterType';
+	kind: 'digit' | 'word' | 'whitespace' | 'any';
+	negate: boolean;
+	span?: SourceSpan;
+}
+
+export interface UnicodePropertyNode {
+	type: 'unicodeProperty';
+	name: string;
+	value?: string;
+	negate: boolean;
+	span?: SourceSpan;
+}
+
+export interface BackreferenceNode {
+	type: 'backreference';
+	ref: number | string;
+	span?: SourceSpan;
+}
+
+export interface AssertionNode {
+	type: 'assertion';
+	kind:
+		| 'start'
+		| 'end'
+		| 'wordBoundary'
+		| 'nonWordBoundary'
+		| 'lookahead'
+		| 'lookbehind';
+	negative: boolean;
+	body?: RegexNode;
+	span?: SourceSpan;
+}
+
+export type RegexNode =
+	| LiteralNode
+	| RawNode
+	| SequenceNode
+	| AlternationNode
+	| GroupNode
+	| QuantifierNode
+	| CharacterClassNode
+	| CharacterTypeNode
+	| UnicodePropertyNode
+	| BackreferenceNode
+	| AssertionNode;
+
+// ReDoS analysis
+
+export type ReDoSComplexity = 'safe' | 'polynomial' | 'exponential';
+
+export interface ReDoSIssue {
+	kind:
+		| 'nestedQuantifier'
+		| 'overlappingAlternation'
+		| 'overlappingQuantifiers'
+		| 'unanchoredRepetition';
+	complexity: Exclude<ReDoSComplexity, 'safe'>;
+	source: string; // offending sub-expression
+	span: SourceSpan;
+	message: string;
+	attackString: string;
+}
+
+export interface ReDoSReport {
+	pattern: string;
+	flags: string;
+	safe: boolean;
+	complexity: ReDoSComplexity;
+	starHeight: number;
+	issues: ReDoSIssue[];
+}
+
+// Regex explanation
+
+export interface RegexExplanationNode {
+	type: RegexNode['type'];
+	source: string;
+	span?: SourceSpan;
+	description: string;
+	patternNames?: string[]; // REGEX_PATTERNS keys this sub-expression matches
+	children: RegexExplanationNode[];
+}
+
+export interface RegexExplanation {
+	pattern: string;
+	flags: string;
+	summary: string;
+	patternNames: string[]; // REGEX_PATTERNS keys the whole pattern matches
+	tree: RegexExplanationNode;
+}
+
+// Example-driven synthesis
+
+export interface RegexExamples {
+	match: string[];
+	reject?: string[];
+}
+
+export interface SynthesizedPart {
+	kind: 'literal' | 'class' | 'alternation' | 'repeat';
+	source: string;
+	description: string;
+	examples: string[]; // match samples that shaped this part
+	rejected: string[]; // reject samples that forced this part to be more specific
+}
+
+export interface ExampleSynthesisResult {
+	success: boolean;
+	pattern: RegExp | null;
+	parts: SynthesizedPart[];
+	unmatched: string[]; // match samples the pattern does not match
+	unrejected: string[]; // reject samples the pattern still matches
+	error?: string;
+}
+
+// String generation
+
+export interface StringGenerationOptions {
+	count?: number; // default 10
+	seed?: number; // same seed, same strings
+	maxRepeat?: number; // extra repetitions allowed for unbounded quantifiers, default 5
+}
+
+// Rule fuzzing
+
+export interface FuzzOptions {
+	iterations?: number; // mutated inputs to check, default 200
+	seed?: number; // reported back so a failing run can be replayed
+	samples?: string[]; // extra known-good or known-bad inputs to mutate
+	timeLimitMs?: number; // time a single check may take, default 50
+}
+
+export interface FuzzFinding {
+	kind: 'disagreement' | 'slow' | 'crash';
+	input: string;
+	mutation: string; // how the input was derived, e.g. "trailing-whitespace"
+	patternResult?: boolean;
+	validatorResult?: boolean;
+	durationMs?: number;
+	error?: string;
+}
+
+export interface FuzzReport {
+	rule: string;
+	iterations: number;
+	seed: number;
+	passed: boolean;
+	findings: FuzzFinding[];
+}
+
+// Text parser registry
+
+export type TextParserFunction = (
+	text: string, // lowercased, whitespace-normalized description
+	testValue?: string,
+	originalText?: string // the description as written, for case-sensitive captures
+) => TextExtractionResult | null;
+
+export interface TextParserDefinition {
+	name: string;
+	parse: TextParserFunction;
+	priority?: number; // higher runs first; built-ins use 30 (catalog), 20 (combined) and 10
+	category?: string; // defaults to "custom"
+	keywords?: string[]; // surfaced by getPatternSuggestions
 }
+
+export interface RegisteredParser extends Required<TextParserDefinition> {
+	builtIn: boolean;
+}
+
+// Pattern catalog
+
+export interface PatternDefinitionInput {
+	pattern: RegExp | string;
+	keywords?: string[]; // phrases that make t2r/t2v pick this pattern
+	description?: string;
+	examples?: string[]; // must match, checked when the pattern is defined
+	validator?: (value: string) => boolean;
+	message?: string; // validation message for t2v rules
+}
+
+export interface PatternDefinition {
+	name: string; // fully qualified, e.g. "acme.orderId"
+	pattern: RegExp;
+	keywords: string[];
+	description: string;
+	examples: string[];
+	validator?: (value: string) => boolean;
+	message: string;
+	builtIn: boolean; // wraps a HUMAN_PATTERNS or REGEX_PATTERNS entry
+}
+
+export interface PatternNamespace {
+	prefix: string;
+	define: (
+		name: string,
+		definition: PatternDefinitionInput,
+		options?: { override?: boolean }
+	) => PatternDefinition;
+	get: (name: string) => PatternDefinition | undefined;
+	list: () => PatternDefinition[];
+}
+
+// Payment cards
+
+export type CardBrand =
+	| 'visa'
+	| 'mastercard'
+	| 'amex'
+	| 'discover'
+	| 'jcb'
+	| 'unionpay'
+	| 'diners'
+	| 'maestro';
+
+export interface CardBrandInfo {
+	brand: CardBrand;
+	name: string; // display name, e.g. "American Express"
+	lengths: number[]; // valid card number lengths, shortest first
+	cvvLength: number;
+	groups: number[]; // digits per block for the longest length, e.g. [4, 6, 5]
+}
+
+// Phone numbers
+
+export type PhoneNumberType =
+	| 'mobile'
+	| 'fixedLine'
+	| 'fixedLineOrMobile' // the numbering plan doesn't tell them apart (e.g. US)
+	| 'unknown';
+
+export interface PhoneNumberFormat {
+	leading: string; // regex the national number must start with, '' matches all
+	groups: number[]; // digits per block; the remaining digits form the last block
+}
+
+export interface PhoneCountryMetadata {
+	country: string; // ISO 3166-1 alpha-2, e.g. "VN"
+	name: string; // adjective used in descriptions, e.g. "Vietnamese"
+	keywords: string[]; // words that select the country in t2r/t2v, e.g. "vietnam"
+	callingCode: string; // without "+", e.g. "84"
+	trunkPrefix: string; // dialled before national numbers, '' if none
+	lengths: number[]; // national significant number lengths
+	pattern: string; // national significant number, without anchors
+	mobile?: string; // mobile numbers only; omitted if indistinguishable
+	fixedLine?: string;
+	formats: PhoneNumberFormat[]; // first match wins
+}
+
+export interface PhoneParseOptions {
+	defaultCountry?: string; // used for numbers written without "+<calling code>"
+}
+
+export interface PhoneParseResult {
+	input: string;
+	valid: boolean;
+	type: PhoneNumberType;
+	country?: string;
+	callingCode?: string;
+	nationalNumber?: string; // digits after the calling code and trunk prefix
+	e164?: string; // only for valid numbers, e.g. "+84912345678"
+	national?: string; // e.g. "0912 345 678"
+	international?: string; // e.g. "+84 912 345 678"
+	error?: string; // why the number is invalid
+}
+
+// Postal codes
+
+export interface PostalCodeFormat {
+	name: string; // country name, e.g. "Japan"
+	keywords?: string[]; // other words that select the country in t2r, e.g. "japanese"
+	pattern: string; // canonical upper-case form, without anchors
+	separator?: { text: string; at: number }; // inserted after `at` chars (negative: from the end)
+	example: string;
+}
+
+// National identifiers
+
+export type NationalIdType =
+	| 'usSsn' // US Social Security number
+	| 'ukNino' // UK National Insurance number
+	| 'caSin' // Canadian Social Insurance Number
+	| 'inPan' // Indian Permanent Account Number
+	| 'inAadhaar' // Indian Aadhaar number
+	| 'brCpf' // Brazilian individual taxpayer number
+	| 'brCnpj' // Brazilian company registration number
+	| 'vnCccd' // Vietnamese citizen identity card number
+	| 'cnResidentId' // Chinese resident identity card number
+	| 'euVat'; // EU VAT number with its member state prefix
+
+// Dates
+
+// A named format, or a template of YYYY, MM, M, DD, D, HH, mm, ss and SSS, e.g. "DD/MM/YYYY"
+export type DateFormat = 'iso8601' | 'rfc3339' | 'rfc2822' | string;
+
+export interface DateValidationOptions {
+	format?: DateFormat | DateFormat[]; // default "iso8601"; the first format that matches is used
+	after?: Date | string; // exclusive; strings are read as ISO 8601
+	before?: Date | string; // exclusive; strings are read as ISO 8601
+	minAge?: number; // whole years between the date and `now`, e.g. 18 for a date of birth
+	maxAge?: number;
+	now?: Date; // reference time for ages, defaults to the current time
+}
+
+export interface DateValidationResult {
+	valid: boolean;
+	date?: Date; // set whenever the value is a real date, even if a range check failed
+	format?: DateFormat; // the format that matched
+	error?: string; // why the value is invalid
+}
+
+// Numeric ranges
+
+export interface NumericRangeOptions {
+	leadingZeros?: boolean; // accept zero padding such as 007
+	decimals?: number; // fraction digits allowed, 0 (integers only) by default
+}
+
+// Typed matches
+
+// The named groups of a `matchTyped` result, keyed by the names declared in the builder chain
+export type TypedMatchGroups<Name extends string> = { [Key in Name]: string };
+
+// Entity extraction
+
+export type EntityType =
+	| 'email'
+	| 'url'
+	| 'iban'
+	| 'creditCard'
+	| 'isoDateTime'
+	| 'date'
+	| 'uuid'
+	| 'ipv4'
+	| 'ipv6'
+	| 'macAddress'
+	| 'ethereumAddress'
+	| 'euVat'
+	| 'ssn'
+	| 'phone' // needs a leading "+" or a national trunk "0"
+	| 'isbn';
+
+export interface EntityExtractionOptions {
+	types?: EntityType[]; // what to look for, in order of priority; all types by default
+	validate?: boolean; // drop candidates that fail their checksum or calendar check
+	defaultCountry?: string; // for validating phone numbers written without "+<calling code>"
+}
+
+export interface ExtractedEntity {
+	type: EntityType;
+	value: string; // the text as written, separators included
+	start: number; // offset of the first character
+	end: number; // offset after the last character
+}
+
+// Breached passwords
+
+// Where `isBreached` and the `noBreached` option look passwords up, by uppercase SHA-1 hex
+export type BreachSource =
+	| { corpus: string } // a sorted SHA-1 file: one "HASH" or "HASH:COUNT" per line
+	| { range: (prefix: string) => string | null | undefined } // the k-anonymity file for a 5-char hash prefix: "SUFFIX:COUNT" lines
+	| { provider: (hash: string) => Promise<boolean> }; // async lookup; needs validatePasswordAsync
+
+// Password policies
+
+export type PasswordPolicyPreset =
+	| 'nist' // NIST SP 800-63B: length and breached-password screening, no composition rules
+	| 'owasp' // OWASP ASVS 4.0 V2.1: 12 to 128 characters, breached-password screening
+	| 'pciDss' // PCI DSS 4.0 requirement 8.3.6: 12 characters with letters and numbers
+	| 'legacyEnterprise'; // classic complexity rules: every character class, no repeats
+
+// What a PasswordPolicy requires; unset fields impose nothing, except that the length
+// defaults to RGEX_CONFIG.defaults.passwordValidation
+export interface PasswordPolicyRules {
+	minLength?: number;
+	maxLength?: number;
+	minUpper?: number;
+	minLower?: number;
+	minNumbers?: number;
+	minSpecial?: number;
+	minLetters?: number;
+	maxConsecutive?: number;
+	noSequential?: boolean;
+	noCommonWords?: boolean;
+	noBreached?: boolean;
+	forbidden?: string[];
+}
+
+// Password generation
+
+export interface PassphraseOptions {
+	words?: number; // number of words, 6 by default
+	separator?: string; // "-" by default
+	capitalize?: boolean; // upper-case the first letter of every word
+	wordlist?: string[]; // defaults to PASSPHRASE_WORDS; duplicates are ignored
+}
+
+export interface GeneratedPassphrase {
+	passphrase: string;
+	entropyBits: number; // words × log2(distinct words in the list)
+}
+
+// Password feedback
+
+export type PasswordFeedbackCode =
+	| 'TOO_SHORT' // { min, max }
+	| 'TOO_LONG' // { min, max }
+	| 'NO_NUMBER' // { count }
+	| 'NO_SPECIAL' // { count }
+	| 'NO_UPPERCASE' // { count }
+	| 'NO_LOWERCASE' // { count }
+	| 'NO_LETTER' // { count }
+	| 'NO_SYMBOL'
+	| 'NO_UNICODE'
+	| 'SEQUENTIAL'
+	| 'REPEATED' // { max } when maxConsecutive is set
+	| 'COMMON_WORD'
+	| 'KEYBOARD_PATTERN' // { pattern }, e.g. "qwer" or "1qaz"
+	| 'BREACHED'
+	| 'CUSTOM_PATTERN'
+	| 'INVALID_PATTERN'
+	| 'FORBIDDEN_WORD'
+	| 'PERSONAL_INFO' // { detail }: username, email, fullName, companyName or birthDate
+	| 'PREVIOUS_PASSWORD'
+	| 'USE_LONGER' // { length }
+	| 'MIX_CASE'
+	| 'ADD_NUMBERS_AND_SPECIAL'
+	| 'AVOID_PATTERNS'
+	| 'ADD_VARIETY'
+	| 'ADD_LENGTH';
+
+export type PasswordFeedbackParams = Record<string, string | number>;
+
+export interface PasswordFeedbackItem {
+	code: PasswordFeedbackCode;
+	params: PasswordFeedbackParams;
+	message: string; // in the requested locale
+}
+
+export interface PasswordFeedback {
+	warnings: PasswordFeedbackItem[]; // what is wrong with the password: failed requirements, then weak patterns
+	suggestions: PasswordFeedbackItem[]; // how to make it stronger
+}
+
+// A part of a password and the guesses an attacker needs for it on its own
+export interface PasswordSegment {
+	pattern:
+		| 'dictionary'
+		| 'keyboard'
+		| 'sequence'
+		| 'repeat'
+		| 'date'
+		| 'bruteforce';
+	token: string; // the characters of the password it covers
+	start: number;
+	end: number;
+	guesses: number;
+	word?: string; // dictionary: the word read, once l33t and reversal are undone
+	l33t?: boolean;
+	reversed?: boolean;
+	base?: string; // repeat: the part that is repeated
+}
+
+// Seconds to find a password, by attacker model
+export interface PasswordCrackTimes {
+	onlineThrottled: number; // 100 guesses an hour against a rate-limited login
+	onlineUnthrottled: number; // 10 guesses a second against a login
+	offlineSlowHash: number; // 10^4 guesses a second against bcrypt, scrypt or PBKDF2
+	offlineFastHash: number; // 10^10 guesses a second against a fast hash such as SHA-1
+}
+
+export interface PasswordStrengthEstimate {
+	guesses: number; // guesses an attacker trying the likeliest passwords first needs
+	guessesLog10: number;
+	crackTimes: PasswordCrackTimes;
+	segments: PasswordSegment[]; // the parts the estimate splits the password into
+}
+
+// Catalog keys: the feedback codes, the wording of rules with optional parts, the error
+// summary, and the names of the user's details that PERSONAL_INFO refers to
+export type PasswordMessageKey =
+	| PasswordFeedbackCode
+	| 'REQUIREMENTS_NOT_MET'
+	| 'LENGTH_RANGE' // { min, max }
+	| 'REPEATED_LIMIT' // { max }
+	| 'BREACH_UNCHECKED'
+	| 'DETAIL_USERNAME'
+	| 'DETAIL_EMAIL'
+	| 'DETAIL_FULL_NAME'
+	| 'DETAIL_COMPANY_NAME'
+	| 'DETAIL_BIRTH_DATE'
+	| 'DETAIL_ANY';
+
+// Text with {param} placeholders, or forms chosen by the `count` param: `one` when it is 1
+export type PasswordMessage = string | { one: string; other: string };
+
+export type PasswordMessageCatalog = Partial<
+	Record<PasswordMessageKey, PasswordMessage>
+>;
@@ -24,3 +24,41 @@ export {
 	isDevelopment,
 	getTimestamp,
 } from './src/utils/helpers.js';
+
+export { analyzeReDoS } from './src/utils/redos.js';
+export { explainRegex, regexToText, r2t } from './src/utils/explain.js';
+export { synthesizeRegex } from './src/utils/synthesis.js';
+export { generateMatching, generateNonMatching } from './src/utils/generate.js';
+export { fuzzRule } from './src/utils/fuzz.js';
+export {
+	luhnCheck,
+	isValidIban,
+	isValidIsbn10,
+	isValidIsbn13,
+	isValidAbaRouting,
+	isValidEan,
+	isValidVin,
+} from './src/utils/checksums.js';
+export { detectCardBrand, formatCardNumber } from './src/utils/cards.js';
+export { parsePhone } from './src/utils/phone.js';
+export { isValidPostalCode, normalizePostalCode } from './src/utils/postal.js';
+export {
+	isValidAadhaar,
+	isValidCccd,
+	isValidChineseResidentId,
+	isValidCnpj,
+	isValidCpf,
+	isValidEuVat,
+	isValidNationalId,
+	isValidNino,
+	isValidPan,
+	isValidSin,
+	isValidSsn,
+} from './src/utils/nationalIds.js';
+export { parseDate, validateDate } from './src/utils/dates.js';
+export { numericRangeSource } from './src/utils/numericRange.js';
+export { extractEntities } from './src/utils/entities.js';
+export {
+	PatternRegistry,
+	patternRegistry,
+} from './src/utils/patternRegistry.js';